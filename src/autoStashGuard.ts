@@ -0,0 +1,314 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { type GitService } from './gitService';
+import { type RepositoryManager } from './repositoryManager';
+import { StashItem } from './stashItem';
+import { getConfig } from './utils';
+import type { GitExtension, Repository } from './types/git';
+
+/** A stash the guard made before a checkout or pull. */
+export interface AutoStashRecord {
+    sha: string;
+    /** Repository top-level directory */
+    repoRoot: string;
+    /** Branch the changes were on — the stash is offered back when it is checked out again */
+    branch: string;
+    operation: 'checkout' | 'pull';
+    /** Branch that was checked out (checkout only) */
+    target?: string;
+    /** Pull request whose head was checked out (PR checkouts only) */
+    pullRequest?: number;
+}
+
+export type AutoStashOperation =
+    | { kind: 'checkout'; target: string; pullRequest?: number }
+    | { kind: 'pull' };
+
+/** `off` — never stash; `ask` — offer to; `always` — stash and re-apply without asking. */
+type AutoStashMode = 'off' | 'ask' | 'always';
+
+/**
+ * Opt-in guard around branch switches and pulls: with a dirty working tree it
+ * stashes first ("auto: before checkout of X"), and re-applies the stash when
+ * the original branch is checked out again — however that happens, since the
+ * built-in Git extension's repository state events report every HEAD change.
+ * A pull re-applies straight away, like `git pull --autostash`.
+ *
+ * Auto-stashes are remembered by SHA in workspace state so the tree can show
+ * them apart; records of stashes that no longer exist are pruned.
+ */
+export class AutoStashGuard implements vscode.Disposable {
+    private static readonly STATE_KEY = 'superprompt-forge.autoStashes';
+
+    private _heads = new Map<string, string | undefined>();
+    private _offering = new Set<string>();
+    private _disposables: vscode.Disposable[] = [];
+
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    private readonly _onDidChangeHead = new vscode.EventEmitter<{ root: string; head: string | undefined }>();
+    /** HEAD moved in a repository the built-in Git extension knows. */
+    readonly onDidChangeHead = this._onDidChangeHead.event;
+
+    constructor(
+        private readonly _repositories: RepositoryManager,
+        private readonly _state: vscode.Memento,
+        private readonly _outputChannel?: vscode.OutputChannel,
+    ) {}
+
+    static message(operation: AutoStashOperation): string {
+        return operation.kind === 'checkout'
+            ? `auto: before checkout of ${operation.target}`
+            : 'auto: before pull';
+    }
+
+    private get _records(): AutoStashRecord[] {
+        return this._state.get<AutoStashRecord[]>(AutoStashGuard.STATE_KEY, []);
+    }
+
+    private async _setRecords(records: AutoStashRecord[]): Promise<void> {
+        await this._state.update(AutoStashGuard.STATE_KEY, records);
+        this._onDidChange.fire();
+    }
+
+    private get _mode(): AutoStashMode {
+        return getConfig<AutoStashMode>('autoStash.mode', 'off');
+    }
+
+    /** Checking out a pull request always protects local work, unless the user asked to be asked. */
+    private _modeFor(operation: AutoStashOperation): AutoStashMode {
+        const mode = this._mode;
+        return operation.kind === 'checkout' && operation.pullRequest !== undefined && mode === 'off'
+            ? 'always'
+            : mode;
+    }
+
+    /** The guard's record for a stash, if the guard made it. */
+    recordFor(sha: string): AutoStashRecord | undefined {
+        return this._records.find((r) => r.sha === sha);
+    }
+
+    /**
+     * Run a checkout or pull behind the guard. Returns false when the user
+     * cancelled at the prompt; errors from `action` are rethrown after the
+     * stash (if one was made) has been put back.
+     */
+    async run(
+        gitService: GitService,
+        operation: AutoStashOperation,
+        action: () => Thenable<void>,
+    ): Promise<boolean> {
+        let record: AutoStashRecord | undefined;
+        const mode = this._modeFor(operation);
+        if (mode !== 'off' && (await gitService.hasChanges())) {
+            if (mode === 'ask') {
+                const what =
+                    operation.kind === 'checkout' ? `checking out ${operation.target}` : 'pulling';
+                const choice = await vscode.window.showWarningMessage(
+                    `You have uncommitted changes. Stash them before ${what}?`,
+                    {
+                        modal: true,
+                        detail:
+                            operation.kind === 'checkout'
+                                ? 'They are offered back when you return to this branch.'
+                                : 'They are re-applied after the pull.',
+                    },
+                    'Stash & Continue',
+                    'Continue Without Stashing',
+                );
+                if (!choice) {
+                    return false;
+                }
+                if (choice === 'Stash & Continue') {
+                    record = await this._stash(gitService, operation);
+                }
+            } else {
+                record = await this._stash(gitService, operation);
+            }
+        }
+
+        try {
+            await action();
+        } catch (e: unknown) {
+            // Leave the working tree as we found it
+            if (record) {
+                await this._reapply(record);
+            }
+            throw e;
+        }
+        if (record && operation.kind === 'pull') {
+            await this._reapply(record);
+        }
+        return true;
+    }
+
+    private async _stash(
+        gitService: GitService,
+        operation: AutoStashOperation,
+    ): Promise<AutoStashRecord | undefined> {
+        const repoRoot = (await gitService.getRepositoryRoot()) ?? gitService.workspaceRoot;
+        const branch = await gitService.getCurrentBranch();
+        const mode = getConfig<boolean>('defaultIncludeUntracked', false) ? 'untracked' : 'all';
+        const [previous] = await gitService.getStashList();
+        await gitService.createStash(AutoStashGuard.message(operation), mode);
+
+        // `stash push` exits 0 with "No local changes to save" — the top stash is then an older one
+        const [entry] = await gitService.getStashList();
+        if (!entry || entry.sha === previous?.sha || !repoRoot || !branch) {
+            return undefined;
+        }
+        const record: AutoStashRecord = {
+            sha: entry.sha,
+            repoRoot,
+            branch,
+            operation: operation.kind,
+            ...(operation.kind === 'checkout'
+                ? { target: operation.target, pullRequest: operation.pullRequest }
+                : {}),
+        };
+        await this._setRecords([...this._records, record]);
+        this._outputChannel?.appendLine(
+            `[AUTOSTASH] ${entry.sha} ${AutoStashGuard.message(operation)}`,
+        );
+        return record;
+    }
+
+    /** The newest auto-stash made before checking out pull request `prNumber` in `repoRoot`. */
+    recordForPullRequest(repoRoot: string, prNumber: number): AutoStashRecord | undefined {
+        return this._records
+            .filter((r) => r.repoRoot === repoRoot && r.pullRequest === prNumber)
+            .pop();
+    }
+
+    /**
+     * Check out `branch` again and pop `record` — the stash made when leaving
+     * it — straight away, without the offer a plain return would get.
+     */
+    async returnTo(gitService: GitService, branch: string, record?: AutoStashRecord): Promise<void> {
+        if (record) {
+            this._offering.add(record.sha);
+        }
+        try {
+            await gitService.checkoutBranch(branch);
+            if (record) {
+                this._heads.set(record.repoRoot, branch);
+                await this._reapply(record);
+            }
+        } finally {
+            if (record) {
+                this._offering.delete(record.sha);
+            }
+        }
+    }
+
+    /** Pop the stash through the regular command, so conflicts get the assistant. */
+    private async _reapply(record: AutoStashRecord): Promise<void> {
+        const gitService = this._repositories.get(record.repoRoot);
+        const entry = await gitService.findStashBySha(record.sha);
+        if (!entry) {
+            await this.prune();
+            return;
+        }
+        await vscode.commands.executeCommand(
+            'superprompt-forge.pop',
+            new StashItem(entry, undefined, undefined, record.repoRoot),
+        );
+        await this.prune();
+    }
+
+    /** Forget records whose stash was popped or dropped. */
+    async prune(): Promise<void> {
+        const records = this._records;
+        const live: AutoStashRecord[] = [];
+        for (const record of records) {
+            // Keep records of repositories that are not open right now
+            const known = this._repositories.repositories.some((r) => r.root === record.repoRoot);
+            if (
+                !known ||
+                (await this._repositories.get(record.repoRoot).findStashBySha(record.sha))
+            ) {
+                live.push(record);
+            }
+        }
+        if (live.length !== records.length) {
+            await this._setRecords(live);
+        }
+    }
+
+    /**
+     * Follow HEAD in every repository the built-in Git extension knows, to
+     * offer an auto-stash back when its branch is checked out again.
+     */
+    async attachGitExtension(): Promise<void> {
+        const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+        if (!extension) {
+            this._outputChannel?.appendLine('[AUTOSTASH] vscode.git not available');
+            return;
+        }
+        const exports = extension.isActive ? extension.exports : await extension.activate();
+        if (!exports.enabled) {
+            return;
+        }
+        const git = exports.getAPI(1);
+        const watch = (repository: Repository) => {
+            const root = path.normalize(repository.rootUri.fsPath);
+            this._heads.set(root, repository.state.HEAD?.name);
+            this._disposables.push(
+                repository.state.onDidChange(() =>
+                    this._onHeadChange(root, repository.state.HEAD?.name),
+                ),
+            );
+        };
+        git.repositories.forEach(watch);
+        this._disposables.push(git.onDidOpenRepository(watch));
+    }
+
+    private _onHeadChange(root: string, head: string | undefined): void {
+        const previous = this._heads.get(root);
+        this._heads.set(root, head);
+        if (head === previous) {
+            return;
+        }
+        this._onDidChangeHead.fire({ root, head });
+        if (!head) {
+            return;
+        }
+        const record = this._records.find(
+            (r) => r.operation === 'checkout' && r.repoRoot === root && r.branch === head,
+        );
+        // Stashes made around PR checkouts are offered back even with the guard off
+        if (
+            !record ||
+            (this._mode === 'off' && record.pullRequest === undefined) ||
+            this._offering.has(record.sha)
+        ) {
+            return;
+        }
+        this._offering.add(record.sha);
+        void this._offer(record).finally(() => this._offering.delete(record.sha));
+    }
+
+    private async _offer(record: AutoStashRecord): Promise<void> {
+        if (this._mode !== 'always') {
+            const choice = await vscode.window.showInformationMessage(
+                `Back on ${record.branch} — re-apply the changes auto-stashed before checking out ${record.target}?`,
+                'Re-apply',
+                'Keep Stashed',
+            );
+            if (choice !== 'Re-apply') {
+                return;
+            }
+        }
+        // The user may have moved on while the message was open
+        if (this._heads.get(record.repoRoot) === record.branch) {
+            await this._reapply(record);
+        }
+    }
+
+    dispose(): void {
+        this._disposables.forEach((d) => d.dispose());
+        this._onDidChange.dispose();
+        this._onDidChangeHead.dispose();
+    }
+}
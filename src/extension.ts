@@ -1,20 +1,52 @@
 import * as vscode from 'vscode';
-import { GitService } from './gitService';
+import * as path from 'path';
+import { GitService, StashChangedError, type DiffHunk, type StashDiffBase } from './gitService';
 import {
     StashProvider,
     StashFileDecorationProvider,
     StashDragAndDropController,
 } from './stashProvider';
-import { StashItem, type StashFileItem } from './stashItem';
+import {
+    StashItem,
+    StashFileItem,
+    type DroppedStashItem,
+    type RepositoryItem,
+} from './stashItem';
 import { StashContentProvider } from './stashContentProvider';
 import { StashPanel } from './stashPanel';
+import { RepositoryManager } from './repositoryManager';
+import { AutoStashGuard } from './autoStashGuard';
+import { StashConflictAssistant } from './stashConflictAssistant';
+import {
+    STASH_BUNDLE_MANIFEST,
+    buildStashBundle,
+    parseStashBundle,
+    readStashBundle,
+    suggestBundleName,
+    writeStashBundle,
+    type StashBundleFiles,
+} from './stashBundle';
+import {
+    describeStaleReason,
+    findStaleStashes,
+    isBranchGone,
+    loadBranchState,
+} from './stashPolicy';
+import { StashSearchIndex } from './stashSearch';
 import { AuthService } from './authService';
-import { GistService } from './gistService';
+import { GistService, type GistNote } from './gistService';
+import { NotesCache } from './notesCache';
 import { GistNotesProvider } from './gistNotesProvider';
+import { LinkedNotesLens } from './linkedNotesLens';
+import { linkCovers } from './noteLinks';
+import { NoteSearchIndex, normalizeTags } from './noteSearch';
+import { planNoteImport, readNotesFolder, writeNoteId, writeNotesFolder } from './noteArchive';
 import { type GistNoteItem } from './gistNoteItem';
-import { PrService } from './prService';
+import { PrService, type PullRequest } from './prService';
 import { PrProvider } from './prProvider';
 import { type PrItem } from './prItem';
+import { PrCheckoutManager } from './prCheckout';
+import { PrReviewDrafts } from './prReviewDrafts';
 import { IssueService } from './issueService';
 import { IssueProvider } from './issueProvider';
 import { type IssueItem } from './issueItem';
@@ -31,8 +63,8 @@ import { GoogleDriveProvider } from './googleDriveProvider';
 import { type DriveFileItem } from './googleDriveItem';
 import { ForgeOverviewProvider } from './forgeProvider';
 import { WikiService } from './wikiService';
-import { pickStash } from './uiUtils';
-import { extractErrorMessage, getConfig } from './utils';
+import { pickStash, pickDroppedStash, pickNoteTemplate } from './uiUtils';
+import { extractErrorMessage, getConfig, getStashAgePolicy } from './utils';
 import { type PanelServices, ensureGoogleCredentials } from './panelContext';
 
 export function activate(context: vscode.ExtensionContext) {
@@ -47,6 +79,21 @@ export function activate(context: vscode.ExtensionContext) {
         outputChannel,
     );
 
+    // Every repository in the workspace (folders + submodules), each with its own GitService
+    const repositories = new RepositoryManager(gitService, outputChannel);
+    context.subscriptions.push(repositories);
+    void repositories.discover();
+
+    // Conflict assistant — tracks conflicts left by a stash apply/pop
+    const conflictAssistant = new StashConflictAssistant(
+        gitService,
+        vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+    );
+    context.subscriptions.push(conflictAssistant);
+
+    // Full-text index of stash diffs, built lazily and shared by the tree and the webview
+    const stashSearchIndex = new StashSearchIndex();
+
     // 15a: AuthService — GitHub OAuth for Gist Notes
     const authService = new AuthService(outputChannel);
     context.subscriptions.push(authService);
@@ -64,14 +111,34 @@ export function activate(context: vscode.ExtensionContext) {
     // 16a: GistService — GitHub Gist API for notes
     const gistService = new GistService(authService, outputChannel);
 
+    // Offline copies of notes; edits made offline are queued and synced later
+    const notesCache = new NotesCache(gistService, context.globalState, outputChannel);
+    context.subscriptions.push(notesCache);
+
     // 17c: GistNotesProvider — tree data provider for notes sidebar
-    const gistNotesProvider = new GistNotesProvider(gistService, authService, outputChannel);
+    const gistNotesProvider = new GistNotesProvider(
+        notesCache,
+        gitService,
+        authService,
+        outputChannel,
+    );
     context.subscriptions.push(gistNotesProvider);
 
+    // Notes linked to the repository and its files, surfaced in the editor
+    const linkedNotesLens = new LinkedNotesLens(repositories);
+    context.subscriptions.push(
+        linkedNotesLens,
+        vscode.languages.registerCodeLensProvider({ scheme: 'file' }, linkedNotesLens),
+    );
+    gistNotesProvider.setLinkedNotesLens(linkedNotesLens);
+    context.subscriptions.push(
+        notesCache.onDidChange(() => gistNotesProvider.refresh('notes-sync')),
+    );
+
     // Register the gist notes tree view
     const notesTreeView = vscode.window.createTreeView('gistNotesView', {
         treeDataProvider: gistNotesProvider,
-        showCollapseAll: false,
+        showCollapseAll: true,
         canSelectMany: true,
     });
     context.subscriptions.push(notesTreeView);
@@ -212,6 +279,7 @@ export function activate(context: vscode.ExtensionContext) {
         outputChannel,
         authService,
         gistService,
+        notesCache,
         prService,
         issueService,
         mattermostService,
@@ -219,6 +287,10 @@ export function activate(context: vscode.ExtensionContext) {
         driveService,
         calendarService,
         wikiService,
+        conflictAssistant,
+        stashSearchIndex,
+        // Review drafts survive the panel closing and reloads
+        reviewDrafts: new PrReviewDrafts(context.workspaceState, prService, outputChannel),
     };
 
     // GoogleDriveProvider — tree data provider for Google Drive sidebar
@@ -312,12 +384,12 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     // Register superprompt-forge: URI scheme for side-by-side diff viewing
-    const contentProvider = new StashContentProvider(gitService);
+    const contentProvider = new StashContentProvider(repositories);
     context.subscriptions.push(
         vscode.workspace.registerTextDocumentContentProvider('superprompt-forge', contentProvider),
     );
 
-    const stashProvider = new StashProvider(gitService, outputChannel);
+    const stashProvider = new StashProvider(repositories, outputChannel);
 
     // Register FileDecorationProvider for superprompt-forge-file: URIs (SCM-style badges)
     const fileDecorationProvider = new StashFileDecorationProvider();
@@ -331,6 +403,27 @@ export function activate(context: vscode.ExtensionContext) {
     statusBarItem.tooltip = 'Superprompt Forge — Click to view stashes';
     context.subscriptions.push(statusBarItem);
     stashProvider.setStatusBarItem(statusBarItem);
+    stashProvider.setSearchIndex(stashSearchIndex);
+
+    // Opt-in auto-stash around checkouts and pulls; follows HEAD through the built-in Git extension
+    const autoStashGuard = new AutoStashGuard(repositories, context.workspaceState, outputChannel);
+    context.subscriptions.push(autoStashGuard);
+    stashProvider.setAutoStashGuard(autoStashGuard);
+    autoStashGuard.attachGitExtension().catch((e: unknown) => {
+        outputChannel.appendLine(`[AUTOSTASH] Git extension unavailable: ${e}`);
+    });
+
+    // Local PR checkouts — stash around the switch, review threads in the editor
+    const prCheckout = new PrCheckoutManager(
+        gitService,
+        prService,
+        autoStashGuard,
+        context.workspaceState,
+        outputChannel,
+    );
+    context.subscriptions.push(prCheckout);
+    panelServices.prCheckout = prCheckout;
+    void prCheckout.restore();
 
     // Drag & Drop controller for file-to-editor and stash reorder
     const dndController = new StashDragAndDropController(outputChannel);
@@ -345,20 +438,44 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(treeView);
     stashProvider.setTreeView(treeView);
 
-    // 1e-ii: Watch git stash ref files for changes
-    // TODO: multi-root — watch all workspace folder .git directories
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri;
-    if (workspaceRoot) {
-        const stashRefPattern = new vscode.RelativePattern(
-            workspaceRoot,
-            '.git/{refs/stash,logs/refs/stash}',
-        );
-        const gitWatcher = vscode.workspace.createFileSystemWatcher(stashRefPattern);
-        gitWatcher.onDidChange(() => { stashProvider.refresh('git-stash-changed'); forgeOverviewProvider.refresh('git-stash-changed'); });
-        gitWatcher.onDidCreate(() => { stashProvider.refresh('git-stash-created'); forgeOverviewProvider.refresh('git-stash-created'); });
-        gitWatcher.onDidDelete(() => { stashProvider.refresh('git-stash-deleted'); forgeOverviewProvider.refresh('git-stash-deleted'); });
-        context.subscriptions.push(gitWatcher);
-    }
+    // 1e-ii: Watch each repository's stash ref files for changes
+    context.subscriptions.push(
+        repositories.onDidChangeStashes((repo) => {
+            stashProvider.refresh(`git-stash-changed (${repo.name})`);
+            forgeOverviewProvider.refresh('git-stash-changed');
+            void autoStashGuard.prune();
+        }),
+        repositories.onDidChangeRepositories(() => {
+            stashProvider.refresh('repositories-changed');
+        }),
+    );
+
+    // Multi-repo: tree items carry their repository root; commands invoked
+    // without an item ask which repository when more than one qualifies
+    const gitFor = (item?: { repoRoot?: string }) => repositories.get(item?.repoRoot);
+
+    const reposWithStashes = () =>
+        repositories.filter(async (r) => (await r.gitService.getStashList()).length > 0);
+
+    const pickStashItem = async (prompt: string): Promise<StashItem | undefined> => {
+        const withStashes = await reposWithStashes();
+        if (withStashes.length === 0) {
+            vscode.window.showInformationMessage('No stashes available');
+            return undefined;
+        }
+        const repo = await repositories.pick('Select a repository', withStashes);
+        const entry = repo && (await pickStash(repo.gitService, prompt));
+        return entry ? new StashItem(entry, undefined, undefined, repo.root) : undefined;
+    };
+
+    const pickRepoWithChanges = async () => {
+        const withChanges = await repositories.filter((r) => r.gitService.hasChanges());
+        if (withChanges.length === 0) {
+            vscode.window.showInformationMessage('No local changes to stash');
+            return undefined;
+        }
+        return repositories.pick('Stash changes in which repository?', withChanges);
+    };
 
     // 1e-iii: Refresh on window focus (e.g. after external git operations)
     context.subscriptions.push(
@@ -394,10 +511,9 @@ export function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(
         vscode.commands.registerCommand('superprompt-forge.stash', async () => {
-            // 2c: Guard — no changes means nothing to stash
-            const hasChanges = await gitService.hasChanges();
-            if (!hasChanges) {
-                vscode.window.showInformationMessage('No local changes to stash');
+            // 2c: Guard — no changes means nothing to stash; ask which repo if several have some
+            const repo = await pickRepoWithChanges();
+            if (!repo) {
                 return;
             }
 
@@ -491,7 +607,7 @@ export function activate(context: vscode.ExtensionContext) {
                         cancellable: false,
                     },
                     async () => {
-                        await gitService.createStash(stashMessage, mode);
+                        await repo.gitService.createStash(stashMessage, mode);
                     },
                 );
                 vscode.window.showInformationMessage('Stash created successfully');
@@ -500,9 +616,14 @@ export function activate(context: vscode.ExtensionContext) {
                 // Reveal the newly created stash (always at index 0)
                 setTimeout(async () => {
                     try {
-                        const stashes = await gitService.getStashList();
+                        const stashes = await repo.gitService.getStashList();
                         if (stashes.length > 0) {
-                            const newItem = new StashItem(stashes[0]);
+                            const newItem = new StashItem(
+                                stashes[0],
+                                undefined,
+                                undefined,
+                                repo.root,
+                            );
                             await treeView.reveal(newItem, {
                                 select: true,
                                 focus: false,
@@ -520,14 +641,164 @@ export function activate(context: vscode.ExtensionContext) {
         }),
     );
 
+    // Partial stash — stash only the chosen files, optionally narrowed to hunks.
+    // Invoked from the tree title menu, the palette, or the Source Control view
+    // (where VS Code passes the clicked + selected resource states).
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'superprompt-forge.stashSelected',
+            async (
+                resource?: vscode.SourceControlResourceState,
+                allResources?: vscode.SourceControlResourceState[],
+            ) => {
+                // From the Source Control view the clicked resource decides the repository
+                const repo = resource
+                    ? repositories.forUri(resource.resourceUri)
+                    : await pickRepoWithChanges();
+                if (!repo) {
+                    return;
+                }
+                const repoGit = repo.gitService;
+                const changes = await repoGit.getWorkingChanges();
+                if (changes.length === 0) {
+                    vscode.window.showInformationMessage('No local changes to stash');
+                    return;
+                }
+
+                // Pre-select whatever was selected in the Source Control view
+                const scmSelection = allResources && allResources.length > 0
+                    ? allResources
+                    : resource ? [resource] : [];
+                const preselected = new Set(
+                    scmSelection.map((r) =>
+                        path.relative(repo.root, r.resourceUri.fsPath).split(path.sep).join('/'),
+                    ),
+                );
+
+                const fileItems = changes.map((change) => {
+                    const parts = change.path.split('/');
+                    const name = parts.pop() ?? change.path;
+                    return {
+                        label: name,
+                        description: `${parts.join('/')}${parts.length > 0 ? ' · ' : ''}${change.status === '?' ? 'Untracked' : change.status}`,
+                        picked: preselected.has(change.path),
+                        change,
+                    };
+                });
+                const pickedFiles = await vscode.window.showQuickPick(fileItems, {
+                    canPickMany: true,
+                    placeHolder: 'Select files to stash',
+                });
+                if (!pickedFiles || pickedFiles.length === 0) {
+                    return;
+                }
+
+                const trackedFiles = pickedFiles.filter((f) => f.change.status !== '?');
+                const untrackedPaths = pickedFiles
+                    .filter((f) => f.change.status === '?')
+                    .map((f) => f.change.path);
+
+                // Whole files, or narrow tracked files down to individual hunks
+                let hunks: DiffHunk[] = [];
+                if (trackedFiles.length > 0) {
+                    const granularity = await vscode.window.showQuickPick(
+                        [
+                            { label: 'Whole Files', description: 'Stash every change in the selected files' },
+                            { label: 'Select Hunks…', description: 'Pick individual hunks to stash' },
+                        ],
+                        { placeHolder: 'Stash whole files or individual hunks?' },
+                    );
+                    if (!granularity) {
+                        return;
+                    }
+                    if (granularity.label === 'Select Hunks…') {
+                        const hunkItems: (vscode.QuickPickItem & { hunk: DiffHunk })[] = [];
+                        for (const file of trackedFiles) {
+                            const fileHunks = await repoGit.getWorkingFileHunks(file.change.path);
+                            for (const hunk of fileHunks) {
+                                const firstChange = hunk.lines.find(
+                                    (l) => l.startsWith('+') || l.startsWith('-'),
+                                );
+                                hunkItems.push({
+                                    label: `${file.label} ${hunk.header.match(/^@@[^@]*@@/)?.[0] ?? ''}`,
+                                    description: hunk.header.replace(/^@@[^@]*@@\s*/, ''),
+                                    detail: firstChange?.trim(),
+                                    picked: true,
+                                    hunk,
+                                });
+                            }
+                        }
+                        if (hunkItems.length === 0) {
+                            vscode.window.showInformationMessage(
+                                'The selected files have no text hunks to choose from',
+                            );
+                            return;
+                        }
+                        const pickedHunks = await vscode.window.showQuickPick(hunkItems, {
+                            canPickMany: true,
+                            placeHolder: 'Select hunks to stash',
+                            matchOnDescription: true,
+                            matchOnDetail: true,
+                        });
+                        if (!pickedHunks || pickedHunks.length === 0) {
+                            return;
+                        }
+                        hunks = pickedHunks.map((h) => h.hunk);
+                    }
+                }
+
+                const message = await vscode.window.showInputBox({
+                    prompt: 'Enter stash message (optional)',
+                    placeHolder: 'Stash message',
+                });
+                if (message === undefined) {
+                    return;
+                }
+
+                try {
+                    await vscode.window.withProgress(
+                        {
+                            location: vscode.ProgressLocation.Notification,
+                            title: 'Creating stash…',
+                            cancellable: false,
+                        },
+                        async () => {
+                            if (hunks.length > 0) {
+                                await repoGit.createPartialStash(
+                                    message || undefined,
+                                    hunks,
+                                    untrackedPaths,
+                                );
+                            } else {
+                                await repoGit.createStash(
+                                    message || undefined,
+                                    untrackedPaths.length > 0 ? 'untracked' : 'all',
+                                    pickedFiles.map((f) => f.change.path),
+                                );
+                            }
+                        },
+                    );
+                    vscode.window.showInformationMessage(
+                        hunks.length > 0
+                            ? `Stashed ${hunks.length} hunk${hunks.length !== 1 ? 's' : ''}`
+                            : `Stashed ${pickedFiles.length} file${pickedFiles.length !== 1 ? 's' : ''}`,
+                    );
+                    stashProvider.refresh('post-command');
+                } catch (error: unknown) {
+                    const msg = extractErrorMessage(error);
+                    vscode.window.showErrorMessage(`Failed to create stash: ${msg}`);
+                }
+            },
+        ),
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('superprompt-forge.apply', async (item?: StashItem) => {
             if (!item) {
-                const entry = await pickStash(gitService, 'Select a stash to apply');
-                if (!entry) {
+                item = await pickStashItem('Select a stash to apply');
+                if (!item) {
                     return;
                 }
-                item = new StashItem(entry);
             }
 
             // 3d: Progress indicator
@@ -537,17 +808,25 @@ export function activate(context: vscode.ExtensionContext) {
                     title: `Applying ${item.stashEntry.name}…`,
                     cancellable: false,
                 },
-                async () => gitService.applyStash(item.stashEntry.index),
+                async () => gitFor(item).applyStash(item.stashEntry.index, item.stashEntry.sha),
             );
 
             // 3c: Conflict detection
             if (result.success && result.conflicts) {
-                vscode.window.showWarningMessage(
-                    `Applied ${item.stashEntry.name} with merge conflicts. Resolve them manually.`,
-                );
+                await conflictAssistant.begin(item.stashEntry, 'apply', gitFor(item));
                 stashProvider.setMessage(
                     '$(warning) Last apply had merge conflicts — resolve manually',
                 );
+                vscode.window
+                    .showWarningMessage(
+                        `Applied ${item.stashEntry.name} with merge conflicts.`,
+                        'Resolve Conflicts…',
+                    )
+                    .then((choice) => {
+                        if (choice) {
+                            vscode.commands.executeCommand('superprompt-forge.resolveConflicts');
+                        }
+                    });
             } else if (result.success) {
                 vscode.window.showInformationMessage(`Applied ${item.stashEntry.name}`);
                 stashProvider.setMessage('');
@@ -561,11 +840,10 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.commands.registerCommand('superprompt-forge.pop', async (item?: StashItem) => {
             if (!item) {
-                const entry = await pickStash(gitService, 'Select a stash to pop');
-                if (!entry) {
+                item = await pickStashItem('Select a stash to pop');
+                if (!item) {
                     return;
                 }
-                item = new StashItem(entry);
             }
 
             // 4d: Progress indicator
@@ -575,15 +853,23 @@ export function activate(context: vscode.ExtensionContext) {
                     title: `Popping ${item.stashEntry.name}…`,
                     cancellable: false,
                 },
-                async () => gitService.popStash(item.stashEntry.index),
+                async () => gitFor(item).popStash(item.stashEntry.index, item.stashEntry.sha),
             );
 
             // 4c: Conflict detection — stash remains in list on conflict
             if (result.success && result.conflicts) {
-                vscode.window.showWarningMessage(
-                    `Stash applied with conflicts but was NOT removed. Resolve conflicts, then drop manually.`,
-                );
+                await conflictAssistant.begin(item.stashEntry, 'pop', gitFor(item));
                 stashProvider.setMessage('$(warning) Last pop had conflicts — stash kept in list');
+                vscode.window
+                    .showWarningMessage(
+                        `Stash applied with conflicts but was NOT removed. Resolve conflicts, then drop it.`,
+                        'Resolve Conflicts…',
+                    )
+                    .then((choice) => {
+                        if (choice) {
+                            vscode.commands.executeCommand('superprompt-forge.resolveConflicts');
+                        }
+                    });
             } else if (result.success) {
                 vscode.window.showInformationMessage(`Popped ${item.stashEntry.name}`);
                 stashProvider.setMessage('');
@@ -594,14 +880,161 @@ export function activate(context: vscode.ExtensionContext) {
         }),
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'superprompt-forge.branchFromStash',
+            async (item?: StashItem) => {
+                if (!item) {
+                    item = await pickStashItem('Select a stash to turn into a branch');
+                    if (!item) {
+                        return;
+                    }
+                }
+                const entry = item.stashEntry;
+                const repoGit = gitFor(item);
+
+                const existing = new Set(await repoGit.listBranches());
+                const branchName = await vscode.window.showInputBox({
+                    prompt: `Create a branch from ${entry.name} at the commit it was stashed on`,
+                    value: GitService.suggestBranchName(entry),
+                    validateInput: (value) => {
+                        const name = value.trim();
+                        if (!name) {
+                            return 'Branch name is required';
+                        }
+                        if (!GitService.isValidBranchName(name)) {
+                            return 'Not a valid branch name';
+                        }
+                        if (existing.has(name)) {
+                            return `Branch "${name}" already exists`;
+                        }
+                        return undefined;
+                    },
+                });
+                if (!branchName) {
+                    return;
+                }
+
+                try {
+                    await vscode.window.withProgress(
+                        {
+                            location: vscode.ProgressLocation.Notification,
+                            title: `Creating branch ${branchName.trim()}…`,
+                            cancellable: false,
+                        },
+                        async () =>
+                            repoGit.createBranchFromStash(
+                                entry.index,
+                                branchName.trim(),
+                                entry.sha,
+                            ),
+                    );
+                    vscode.window.showInformationMessage(
+                        `Checked out new branch "${branchName.trim()}" with ${entry.name} applied`,
+                    );
+                    stashProvider.setMessage('');
+                } catch (e: unknown) {
+                    vscode.window.showErrorMessage(
+                        `Failed to create branch from stash: ${extractErrorMessage(e)}`,
+                    );
+                }
+                stashProvider.refresh('post-command');
+                StashPanel.refreshBranchesIfOpen();
+            },
+        ),
+    );
+
+    // Stash metadata sidecar: tags, description and pinning (git notes keyed by SHA)
+    const resolveStashForMetadata = async (item: StashItem | undefined, prompt: string) => {
+        const picked = item ?? (await pickStashItem(prompt));
+        if (!picked) {
+            return undefined;
+        }
+        const entry = picked.stashEntry;
+        const repoGit = gitFor(picked);
+        const current = (await repoGit.getStashMetadata([entry.sha])).get(entry.sha) ?? {
+            tags: [],
+            description: '',
+            pinned: false,
+        };
+        return { entry, current, repoGit };
+    };
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'superprompt-forge.editStashMetadata',
+            async (item?: StashItem) => {
+                const resolved = await resolveStashForMetadata(item, 'Select a stash to describe');
+                if (!resolved) {
+                    return;
+                }
+                const { entry, current, repoGit } = resolved;
+
+                const tagsInput = await vscode.window.showInputBox({
+                    title: `Tags for ${entry.name}`,
+                    prompt: 'Comma-separated tags (leave empty for none)',
+                    placeHolder: 'e.g. wip, auth, needs-review',
+                    value: current.tags.join(', '),
+                });
+                if (tagsInput === undefined) {
+                    return;
+                }
+                const description = await vscode.window.showInputBox({
+                    title: `Description for ${entry.name}`,
+                    prompt: 'Why was this parked? (leave empty for none)',
+                    value: current.description,
+                });
+                if (description === undefined) {
+                    return;
+                }
+
+                const tags = [
+                    ...new Set(
+                        tagsInput
+                            .split(',')
+                            .map((t) => t.trim().replace(/^#/, ''))
+                            .filter(Boolean),
+                    ),
+                ];
+                try {
+                    await repoGit.setStashMetadata(entry.sha, {
+                        ...current,
+                        tags,
+                        description: description.trim(),
+                    });
+                    stashProvider.refresh('post-command');
+                } catch (e: unknown) {
+                    vscode.window.showErrorMessage(
+                        `Failed to save stash metadata: ${extractErrorMessage(e)}`,
+                    );
+                }
+            },
+        ),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('superprompt-forge.togglePinStash', async (item?: StashItem) => {
+            const resolved = await resolveStashForMetadata(item, 'Select a stash to pin or unpin');
+            if (!resolved) {
+                return;
+            }
+            const { entry, current, repoGit } = resolved;
+            try {
+                await repoGit.setStashMetadata(entry.sha, { ...current, pinned: !current.pinned });
+                stashProvider.refresh('post-command');
+            } catch (e: unknown) {
+                vscode.window.showErrorMessage(`Failed to pin stash: ${extractErrorMessage(e)}`);
+            }
+        }),
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('superprompt-forge.drop', async (item?: StashItem) => {
             if (!item) {
-                const entry = await pickStash(gitService, 'Select a stash to drop');
-                if (!entry) {
+                item = await pickStashItem('Select a stash to drop');
+                if (!item) {
                     return;
                 }
-                item = new StashItem(entry);
             }
 
             // 9a-ii: Respect confirmOnDrop setting
@@ -619,10 +1052,13 @@ export function activate(context: vscode.ExtensionContext) {
             }
 
             try {
-                await gitService.dropStash(item.stashEntry.index);
+                await gitFor(item).dropStash(item.stashEntry.index, item.stashEntry.sha);
                 vscode.window.showInformationMessage(`Dropped ${item.stashEntry.name}`);
                 stashProvider.refresh('post-command');
             } catch (e: unknown) {
+                if (e instanceof StashChangedError) {
+                    stashProvider.refresh('post-command');
+                }
                 vscode.window.showErrorMessage(`Failed to drop stash: ${extractErrorMessage(e)}`);
             }
         }),
@@ -631,15 +1067,17 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.commands.registerCommand('superprompt-forge.show', async (item?: StashItem) => {
             if (!item) {
-                const entry = await pickStash(gitService, 'Select a stash to show');
-                if (!entry) {
+                item = await pickStashItem('Select a stash to show');
+                if (!item) {
                     return;
                 }
-                item = new StashItem(entry);
             }
 
             try {
-                const diff = await gitService.getStashDiff(item.stashEntry.index);
+                const diff = await gitFor(item).getStashDiff(
+                    item.stashEntry.index,
+                    item.stashEntry.sha,
+                );
                 const document = await vscode.workspace.openTextDocument({
                     content: diff,
                     language: 'diff',
@@ -651,30 +1089,96 @@ export function activate(context: vscode.ExtensionContext) {
         }),
     );
 
-    // 6c: Per-file diff command — opens side-by-side diff editor
+    // 6c: Per-file diff command — opens side-by-side diff editor.
+    // The left side is the stash's parent, HEAD or the working tree (see setDiffBase).
+    const showStashFile = async (
+        fileItem: StashFileItem,
+        base: StashDiffBase,
+        selection?: vscode.Range,
+    ) => {
+        const index = fileItem.stashIndex;
+        const filePath = fileItem.filePath;
+        const fileName = filePath.split('/').pop() ?? filePath;
+
+        // Build URIs for the base (before) and stash (after) versions
+        // The SHA pins the content to the selected stash even if indices shift
+        const shaParam = fileItem.stashSha ? `&sha=${fileItem.stashSha}` : '';
+        const repoParam = fileItem.repoRoot ? `&repo=${encodeURIComponent(fileItem.repoRoot)}` : '';
+        const root = gitFor(fileItem).workspaceRoot;
+        const baseUri =
+            base === 'working' && root
+                ? vscode.Uri.file(path.join(root, filePath))
+                : vscode.Uri.parse(
+                      `superprompt-forge:/${filePath}?ref=${base === 'head' ? 'head' : 'parent'}&index=${index}${shaParam}${repoParam}`,
+                  );
+        const stashUri = vscode.Uri.parse(
+            `superprompt-forge:/${filePath}?ref=stash&index=${index}${shaParam}${repoParam}`,
+        );
+
+        const against = base === 'head' ? ' ↔ HEAD' : base === 'working' ? ' ↔ Working Tree' : '';
+        const title = `${fileName} (stash@{${index}}${against})`;
+
+        try {
+            await vscode.commands.executeCommand('vscode.diff', baseUri, stashUri, title, {
+                preview: true,
+                ...(selection ? { selection } : {}),
+            });
+        } catch (error: unknown) {
+            const message = extractErrorMessage(error);
+            vscode.window.showErrorMessage(`Failed to show file diff: ${message}`);
+        }
+    };
+
     context.subscriptions.push(
         vscode.commands.registerCommand('superprompt-forge.showFile', async (fileItem?: StashFileItem) => {
             if (!fileItem) {
                 return;
             }
-
-            const index = fileItem.stashIndex;
-            const filePath = fileItem.filePath;
-            const fileName = filePath.split('/').pop() ?? filePath;
-
-            // Build URIs for the parent (before) and stash (after) versions
-            const parentUri = vscode.Uri.parse(`superprompt-forge:/${filePath}?ref=parent&index=${index}`);
-            const stashUri = vscode.Uri.parse(`superprompt-forge:/${filePath}?ref=stash&index=${index}`);
-
-            const title = `${fileName} (stash@{${index}})`;
-
-            try {
-                await vscode.commands.executeCommand('vscode.diff', parentUri, stashUri, title, {
-                    preview: true,
-                });
-            } catch (error: unknown) {
-                const message = extractErrorMessage(error);
-                vscode.window.showErrorMessage(`Failed to show file diff: ${message}`);
+            await showStashFile(fileItem, stashProvider.diffBase);
+        }),
+        vscode.commands.registerCommand(
+            'superprompt-forge.showFileAgainstHead',
+            async (fileItem?: StashFileItem) => {
+                if (fileItem) {
+                    await showStashFile(fileItem, 'head');
+                }
+            },
+        ),
+        vscode.commands.registerCommand(
+            'superprompt-forge.showFileAgainstWorkingTree',
+            async (fileItem?: StashFileItem) => {
+                if (fileItem) {
+                    await showStashFile(fileItem, 'working');
+                }
+            },
+        ),
+        vscode.commands.registerCommand('superprompt-forge.setDiffBase', async () => {
+            const bases: { label: string; description: string; base: StashDiffBase }[] = [
+                {
+                    label: 'Stash Parent',
+                    description: 'What the stash changed when it was made',
+                    base: 'parent',
+                },
+                {
+                    label: 'HEAD',
+                    description: 'What applying would change in the current commit',
+                    base: 'head',
+                },
+                {
+                    label: 'Working Tree',
+                    description: 'What applying would change in your files right now',
+                    base: 'working',
+                },
+            ];
+            const picked = await vscode.window.showQuickPick(
+                bases.map((b) => ({
+                    ...b,
+                    label: `${b.base === stashProvider.diffBase ? '$(check) ' : ''}${b.label}`,
+                })),
+                { placeHolder: 'Compare stashed files against…' },
+            );
+            if (picked) {
+                stashProvider.setDiffBase(picked.base);
             }
         }),
     );
@@ -685,20 +1189,33 @@ export function activate(context: vscode.ExtensionContext) {
         }),
     );
 
+    // Conflict assistant: list conflicted files in the panel with per-file resolution
+    context.subscriptions.push(
+        vscode.commands.registerCommand('superprompt-forge.resolveConflicts', async () => {
+            if (!conflictAssistant.state) {
+                vscode.window.showInformationMessage(
+                    'No stash conflicts to resolve. Conflicts are tracked after a conflicting apply or pop.',
+                );
+                return;
+            }
+            await conflictAssistant.refresh();
+            StashPanel.createOrShow(context.extensionUri, panelServices).openConflicts();
+        }),
+    );
+
     // 6f: Show stash summary (stat view)
     context.subscriptions.push(
         vscode.commands.registerCommand('superprompt-forge.showStats', async (item?: StashItem) => {
             if (!item) {
-                const entry = await pickStash(gitService, 'Select a stash to show stats for');
-                if (!entry) {
+                item = await pickStashItem('Select a stash to show stats for');
+                if (!item) {
                     return;
                 }
-                item = new StashItem(entry);
             }
 
             try {
-                const { stdout, exitCode } = await gitService.execGitPublic(
-                    `stash show --stat "stash@{${item.stashEntry.index}}"`,
+                const { stdout, exitCode } = await gitFor(item).execGitPublic(
+                    `stash show --stat "${item.stashEntry.sha || `stash@{${item.stashEntry.index}}`}"`,
                 );
                 if (exitCode !== 0 || !stdout) {
                     vscode.window.showInformationMessage('No stats available for this stash.');
@@ -718,17 +1235,30 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('superprompt-forge.clear', async () => {
-            const stashes = await gitService.getStashList();
-            if (stashes.length === 0) {
-                vscode.window.showInformationMessage('No stashes to clear');
+        vscode.commands.registerCommand('superprompt-forge.clear', async (repoItem?: RepositoryItem) => {
+            // Clearing is per repository — from a repository group, or ask which one
+            const withStashes = await reposWithStashes();
+            const repo =
+                repoItem?.repository ??
+                (withStashes.length > 0
+                    ? await repositories.pick(
+                          'Clear all stashes in which repository?',
+                          withStashes,
+                      )
+                    : undefined);
+            const stashes = repo ? await repo.gitService.getStashList() : [];
+            if (!repo || stashes.length === 0) {
+                if (withStashes.length === 0 || repoItem) {
+                    vscode.window.showInformationMessage('No stashes to clear');
+                }
                 return;
             }
+            const where = repositories.isMultiRepo ? ` in ${repo.name}` : '';
 
             // 9a-ii: Respect confirmOnClear setting
             if (getConfig<boolean>('confirmOnClear', true)) {
                 const confirm = await vscode.window.showWarningMessage(
-                    `Are you sure you want to clear all ${stashes.length} stash(es)? This cannot be undone.`,
+                    `Are you sure you want to clear all ${stashes.length} stash(es)${where}? This cannot be undone.`,
                     { modal: true },
                     'Yes',
                     'No',
@@ -740,8 +1270,8 @@ export function activate(context: vscode.ExtensionContext) {
             }
 
             try {
-                await gitService.clearStashes();
-                vscode.window.showInformationMessage('All stashes cleared');
+                await repo.gitService.clearStashes();
+                vscode.window.showInformationMessage(`All stashes cleared${where}`);
                 stashProvider.refresh('post-command');
             } catch (e: unknown) {
                 vscode.window.showErrorMessage(`Failed to clear stashes: ${extractErrorMessage(e)}`);
@@ -749,52 +1279,422 @@ export function activate(context: vscode.ExtensionContext) {
         }),
     );
 
-    // --- Search commands ---
-
+    // Recover dropped stashes: unreachable stash commits found via git fsck
     context.subscriptions.push(
-        vscode.commands.registerCommand('superprompt-forge.search', async () => {
-            const query = await vscode.window.showInputBox({
-                prompt: 'Search stashes by message, branch, or name',
-                placeHolder: 'e.g. login, feature/auth, stash@{2}',
-                value: stashProvider.searchQuery,
-            });
-            if (query === undefined) {
-                return;
-            } // Escape
-            stashProvider.setSearchQuery(query);
-            await vscode.commands.executeCommand(
-                'setContext',
-                'superprompt-forge.isSearching',
-                query.length > 0,
-            );
-        }),
-    );
+        vscode.commands.registerCommand(
+            'superprompt-forge.restoreDroppedStash',
+            async (item?: DroppedStashItem) => {
+                const repoGit = item
+                    ? gitFor(item)
+                    : (await repositories.pick('Recover a dropped stash in which repository?'))
+                          ?.gitService;
+                const entry =
+                    item?.droppedEntry ??
+                    (repoGit &&
+                        (await pickDroppedStash(repoGit, 'Select a dropped stash to restore')));
+                if (!repoGit || !entry) {
+                    return;
+                }
 
-    context.subscriptions.push(
-        vscode.commands.registerCommand('superprompt-forge.clearSearch', () => {
-            stashProvider.setSearchQuery('');
-            vscode.commands.executeCommand('setContext', 'superprompt-forge.isSearching', false);
-        }),
+                try {
+                    await repoGit.restoreDroppedStash(entry);
+                    vscode.window.showInformationMessage(
+                        `Restored "${entry.message}" as stash@{0}`,
+                    );
+                    stashProvider.refresh('post-command');
+                } catch (e: unknown) {
+                    vscode.window.showErrorMessage(
+                        `Failed to restore stash: ${extractErrorMessage(e)}`,
+                    );
+                }
+            },
+        ),
     );
 
-    // --- Multi-select batch commands ---
-
     context.subscriptions.push(
         vscode.commands.registerCommand(
-            'superprompt-forge.applySelected',
-            async (_item?: StashItem, allItems?: StashItem[]) => {
-                const items =
-                    allItems && allItems.length > 0
-                        ? allItems
-                        : treeView.selection.filter((s): s is StashItem => s instanceof StashItem);
-                if (items.length === 0) {
-                    vscode.window.showInformationMessage('No stashes selected');
+            'superprompt-forge.showDroppedStash',
+            async (item?: DroppedStashItem) => {
+                if (!item) {
                     return;
                 }
+                try {
+                    // `stash show` accepts any stash-shaped commit, reachable or not
+                    const { stdout, stderr, exitCode } = await gitFor(item).execGitPublic(
+                        `stash show -p ${item.droppedEntry.sha}`,
+                    );
+                    if (exitCode !== 0) {
+                        throw new Error(stderr || 'Stash commit is no longer available');
+                    }
+                    const document = await vscode.workspace.openTextDocument({
+                        content: stdout,
+                        language: 'diff',
+                    });
+                    await vscode.window.showTextDocument(document, { preview: true });
+                } catch (e: unknown) {
+                    vscode.window.showErrorMessage(
+                        `Failed to show dropped stash: ${extractErrorMessage(e)}`,
+                    );
+                }
+            },
+        ),
+    );
 
-                const confirm = await vscode.window.showWarningMessage(
-                    `Apply ${items.length} stash${items.length !== 1 ? 'es' : ''}?`,
-                    { modal: true },
+    // Stash bundles: export stashes as patches + manifest, import them elsewhere
+    const resolveStashesForExport = async (
+        item: StashItem | undefined,
+        allItems: StashItem[] | undefined,
+    ): Promise<StashItem[]> => {
+        if (allItems && allItems.length > 0) {
+            return allItems;
+        }
+        if (item) {
+            return [item];
+        }
+        const withStashes = await reposWithStashes();
+        if (withStashes.length === 0) {
+            vscode.window.showInformationMessage('No stashes available');
+            return [];
+        }
+        const repo = await repositories.pick('Select a repository', withStashes);
+        if (!repo) {
+            return [];
+        }
+        const stashes = await repo.gitService.getStashList();
+        const picked = await vscode.window.showQuickPick(
+            stashes.map((s) => ({ label: s.message, description: s.name, stash: s })),
+            { placeHolder: 'Select stashes to export', canPickMany: true },
+        );
+        return picked?.map((p) => new StashItem(p.stash, undefined, undefined, repo.root)) ?? [];
+    };
+
+    const exportStashes = (stashes: StashItem[]) =>
+        vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Exporting ${stashes.length} stash${stashes.length !== 1 ? 'es' : ''}…`,
+                cancellable: false,
+            },
+            async () => {
+                const exported = [];
+                for (const stash of stashes) {
+                    exported.push(
+                        await gitFor(stash).exportStash(
+                            stash.stashEntry.index,
+                            stash.stashEntry.sha,
+                        ),
+                    );
+                }
+                return exported;
+            },
+        );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'superprompt-forge.exportStash',
+            async (item?: StashItem, allItems?: StashItem[]) => {
+                const stashes = await resolveStashesForExport(item, allItems);
+                if (stashes.length === 0) {
+                    return;
+                }
+                const folder = await vscode.window.showOpenDialog({
+                    canSelectFiles: false,
+                    canSelectFolders: true,
+                    canSelectMany: false,
+                    openLabel: 'Export Here',
+                    title: 'Choose where to save the stash bundle',
+                    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                });
+                if (!folder?.[0]) {
+                    return;
+                }
+
+                try {
+                    const exported = await exportStashes(stashes);
+                    const dir = path.join(folder[0].fsPath, suggestBundleName(exported));
+                    await writeStashBundle(dir, buildStashBundle(exported));
+                    const choice = await vscode.window.showInformationMessage(
+                        `Exported ${exported.length} stash${exported.length !== 1 ? 'es' : ''} to ${path.basename(dir)}`,
+                        'Reveal',
+                    );
+                    if (choice === 'Reveal') {
+                        await vscode.commands.executeCommand(
+                            'revealFileInOS',
+                            vscode.Uri.file(path.join(dir, STASH_BUNDLE_MANIFEST)),
+                        );
+                    }
+                } catch (e: unknown) {
+                    vscode.window.showErrorMessage(
+                        `Failed to export stash: ${extractErrorMessage(e)}`,
+                    );
+                }
+            },
+        ),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'superprompt-forge.sendStashToGist',
+            async (item?: StashItem, allItems?: StashItem[]) => {
+                const stashes = await resolveStashesForExport(item, allItems);
+                if (stashes.length === 0) {
+                    return;
+                }
+                const title = await vscode.window.showInputBox({
+                    prompt: 'Note title for the shared stash',
+                    value:
+                        stashes.length === 1
+                            ? `Stash: ${stashes[0].stashEntry.message}`
+                            : `${stashes.length} stashes`,
+                    validateInput: (value) => (value.trim() ? null : 'Title cannot be empty'),
+                });
+                if (!title) {
+                    return;
+                }
+
+                try {
+                    const exported = await exportStashes(stashes);
+                    const summary = exported
+                        .map(
+                            (s) =>
+                                `- **${s.message}** — \`${s.branch}\` @ \`${s.baseSha.slice(0, 8)}\``,
+                        )
+                        .join('\n');
+                    const content =
+                        `# ${title}\n\n${summary}\n\n` +
+                        `Import with **Superprompt Forge: Import Stash Bundle…** → From Gist, ` +
+                        `using this gist's URL.\n`;
+                    const repoInfo = await gitFor(stashes[0]).getGitHubRepo();
+                    const note = await vscode.window.withProgress(
+                        {
+                            location: vscode.ProgressLocation.Notification,
+                            title: 'Creating gist note…',
+                            cancellable: false,
+                        },
+                        () =>
+                            gistService.createNote(
+                                title,
+                                content,
+                                false,
+                                repoInfo ? `${repoInfo.owner}/${repoInfo.repo}` : undefined,
+                                buildStashBundle(exported),
+                            ),
+                    );
+                    gistNotesProvider.refresh('post-command');
+                    const choice = await vscode.window.showInformationMessage(
+                        `Shared as secret gist note "${note.title}"`,
+                        'Copy Link',
+                    );
+                    if (choice === 'Copy Link') {
+                        await vscode.env.clipboard.writeText(note.htmlUrl);
+                    }
+                } catch (e: unknown) {
+                    vscode.window.showErrorMessage(
+                        `Failed to send stash to gist: ${extractErrorMessage(e)}`,
+                    );
+                }
+            },
+        ),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('superprompt-forge.importStashBundle', async () => {
+            const source = await vscode.window.showQuickPick(
+                [
+                    {
+                        label: '$(folder) From File…',
+                        description: STASH_BUNDLE_MANIFEST,
+                        id: 'file',
+                    },
+                    { label: '$(github) From Gist…', description: 'gist URL or ID', id: 'gist' },
+                ],
+                { placeHolder: 'Import a stash bundle' },
+            );
+            if (!source) {
+                return;
+            }
+
+            const repo = await repositories.pick('Import stashes into which repository?');
+            if (!repo) {
+                return;
+            }
+
+            let files: StashBundleFiles;
+            try {
+                if (source.id === 'file') {
+                    const picked = await vscode.window.showOpenDialog({
+                        canSelectMany: false,
+                        openLabel: 'Import',
+                        title: `Select the bundle's ${STASH_BUNDLE_MANIFEST}`,
+                        filters: { 'Stash bundle': ['json'] },
+                    });
+                    if (!picked?.[0]) {
+                        return;
+                    }
+                    files = await readStashBundle(picked[0].fsPath);
+                } else {
+                    const input = await vscode.window.showInputBox({
+                        prompt: 'Gist URL or ID containing a stash bundle',
+                        placeHolder: 'https://gist.github.com/user/abc123…',
+                        validateInput: (value) =>
+                            GistService.parseGistId(value) ? null : 'Not a gist URL or ID',
+                    });
+                    const gistId = input ? GistService.parseGistId(input) : undefined;
+                    if (!gistId) {
+                        return;
+                    }
+                    files = await gistService.getGistFiles(gistId);
+                }
+
+                const stashes = parseStashBundle(files);
+                const results = await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: `Importing ${stashes.length} stash${stashes.length !== 1 ? 'es' : ''}…`,
+                        cancellable: false,
+                    },
+                    async () => {
+                        const out = [];
+                        // Oldest first, so the bundle's newest stash ends up as stash@{0}
+                        for (const stash of [...stashes].reverse()) {
+                            out.push(await repo.gitService.importStash(stash));
+                        }
+                        return out;
+                    },
+                );
+                stashProvider.refresh('post-command');
+
+                const rebased = results.filter((r) => r.rebased).length;
+                const message = `Imported ${results.length} stash${results.length !== 1 ? 'es' : ''}`;
+                if (rebased > 0) {
+                    vscode.window.showWarningMessage(
+                        `${message}. ${rebased} ${rebased === 1 ? 'was' : 'were'} rebuilt on HEAD because the original base commit is not in this repository — fetch it for an exact copy.`,
+                    );
+                } else {
+                    vscode.window.showInformationMessage(message);
+                }
+            } catch (e: unknown) {
+                vscode.window.showErrorMessage(
+                    `Failed to import stash bundle: ${extractErrorMessage(e)}`,
+                );
+                stashProvider.refresh('post-command');
+            }
+        }),
+    );
+
+    // --- Search commands ---
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('superprompt-forge.search', async () => {
+            const query = await vscode.window.showInputBox({
+                prompt: 'Search stashes by message, branch, name, tag, description, or changed code',
+                placeHolder: 'e.g. login, feature/auth, stash@{2}, wip',
+                value: stashProvider.searchQuery,
+            });
+            if (query === undefined) {
+                return;
+            } // Escape
+            stashProvider.setSearchQuery(query);
+            await vscode.commands.executeCommand(
+                'setContext',
+                'superprompt-forge.isSearching',
+                query.length > 0,
+            );
+        }),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('superprompt-forge.searchContents', async () => {
+            const query = await vscode.window.showInputBox({
+                prompt: 'Search the changes inside every stash',
+                placeHolder: 'e.g. parseConfig, TODO, apiKey',
+            });
+            if (!query?.trim()) {
+                return;
+            }
+            const found = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Searching stashes for "${query}"…`,
+                    cancellable: false,
+                },
+                async () => {
+                    const results = [];
+                    for (const repo of repositories.repositories) {
+                        const stashes = await repo.gitService.getStashList();
+                        for (const match of await stashSearchIndex.search(
+                            repo.gitService,
+                            stashes,
+                            query,
+                        )) {
+                            results.push({ repo, match });
+                        }
+                    }
+                    return results;
+                },
+            );
+            if (found.length === 0) {
+                vscode.window.showInformationMessage(`No stashed changes contain "${query}"`);
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(
+                found.map(({ repo, match }) => ({
+                    label: `${match.kind === 'added' ? '+' : '-'} ${match.text.trim()}`,
+                    description: `${match.stashName} · ${match.filePath}:${match.line}`,
+                    detail: repositories.isMultiRepo
+                        ? `${repo.name} — ${match.message}`
+                        : match.message,
+                    repo,
+                    match,
+                })),
+                {
+                    placeHolder: `${found.length} changed line${found.length !== 1 ? 's' : ''} match "${query}"`,
+                    matchOnDescription: true,
+                    matchOnDetail: true,
+                },
+            );
+            if (!picked) {
+                return;
+            }
+            const { repo, match } = picked;
+            const line = Math.max(match.stashLine - 1, 0);
+            const fileItem = new StashFileItem(
+                match.filePath,
+                match.stashIndex,
+                undefined,
+                match.sha,
+                repo.root,
+            );
+            await showStashFile(fileItem, 'parent', new vscode.Range(line, 0, line, 0));
+        }),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('superprompt-forge.clearSearch', () => {
+            stashProvider.setSearchQuery('');
+            vscode.commands.executeCommand('setContext', 'superprompt-forge.isSearching', false);
+        }),
+    );
+
+    // --- Multi-select batch commands ---
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'superprompt-forge.applySelected',
+            async (_item?: StashItem, allItems?: StashItem[]) => {
+                const items =
+                    allItems && allItems.length > 0
+                        ? allItems
+                        : treeView.selection.filter((s): s is StashItem => s instanceof StashItem);
+                if (items.length === 0) {
+                    vscode.window.showInformationMessage('No stashes selected');
+                    return;
+                }
+
+                const confirm = await vscode.window.showWarningMessage(
+                    `Apply ${items.length} stash${items.length !== 1 ? 'es' : ''}?`,
+                    { modal: true },
                     'Yes',
                     'No',
                 );
@@ -815,7 +1715,10 @@ export function activate(context: vscode.ExtensionContext) {
                     async (progress) => {
                         for (const item of items) {
                             progress.report({ message: `${item.stashEntry.name}…` });
-                            const result = await gitService.applyStash(item.stashEntry.index);
+                            const result = await gitFor(item).applyStash(
+                                item.stashEntry.index,
+                                item.stashEntry.sha,
+                            );
                             if (result.success && result.conflicts) {
                                 conflictCount++;
                             } else if (result.success) {
@@ -873,9 +1776,18 @@ export function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(
         vscode.commands.registerCommand('superprompt-forge.notes.create', async () => {
+            const template = await pickNoteTemplate(gistService, {
+                git: gitService,
+                prs: prService,
+            });
+            if (!template) {
+                return;
+            }
+
             const title = await vscode.window.showInputBox({
                 prompt: 'Note title',
                 placeHolder: 'My new note',
+                value: template.title,
                 validateInput: (value) => (value.trim() ? null : 'Title cannot be empty'),
             });
             if (!title) {
@@ -895,7 +1807,7 @@ export function activate(context: vscode.ExtensionContext) {
                         cancellable: false,
                     },
                     async () => {
-                        await gistService.createNote(title, '', isPublic);
+                        await gistService.createNote(title, template.content, isPublic);
                     },
                 );
                 vscode.window.showInformationMessage(`Note "${title}" created`);
@@ -908,7 +1820,7 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('superprompt-forge.notes.open', async (item?: GistNoteItem) => {
+        vscode.commands.registerCommand('superprompt-forge.notes.open', async (item?: Pick<GistNoteItem, 'note'>) => {
             if (!item) {
                 return;
             }
@@ -918,6 +1830,129 @@ export function activate(context: vscode.ExtensionContext) {
         }),
     );
 
+    // ─── Workspace-linked notes ───────────────────────────────────
+
+    type NotePick = vscode.QuickPickItem & { note?: GistNote; link?: string };
+
+    const notePick = (note: GistNote, description?: string): NotePick => ({
+        label: `$(note) ${note.title || 'Untitled'}`,
+        description,
+        note,
+    });
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('superprompt-forge.notes.showLinked', async () => {
+            const primaryRoot = repositories.repositories[0]?.root;
+            const uri =
+                vscode.window.activeTextEditor?.document.uri ??
+                (primaryRoot ? vscode.Uri.file(primaryRoot) : undefined);
+            const { fileNotes, repoNotes } = uri
+                ? await linkedNotesLens.notesFor(uri)
+                : { fileNotes: [], repoNotes: [] };
+            if (fileNotes.length + repoNotes.length === 0) {
+                vscode.window.showInformationMessage(
+                    'No Gist Notes are linked to this file or its repository.',
+                );
+                return;
+            }
+            const separator = (label: string): NotePick => ({
+                label,
+                kind: vscode.QuickPickItemKind.Separator,
+            });
+            const picked = await vscode.window.showQuickPick(
+                [
+                    ...(fileNotes.length > 0 ? [separator('This file')] : []),
+                    ...fileNotes.map((n) => notePick(n, n.linkedPaths.join(', '))),
+                    ...(repoNotes.length > 0 ? [separator(repoNotes[0].linkedRepo ?? '')] : []),
+                    ...repoNotes.map((n) => notePick(n)),
+                ],
+                { placeHolder: 'Open a linked Gist Note' },
+            );
+            if (picked?.note) {
+                await vscode.commands.executeCommand('superprompt-forge.notes.open', {
+                    note: picked.note,
+                });
+            }
+        }),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('superprompt-forge.notes.linkPath', async (uri?: vscode.Uri) => {
+            const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+            if (!target || target.scheme !== 'file') {
+                vscode.window.showInformationMessage('Open or select a file or folder to link a note to.');
+                return;
+            }
+            const isFolder =
+                ((await vscode.workspace.fs.stat(target)).type & vscode.FileType.Directory) !== 0;
+            const location = await linkedNotesLens.locate(target, isFolder);
+            if (!location?.path) {
+                vscode.window.showErrorMessage(
+                    'Notes can only be linked to files and folders of a GitHub repository in the workspace.',
+                );
+                return;
+            }
+            const linkPath = location.path;
+
+            const notes = gistNotesProvider.getCachedNotes();
+            const picked = await vscode.window.showQuickPick(
+                (notes.length > 0 ? notes : await notesCache.listNotes())
+                    .filter((n) => !(n.linkedRepo === location.repo && n.linkedPaths.includes(linkPath)))
+                    .map((n) =>
+                        notePick(n, n.linkedRepo === location.repo ? 'in this repository' : undefined),
+                    ),
+                { placeHolder: `Link a Gist Note to ${linkPath}` },
+            );
+            if (!picked?.note) {
+                return;
+            }
+            const note = picked.note;
+            try {
+                await gistService.linkToPath(note.id, location.repo, linkPath);
+                vscode.window.showInformationMessage(`Linked "${note.title}" to ${linkPath}`);
+                gistNotesProvider.refresh('post-command');
+            } catch (error: unknown) {
+                vscode.window.showErrorMessage(`Failed to link note: ${extractErrorMessage(error)}`);
+            }
+        }),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('superprompt-forge.notes.unlinkPath', async (uri?: vscode.Uri) => {
+            const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+            const location = target && (await linkedNotesLens.locate(target));
+            const { fileNotes } = target
+                ? await linkedNotesLens.notesFor(target)
+                : { fileNotes: [] };
+            if (!location?.path || fileNotes.length === 0) {
+                vscode.window.showInformationMessage('No Gist Notes are linked to this file.');
+                return;
+            }
+            const filePath = location.path;
+            // One entry per link: a note can reach the file through several folders
+            const picked = await vscode.window.showQuickPick(
+                fileNotes.flatMap((note) =>
+                    note.linkedPaths
+                        .filter((link) => linkCovers(link, filePath))
+                        .map((link): NotePick => ({ ...notePick(note, link), link })),
+                ),
+                { placeHolder: 'Remove a note link' },
+            );
+            if (!picked?.note || !picked.link) {
+                return;
+            }
+            try {
+                await gistService.unlinkPath(picked.note.id, picked.link);
+                vscode.window.showInformationMessage(
+                    `Unlinked "${picked.note.title}" from ${picked.link}`,
+                );
+                gistNotesProvider.refresh('post-command');
+            } catch (error: unknown) {
+                vscode.window.showErrorMessage(`Failed to unlink note: ${extractErrorMessage(error)}`);
+            }
+        }),
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('superprompt-forge.notes.delete', async (item?: GistNoteItem) => {
             if (!item) {
@@ -964,6 +1999,298 @@ export function activate(context: vscode.ExtensionContext) {
         }),
     );
 
+    // ─── Tags and folders ─────────────────────────────────────────
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('superprompt-forge.notes.setTags', async (item?: GistNoteItem) => {
+            if (!item) {
+                return;
+            }
+            const known = gistNotesProvider.getTags().filter((t) => !item.note.tags.includes(t));
+            const input = await vscode.window.showInputBox({
+                prompt: `Tags of "${item.note.title}", separated by commas`,
+                placeHolder: known.length > 0 ? `In use: ${known.join(', ')}` : 'e.g. runbook, ops',
+                value: item.note.tags.join(', '),
+            });
+            if (input === undefined) {
+                return;
+            }
+            try {
+                const note = await gistService.setTags(item.note.id, normalizeTags(input.split(',')));
+                vscode.window.showInformationMessage(
+                    note.tags.length > 0
+                        ? `Tagged "${note.title}": ${note.tags.map((t) => `#${t}`).join(' ')}`
+                        : `Removed the tags of "${note.title}"`,
+                );
+                gistNotesProvider.refresh('post-command');
+            } catch (error: unknown) {
+                vscode.window.showErrorMessage(`Failed to tag note: ${extractErrorMessage(error)}`);
+            }
+        }),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('superprompt-forge.notes.moveToFolder', async (item?: GistNoteItem) => {
+            if (!item) {
+                return;
+            }
+            type FolderPick = vscode.QuickPickItem & { folder: string | null | undefined };
+            const current = item.note.folder;
+            const picked = await vscode.window.showQuickPick<FolderPick>(
+                [
+                    { label: '$(new-folder) New Folder…', folder: undefined },
+                    ...(current ? [{ label: '$(root-folder) Top Level', folder: null }] : []),
+                    ...gistNotesProvider
+                        .getFolders()
+                        .filter((f) => f !== current)
+                        .map((f) => ({ label: `$(folder) ${f}`, folder: f })),
+                ],
+                { placeHolder: `Move "${item.note.title}" to…` },
+            );
+            if (!picked) {
+                return;
+            }
+            let folder = picked.folder;
+            if (folder === undefined) {
+                folder = await vscode.window.showInputBox({
+                    prompt: 'Folder path — use "/" for subfolders',
+                    placeHolder: 'e.g. Work/Incidents',
+                    value: current ? `${current}/` : '',
+                });
+                if (!folder?.trim()) {
+                    return;
+                }
+            }
+            try {
+                const note = await gistService.moveToFolder(item.note.id, folder);
+                vscode.window.showInformationMessage(
+                    `Moved "${note.title}" to ${note.folder ?? 'the top level'}`,
+                );
+                gistNotesProvider.refresh('post-command');
+            } catch (error: unknown) {
+                vscode.window.showErrorMessage(`Failed to move note: ${extractErrorMessage(error)}`);
+            }
+        }),
+    );
+
+    // ─── Export / import as Markdown files ─────────────────────────
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('superprompt-forge.notes.exportToFolder', async () => {
+            type ScopePick = vscode.QuickPickItem & { query?: string; ask?: boolean };
+            const treeQuery = gistNotesProvider.searchQuery.trim();
+            const scope = await vscode.window.showQuickPick<ScopePick>(
+                [
+                    { label: '$(library) All Notes' },
+                    ...(treeQuery
+                        ? [
+                              {
+                                  label: '$(filter) Notes Matching the Tree Search',
+                                  description: treeQuery,
+                                  query: treeQuery,
+                              },
+                          ]
+                        : []),
+                    { label: '$(search) Notes Matching a Search…', ask: true },
+                ],
+                { placeHolder: 'Which notes to export?' },
+            );
+            if (!scope) {
+                return;
+            }
+            let query = scope.query;
+            if (scope.ask) {
+                query = await vscode.window.showInputBox({
+                    prompt: 'Export the notes matching — #tag, is:public, is:secret, in:Folder, after:30d, before:2026-01-31',
+                    placeHolder: 'e.g. #runbook in:Work',
+                });
+                if (!query?.trim()) {
+                    return;
+                }
+            }
+
+            const folder = await vscode.window.showOpenDialog({
+                canSelectFiles: false,
+                canSelectFolders: true,
+                canSelectMany: false,
+                openLabel: 'Export Here',
+                title: 'Choose a folder or vault to export the notes to',
+            });
+            if (!folder?.[0]) {
+                return;
+            }
+
+            try {
+                const count = await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: 'Exporting notes…',
+                        cancellable: false,
+                    },
+                    async () => {
+                        // Refresh the cache first, so notes added or deleted on GitHub are seen
+                        await notesCache.listNotes();
+                        let pages = await notesCache.listPages();
+                        if (query) {
+                            const index = new NoteSearchIndex();
+                            index.update(pages.map((p) => ({ ...p.note, content: p.content })));
+                            const ids = new Set(index.search(query).map((r) => r.note.id));
+                            pages = pages.filter((p) => ids.has(p.note.id));
+                        }
+                        return writeNotesFolder(folder[0].fsPath, pages);
+                    },
+                );
+                if (count === 0) {
+                    vscode.window.showInformationMessage('No notes to export.');
+                    return;
+                }
+                const choice = await vscode.window.showInformationMessage(
+                    `Exported ${count} note${count !== 1 ? 's' : ''} to ${path.basename(folder[0].fsPath)}`,
+                    'Reveal',
+                );
+                if (choice === 'Reveal') {
+                    await vscode.commands.executeCommand('revealFileInOS', folder[0]);
+                }
+            } catch (error: unknown) {
+                vscode.window.showErrorMessage(`Failed to export notes: ${extractErrorMessage(error)}`);
+            }
+        }),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('superprompt-forge.notes.importFromFolder', async () => {
+            const folder = await vscode.window.showOpenDialog({
+                canSelectFiles: false,
+                canSelectFolders: true,
+                canSelectMany: false,
+                openLabel: 'Import',
+                title: 'Choose a folder or vault of Markdown files to import',
+            });
+            if (!folder?.[0]) {
+                return;
+            }
+
+            try {
+                const files = await readNotesFolder(folder[0].fsPath);
+                if (files.length === 0) {
+                    vscode.window.showInformationMessage('No Markdown files found in that folder.');
+                    return;
+                }
+                // Match files by gist id against every note on GitHub, not just those cached
+                await notesCache.listNotes();
+                const plan = planNoteImport(files, await notesCache.listPages());
+                if (plan.create.length + plan.update.length === 0) {
+                    vscode.window.showInformationMessage(
+                        `All ${plan.unchanged} note${plan.unchanged !== 1 ? 's' : ''} are up to date.`,
+                    );
+                    return;
+                }
+                const confirm = await vscode.window.showInformationMessage(
+                    `Import ${files.length} Markdown file${files.length !== 1 ? 's' : ''}?`,
+                    {
+                        modal: true,
+                        detail: [
+                            `${plan.create.length} new note${plan.create.length !== 1 ? 's' : ''}`,
+                            `${plan.update.length} note${plan.update.length !== 1 ? 's' : ''} updated`,
+                            `${plan.unchanged} unchanged`,
+                        ].join(' · '),
+                    },
+                    'Import',
+                );
+                if (confirm !== 'Import') {
+                    return;
+                }
+
+                const defaultPublic =
+                    vscode.workspace
+                        .getConfiguration('superprompt-forge.notes')
+                        .get<string>('defaultVisibility', 'secret') === 'public';
+                /** Error message by relative path */
+                const failed = new Map<string, string>();
+                const conflicted: string[] = [];
+                await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: 'Importing notes',
+                        cancellable: false,
+                    },
+                    async (progress) => {
+                        const total = plan.create.length + plan.update.length;
+                        const step = () => progress.report({ increment: 100 / total });
+                        for (const item of plan.create) {
+                            try {
+                                const note = await gistService.createNote(
+                                    item.title,
+                                    item.file.body,
+                                    item.isPublic ?? defaultPublic,
+                                    item.linkedRepo ?? undefined,
+                                    undefined,
+                                    { paths: item.linkedPaths, tags: item.tags, folder: item.folder },
+                                );
+                                // Without its id the file would become another new note next time
+                                await writeNoteId(folder[0].fsPath, item.file, note.id);
+                            } catch (e: unknown) {
+                                failed.set(item.file.relativePath, extractErrorMessage(e));
+                            }
+                            step();
+                        }
+                        for (const item of plan.update) {
+                            try {
+                                if (item.page) {
+                                    const { status } = await notesCache.updateNote(
+                                        item.note.id,
+                                        item.page.title,
+                                        item.page.content,
+                                    );
+                                    if (status === 'conflict') {
+                                        conflicted.push(item.file.relativePath);
+                                    }
+                                }
+                                if (item.tags) {
+                                    await gistService.setTags(item.note.id, item.tags);
+                                }
+                                if (item.folder !== undefined) {
+                                    await gistService.moveToFolder(item.note.id, item.folder);
+                                }
+                            } catch (e: unknown) {
+                                failed.set(item.file.relativePath, extractErrorMessage(e));
+                            }
+                            step();
+                        }
+                    },
+                );
+                gistNotesProvider.refresh('post-command');
+
+                // A page left in conflict is imported locally but not on GitHub yet
+                const conflictedOnly = conflicted.filter((f) => !failed.has(f));
+                const done = plan.create.length + plan.update.length - failed.size - conflictedOnly.length;
+                if (failed.size > 0 || conflictedOnly.length > 0) {
+                    const problems = [
+                        ...(conflictedOnly.length > 0
+                            ? [`${conflictedOnly.length} in conflict with GitHub: ${conflictedOnly.join(', ')}`]
+                            : []),
+                        ...(failed.size > 0
+                            ? [
+                                  `${failed.size} failed: ${[...failed]
+                                      .map(([file, reason]) => `${file} (${reason})`)
+                                      .join(', ')}`,
+                              ]
+                            : []),
+                    ];
+                    vscode.window.showWarningMessage(
+                        `Imported ${done} note${done !== 1 ? 's' : ''}; ${problems.join('; ')}`,
+                    );
+                } else {
+                    vscode.window.showInformationMessage(
+                        `Imported ${done} note${done !== 1 ? 's' : ''} (${plan.create.length} new, ${plan.update.length} updated).`,
+                    );
+                }
+            } catch (error: unknown) {
+                vscode.window.showErrorMessage(`Failed to import notes: ${extractErrorMessage(error)}`);
+            }
+        }),
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand(
             'superprompt-forge.notes.toggleVisibility',
@@ -1012,11 +2339,32 @@ export function activate(context: vscode.ExtensionContext) {
         }),
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('superprompt-forge.notes.sync', async () => {
+            const result = await notesCache.sync();
+            if (notesCache.offline && result.remaining > 0) {
+                vscode.window.showWarningMessage(
+                    `GitHub is unreachable — ${result.remaining} note${result.remaining === 1 ? '' : 's'} will sync when it is back.`,
+                );
+            } else if (result.conflicts.length > 0) {
+                vscode.window.showWarningMessage(
+                    `Resolve the conflicts in ${result.conflicts.map((t) => `"${t}"`).join(', ')} and save again.`,
+                );
+            } else {
+                vscode.window.showInformationMessage(
+                    result.pushed > 0
+                        ? `Synced ${result.pushed} note${result.pushed === 1 ? '' : 's'} to GitHub.`
+                        : 'Notes are up to date.',
+                );
+            }
+        }),
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('superprompt-forge.notes.search', async () => {
             const query = await vscode.window.showInputBox({
-                prompt: 'Search notes by title or content',
-                placeHolder: 'e.g. meeting notes, TODO',
+                prompt: 'Search notes — filter with #tag, is:public, is:secret, in:Folder, after:30d, before:2026-01-31',
+                placeHolder: 'e.g. deploy rollback #ops in:Work',
                 value: gistNotesProvider.searchQuery,
             });
             if (query === undefined) {
@@ -1076,7 +2424,10 @@ export function activate(context: vscode.ExtensionContext) {
                         for (const item of sorted) {
                             progress.report({ message: `${item.stashEntry.name}…` });
                             try {
-                                await gitService.dropStash(item.stashEntry.index);
+                                await gitFor(item).dropStash(
+                                    item.stashEntry.index,
+                                    item.stashEntry.sha,
+                                );
                                 successCount++;
                             } catch {
                                 failCount++;
@@ -1098,6 +2449,252 @@ export function activate(context: vscode.ExtensionContext) {
         ),
     );
 
+    // Stale-stash cleanup: stashes the age policy flags, across all repositories
+    const findStaleStashItems = async (): Promise<StashItem[]> => {
+        const policy = getStashAgePolicy();
+        const items: StashItem[] = [];
+        for (const repo of repositories.repositories) {
+            const stashes = await repo.gitService.getStashList();
+            if (stashes.length === 0) {
+                continue;
+            }
+            // Pinned stashes are exempt, so the policy needs the metadata
+            const metadata = await repo.gitService.getStashMetadata(stashes.map((s) => s.sha));
+            for (const stash of stashes) {
+                stash.metadata = metadata.get(stash.sha);
+            }
+            const branches = policy.flagMergedBranches
+                ? await loadBranchState(repo.gitService)
+                : undefined;
+            for (const { entry, reasons } of findStaleStashes(stashes, policy, branches)) {
+                items.push(new StashItem(entry, undefined, undefined, repo.root, reasons));
+            }
+        }
+        return items;
+    };
+
+    /** Export stashes to the archive folder (a bundle per repository), then drop them. */
+    const archiveStashes = async (items: StashItem[]): Promise<string[]> => {
+        const archiveRoot =
+            getConfig<string>('stalePolicy.archiveFolder', '') ||
+            path.join(context.globalStorageUri.fsPath, 'stash-archive');
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+        const byRepo = new Map<string | undefined, StashItem[]>();
+        for (const item of items) {
+            byRepo.set(item.repoRoot, [...(byRepo.get(item.repoRoot) ?? []), item]);
+        }
+
+        const dirs: string[] = [];
+        for (const group of byRepo.values()) {
+            const exported = await exportStashes(group);
+            const dir = path.join(archiveRoot, `${stamp}-${suggestBundleName(exported)}`);
+            await writeStashBundle(dir, buildStashBundle(exported));
+            dirs.push(dir);
+            // Only drop once the bundle is safely on disk; reverse index order avoids shifting
+            const sorted = [...group].sort((a, b) => b.stashEntry.index - a.stashEntry.index);
+            for (const item of sorted) {
+                await gitFor(item).dropStash(item.stashEntry.index, item.stashEntry.sha);
+            }
+        }
+        stashProvider.refresh('post-command');
+        return dirs;
+    };
+
+    const reportArchived = async (count: number, dirs: string[], reason = '') => {
+        const choice = await vscode.window.showInformationMessage(
+            `Archived ${count} stash${count !== 1 ? 'es' : ''}${reason} — import the bundle to bring ${count !== 1 ? 'them' : 'it'} back`,
+            'Reveal',
+        );
+        if (choice === 'Reveal' && dirs[0]) {
+            await vscode.commands.executeCommand(
+                'revealFileInOS',
+                vscode.Uri.file(path.join(dirs[0], STASH_BUNDLE_MANIFEST)),
+            );
+        }
+    };
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('superprompt-forge.reviewStaleStashes', async () => {
+            const stale = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Window, title: 'Checking for stale stashes…' },
+                findStaleStashItems,
+            );
+            if (stale.length === 0) {
+                vscode.window.showInformationMessage(
+                    'No stale stashes — nothing matches the age policy',
+                );
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(
+                stale.map((item) => ({
+                    label: item.stashEntry.message || '(no message)',
+                    description: [
+                        item.stashEntry.name,
+                        item.stashEntry.branch,
+                        repositories.isMultiRepo
+                            ? repositories.repositories.find((r) => r.root === item.repoRoot)?.name
+                            : undefined,
+                    ]
+                        .filter(Boolean)
+                        .join(' · '),
+                    detail: `$(warning) ${item.staleReasons.map(describeStaleReason).join(', ')}`,
+                    picked: true,
+                    item,
+                })),
+                {
+                    placeHolder: `${stale.length} stale stash${stale.length !== 1 ? 'es' : ''} — select the ones to clean up`,
+                    canPickMany: true,
+                    matchOnDetail: true,
+                },
+            );
+            if (!picked || picked.length === 0) {
+                return;
+            }
+            const items = picked.map((p) => p.item);
+            const noun = `${items.length} stash${items.length !== 1 ? 'es' : ''}`;
+
+            const action = await vscode.window.showQuickPick(
+                [
+                    {
+                        label: '$(archive) Archive',
+                        description: 'Export to the archive folder, then drop',
+                        action: 'archive' as const,
+                    },
+                    {
+                        label: '$(export) Export…',
+                        description: 'Save as a stash bundle and keep them',
+                        action: 'export' as const,
+                    },
+                    {
+                        label: '$(trash) Drop',
+                        description: 'Remove without a copy (recoverable until git gc)',
+                        action: 'drop' as const,
+                    },
+                ],
+                { placeHolder: `Clean up ${noun}` },
+            );
+            switch (action?.action) {
+                case 'archive':
+                    try {
+                        const dirs = await archiveStashes(items);
+                        await reportArchived(items.length, dirs);
+                    } catch (e: unknown) {
+                        stashProvider.refresh('post-command');
+                        vscode.window.showErrorMessage(
+                            `Failed to archive stashes: ${extractErrorMessage(e)}`,
+                        );
+                    }
+                    break;
+                case 'export':
+                    await vscode.commands.executeCommand(
+                        'superprompt-forge.exportStash',
+                        items[0],
+                        items,
+                    );
+                    break;
+                case 'drop':
+                    await vscode.commands.executeCommand(
+                        'superprompt-forge.dropSelected',
+                        undefined,
+                        items,
+                    );
+                    break;
+            }
+        }),
+    );
+
+    // On startup: auto-archive stashes whose branch is gone (when enabled) and
+    // point at the remaining stale ones, at most once a day per workspace
+    void repositories
+        .whenReady()
+        .then(async () => {
+            let stale = await findStaleStashItems();
+            if (stale.length === 0) {
+                return;
+            }
+
+            if (getConfig<boolean>('stalePolicy.autoArchive', false)) {
+                const gone = stale.filter((item) => isBranchGone(item.staleReasons));
+                if (gone.length > 0) {
+                    const dirs = await archiveStashes(gone);
+                    void reportArchived(gone.length, dirs, ' of merged or deleted branches');
+                    stale = stale.filter((item) => !gone.includes(item));
+                }
+            }
+
+            const today = new Date().toDateString();
+            const noticeKey = 'superprompt-forge.staleNoticeDate';
+            if (stale.length === 0 || context.workspaceState.get(noticeKey) === today) {
+                return;
+            }
+            await context.workspaceState.update(noticeKey, today);
+            const choice = await vscode.window.showInformationMessage(
+                `${stale.length} stash${stale.length !== 1 ? 'es look' : ' looks'} stale (old, or on a merged or deleted branch)`,
+                'Review…',
+            );
+            if (choice === 'Review…') {
+                await vscode.commands.executeCommand('superprompt-forge.reviewStaleStashes');
+            }
+        })
+        .catch((e: unknown) => {
+            outputChannel.appendLine(`[STALE] startup check failed: ${extractErrorMessage(e)}`);
+        });
+
+    // Checkout / pull behind the auto-stash guard (superprompt-forge.autoStash.mode)
+    context.subscriptions.push(
+        vscode.commands.registerCommand('superprompt-forge.checkoutWithAutoStash', async () => {
+            const repo = await repositories.pick('Check out a branch in which repository?');
+            if (!repo) {
+                return;
+            }
+            const current = await repo.gitService.getCurrentBranch();
+            const branches = (await repo.gitService.listBranches()).filter((b) => b !== current);
+            if (branches.length === 0) {
+                vscode.window.showInformationMessage('No other local branches to check out');
+                return;
+            }
+            const target = await vscode.window.showQuickPick(branches, {
+                placeHolder: `Check out a branch (currently on ${current ?? 'no branch'})`,
+            });
+            if (!target) {
+                return;
+            }
+
+            try {
+                await autoStashGuard.run(repo.gitService, { kind: 'checkout', target }, () =>
+                    repo.gitService.checkoutBranch(target),
+                );
+            } catch (e: unknown) {
+                vscode.window.showErrorMessage(
+                    `Failed to check out ${target}: ${extractErrorMessage(e)}`,
+                );
+            }
+            stashProvider.refresh('post-command');
+        }),
+        vscode.commands.registerCommand('superprompt-forge.pullWithAutoStash', async () => {
+            const repo = await repositories.pick('Pull in which repository?');
+            if (!repo) {
+                return;
+            }
+            try {
+                await autoStashGuard.run(repo.gitService, { kind: 'pull' }, () =>
+                    vscode.window.withProgress(
+                        {
+                            location: vscode.ProgressLocation.Notification,
+                            title: `Pulling ${repo.name}…`,
+                            cancellable: false,
+                        },
+                        () => repo.gitService.pull(),
+                    ),
+                );
+            } catch (e: unknown) {
+                vscode.window.showErrorMessage(`Failed to pull: ${extractErrorMessage(e)}`);
+            }
+            stashProvider.refresh('post-command');
+        }),
+    );
+
     // ─── PR commands ───
 
     context.subscriptions.push(
@@ -1126,6 +2723,88 @@ export function activate(context: vscode.ExtensionContext) {
         }),
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'superprompt-forge.prs.checkout',
+            async (target?: PrItem | { owner: string; repo: string; prNumber: number }) => {
+                if (!target) {
+                    return;
+                }
+                try {
+                    let owner: string;
+                    let repo: string;
+                    let pr: PullRequest;
+                    if ('pr' in target) {
+                        const repoInfo = prProvider.getRepoInfo() ?? (await gitService.getGitHubRepo());
+                        if (!repoInfo) {
+                            vscode.window.showErrorMessage('Not a GitHub repository');
+                            return;
+                        }
+                        ({ owner, repo } = repoInfo);
+                        pr = target.pr;
+                    } else {
+                        ({ owner, repo } = target);
+                        pr = await prService.getPullRequest(owner, repo, target.prNumber);
+                    }
+                    if (await prCheckout.checkout(owner, repo, pr)) {
+                        vscode.window.showInformationMessage(
+                            `Checked out PR #${pr.number} as pr/${pr.number}`,
+                        );
+                    }
+                } catch (e: unknown) {
+                    vscode.window.showErrorMessage(
+                        `Failed to check out pull request: ${extractErrorMessage(e)}`,
+                    );
+                }
+                stashProvider.refresh('post-command');
+            },
+        ),
+        vscode.commands.registerCommand('superprompt-forge.prs.returnFromCheckout', async () => {
+            const state = prCheckout.state;
+            if (!state) {
+                return;
+            }
+            try {
+                await prCheckout.returnToPrevious();
+            } catch (e: unknown) {
+                vscode.window.showErrorMessage(
+                    `Failed to return to ${state.previousBranch}: ${extractErrorMessage(e)}`,
+                );
+            }
+            stashProvider.refresh('post-command');
+        }),
+        vscode.commands.registerCommand(
+            'superprompt-forge.prs.replyToThread',
+            async (reply: vscode.CommentReply) => {
+                try {
+                    await prCheckout.reply(reply);
+                } catch (e: unknown) {
+                    vscode.window.showErrorMessage(`Failed to reply: ${extractErrorMessage(e)}`);
+                }
+            },
+        ),
+        vscode.commands.registerCommand(
+            'superprompt-forge.prs.resolveThread',
+            async (thread: vscode.CommentThread) => {
+                try {
+                    await prCheckout.setResolved(thread, true);
+                } catch (e: unknown) {
+                    vscode.window.showErrorMessage(`Failed to resolve thread: ${extractErrorMessage(e)}`);
+                }
+            },
+        ),
+        vscode.commands.registerCommand(
+            'superprompt-forge.prs.unresolveThread',
+            async (thread: vscode.CommentThread) => {
+                try {
+                    await prCheckout.setResolved(thread, false);
+                } catch (e: unknown) {
+                    vscode.window.showErrorMessage(`Failed to unresolve thread: ${extractErrorMessage(e)}`);
+                }
+            },
+        ),
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('superprompt-forge.prs.signIn', async () => {
             const session = await authService.signIn();
@@ -4,12 +4,15 @@ import { formatRelativeTime } from './utils';
 
 /**
  * Tree item representing a single Gist Note in the sidebar tree view.
- * Click opens the note in the webview panel Notes tab.
+ * Click opens the note in the webview panel Notes tab. `pinned` marks a
+ * note linked to the workspace repository, listed first; `searchQuery`
+ * holds the words to highlight in the label.
  */
 export class GistNoteItem extends vscode.TreeItem {
     constructor(
         public readonly note: GistNote,
         searchQuery?: string,
+        pinned = false,
     ) {
         const label = note.title || 'Untitled';
         const highlights = searchQuery ? computeHighlights(label, searchQuery) : undefined;
@@ -23,16 +26,22 @@ export class GistNoteItem extends vscode.TreeItem {
         // Stable identity — preserves selection across refreshes
         this.id = `gist-note-${note.id}`;
 
-        // Description: relative time
-        this.description = formatRelativeTime(note.updatedAt);
+        // Description: relative time, the file count of multi-file notes, and tags
+        this.description = [
+            formatRelativeTime(note.updatedAt),
+            ...(note.files.length > 1 ? [`${note.files.length} files`] : []),
+            ...note.tags.map((t) => `#${t}`),
+        ].join(' · ');
 
         // Rich tooltip
         this.tooltip = this._buildTooltip();
 
-        // Icon: globe for public, lock for secret
-        this.iconPath = note.isPublic
-            ? new vscode.ThemeIcon('globe')
-            : new vscode.ThemeIcon('note');
+        // Icon: pin for workspace notes, else globe for public, note for secret
+        this.iconPath = pinned
+            ? new vscode.ThemeIcon('pinned')
+            : note.isPublic
+              ? new vscode.ThemeIcon('globe')
+              : new vscode.ThemeIcon('note');
 
         // Context value for menu filtering
         this.contextValue = note.isPublic ? 'gistNotePublic' : 'gistNote';
@@ -77,6 +86,25 @@ export class GistNoteItem extends vscode.TreeItem {
         }
 
         md.appendMarkdown(`---\n\n`);
+        if (this.note.folder || this.note.tags.length > 0) {
+            const tags = this.note.tags.map((t) => `\`#${t}\``).join(' ');
+            md.appendMarkdown(
+                [
+                    ...(this.note.folder ? [`$(folder) ${this.note.folder}`] : []),
+                    ...(tags ? [`$(tag) ${tags}`] : []),
+                ].join(' · ') + '\n\n',
+            );
+        }
+        if (this.note.linkedRepo) {
+            const paths = this.note.linkedPaths.map((p) => `\`${p}\``).join(', ');
+            md.appendMarkdown(
+                `$(repo) ${this.note.linkedRepo}${paths ? ` · $(file-symlink-file) ${paths}` : ''}\n\n`,
+            );
+        }
+        if (this.note.files.length > 1) {
+            const names = this.note.files.map((f) => `\`${f.filename}\``).join(', ');
+            md.appendMarkdown(`$(files) ${names}\n\n`);
+        }
         md.appendMarkdown(`[Open on GitHub](${this.note.htmlUrl})`);
 
         return md;
@@ -84,23 +112,62 @@ export class GistNoteItem extends vscode.TreeItem {
 }
 
 /**
- * Compute highlight ranges for search query matches in a label string.
- * Returns array of [start, end] pairs for TreeItemLabel.highlights.
+ * A virtual folder of Gist Notes. `path` is the full folder path
+ * ("Work/Incidents"); its children are its subfolders, then its notes.
+ */
+export class NoteFolderItem extends vscode.TreeItem {
+    constructor(
+        public readonly path: string,
+        noteCount: number,
+    ) {
+        super(path.slice(path.lastIndexOf('/') + 1), vscode.TreeItemCollapsibleState.Collapsed);
+
+        this.id = `gist-note-folder-${path}`;
+        this.description = `${noteCount}`;
+        this.tooltip = `${path}\n${noteCount} note${noteCount !== 1 ? 's' : ''}`;
+        this.iconPath = vscode.ThemeIcon.Folder;
+        this.contextValue = 'gistNoteFolder';
+
+        this.accessibilityInformation = {
+            label: `Folder ${path}, ${noteCount} note${noteCount !== 1 ? 's' : ''}`,
+            role: 'treeitem',
+        };
+    }
+}
+
+/** An element of the Gist Notes tree. */
+export type GistNotesTreeNode = NoteFolderItem | GistNoteItem;
+
+/**
+ * Compute highlight ranges for matches of the words of a search query in a
+ * label string. Returns sorted, non-overlapping [start, end] pairs for
+ * TreeItemLabel.highlights.
  */
 function computeHighlights(label: string, query: string): [number, number][] {
-    const highlights: [number, number][] = [];
+    const ranges: [number, number][] = [];
     const lower = label.toLowerCase();
-    const q = query.toLowerCase();
-    let startIndex = 0;
 
-    while (true) {
-        const idx = lower.indexOf(q, startIndex);
-        if (idx === -1) {
-            break;
+    for (const word of query.toLowerCase().split(/\s+/).filter(Boolean)) {
+        let startIndex = 0;
+        while (true) {
+            const idx = lower.indexOf(word, startIndex);
+            if (idx === -1) {
+                break;
+            }
+            ranges.push([idx, idx + word.length]);
+            startIndex = idx + 1;
         }
-        highlights.push([idx, idx + q.length]);
-        startIndex = idx + 1;
     }
 
+    // Merge overlapping ranges
+    const highlights: [number, number][] = [];
+    for (const [start, end] of ranges.sort((a, b) => a[0] - b[0])) {
+        const last = highlights[highlights.length - 1];
+        if (last && start <= last[1]) {
+            last[1] = Math.max(last[1], end);
+        } else {
+            highlights.push([start, end]);
+        }
+    }
     return highlights;
 }
@@ -1,24 +1,36 @@
 import * as vscode from 'vscode';
-import { type GistService, type GistNote } from './gistService';
+import { type GistNote } from './gistService';
+import { type NotesCache } from './notesCache';
+import { type GitService } from './gitService';
 import { type AuthService } from './authService';
-import { GistNoteItem } from './gistNoteItem';
+import { GistNoteItem, NoteFolderItem, type GistNotesTreeNode } from './gistNoteItem';
+import { type LinkedNotesLens } from './linkedNotesLens';
+import { pinRepoNotes } from './noteLinks';
+import { NoteSearchIndex, isEmptyQuery, parseNoteQuery } from './noteSearch';
 
 /**
  * TreeDataProvider for the Gist Notes sidebar tree view.
- * Flat list (no children) — each GistNoteItem is a root element.
+ * Notes sit in their virtual folders; while searching, the matches are a
+ * flat list, best first.
  * Follows the same debounce/visibility/search pattern as StashProvider.
  */
-export class GistNotesProvider implements vscode.TreeDataProvider<GistNoteItem> {
+export class GistNotesProvider implements vscode.TreeDataProvider<GistNotesTreeNode> {
     private _onDidChangeTreeData = new vscode.EventEmitter<
-        GistNoteItem | undefined | null | void
+        GistNotesTreeNode | undefined | null | void
     >();
-    readonly onDidChangeTreeData: vscode.Event<GistNoteItem | undefined | null | void> =
+    readonly onDidChangeTreeData: vscode.Event<GistNotesTreeNode | undefined | null | void> =
         this._onDidChangeTreeData.event;
 
-    private _treeView?: vscode.TreeView<GistNoteItem>;
+    private _treeView?: vscode.TreeView<GistNotesTreeNode>;
     private _refreshTimer?: ReturnType<typeof setTimeout>;
     private _isRefreshing = false;
     private _cachedNotes: GistNote[] = [];
+    private _linkedNotesLens?: LinkedNotesLens;
+    private readonly _searchIndex = new NoteSearchIndex();
+
+    /** Notes in tree order as of the last root fetch, for expanding folders */
+    private _orderedNotes: GistNote[] = [];
+    private _repoSlug?: string;
 
     // Search/filter state
     private _searchQuery = '';
@@ -30,14 +42,15 @@ export class GistNotesProvider implements vscode.TreeDataProvider<GistNoteItem>
     private static readonly DEBOUNCE_MS = 300;
 
     constructor(
-        private readonly _gistService: GistService,
+        private readonly _notesCache: NotesCache,
+        private readonly _gitService: GitService,
         private readonly _authService: AuthService,
         private readonly _outputChannel?: vscode.OutputChannel,
     ) {}
 
     // ─── Tree View Binding ────────────────────────────────────────
 
-    setTreeView(treeView: vscode.TreeView<GistNoteItem>): void {
+    setTreeView(treeView: vscode.TreeView<GistNotesTreeNode>): void {
         this._treeView = treeView;
 
         // Visibility-gated refresh
@@ -54,6 +67,11 @@ export class GistNotesProvider implements vscode.TreeDataProvider<GistNoteItem>
         });
     }
 
+    /** Keep the editor's linked-note CodeLens and status bar entry in step with the tree. */
+    setLinkedNotesLens(lens: LinkedNotesLens): void {
+        this._linkedNotesLens = lens;
+    }
+
     // ─── Search ───────────────────────────────────────────────────
 
     setSearchQuery(query: string): void {
@@ -88,13 +106,15 @@ export class GistNotesProvider implements vscode.TreeDataProvider<GistNoteItem>
 
     // ─── TreeDataProvider ─────────────────────────────────────────
 
-    getTreeItem(element: GistNoteItem): vscode.TreeItem {
+    getTreeItem(element: GistNotesTreeNode): vscode.TreeItem {
         return element;
     }
 
-    async getChildren(_element?: GistNoteItem): Promise<GistNoteItem[]> {
-        // Flat list — no children
-        if (_element) {
+    async getChildren(element?: GistNotesTreeNode): Promise<GistNotesTreeNode[]> {
+        if (element instanceof NoteFolderItem) {
+            return this._folderChildren(element.path);
+        }
+        if (element) {
             return [];
         }
 
@@ -112,33 +132,36 @@ export class GistNotesProvider implements vscode.TreeDataProvider<GistNoteItem>
             if (!isAuth) {
                 await vscode.commands.executeCommand('setContext', 'superprompt-forge.hasNotes', false);
                 this._cachedNotes = [];
+                this._orderedNotes = [];
                 this._updateTreeChrome(0);
                 return [];
             }
 
-            // Fetch notes
-            const notes = await this._gistService.listNotes();
+            // Fetch notes — the cached copies while GitHub is unreachable
+            const notes = await this._notesCache.listNotes();
             this._cachedNotes = notes;
+            this._linkedNotesLens?.update(notes);
+            this._searchIndex.update(notes);
 
             const hasNotes = notes.length > 0;
             await vscode.commands.executeCommand('setContext', 'superprompt-forge.hasNotes', hasNotes);
 
-            // Sort by updatedAt descending (most recent first)
+            // Notes of the workspace repository first, then by updatedAt descending
             notes.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+            const ghRepo = await this._gitService.getGitHubRepo();
+            this._repoSlug = ghRepo ? `${ghRepo.owner}/${ghRepo.repo}` : undefined;
+            this._orderedNotes = pinRepoNotes(notes, this._repoSlug);
+
+            // Searching: the matches, best first, outside their folders
+            const query = parseNoteQuery(this._searchQuery);
+            if (!isEmptyQuery(query)) {
+                const results = this._searchIndex.search(query);
+                this._updateTreeChrome(notes.length, results.length, this._searchQuery);
+                return results.map(({ note }) => this._noteItem(note, query.terms.join(' ')));
+            }
 
-            // Filter by search query
-            const query = this._searchQuery.trim().toLowerCase();
-            const filtered = query
-                ? notes.filter(
-                      (n) =>
-                          n.title.toLowerCase().includes(query) ||
-                          n.content.toLowerCase().includes(query),
-                  )
-                : notes;
-
-            this._updateTreeChrome(notes.length, filtered.length, query);
-
-            return filtered.map((note) => new GistNoteItem(note, query || undefined));
+            this._updateTreeChrome(notes.length);
+            return this._folderChildren(null);
         } catch (error: unknown) {
             const msg = error instanceof Error ? error.message : 'Unknown error';
             this._outputChannel?.appendLine(`[NOTES] Error fetching notes: ${msg}`);
@@ -149,6 +172,49 @@ export class GistNotesProvider implements vscode.TreeDataProvider<GistNoteItem>
         }
     }
 
+    /** Subfolders of `folder` (null for the top level) by name, then the notes directly in it. */
+    private _folderChildren(folder: string | null): GistNotesTreeNode[] {
+        const prefix = folder ? `${folder}/` : '';
+        const subfolders = new Map<string, number>();
+        for (const note of this._orderedNotes) {
+            if (note.folder && note.folder.startsWith(prefix) && note.folder !== folder) {
+                const name = note.folder.slice(prefix.length).split('/')[0];
+                subfolders.set(name, (subfolders.get(name) ?? 0) + 1);
+            }
+        }
+        return [
+            ...[...subfolders]
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([name, count]) => new NoteFolderItem(prefix + name, count)),
+            ...this._orderedNotes
+                .filter((n) => n.folder === folder)
+                .map((n) => this._noteItem(n)),
+        ];
+    }
+
+    private _noteItem(note: GistNote, highlight?: string): GistNoteItem {
+        return new GistNoteItem(
+            note,
+            highlight || undefined,
+            !!this._repoSlug && note.linkedRepo === this._repoSlug,
+        );
+    }
+
+    /** Folder paths in use, with every parent folder, sorted. */
+    getFolders(): string[] {
+        const folders = new Set<string>();
+        for (const { folder } of this._cachedNotes) {
+            const segments = folder?.split('/') ?? [];
+            segments.forEach((_, i) => folders.add(segments.slice(0, i + 1).join('/')));
+        }
+        return [...folders].sort((a, b) => a.localeCompare(b));
+    }
+
+    /** Tags in use, sorted. */
+    getTags(): string[] {
+        return [...new Set(this._cachedNotes.flatMap((n) => n.tags))].sort();
+    }
+
     /** Get cached notes for use by other components (e.g. webview). */
     getCachedNotes(): GistNote[] {
         return this._cachedNotes;
@@ -171,6 +237,11 @@ export class GistNotesProvider implements vscode.TreeDataProvider<GistNoteItem>
         // Message
         if (query && filteredCount !== undefined) {
             this._treeView.message = `$(search) Showing ${filteredCount} of ${total} notes matching "${this._searchQuery}"`;
+        } else if (this._notesCache.offline) {
+            const pending = this._notesCache.pendingCount;
+            this._treeView.message = `$(cloud) Offline — showing cached notes${
+                pending > 0 ? `, ${pending} waiting to sync` : ''
+            }`;
         } else {
             this._treeView.message = undefined;
         }
@@ -1,8 +1,25 @@
 import * as vscode from 'vscode';
 import { type AuthService } from './authService';
+import { unifiedDiff } from './textDiff';
+import { normalizeFolder, normalizeTags } from './noteSearch';
 
 // ─── Data Model (16b) ────────────────────────────────────────────
 
+/**
+ * What a note file holds, going by its name: Markdown pages, images (SVG, or
+ * raster images stored as base64 text in `<name>.png.base64` since gists only
+ * hold text), and anything else as a code snippet.
+ */
+export type NoteFileKind = 'markdown' | 'image' | 'code';
+
+/** One file of a note gist (the marker file is never listed). */
+export interface GistNoteFile {
+    filename: string;
+    /** Empty in list results — the list API omits file contents */
+    content: string;
+    kind: NoteFileKind;
+}
+
 export interface GistNote {
     id: string; // GitHub gist ID
     title: string; // Derived from the .md filename
@@ -13,8 +30,16 @@ export interface GistNote {
     htmlUrl: string; // Gist URL for sharing
     description: string; // Gist description (contains "[Superprompt Forge]" marker)
     linkedRepo: string | null; // "owner/repo" if linked to a workspace, null otherwise
+    linkedPaths: string[]; // Files and folders ("dir/") of linkedRepo the note is about
+    tags: string[]; // Sorted, without "#"
+    folder: string | null; // Virtual folder path ("Work/Incidents"), null at the top level
+    mainFile: string; // Filename of the main page, whose body is `content`
+    files: GistNoteFile[]; // Every file of the note, main page first
 }
 
+/** `queued`: local edits wait for a connection; `conflict`: they await conflict resolution */
+export type NoteSyncState = 'queued' | 'conflict';
+
 /** Lightweight version sent to webview (dates as ISO strings) */
 export interface GistNoteData {
     id: string;
@@ -25,8 +50,43 @@ export interface GistNoteData {
     updatedAt: string;
     htmlUrl: string;
     linkedRepo: string | null;
+    /** Repo-relative files and folders (ending in "/") the note is linked to */
+    linkedPaths: string[];
+    tags: string[];
+    /** Virtual folder path ("Work/Incidents"); null at the top level */
+    folder: string | null;
     /** true when the gist description starts with [Superprompt Forge] */
     hasSpfMarker: boolean;
+    mainFile: string;
+    files: GistNoteFile[];
+    /** Set by the notes cache while local edits are not yet on GitHub */
+    syncState?: NoteSyncState;
+}
+
+/** One entry of a gist's revision history, newest first in `listRevisions`. */
+export interface GistRevision {
+    version: string; // Commit SHA of the gist's git repository
+    committedAt: Date;
+    author: string | null; // GitHub login, null if the account is gone
+    additions: number;
+    deletions: number;
+}
+
+/** How one file differs between two revisions of a note. */
+export interface NoteFileDiff {
+    filename: string;
+    status: 'added' | 'removed' | 'modified';
+    /** Unified diff hunks; empty for images */
+    diff: string;
+}
+
+/** Revision sent to webview (dates as ISO strings) */
+export interface GistRevisionData {
+    version: string;
+    committedAt: string;
+    author: string | null;
+    additions: number;
+    deletions: number;
 }
 
 // ─── Convention Constants (16c) ───────────────────────────────────
@@ -52,26 +112,83 @@ const ACCEPTED_MARKER_FILENAMES = [MARKER_FILENAME, LEGACY_MARKER_FILENAME];
 /** Marker file content — JSON metadata for forward-compatible versioning */
 const MARKER_CONTENT = JSON.stringify({ v: 1 });
 
-/** Build marker file content with optional workspace link */
-function buildMarkerContent(linkedRepo?: string | null): string {
-    const meta: { v: number; repo?: string } = { v: 1 };
-    if (linkedRepo) {
-        meta.repo = linkedRepo;
+/** What the marker file records about a note: its workspace links, tags and folder */
+interface NoteMeta {
+    repo: string | null;
+    /** Linked files and folders of `repo` — only kept while `repo` is set */
+    paths: string[];
+    tags: string[];
+    folder: string | null;
+}
+
+const EMPTY_META: NoteMeta = { repo: null, paths: [], tags: [], folder: null };
+
+function noteMeta(note: GistNote): NoteMeta {
+    return { repo: note.linkedRepo, paths: note.linkedPaths, tags: note.tags, folder: note.folder };
+}
+
+/** Build marker file content, leaving out what is unset */
+function buildMarkerContent(meta: Partial<NoteMeta> = {}): string {
+    const content: {
+        v: number;
+        repo?: string;
+        paths?: string[];
+        tags?: string[];
+        folder?: string;
+    } = { v: 1 };
+    if (meta.repo) {
+        content.repo = meta.repo;
+        if (meta.paths?.length) {
+            content.paths = meta.paths;
+        }
+    }
+    if (meta.tags?.length) {
+        content.tags = meta.tags;
     }
-    return JSON.stringify(meta);
+    if (meta.folder) {
+        content.folder = meta.folder;
+    }
+    return JSON.stringify(content);
 }
 
-/** Parse marker file content to extract linked repo */
-function parseMarkerContent(content?: string): string | null {
-    if (!content) { return null; }
+/** Parse marker file content; anything malformed reads as unset */
+function parseMarkerContent(content?: string): NoteMeta {
+    if (!content) { return EMPTY_META; }
     try {
-        const meta = JSON.parse(content) as { v?: number; repo?: string };
-        return meta.repo ?? null;
+        const meta = JSON.parse(content) as {
+            v?: number;
+            repo?: string;
+            paths?: unknown;
+            tags?: unknown;
+            folder?: unknown;
+        };
+        const strings = (value: unknown) =>
+            Array.isArray(value) ? value.filter((s): s is string => typeof s === 'string') : [];
+        return {
+            repo: meta.repo ?? null,
+            paths: meta.repo ? strings(meta.paths) : [],
+            tags: normalizeTags(strings(meta.tags)),
+            folder: typeof meta.folder === 'string' ? normalizeFolder(meta.folder) : null,
+        };
     } catch {
-        return null;
+        return EMPTY_META;
     }
 }
 
+/** Raster image extensions stored base64-encoded, as `<name>.<ext>.base64` */
+const BASE64_IMAGE = /\.(png|jpe?g|gif|webp)\.base64$/i;
+
+/** Classify a note file by its name. */
+export function noteFileKind(filename: string): NoteFileKind {
+    if (/\.(md|markdown)$/i.test(filename)) {
+        return 'markdown';
+    }
+    if (BASE64_IMAGE.test(filename) || /\.svg$/i.test(filename)) {
+        return 'image';
+    }
+    return 'code';
+}
+
 /** GitHub API base URL */
 const API_BASE = 'https://api.github.com';
 
@@ -79,6 +196,9 @@ const API_BASE = 'https://api.github.com';
 const MAX_PAGES = 2;
 const PER_PAGE = 100;
 
+/** Raw file URLs fetched at once by `getPages` */
+const RAW_BATCH = 10;
+
 // ─── Types ────────────────────────────────────────────────────────
 
 /** Injectable fetch function signature for testability */
@@ -92,7 +212,27 @@ interface GitHubGist {
     html_url: string;
     created_at: string;
     updated_at: string;
-    files: Record<string, { filename: string; content?: string; raw_url?: string } | undefined>;
+    files: Record<
+        string,
+        { filename: string; content?: string; raw_url?: string; truncated?: boolean } | undefined
+    >;
+    history?: {
+        version: string;
+        committed_at: string;
+        user: { login: string } | null;
+        change_status: { additions?: number; deletions?: number };
+    }[];
+}
+
+/**
+ * Thrown when GitHub cannot be reached at all (no network, DNS failure) —
+ * as opposed to an error response, which callers should surface.
+ */
+export class GistOfflineError extends Error {
+    constructor(cause: unknown) {
+        super(`GitHub is unreachable (${cause instanceof Error ? cause.message : String(cause)}).`);
+        this.name = 'GistOfflineError';
+    }
 }
 
 // ─── GistService (16a) ───────────────────────────────────────────
@@ -106,6 +246,12 @@ export class GistService {
     private readonly _authService: AuthService;
     private readonly _outputChannel: vscode.OutputChannel;
     private readonly _fetchFn: FetchFn;
+    /** Past revisions by `<id>@<version>` */
+    private readonly _revisions = new Map<string, GistNote>();
+    /** File contents by raw URL — list results omit them, and a raw URL never changes content */
+    private readonly _rawContents = new Map<string, string>();
+    /** Raw URL of the main page of each listed note, by note ID */
+    private readonly _pageUrls = new Map<string, string>();
 
     /**
      * @param authService   AuthService for GitHub tokens.
@@ -149,11 +295,18 @@ export class GistService {
             headers['Content-Type'] = 'application/json';
         }
 
-        const response = await this._fetchFn(url, {
-            method,
-            headers,
-            body: body ? JSON.stringify(body) : undefined,
-        });
+        let response: Response;
+        try {
+            response = await this._fetchFn(url, {
+                method,
+                headers,
+                body: body ? JSON.stringify(body) : undefined,
+            });
+        } catch (e: unknown) {
+            // fetch only rejects when no response arrived
+            this._outputChannel.appendLine(`[GIST] ${method} ${path} → offline`);
+            throw new GistOfflineError(e);
+        }
 
         // 16e: Check rate limiting
         this._checkRateLimit(response.headers);
@@ -240,14 +393,34 @@ export class GistService {
             ? description.slice(matchedPrefix.length)
             : description || 'Untitled';
 
-        // Find the .md content file (exclude all known marker filenames)
+        // Every file but the marker; the main page is the one named after the
+        // title, else the first .md file
         const markerNames = new Set(ACCEPTED_MARKER_FILENAMES);
-        const mdFile = Object.values(gist.files).find(
-            (f) => f && !markerNames.has(f.filename) && f.filename.endsWith('.md'),
+        const files: GistNoteFile[] = Object.values(gist.files).flatMap((f) =>
+            f && !markerNames.has(f.filename)
+                ? [
+                      {
+                          filename: f.filename,
+                          content: f.content ?? '',
+                          kind: noteFileKind(f.filename),
+                      },
+                  ]
+                : [],
         );
-
-        // Extract linked repo from marker file content
-        const linkedRepo = parseMarkerContent(markerFile.content);
+        const titleFilename = this._titleToFilename(title);
+        const mdFile =
+            files.find((f) => f.filename === titleFilename) ??
+            files.find((f) => f.filename.endsWith('.md'));
+        const mainFile = mdFile?.filename ?? titleFilename;
+
+        // Extract links, tags and folder from marker file content
+        const meta = parseMarkerContent(
+            markerFile.content ?? this._rawContents.get(markerFile.raw_url ?? ''),
+        );
+        const pageUrl = mdFile && gist.files[mdFile.filename]?.raw_url;
+        if (pageUrl) {
+            this._pageUrls.set(gist.id, pageUrl);
+        }
 
         return {
             id: gist.id,
@@ -258,7 +431,12 @@ export class GistService {
             updatedAt: new Date(gist.updated_at),
             htmlUrl: gist.html_url,
             description,
-            linkedRepo,
+            linkedRepo: meta.repo,
+            linkedPaths: meta.paths,
+            tags: meta.tags,
+            folder: meta.folder,
+            mainFile,
+            files: mdFile ? [mdFile, ...files.filter((f) => f !== mdFile)] : files,
         };
     }
 
@@ -302,6 +480,7 @@ export class GistService {
             if (!data || data.length === 0) {
                 break; // No more gists
             }
+            await this._loadMarkerContents(data);
 
             for (const gist of data) {
                 const note = this._parseGist(gist);
@@ -319,6 +498,64 @@ export class GistService {
         return notes;
     }
 
+    /**
+     * Fetch the marker files of listed notes, which hold their workspace
+     * links, a few at a time. A failure leaves the note unlinked until it is opened.
+     */
+    private async _loadMarkerContents(gists: GitHubGist[]): Promise<void> {
+        const rawUrls = gists.flatMap((gist) => {
+            const marker = ACCEPTED_MARKER_FILENAMES.map((fn) => gist.files[fn]).find(Boolean);
+            return marker?.content === undefined &&
+                marker?.raw_url &&
+                !this._rawContents.has(marker.raw_url)
+                ? [marker.raw_url]
+                : [];
+        });
+        for (let i = 0; i < rawUrls.length; i += RAW_BATCH) {
+            await Promise.all(rawUrls.slice(i, i + RAW_BATCH).map((url) => this._fetchRaw(url)));
+        }
+    }
+
+    /** Content at a raw URL (cached), or undefined when it cannot be fetched. */
+    private async _fetchRaw(url: string): Promise<string | undefined> {
+        const cached = this._rawContents.get(url);
+        if (cached !== undefined) {
+            return cached;
+        }
+        try {
+            const response = await this._fetchFn(url);
+            if (!response.ok) {
+                return undefined;
+            }
+            const content = await response.text();
+            this._rawContents.set(url, content);
+            return content;
+        } catch {
+            return undefined; // Offline
+        }
+    }
+
+    /**
+     * Main page contents of listed notes by ID, which list results omit.
+     * Pages are read a few at a time from their raw URLs; notes not listed
+     * yet and pages that cannot be fetched are left out.
+     */
+    async getPages(ids: string[]): Promise<Map<string, string>> {
+        const pages = new Map<string, string>();
+        for (let i = 0; i < ids.length; i += RAW_BATCH) {
+            await Promise.all(
+                ids.slice(i, i + RAW_BATCH).map(async (id) => {
+                    const url = this._pageUrls.get(id);
+                    const content = url && (await this._fetchRaw(url));
+                    if (content !== undefined && content !== '') {
+                        pages.set(id, content);
+                    }
+                }),
+            );
+        }
+        return pages;
+    }
+
     /** Get a single note by gist ID. */
     async getNote(id: string): Promise<GistNote> {
         const { data } = await this._request<GitHubGist>('GET', `/gists/${id}`);
@@ -329,15 +566,32 @@ export class GistService {
         return note;
     }
 
-    /** Create a new note gist. */
-    async createNote(title: string, content: string, isPublic = false, linkedRepo?: string): Promise<GistNote> {
+    /**
+     * Create a new note gist. `attachments` are extra non-markdown files
+     * (e.g. a stash bundle) stored alongside the note; `meta` sets its
+     * linked paths, tags and folder.
+     */
+    async createNote(
+        title: string,
+        content: string,
+        isPublic = false,
+        linkedRepo?: string,
+        attachments?: Record<string, string>,
+        meta?: Partial<Omit<NoteMeta, 'repo'>>,
+    ): Promise<GistNote> {
         const filename = this._titleToFilename(title);
+        const extraFiles = Object.fromEntries(
+            Object.entries(attachments ?? {}).map(([name, body]) => [name, { content: body }]),
+        );
         const { data } = await this._request<GitHubGist>('POST', '/gists', {
             description: `${MARKER_PREFIX}${title}`,
             public: isPublic,
             files: {
+                ...extraFiles,
                 [filename]: { content: content || '# ' + title + '\n' },
-                [MARKER_FILENAME]: { content: buildMarkerContent(linkedRepo) },
+                [MARKER_FILENAME]: {
+                    content: buildMarkerContent({ ...meta, repo: linkedRepo }),
+                },
             },
         });
 
@@ -357,16 +611,18 @@ export class GistService {
             throw new Error('Gist is not a Superprompt Forge note.');
         }
         const actualMarker = this._detectMarkerFilename(rawGist);
-        const oldFilename = this._titleToFilename(current.title);
+        const oldFilename = current.mainFile;
         const newFilename = this._titleToFilename(title);
 
         const files: Record<string, { content: string } | null> = {
             [newFilename]: { content },
-            [actualMarker]: { content: buildMarkerContent(current.linkedRepo) },
+            [actualMarker]: {
+                content: buildMarkerContent(noteMeta(current)),
+            },
         };
 
         // If the title changed, delete the old file
-        if (oldFilename !== newFilename) {
+        if (oldFilename !== newFilename && current.files.some((f) => f.filename === oldFilename)) {
             files[oldFilename] = null;
         }
 
@@ -382,6 +638,109 @@ export class GistService {
         return note;
     }
 
+    // ─── Note Files ───────────────────────────────────────────────
+
+    /** Reject names the gist API or the note convention cannot take. */
+    private _checkFilename(filename: string): void {
+        if (!filename.trim() || filename.includes('/')) {
+            throw new Error(`Invalid file name "${filename}".`);
+        }
+        if (ACCEPTED_MARKER_FILENAMES.includes(filename)) {
+            throw new Error(`"${filename}" is reserved for the note marker.`);
+        }
+    }
+
+    /** Fetch a note for a file operation, refusing operations on its main page. */
+    private async _noteForFileChange(id: string, filename: string): Promise<GistNote> {
+        const note = await this.getNote(id);
+        if (filename === note.mainFile) {
+            throw new Error('The main page is renamed with the note title and cannot be removed.');
+        }
+        if (!note.files.some((f) => f.filename === filename)) {
+            throw new Error(`The note has no file "${filename}".`);
+        }
+        return note;
+    }
+
+    /** Add a file to a note, or replace the content of an existing one. */
+    async saveNoteFile(id: string, filename: string, content: string): Promise<GistNote> {
+        this._checkFilename(filename);
+        const { data } = await this._request<GitHubGist>('PATCH', `/gists/${id}`, {
+            // The API rejects empty files
+            files: { [filename]: { content: content || '\n' } },
+        });
+        const note = this._parseGist(data);
+        if (!note) {
+            throw new Error('Failed to parse updated note.');
+        }
+        return note;
+    }
+
+    /** Rename a file of a note, keeping its content. */
+    async renameNoteFile(id: string, filename: string, newFilename: string): Promise<GistNote> {
+        this._checkFilename(newFilename);
+        const current = await this._noteForFileChange(id, filename);
+        if (current.files.some((f) => f.filename === newFilename)) {
+            throw new Error(`The note already has a file "${newFilename}".`);
+        }
+        const { data } = await this._request<GitHubGist>('PATCH', `/gists/${id}`, {
+            files: { [filename]: { filename: newFilename } },
+        });
+        const note = this._parseGist(data);
+        if (!note) {
+            throw new Error('Failed to parse updated note.');
+        }
+        return note;
+    }
+
+    /** Remove a file from a note. */
+    async deleteNoteFile(id: string, filename: string): Promise<GistNote> {
+        await this._noteForFileChange(id, filename);
+        const { data } = await this._request<GitHubGist>('PATCH', `/gists/${id}`, {
+            files: { [filename]: null },
+        });
+        const note = this._parseGist(data);
+        if (!note) {
+            throw new Error('Failed to parse updated note.');
+        }
+        return note;
+    }
+
+    /**
+     * Fetch every file of a gist by ID — any gist the user can read, not just
+     * their own notes. Files the API truncates (over ~1 MB) are fetched raw.
+     */
+    async getGistFiles(id: string): Promise<Record<string, string>> {
+        const { data } = await this._request<GitHubGist>('GET', `/gists/${id}`);
+        const files: Record<string, string> = {};
+        for (const file of Object.values(data.files)) {
+            if (!file) {
+                continue;
+            }
+            if (file.content !== undefined && !file.truncated) {
+                files[file.filename] = file.content;
+            } else if (file.raw_url) {
+                this._outputChannel.appendLine(`[GIST] GET raw ${file.filename}`);
+                const response = await this._fetchFn(file.raw_url, {
+                    headers: { Authorization: `Bearer ${await this._getToken()}` },
+                });
+                if (!response.ok) {
+                    await this._handleHttpError(response);
+                }
+                files[file.filename] = await response.text();
+            }
+        }
+        return files;
+    }
+
+    /** Extract a gist ID from a gist URL (`https://gist.github.com/user/<id>`) or a bare ID. */
+    static parseGistId(input: string): string | undefined {
+        const match = input
+            .trim()
+            .match(/(?:gist\.github\.com\/(?:[^/\s]+\/)?)?([0-9a-f]{20,})\/?$/i);
+        return match?.[1];
+    }
+
     /** Delete a note gist permanently. */
     async deleteNote(id: string): Promise<void> {
         await this._request<void>('DELETE', `/gists/${id}`);
@@ -403,36 +762,88 @@ export class GistService {
         // Delete the old gist
         await this.deleteNote(id);
 
-        // Re-create with opposite visibility (preserve linked repo)
-        return this.createNote(current.title, current.content, newVisibility, current.linkedRepo ?? undefined);
+        // Re-create with opposite visibility (preserve links, tags, folder and extra files)
+        const attachments = Object.fromEntries(
+            current.files
+                .filter((f) => f.filename !== current.mainFile)
+                .map((f) => [f.filename, f.content]),
+        );
+        return this.createNote(
+            current.title,
+            current.content,
+            newVisibility,
+            current.linkedRepo ?? undefined,
+            attachments,
+            noteMeta(current),
+        );
     }
 
-    /** Link a note to a workspace repository. */
-    async linkToRepo(id: string, repoSlug: string): Promise<GistNote> {
-        this._outputChannel.appendLine(`[GIST] Linking note ${id} to repo ${repoSlug}`);
+    /**
+     * Rewrite what a note's marker file records. `update` gets the current
+     * metadata and returns the fields to change.
+     */
+    private async _updateMeta(
+        id: string,
+        update: (meta: NoteMeta) => Partial<NoteMeta>,
+    ): Promise<GistNote> {
         // Detect which marker filename the gist uses (legacy or current)
         const { data: rawGist } = await this._request<GitHubGist>('GET', `/gists/${id}`);
         const actualMarker = this._detectMarkerFilename(rawGist);
+        const current = parseMarkerContent(rawGist.files[actualMarker]?.content);
         await this._request('PATCH', `/gists/${id}`, {
             files: {
-                [actualMarker]: { content: buildMarkerContent(repoSlug) },
+                [actualMarker]: { content: buildMarkerContent({ ...current, ...update(current) }) },
             },
         });
         return this.getNote(id);
     }
 
-    /** Unlink a note from its workspace repository. */
+    /** Link a note to a workspace repository (file links to another repo are dropped). */
+    async linkToRepo(id: string, repoSlug: string): Promise<GistNote> {
+        this._outputChannel.appendLine(`[GIST] Linking note ${id} to repo ${repoSlug}`);
+        return this._updateMeta(id, ({ repo, paths }) => ({
+            repo: repoSlug,
+            paths: repo === repoSlug ? paths : [],
+        }));
+    }
+
+    /** Unlink a note from its workspace repository, and from all its files. */
     async unlinkFromRepo(id: string): Promise<GistNote> {
         this._outputChannel.appendLine(`[GIST] Unlinking note ${id} from repo`);
-        // Detect which marker filename the gist uses (legacy or current)
-        const { data: rawGist } = await this._request<GitHubGist>('GET', `/gists/${id}`);
-        const actualMarker = this._detectMarkerFilename(rawGist);
-        await this._request('PATCH', `/gists/${id}`, {
-            files: {
-                [actualMarker]: { content: buildMarkerContent(null) },
-            },
-        });
-        return this.getNote(id);
+        return this._updateMeta(id, () => ({ repo: null, paths: [] }));
+    }
+
+    /**
+     * Link a note to a file or folder of a repository — `path` is relative
+     * to the repository root, with a trailing "/" for folders. Links the
+     * note to the repository too.
+     */
+    async linkToPath(id: string, repoSlug: string, path: string): Promise<GistNote> {
+        this._outputChannel.appendLine(`[GIST] Linking note ${id} to ${repoSlug}:${path}`);
+        return this._updateMeta(id, ({ repo, paths }) => ({
+            repo: repoSlug,
+            paths: [...(repo === repoSlug ? paths.filter((p) => p !== path) : []), path],
+        }));
+    }
+
+    /** Remove a file or folder link, keeping the repository link. */
+    async unlinkPath(id: string, path: string): Promise<GistNote> {
+        this._outputChannel.appendLine(`[GIST] Unlinking note ${id} from ${path}`);
+        return this._updateMeta(id, ({ paths }) => ({
+            paths: paths.filter((p) => p !== path),
+        }));
+    }
+
+    /** Replace a note's tags. */
+    async setTags(id: string, tags: string[]): Promise<GistNote> {
+        this._outputChannel.appendLine(`[GIST] Tagging note ${id}: ${tags.join(', ') || '(none)'}`);
+        return this._updateMeta(id, () => ({ tags: normalizeTags(tags) }));
+    }
+
+    /** Move a note to a virtual folder ("Work/Incidents"), or to the top level with null. */
+    async moveToFolder(id: string, folder: string | null): Promise<GistNote> {
+        this._outputChannel.appendLine(`[GIST] Moving note ${id} to ${folder || '(top level)'}`);
+        return this._updateMeta(id, () => ({ folder: folder ? normalizeFolder(folder) : null }));
     }
 
     /**
@@ -468,6 +879,98 @@ export class GistService {
         return this.getNote(id);
     }
 
+    // ─── Revisions ────────────────────────────────────────────────
+
+    /** Revision history of a note, newest first. */
+    async listRevisions(id: string): Promise<GistRevision[]> {
+        const { data } = await this._request<GitHubGist>('GET', `/gists/${id}`);
+        return (data.history ?? []).map((h) => ({
+            version: h.version,
+            committedAt: new Date(h.committed_at),
+            author: h.user?.login ?? null,
+            additions: h.change_status.additions ?? 0,
+            deletions: h.change_status.deletions ?? 0,
+        }));
+    }
+
+    /**
+     * A note as of a past revision. Revisions never change, so they are
+     * cached. The title is the current one — gist descriptions are not
+     * versioned.
+     */
+    async getRevision(id: string, version: string): Promise<GistNote> {
+        const key = `${id}@${version}`;
+        const cached = this._revisions.get(key);
+        if (cached) {
+            return cached;
+        }
+        const { data } = await this._request<GitHubGist>('GET', `/gists/${id}/${version}`);
+        const note = this._parseGist(data);
+        if (!note) {
+            throw new Error('Revision is not a Superprompt Forge note.');
+        }
+        this._revisions.set(key, note);
+        return note;
+    }
+
+    /** Files that differ between two revisions of a note, `from` → `to`. */
+    async diffRevisions(id: string, from: string, to: string): Promise<NoteFileDiff[]> {
+        const before = await this.getRevision(id, from);
+        const after = await this.getRevision(id, to);
+        const filenames = [...new Set([...before.files, ...after.files].map((f) => f.filename))];
+
+        const diffs: NoteFileDiff[] = [];
+        for (const filename of filenames) {
+            const a = before.files.find((f) => f.filename === filename);
+            const b = after.files.find((f) => f.filename === filename);
+            if (a && b && a.content === b.content) {
+                continue;
+            }
+            diffs.push({
+                filename,
+                status: !a ? 'added' : !b ? 'removed' : 'modified',
+                diff:
+                    noteFileKind(filename) === 'image'
+                        ? ''
+                        : unifiedDiff(a?.content ?? '', b?.content ?? ''),
+            });
+        }
+        return diffs;
+    }
+
+    /**
+     * Restore a note to a past revision as a new save, so the restore itself
+     * can be undone. Files added since are removed; the title stays, and the
+     * old main page is written under the current main page's name.
+     */
+    async restoreRevision(id: string, version: string): Promise<GistNote> {
+        const current = await this.getNote(id);
+        const old = await this.getRevision(id, version);
+        this._outputChannel.appendLine(`[GIST] Restoring note ${id} to ${version}`);
+
+        const files: Record<string, { content: string } | null> = {};
+        for (const file of current.files) {
+            files[file.filename] = null;
+        }
+        for (const file of old.files) {
+            const filename = file.filename === old.mainFile ? current.mainFile : file.filename;
+            // The API rejects empty files
+            files[filename] = { content: file.content || '\n' };
+        }
+
+        const { data } = await this._request<GitHubGist>('PATCH', `/gists/${id}`, { files });
+        const note = this._parseGist(data);
+        if (!note) {
+            throw new Error('Failed to parse restored note.');
+        }
+        return note;
+    }
+
+    /** Convert a revision to the data shape sent to the webview. */
+    static toRevisionData(revision: GistRevision): GistRevisionData {
+        return { ...revision, committedAt: revision.committedAt.toISOString() };
+    }
+
     /** Convert a GistNote to the lightweight data shape sent to the webview. */
     static toData(note: GistNote): GistNoteData {
         return {
@@ -479,7 +982,12 @@ export class GistService {
             updatedAt: note.updatedAt.toISOString(),
             htmlUrl: note.htmlUrl,
             linkedRepo: note.linkedRepo,
+            linkedPaths: note.linkedPaths,
+            tags: note.tags,
+            folder: note.folder,
             hasSpfMarker: note.description.startsWith(MARKER_PREFIX),
+            mainFile: note.mainFile,
+            files: note.files,
         };
     }
 }
@@ -1,6 +1,9 @@
 import type * as vscode from 'vscode';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 const execAsync = promisify(exec);
 
@@ -10,12 +13,22 @@ export interface GitResult {
     exitCode: number;
 }
 
+/** User-authored metadata attached to a stash, stored in git notes keyed by stash SHA. */
+export interface StashMetadata {
+    tags: string[];
+    description: string;
+    pinned: boolean;
+}
+
 export interface StashEntry {
     index: number;
     name: string;
+    /** Commit SHA of the stash — stable across index shifts */
+    sha: string;
     branch: string;
     message: string;
     date: Date;
+    metadata?: StashMetadata;
     stats?: {
         filesChanged: number;
         insertions: number;
@@ -23,10 +36,36 @@ export interface StashEntry {
     };
 }
 
+/** An unreachable stash commit — dropped or cleared, but not yet garbage-collected. */
+export interface DroppedStashEntry {
+    sha: string;
+    /** Original stash subject (`On main: fix login`), reused when restoring */
+    subject: string;
+    branch: string;
+    message: string;
+    date: Date;
+}
+
 export type FileStatus = 'M' | 'A' | 'D' | 'R' | 'C';
 
 export type StashMode = 'all' | 'staged' | 'untracked';
 
+/**
+ * What a stash file is diffed against: the commit it was created on (`parent`),
+ * the current `head`, or the current `working` tree.
+ */
+export type StashDiffBase = 'parent' | 'head' | 'working';
+
+/**
+ * A file that applying a stash would not apply cleanly: either a merge
+ * `conflict` with changes committed since the stash was made, or blocked by
+ * uncommitted `localChanges` to the same file.
+ */
+export interface StashApplyRisk {
+    path: string;
+    reason: 'conflict' | 'localChanges';
+}
+
 export interface StashOperationResult {
     success: boolean;
     conflicts: boolean;
@@ -38,13 +77,75 @@ export interface StashFileEntry {
     status: FileStatus;
 }
 
+/** A changed file in the working tree. `?` marks an untracked file. */
+export interface WorkingFileEntry {
+    path: string;
+    status: FileStatus | '?';
+}
+
+/**
+ * A single hunk from a `git diff` of the working tree.
+ * `fileHeader` holds the `diff --git` / `index` / `---` / `+++` lines so a
+ * subset of hunks can be re-assembled into a patch that `git apply` accepts.
+ */
+export interface DiffHunk {
+    /** Stable identity within a diff: `<path>:<@@ header>` */
+    id: string;
+    filePath: string;
+    fileHeader: string;
+    header: string;
+    lines: string[];
+}
+
+/**
+ * A stash serialized for export: plain-text patches plus what is needed to
+ * rebuild it as a real stash entry in another clone.
+ */
+export interface StashExport {
+    /** Original stash subject (`On main: fix login`), reused on import */
+    subject: string;
+    branch: string;
+    message: string;
+    /** Commit the stash was taken on; import falls back to HEAD if it is missing */
+    baseSha: string;
+    /** ISO date of the stash commit */
+    date: string;
+    untrackedFiles: string[];
+    /** Tracked changes: base → stashed working tree */
+    worktreePatch: string;
+    /** Staged changes: base → stashed index (omitted when nothing was staged) */
+    indexPatch?: string;
+    /** Untracked files as additions (omitted when the stash has none) */
+    untrackedPatch?: string;
+}
+
 /** Function signature for the exec implementation — injectable for tests. */
 export type ExecFn = (
     command: string,
-    options: { cwd: string },
+    options: { cwd: string; env?: NodeJS.ProcessEnv },
 ) => Promise<{ stdout: string; stderr: string }>;
 
+/**
+ * Thrown when `stash@{n}` no longer points at the stash the caller selected
+ * (another terminal pushed or dropped a stash in the meantime).
+ */
+export class StashChangedError extends Error {
+    constructor(index: number) {
+        super(
+            `The stash list changed — stash@{${index}} is no longer the selected stash. ` +
+                'The list has been refreshed; please try again.',
+        );
+        this.name = 'StashChangedError';
+    }
+}
+
 export class GitService {
+    /** Notes ref (`refs/notes/<NOTES_REF>`) holding stash metadata JSON. */
+    static readonly NOTES_REF = 'superprompt-forge';
+
+    /** What `getCurrentBranch()` returns when HEAD is detached — not a branch to check out. */
+    static readonly DETACHED_HEAD = 'HEAD (detached)';
+
     private _workspaceRoot: string | undefined;
     private _outputChannel: vscode.OutputChannel | undefined;
     private _execFn: ExecFn;
@@ -55,13 +156,20 @@ export class GitService {
      * @param execFn         Custom exec implementation for unit testing (optional).
      */
     constructor(workspaceRoot?: string, outputChannel?: vscode.OutputChannel, execFn?: ExecFn) {
-        // TODO: multi-root — caller passes the selected workspace folder
         this._workspaceRoot = workspaceRoot;
         this._outputChannel = outputChannel;
         this._execFn = execFn ?? execAsync;
     }
 
-    private async execGit(command: string): Promise<GitResult> {
+    /** Directory git commands run in (a workspace folder or repository root). */
+    get workspaceRoot(): string | undefined {
+        return this._workspaceRoot;
+    }
+
+    /**
+     * @param env  Extra environment variables (e.g. `GIT_INDEX_FILE`), merged over `process.env`.
+     */
+    private async execGit(command: string, env?: Record<string, string>): Promise<GitResult> {
         if (!this._workspaceRoot) {
             return { stdout: '', stderr: 'No workspace folder open', exitCode: 1 };
         }
@@ -69,9 +177,12 @@ export class GitService {
         this._outputChannel?.appendLine(`[GIT] git ${command}`);
 
         try {
-            const { stdout, stderr } = await this._execFn(`git ${command}`, {
-                cwd: this._workspaceRoot,
-            });
+            const { stdout, stderr } = await this._execFn(
+                `git ${command}`,
+                env
+                    ? { cwd: this._workspaceRoot, env: { ...process.env, ...env } }
+                    : { cwd: this._workspaceRoot },
+            );
             this._outputChannel?.appendLine(`[GIT] exit 0`);
             return { stdout: stdout.trim(), stderr: stderr.trim(), exitCode: 0 };
         } catch (error: unknown) {
@@ -100,17 +211,40 @@ export class GitService {
         return this.execGit(command);
     }
 
+    /**
+     * Ref for reading a stash: its SHA when known (immune to index shifts),
+     * otherwise `stash@{n}`.
+     */
+    private _stashRef(index: number, sha?: string): string {
+        return sha ? sha : `stash@{${index}}`;
+    }
+
+    /**
+     * Verify `stash@{n}` still resolves to `expectedSha` before a mutating
+     * operation that can only address stashes by index (pop, drop, branch).
+     * No-op when the caller has no SHA.
+     */
+    private async _verifyStash(index: number, expectedSha?: string): Promise<void> {
+        if (!expectedSha) {
+            return;
+        }
+        const { stdout, exitCode } = await this.execGit(`rev-parse --verify -q "stash@{${index}}"`);
+        if (exitCode !== 0 || stdout.trim() !== expectedSha) {
+            throw new StashChangedError(index);
+        }
+    }
+
     async getStashList(): Promise<StashEntry[]> {
-        // Use --format for structured output: ref|ISO-date|subject
-        const { stdout, exitCode } = await this.execGit('stash list --format="%gd|%ai|%gs"');
+        // Use --format for structured output: ref|sha|ISO-date|subject
+        const { stdout, exitCode } = await this.execGit('stash list --format="%gd|%H|%ai|%gs"');
         if (exitCode !== 0 || !stdout) {
             return [];
         }
 
         return stdout.split('\n').map((line, fallbackIndex) => {
-            // Format: stash@{0}|2026-02-10 14:23:05 -0600|On main: my message
+            // Format: stash@{0}|<sha>|2026-02-10 14:23:05 -0600|On main: my message
             // Safe split: preserve | in message content
-            const [ref, isoDate, ...subjectParts] = line.split('|');
+            const [ref, sha, isoDate, ...subjectParts] = line.split('|');
             const subject = subjectParts.join('|');
 
             // Parse stash index from ref
@@ -121,33 +255,128 @@ export class GitService {
             // Parse date
             const date = isoDate ? new Date(isoDate.trim()) : new Date();
 
-            // Parse subject: "WIP on branch: ..." or "On branch: ..."
-            const subjectMatch = subject?.match(/^\s*(?:WIP on|On)\s+(.+?):\s*(.*)/);
-
-            let branch = 'unknown';
-            let message = line; // Fallback: raw line
-
-            if (subjectMatch) {
-                branch = subjectMatch[1].trim();
-                const rawMessage = subjectMatch[2].trim();
-
-                // Detect WIP-only messages: starts with a commit hash (7+ hex chars)
-                if (
-                    !rawMessage ||
-                    /^[a-f0-9]{7,}\s/.test(rawMessage) ||
-                    /^[a-f0-9]{7,}$/.test(rawMessage)
-                ) {
-                    message = '(no message)';
-                } else {
-                    message = rawMessage;
-                }
-            }
+            // Fallback for unrecognised subjects: raw line
+            const { branch, message } = GitService.parseStashSubject(subject) ?? {
+                branch: 'unknown',
+                message: line,
+            };
 
-            return { index, name, branch, message, date };
+            return { index, name, sha: sha?.trim() ?? '', branch, message, date };
         });
     }
 
-    async createStash(message?: string, mode: StashMode = 'all'): Promise<void> {
+    /**
+     * Parse a stash subject — "WIP on branch: <sha> <commit msg>" or
+     * "On branch: <message>" — into branch and user message.
+     */
+    static parseStashSubject(subject: string): { branch: string; message: string } | undefined {
+        const subjectMatch = subject?.match(/^\s*(?:WIP on|On)\s+(.+?):\s*(.*)/);
+        if (!subjectMatch) {
+            return undefined;
+        }
+        const branch = subjectMatch[1].trim();
+        const rawMessage = subjectMatch[2].trim();
+
+        // Detect WIP-only messages: starts with a commit hash (7+ hex chars)
+        if (
+            !rawMessage ||
+            /^[a-f0-9]{7,}\s/.test(rawMessage) ||
+            /^[a-f0-9]{7,}$/.test(rawMessage)
+        ) {
+            return { branch, message: '(no message)' };
+        }
+        return { branch, message: rawMessage };
+    }
+
+    /** Find the current entry for a stash commit, or undefined if it's gone. */
+    async findStashBySha(sha: string): Promise<StashEntry | undefined> {
+        const stashes = await this.getStashList();
+        return stashes.find((s) => s.sha === sha);
+    }
+
+    /**
+     * Read stash metadata (tags, description, pinned) for the given stash SHAs
+     * from the `refs/notes/superprompt-forge` notes ref, in a single git call.
+     * Notes are keyed by commit SHA, so metadata survives index shifts.
+     */
+    async getStashMetadata(shas: string[]): Promise<Map<string, StashMetadata>> {
+        const result = new Map<string, StashMetadata>();
+        const valid = shas.filter((sha) => /^[0-9a-f]{7,40}$/.test(sha));
+        if (valid.length === 0) {
+            return result;
+        }
+        const { stdout, exitCode } = await this.execGit(
+            `log --no-walk=unsorted --notes=${GitService.NOTES_REF} --format="%H%x1f%N%x1e" ${valid.join(' ')}`,
+        );
+        if (exitCode !== 0 || !stdout) {
+            return result;
+        }
+        for (const record of stdout.split('\x1e')) {
+            const [sha, note] = record.split('\x1f');
+            const metadata = note ? GitService.parseStashMetadata(note) : undefined;
+            if (sha?.trim() && metadata) {
+                result.set(sha.trim(), metadata);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Write (or, when empty, remove) the metadata note for a stash SHA.
+     * The note body goes through a temp file to avoid shell-quoting the JSON.
+     */
+    async setStashMetadata(sha: string, metadata: StashMetadata): Promise<void> {
+        const isEmpty =
+            metadata.tags.length === 0 && !metadata.description.trim() && !metadata.pinned;
+        if (isEmpty) {
+            const { stderr, exitCode } = await this.execGit(
+                `notes --ref=${GitService.NOTES_REF} remove --ignore-missing ${sha}`,
+            );
+            if (exitCode !== 0) {
+                throw new Error(stderr || 'Failed to clear stash metadata');
+            }
+            return;
+        }
+
+        const tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'superprompt-forge-'));
+        const noteFile = path.join(tmpDir, 'note.json');
+        try {
+            await fs.promises.writeFile(noteFile, JSON.stringify(metadata) + '\n', 'utf8');
+            const { stderr, exitCode } = await this.execGit(
+                `notes --ref=${GitService.NOTES_REF} add -f -F "${noteFile}" ${sha}`,
+            );
+            if (exitCode !== 0) {
+                throw new Error(stderr || 'Failed to save stash metadata');
+            }
+        } finally {
+            await fs.promises.rm(tmpDir, { recursive: true, force: true });
+        }
+    }
+
+    /** Parse a metadata note body, tolerating missing fields. Returns undefined if not our JSON. */
+    static parseStashMetadata(raw: string): StashMetadata | undefined {
+        try {
+            const data = JSON.parse(raw.trim()) as Partial<StashMetadata>;
+            if (typeof data !== 'object' || data === null) {
+                return undefined;
+            }
+            return {
+                tags: Array.isArray(data.tags)
+                    ? data.tags.filter((t): t is string => typeof t === 'string')
+                    : [],
+                description: typeof data.description === 'string' ? data.description : '',
+                pinned: data.pinned === true,
+            };
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Create a stash. When `paths` is given, only those files are stashed
+     * (`git stash push -- <pathspec>`); everything else stays in the working tree.
+     */
+    async createStash(message?: string, mode: StashMode = 'all', paths?: string[]): Promise<void> {
         let command = 'stash push';
         if (mode === 'untracked') {
             command += ' --include-untracked';
@@ -155,7 +384,10 @@ export class GitService {
             command += ' --staged';
         }
         if (message) {
-            command += ` -m "${message}"`;
+            command += ` -m "${GitService.escapeArg(message)}"`;
+        }
+        if (paths && paths.length > 0) {
+            command += ` -- ${paths.map((p) => `"${GitService.escapeArg(p)}"`).join(' ')}`;
         }
         const { stderr, exitCode } = await this.execGit(command);
         if (exitCode !== 0) {
@@ -163,7 +395,90 @@ export class GitService {
         }
     }
 
-    async applyStash(index: number): Promise<StashOperationResult> {
+    /**
+     * Stash only the given hunks (plus any whole `paths`), leaving every other
+     * change in the working tree.
+     *
+     * Patch-based: the unselected hunks of each touched file are reverse-applied,
+     * the files are stashed with a pathspec, and the unselected hunks are applied
+     * back. Hunks must come from `getWorkingFileHunks()` (diff against HEAD), so
+     * unselected hunks that were staged come back unstaged.
+     */
+    async createPartialStash(
+        message: string | undefined,
+        hunks: DiffHunk[],
+        paths: string[] = [],
+    ): Promise<void> {
+        const hunkFiles = [...new Set(hunks.map((h) => h.filePath))];
+        if (hunkFiles.length === 0 && paths.length === 0) {
+            throw new Error('Nothing selected to stash');
+        }
+
+        // Re-read the current hunks so the kept set reflects the working tree right now
+        const allHunks: DiffHunk[] = [];
+        for (const file of hunkFiles) {
+            allHunks.push(...(await this.getWorkingFileHunks(file)));
+        }
+        const selectedIds = new Set(hunks.map((h) => h.id));
+        const missing = hunks.filter((h) => !allHunks.some((a) => a.id === h.id));
+        if (missing.length > 0) {
+            throw new Error(
+                `The working tree changed since the hunks were selected (${missing[0].filePath}). Reselect and try again.`,
+            );
+        }
+        const keptPatch = GitService.buildPatch(allHunks.filter((h) => !selectedIds.has(h.id)));
+
+        const tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'superprompt-forge-'));
+        const patchFile = path.join(tmpDir, 'kept.patch');
+        // Keep the patch on disk if restoring it fails, so the user can recover by hand
+        let keepPatchFile = false;
+        try {
+            if (keptPatch) {
+                await fs.promises.writeFile(patchFile, keptPatch, 'utf8');
+                const reverse = await this.execGit(`apply -R "${patchFile}"`);
+                if (reverse.exitCode !== 0) {
+                    throw new Error(reverse.stderr || 'Failed to separate the selected hunks');
+                }
+            }
+
+            const pathspec = [...new Set([...hunkFiles, ...paths])];
+            let command = 'stash push --include-untracked';
+            if (message) {
+                command += ` -m "${GitService.escapeArg(message)}"`;
+            }
+            command += ` -- ${pathspec.map((p) => `"${GitService.escapeArg(p)}"`).join(' ')}`;
+            const pushed = await this.execGit(command);
+
+            if (keptPatch) {
+                // Restore the unselected hunks whether or not the push succeeded
+                const restore = await this.execGit(`apply "${patchFile}"`);
+                if (restore.exitCode !== 0) {
+                    keepPatchFile = true;
+                    throw new Error(
+                        `Failed to restore the unselected hunks (${restore.stderr}). They are saved in ${patchFile}`,
+                    );
+                }
+            }
+            if (pushed.exitCode !== 0) {
+                throw new Error(pushed.stderr || 'Failed to create stash');
+            }
+        } finally {
+            if (!keepPatchFile) {
+                await fs.promises.rm(tmpDir, { recursive: true, force: true });
+            }
+        }
+    }
+
+    /**
+     * Apply/pop/drop/branch take the stash's SHA (`StashEntry.sha`) and refuse to
+     * act with a `StashChangedError` if `stash@{n}` has shifted to another stash.
+     */
+    async applyStash(index: number, sha?: string): Promise<StashOperationResult> {
+        try {
+            await this._verifyStash(index, sha);
+        } catch (e: unknown) {
+            return { success: false, conflicts: false, message: (e as Error).message };
+        }
         const { stderr, exitCode } = await this.execGit(`stash apply "stash@{${index}}"`);
         if (exitCode !== 0 && stderr.includes('CONFLICT')) {
             return { success: true, conflicts: true, message: stderr };
@@ -174,7 +489,12 @@ export class GitService {
         return { success: true, conflicts: false, message: '' };
     }
 
-    async popStash(index: number): Promise<StashOperationResult> {
+    async popStash(index: number, sha?: string): Promise<StashOperationResult> {
+        try {
+            await this._verifyStash(index, sha);
+        } catch (e: unknown) {
+            return { success: false, conflicts: false, message: (e as Error).message };
+        }
         const { stderr, exitCode } = await this.execGit(`stash pop "stash@{${index}}"`);
         if (exitCode !== 0 && stderr.includes('CONFLICT')) {
             // On conflict, git pop applies changes but does NOT drop the stash
@@ -186,7 +506,81 @@ export class GitService {
         return { success: true, conflicts: false, message: '' };
     }
 
-    async dropStash(index: number): Promise<void> {
+    /**
+     * `git stash branch`: create and check out `branchName` at the commit the
+     * stash was made from, apply the stash there and drop it if that succeeds.
+     * The clean way out when a pop conflicts with the current branch.
+     */
+    async createBranchFromStash(index: number, branchName: string, sha?: string): Promise<void> {
+        await this._verifyStash(index, sha);
+        const { stderr, exitCode } = await this.execGit(
+            `stash branch "${GitService.escapeArg(branchName)}" "stash@{${index}}"`,
+        );
+        if (exitCode !== 0) {
+            throw new Error(stderr || 'Failed to create branch from stash');
+        }
+    }
+
+    /**
+     * Whether `name` is a branch name `git check-ref-format --branch` accepts:
+     * no control characters, spaces, `~^:?*[\`, `..`, `@{` or `//`, no component
+     * starting with `.` or ending in `.lock`, and not `@` alone.
+     */
+    static isValidBranchName(name: string): boolean {
+        return (
+            !!name &&
+            name !== '@' &&
+            !/[\x00-\x20\x7f~^:?*[\\]|\.\.|@\{|\/\/|(^|\/)\.|\.lock(\/|$)|^[-/]|[/.]$/.test(name)
+        );
+    }
+
+    /**
+     * Suggest a branch name for `createBranchFromStash()` from the stash's
+     * original branch and message, e.g. "main-fix-login-redirect".
+     */
+    static suggestBranchName(entry: Pick<StashEntry, 'index' | 'branch' | 'message'>): string {
+        const slugify = (text: string) =>
+            text
+                .toLowerCase()
+                .replace(/[^a-z0-9/._-]+/g, '-')
+                .replace(/\.{2,}|\/{2,}/g, '-')
+                .replace(/^[-./]+|[-./]+$/g, '');
+        const base = entry.branch && entry.branch !== 'unknown' ? slugify(entry.branch) : '';
+        const fromMessage =
+            entry.message && entry.message !== '(no message)'
+                ? slugify(entry.message).replace(/\//g, '-').slice(0, 40).replace(/-+$/, '')
+                : '';
+        const suffix = fromMessage || `stash-${entry.index}`;
+        return base ? `${base}-${suffix}` : suffix;
+    }
+
+    /** Paths with unmerged (conflicted) index entries, e.g. after a conflicting apply/pop. */
+    async getConflictedFiles(): Promise<string[]> {
+        const { stdout, exitCode } = await this.execGit('diff --name-only --diff-filter=U');
+        if (exitCode !== 0 || !stdout) {
+            return [];
+        }
+        return [...new Set(stdout.split('\n').map((f) => f.trim()).filter(Boolean))];
+    }
+
+    /**
+     * Resolve a conflicted file by taking one side wholesale and marking it resolved.
+     * For `stash apply`/`pop`, "theirs" is the stashed version and "ours" is the working tree.
+     */
+    async resolveConflict(filePath: string, side: 'ours' | 'theirs'): Promise<void> {
+        const file = GitService.escapeArg(filePath);
+        const checkout = await this.execGit(`checkout --${side} -- "${file}"`);
+        if (checkout.exitCode !== 0) {
+            throw new Error(checkout.stderr || `Failed to check out ${side} version`);
+        }
+        const add = await this.execGit(`add -- "${file}"`);
+        if (add.exitCode !== 0) {
+            throw new Error(add.stderr || 'Failed to mark file as resolved');
+        }
+    }
+
+    async dropStash(index: number, sha?: string): Promise<void> {
+        await this._verifyStash(index, sha);
         const { stderr, exitCode } = await this.execGit(`stash drop "stash@{${index}}"`);
         if (exitCode !== 0) {
             throw new Error(stderr || 'Failed to drop stash');
@@ -200,17 +594,215 @@ export class GitService {
         }
     }
 
-    async getStashDiff(index: number): Promise<string> {
-        const { stdout, stderr, exitCode } = await this.execGit(`stash show -p "stash@{${index}}"`);
+    /**
+     * Find dropped/cleared stashes that git has not garbage-collected yet:
+     * unreachable merge commits with a stash-shaped subject, newest first.
+     * `--no-reflogs` is needed because dropped stashes linger in no reflog,
+     * but it also reports live stashes below stash@{0}, so those are excluded.
+     */
+    async getDroppedStashes(limit = 20): Promise<DroppedStashEntry[]> {
+        const { stdout } = await this.execGit('fsck --unreachable --no-reflogs --no-progress');
+        const candidates = stdout
+            .split('\n')
+            .map((line) => line.match(/^unreachable commit ([0-9a-f]{40})$/)?.[1])
+            .filter((sha): sha is string => !!sha);
+        if (candidates.length === 0) {
+            return [];
+        }
+
+        const live = new Set((await this.getStashList()).map((s) => s.sha));
+        const shas = candidates.filter((sha) => !live.has(sha));
+
+        const dropped: DroppedStashEntry[] = [];
+        // Chunk to keep the command line short in repos with lots of garbage
+        for (let i = 0; i < shas.length; i += 100) {
+            const chunk = shas.slice(i, i + 100);
+            const log = await this.execGit(
+                `log --no-walk=unsorted --merges --format="%H|%P|%ai|%s" ${chunk.join(' ')}`,
+            );
+            if (log.exitCode !== 0 || !log.stdout) {
+                continue;
+            }
+            for (const line of log.stdout.split('\n')) {
+                const [sha, parents, isoDate, ...subjectParts] = line.split('|');
+                const subject = subjectParts.join('|');
+                const parsed = GitService.parseStashSubject(subject);
+                // A stash commit has the base commit and the index commit as parents
+                if (!sha || !parsed || (parents ?? '').split(' ').length < 2) {
+                    continue;
+                }
+                dropped.push({ sha, subject, ...parsed, date: new Date(isoDate.trim()) });
+            }
+        }
+
+        dropped.sort((a, b) => b.date.getTime() - a.date.getTime());
+        return dropped.slice(0, limit);
+    }
+
+    /** Put a dropped stash back on the stash list as stash@{0}. */
+    async restoreDroppedStash(entry: Pick<DroppedStashEntry, 'sha' | 'subject'>): Promise<void> {
+        const { stderr, exitCode } = await this.execGit(
+            `stash store -m "${GitService.escapeArg(entry.subject)}" ${entry.sha}`,
+        );
+        if (exitCode !== 0) {
+            throw new Error(stderr || 'Failed to restore stash');
+        }
+    }
+
+    /**
+     * Serialize a stash into patches against its base commit. Patches go
+     * through `--output` files rather than stdout, which `execGit` trims.
+     */
+    async exportStash(index: number, sha?: string): Promise<StashExport> {
+        const ref = this._stashRef(index, sha);
+        const info = await this.execGit(`log -1 --format="%P%x1f%aI%x1f%s" "${ref}"`);
+        if (info.exitCode !== 0 || !info.stdout) {
+            throw new Error(info.stderr || `Stash ${ref} not found`);
+        }
+        const [parentList, date, subject] = info.stdout.split('\x1f');
+        const [baseSha, indexSha, untrackedSha] = parentList.split(' ');
+        const { branch, message } = GitService.parseStashSubject(subject) ?? {
+            branch: 'unknown',
+            message: subject,
+        };
+
+        const tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'superprompt-forge-'));
+        const writePatch = async (name: string, command: string): Promise<string> => {
+            const file = path.join(tmpDir, name);
+            const { stderr, exitCode } = await this.execGit(`${command} --output="${file}"`);
+            if (exitCode !== 0) {
+                throw new Error(stderr || `Failed to export ${ref}`);
+            }
+            return fs.promises.readFile(file, 'utf8').catch(() => '');
+        };
+
+        try {
+            const worktreePatch = await writePatch(
+                'worktree.patch',
+                `diff --binary ${baseSha} ${ref}`,
+            );
+            const indexPatch = await writePatch(
+                'index.patch',
+                `diff --binary ${baseSha} ${indexSha}`,
+            );
+
+            let untrackedPatch: string | undefined;
+            let untrackedFiles: string[] = [];
+            if (untrackedSha) {
+                // The untracked commit is a root commit, so `show` diffs it against the empty tree
+                untrackedPatch = await writePatch(
+                    'untracked.patch',
+                    `show --binary --format= ${untrackedSha}`,
+                );
+                const files = await this.execGit(`ls-tree -r --name-only ${untrackedSha}`);
+                untrackedFiles = files.stdout ? files.stdout.split('\n') : [];
+            }
+
+            return {
+                subject,
+                branch,
+                message,
+                baseSha,
+                date,
+                untrackedFiles,
+                worktreePatch,
+                ...(indexPatch ? { indexPatch } : {}),
+                ...(untrackedPatch ? { untrackedPatch } : {}),
+            };
+        } finally {
+            await fs.promises.rm(tmpDir, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Rebuild an exported stash as a real stash entry (`stash@{0}`) without
+     * touching the working tree or index: trees are built in a temporary index
+     * file, committed with the stash's original shape and date, then stored.
+     * `rebased` is true when the base commit is missing here and HEAD was used.
+     */
+    async importStash(data: StashExport): Promise<{ sha: string; rebased: boolean }> {
+        const q = GitService.escapeArg;
+        const hasBase =
+            (await this.execGit(`cat-file -e "${q(data.baseSha)}^{commit}"`)).exitCode === 0;
+        const base = hasBase ? data.baseSha : (await this.execGit('rev-parse HEAD')).stdout;
+        if (!base) {
+            throw new Error('Cannot import a stash into a repository without commits');
+        }
+
+        const tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'superprompt-forge-'));
+        const env = {
+            GIT_INDEX_FILE: path.join(tmpDir, 'index'),
+            GIT_AUTHOR_DATE: data.date,
+            GIT_COMMITTER_DATE: data.date,
+        };
+        const run = async (command: string): Promise<string> => {
+            const { stdout, stderr, exitCode } = await this.execGit(command, env);
+            if (exitCode !== 0) {
+                throw new Error(stderr || `git ${command} failed`);
+            }
+            return stdout;
+        };
+        /** Tree of `start` (a commit, or `--empty`) with `patch` applied */
+        const buildTree = async (start: string, patch: string | undefined, name: string) => {
+            await run(`read-tree "${q(start)}"`);
+            if (patch) {
+                const file = path.join(tmpDir, name);
+                await fs.promises.writeFile(file, patch, 'utf8');
+                await run(`apply --cached --binary "${q(file)}"`);
+            }
+            return run('write-tree');
+        };
+
+        try {
+            const label = q(`${data.branch}: ${data.message}`);
+            const indexTree = await buildTree(base, data.indexPatch, 'index.patch');
+            const indexCommit = await run(
+                `commit-tree "${q(indexTree)}" -p "${q(base)}" -m "index on ${label}"`,
+            );
+            const parents = [`-p "${q(base)}"`, `-p "${q(indexCommit)}"`];
+            if (data.untrackedPatch) {
+                const untrackedTree = await buildTree(
+                    '--empty',
+                    data.untrackedPatch,
+                    'untracked.patch',
+                );
+                const untrackedCommit = await run(
+                    `commit-tree "${q(untrackedTree)}" -m "untracked files on ${label}"`,
+                );
+                parents.push(`-p "${q(untrackedCommit)}"`);
+            }
+            const worktreeTree = await buildTree(base, data.worktreePatch, 'worktree.patch');
+            const subject = q(data.subject);
+            const sha = await run(
+                `commit-tree "${q(worktreeTree)}" ${parents.join(' ')} -m "${subject}"`,
+            );
+            await run(`stash store -m "${subject}" "${q(sha)}"`);
+            return { sha, rebased: !hasBase };
+        } catch (e: unknown) {
+            const reason = e instanceof Error ? e.message : String(e);
+            throw new Error(
+                hasBase
+                    ? reason
+                    : `The stash's base commit is not in this repository and its changes do not apply to HEAD: ${reason}`,
+            );
+        } finally {
+            await fs.promises.rm(tmpDir, { recursive: true, force: true });
+        }
+    }
+
+    async getStashDiff(index: number, sha?: string): Promise<string> {
+        const { stdout, stderr, exitCode } = await this.execGit(
+            `stash show -p "${this._stashRef(index, sha)}"`,
+        );
         if (exitCode !== 0) {
             throw new Error(stderr || 'Failed to get stash diff');
         }
         return stdout;
     }
 
-    async getStashFiles(index: number): Promise<string[]> {
+    async getStashFiles(index: number, sha?: string): Promise<string[]> {
         const { stdout, stderr, exitCode } = await this.execGit(
-            `stash show --name-only "stash@{${index}}"`,
+            `stash show --name-only "${this._stashRef(index, sha)}"`,
         );
         if (exitCode !== 0) {
             throw new Error(stderr || 'Failed to get stash files');
@@ -218,8 +810,10 @@ export class GitService {
         return stdout.split('\n').filter((line) => line.trim());
     }
 
-    async getStashStats(index: number): Promise<StashEntry['stats']> {
-        const { stdout, exitCode } = await this.execGit(`stash show --stat "stash@{${index}}"`);
+    async getStashStats(index: number, sha?: string): Promise<StashEntry['stats']> {
+        const { stdout, exitCode } = await this.execGit(
+            `stash show --stat "${this._stashRef(index, sha)}"`,
+        );
         if (exitCode !== 0 || !stdout) {
             return undefined;
         }
@@ -241,9 +835,9 @@ export class GitService {
         };
     }
 
-    async getStashFilesWithStatus(index: number): Promise<StashFileEntry[]> {
+    async getStashFilesWithStatus(index: number, sha?: string): Promise<StashFileEntry[]> {
         const { stdout, stderr, exitCode } = await this.execGit(
-            `stash show --name-status stash@{${index}}`,
+            `stash show --name-status "${this._stashRef(index, sha)}"`,
         );
         if (exitCode !== 0) {
             throw new Error(stderr || 'Failed to get stash files with status');
@@ -263,8 +857,11 @@ export class GitService {
 
     async getStashFileNumstat(
         index: number,
+        sha?: string,
     ): Promise<{ path: string; insertions: number; deletions: number }[]> {
-        const { stdout, exitCode } = await this.execGit(`stash show --numstat "stash@{${index}}"`);
+        const { stdout, exitCode } = await this.execGit(
+            `stash show --numstat "${this._stashRef(index, sha)}"`,
+        );
         if (exitCode !== 0 || !stdout) {
             return [];
         }
@@ -284,9 +881,9 @@ export class GitService {
             });
     }
 
-    async getStashFileContent(index: number, filePath: string): Promise<string> {
+    async getStashFileContent(index: number, filePath: string, sha?: string): Promise<string> {
         const { stdout, stderr, exitCode } = await this.execGit(
-            `show "stash@{${index}}":"${filePath}"`,
+            `show "${this._stashRef(index, sha)}":"${filePath}"`,
         );
         if (exitCode !== 0) {
             throw new Error(stderr || 'Failed to get stash file content');
@@ -294,20 +891,38 @@ export class GitService {
         return stdout;
     }
 
-    async getStashFileDiff(index: number, filePath: string): Promise<string> {
+    /**
+     * Unified diff of one stashed file. With a `head` or `working` base the stashed
+     * version is compared against today's code instead of the commit it was made on,
+     * so the diff shows what the file would become after applying the stash.
+     */
+    async getStashFileDiff(
+        index: number,
+        filePath: string,
+        sha?: string,
+        base: StashDiffBase = 'parent',
+    ): Promise<string> {
+        const ref = this._stashRef(index, sha);
+        const file = GitService.escapeArg(filePath);
+        if (base === 'head') {
+            const { stdout, exitCode } = await this.execGit(`diff HEAD "${ref}" -- "${file}"`);
+            return exitCode === 0 ? stdout : '';
+        }
+        if (base === 'working') {
+            // `diff <commit>` compares the commit to the working tree; -R puts the stash on the "+" side
+            const { stdout, exitCode } = await this.execGit(`diff -R "${ref}" -- "${file}"`);
+            return exitCode === 0 ? stdout : '';
+        }
+
         // Try per-file diff first
-        const { stdout, exitCode } = await this.execGit(
-            `stash show -p "stash@{${index}}" -- "${filePath}"`,
-        );
+        const { stdout, exitCode } = await this.execGit(`stash show -p "${ref}" -- "${file}"`);
         if (exitCode === 0 && stdout.trim()) {
             return stdout;
         }
 
         // Fallback: diff stash commit against its parent directly
         // This handles added/deleted files that stash show -p may not cover
-        const fallback = await this.execGit(
-            `diff "stash@{${index}}^" "stash@{${index}}" -- "${filePath}"`,
-        );
+        const fallback = await this.execGit(`diff "${ref}^" "${ref}" -- "${file}"`);
         if (fallback.exitCode === 0 && fallback.stdout.trim()) {
             return fallback.stdout;
         }
@@ -315,6 +930,95 @@ export class GitService {
         return '';
     }
 
+    /**
+     * Predict which of a stash's files would not apply cleanly today.
+     *
+     * Conflicts come from a dry-run `merge-tree --write-tree` of the stash onto HEAD
+     * (git 2.38+); older gits fall back to files changed both in the stash and
+     * between its base and HEAD. Files the stash touches that also have
+     * uncommitted changes are reported as `localChanges` — `git stash apply`
+     * refuses to overwrite those.
+     */
+    async getStashApplyRisks(index: number, sha?: string): Promise<StashApplyRisk[]> {
+        const ref = this._stashRef(index, sha);
+        const stashFiles = new Set(await this.getStashFiles(index, sha));
+        if (stashFiles.size === 0) {
+            return [];
+        }
+
+        let conflicts: string[];
+        const merge = await this.execGit(
+            `merge-tree --write-tree --name-only --no-messages HEAD "${ref}"`,
+        );
+        if (merge.exitCode === 0) {
+            conflicts = [];
+        } else if (merge.exitCode === 1 && merge.stdout) {
+            // First line is the result tree id, then one conflicted path per line
+            conflicts = merge.stdout.split('\n').slice(1);
+        } else {
+            const { stdout } = await this.execGit(`diff --name-only "${ref}^" HEAD`);
+            conflicts = stdout.split('\n');
+        }
+
+        const risks = new Map<string, StashApplyRisk['reason']>();
+        for (const file of conflicts.map((f) => f.trim())) {
+            if (stashFiles.has(file)) {
+                risks.set(file, 'conflict');
+            }
+        }
+        const { stdout: dirty } = await this.execGit('diff --name-only HEAD');
+        for (const file of dirty.split('\n').map((f) => f.trim())) {
+            if (stashFiles.has(file) && !risks.has(file)) {
+                risks.set(file, 'localChanges');
+            }
+        }
+        return [...risks].map(([path, reason]) => ({ path, reason }));
+    }
+
+    /**
+     * List changed files in the working tree (staged, unstaged and untracked).
+     */
+    async getWorkingChanges(): Promise<WorkingFileEntry[]> {
+        const { stdout, exitCode } = await this.execGit('status --porcelain --untracked-files=all');
+        if (exitCode !== 0 || !stdout) {
+            return [];
+        }
+
+        return stdout
+            .split('\n')
+            .filter((line) => line.trim())
+            .map((line) => {
+                // Format: "XY path" or "XY old -> new" for renames. execGit() trims
+                // stdout, so the first line may have lost a leading " " from XY.
+                const match = line.match(/^([ MADRCU?!]{1,2}) (.*)$/);
+                const xy = match ? match[1].padStart(2, ' ') : line.slice(0, 2);
+                const rawPath = match ? match[2] : line.slice(3);
+                const filePath = (rawPath.includes(' -> ') ? rawPath.split(' -> ')[1] : rawPath)
+                    .trim()
+                    .replace(/^"|"$/g, '');
+                if (xy === '??') {
+                    return { path: filePath, status: '?' as const };
+                }
+                const code = xy[0] !== ' ' ? xy[0] : xy[1];
+                const status: FileStatus = 'MADRC'.includes(code) ? (code as FileStatus) : 'M';
+                return { path: filePath, status };
+            });
+    }
+
+    /**
+     * Split the working-tree diff (against HEAD) of a single file into hunks.
+     * Untracked and binary files have no hunks.
+     */
+    async getWorkingFileHunks(filePath: string): Promise<DiffHunk[]> {
+        const { stdout, exitCode } = await this.execGit(
+            `diff HEAD -- "${GitService.escapeArg(filePath)}"`,
+        );
+        if (exitCode !== 0 || !stdout) {
+            return [];
+        }
+        return GitService.parseDiffHunks(stdout);
+    }
+
     async hasChanges(): Promise<boolean> {
         const { stdout, exitCode } = await this.execGit('status --porcelain');
         return exitCode === 0 && stdout.length > 0;
@@ -325,8 +1029,42 @@ export class GitService {
         return exitCode === 0;
     }
 
+    /** Top-level directory of the repository, or undefined if not inside one. */
+    async getRepositoryRoot(): Promise<string | undefined> {
+        const { stdout, exitCode } = await this.execGit('rev-parse --show-toplevel');
+        return exitCode === 0 && stdout ? path.normalize(stdout) : undefined;
+    }
+
     /**
-     * Return the current branch name, or 'HEAD' if detached, or undefined if not a git repo.
+     * Absolute git directory — `<root>/.git`, or `.git/modules/<name>` in the
+     * superproject for a submodule (where `.git` is only a pointer file).
+     */
+    async getGitDir(): Promise<string | undefined> {
+        const { stdout, exitCode } = await this.execGit('rev-parse --absolute-git-dir');
+        return exitCode === 0 && stdout ? path.normalize(stdout) : undefined;
+    }
+
+    /**
+     * Absolute paths of checked-out submodules, recursively. Uninitialized
+     * submodules (`-` prefix in `git submodule status`) have no work tree and
+     * are skipped.
+     */
+    async listSubmodules(): Promise<string[]> {
+        const { stdout, exitCode } = await this.execGit('submodule status --recursive');
+        if (exitCode !== 0 || !stdout || !this._workspaceRoot) {
+            return [];
+        }
+        const root = this._workspaceRoot;
+        // " <sha> <path> (<describe>)" — the leading status char may have been trimmed
+        return stdout
+            .split('\n')
+            .map((line) => line.match(/^([ +U-]?)[0-9a-f]{7,} (.+?)(?: \(.*\))?$/))
+            .filter((m): m is RegExpMatchArray => m !== null && m[1] !== '-')
+            .map((m) => path.resolve(root, m[2]));
+    }
+
+    /**
+     * Return the current branch name, `DETACHED_HEAD` if detached, or undefined if not a git repo.
      */
     async getCurrentBranch(): Promise<string | undefined> {
         const { stdout, exitCode } = await this.execGit('branch --show-current');
@@ -334,7 +1072,7 @@ export class GitService {
             return undefined;
         }
         // --show-current returns empty string on detached HEAD
-        return stdout || 'HEAD (detached)';
+        return stdout || GitService.DETACHED_HEAD;
     }
 
     /**
@@ -423,6 +1161,227 @@ export class GitService {
         return branches;
     }
 
+    /**
+     * The repository's default branch: the remote HEAD (e.g. `origin/main`) when
+     * known, otherwise a local `main` or `master`.
+     */
+    async getDefaultBranch(): Promise<string | undefined> {
+        const remoteHead = await this.execGit('symbolic-ref --short refs/remotes/origin/HEAD');
+        if (remoteHead.exitCode === 0 && remoteHead.stdout) {
+            return remoteHead.stdout;
+        }
+        for (const name of ['main', 'master']) {
+            const { exitCode } = await this.execGit(
+                `rev-parse --verify --quiet "refs/heads/${name}"`,
+            );
+            if (exitCode === 0) {
+                return name;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * List local branches whose tips are reachable from `into`.
+     */
+    async listMergedBranches(into: string): Promise<string[]> {
+        const { stdout, exitCode } = await this.execGit(
+            `branch --merged "${into}" --format="%(refname:short)"`,
+        );
+        if (exitCode !== 0 || !stdout) {
+            return [];
+        }
+        return stdout
+            .split('\n')
+            .map((b) => b.trim().replace(/^"|"$/g, ''))
+            .filter(Boolean);
+    }
+
+    /**
+     * The commit local branch `branch` was created at — the oldest entry of its
+     * reflog, or undefined once the reflog has expired or was never kept.
+     */
+    async getBranchStart(branch: string): Promise<string | undefined> {
+        const { stdout, exitCode } = await this.execGit(
+            `reflog show --format=%H "refs/heads/${GitService.escapeArg(branch)}" --`,
+        );
+        if (exitCode !== 0 || !stdout) {
+            return undefined;
+        }
+        return stdout.split('\n').pop()?.trim() || undefined;
+    }
+
+    /**
+     * Check out an existing local branch.
+     */
+    async checkoutBranch(branch: string): Promise<void> {
+        const { stderr, exitCode } = await this.execGit(
+            `checkout "${GitService.escapeArg(branch)}"`,
+        );
+        if (exitCode !== 0) {
+            throw new Error(stderr || `Failed to check out ${branch}`);
+        }
+    }
+
+    /**
+     * Fetch the head commit of pull request `prNumber` from `remote` — a remote
+     * name or URL of the base repository. `refs/pull/<n>/head` also carries
+     * PRs opened from forks. Returns the fetched commit SHA.
+     */
+    async fetchPullRequest(remote: string, prNumber: number): Promise<string> {
+        const fetched = await this.execGit(
+            `fetch "${GitService.escapeArg(remote)}" "refs/pull/${prNumber}/head"`,
+        );
+        if (fetched.exitCode !== 0) {
+            throw new Error(fetched.stderr || `Failed to fetch pull request #${prNumber}`);
+        }
+        const { stdout, stderr, exitCode } = await this.execGit('rev-parse FETCH_HEAD');
+        if (exitCode !== 0 || !stdout) {
+            throw new Error(stderr || `Failed to fetch pull request #${prNumber}`);
+        }
+        return stdout;
+    }
+
+    /** The commit `ref` points at, or undefined if it does not exist. */
+    async resolveRef(ref: string): Promise<string | undefined> {
+        const { stdout, exitCode } = await this.execGit(
+            `rev-parse --verify --quiet "${GitService.escapeArg(ref)}^{commit}"`,
+        );
+        return exitCode === 0 && stdout ? stdout : undefined;
+    }
+
+    /** Whether `ancestor` is reachable from `descendant` (or the same commit). */
+    async isAncestor(ancestor: string, descendant: string): Promise<boolean> {
+        const q = GitService.escapeArg;
+        const { exitCode } = await this.execGit(
+            `merge-base --is-ancestor "${q(ancestor)}" "${q(descendant)}"`,
+        );
+        return exitCode === 0;
+    }
+
+    /**
+     * Check out local branch `branch` at `commit`, creating it or moving it
+     * there (`git checkout -B`). Commits only on the old branch tip are left
+     * behind, so callers check with `isAncestor` first.
+     */
+    async checkoutBranchAt(branch: string, commit: string): Promise<void> {
+        const q = GitService.escapeArg;
+        const { stderr, exitCode } = await this.execGit(`checkout -B "${q(branch)}" "${q(commit)}"`);
+        if (exitCode !== 0) {
+            throw new Error(stderr || `Failed to check out ${branch}`);
+        }
+    }
+
+    /**
+     * Commit the current contents of tracked files `paths` — and only those,
+     * whatever else is staged. Returns the new commit's SHA.
+     */
+    async commitPaths(paths: string[], message: string): Promise<string> {
+        const pathspec = paths.map((p) => `"${GitService.escapeArg(p)}"`).join(' ');
+        const committed = await this.execGit(
+            `commit -m "${GitService.escapeArg(message)}" -- ${pathspec}`,
+        );
+        if (committed.exitCode !== 0) {
+            throw new Error(committed.stderr || committed.stdout || 'Failed to commit');
+        }
+        const { stdout, stderr, exitCode } = await this.execGit('rev-parse HEAD');
+        if (exitCode !== 0 || !stdout) {
+            throw new Error(stderr || 'Failed to commit');
+        }
+        return stdout;
+    }
+
+    /** Fetch `branches` from `remote`, updating their remote-tracking branches. */
+    async fetchBranches(remote: string, branches: string[]): Promise<void> {
+        const refs = branches.map((b) => `"${GitService.escapeArg(b)}"`).join(' ');
+        const { stderr, exitCode } = await this.execGit(
+            `fetch "${GitService.escapeArg(remote)}" ${refs}`,
+        );
+        if (exitCode !== 0) {
+            throw new Error(stderr || `Failed to fetch from ${remote}`);
+        }
+    }
+
+    /** Detach HEAD at the current commit, so every branch can be moved. */
+    async detachHead(): Promise<void> {
+        const { stderr, exitCode } = await this.execGit('checkout --detach');
+        if (exitCode !== 0) {
+            throw new Error(stderr || 'Failed to detach HEAD');
+        }
+    }
+
+    /** Point local branch `branch` at `commit`, creating it if needed (`git branch -f`). */
+    async setBranch(branch: string, commit: string): Promise<void> {
+        const q = GitService.escapeArg;
+        const { stderr, exitCode } = await this.execGit(`branch -f "${q(branch)}" "${q(commit)}"`);
+        if (exitCode !== 0) {
+            throw new Error(stderr || `Failed to move ${branch}`);
+        }
+    }
+
+    /** Delete local branch `branch`, merged or not (`git branch -D`). */
+    async deleteBranch(branch: string): Promise<void> {
+        const { stderr, exitCode } = await this.execGit(
+            `branch -D "${GitService.escapeArg(branch)}"`,
+        );
+        if (exitCode !== 0) {
+            throw new Error(stderr || `Failed to delete ${branch}`);
+        }
+    }
+
+    /**
+     * Rebase `branch` onto `onto`, replaying only its commits after `upstream`
+     * (`git rebase --onto`). A rebase that stops on conflicts is aborted,
+     * leaving `branch` where it was.
+     */
+    async rebaseOnto(branch: string, onto: string, upstream: string): Promise<void> {
+        const q = GitService.escapeArg;
+        const { stdout, stderr, exitCode } = await this.execGit(
+            `rebase --onto "${q(onto)}" "${q(upstream)}" "${q(branch)}"`,
+        );
+        if (exitCode !== 0) {
+            await this.execGit('rebase --abort');
+            throw new Error(
+                `Rebasing ${branch} onto ${onto} stopped on conflicts — rebase it by hand\n${stderr || stdout}`,
+            );
+        }
+    }
+
+    /**
+     * Force-push `branches` to `remote` in one atomic push. Each branch is
+     * only overwritten if the remote still has `expected` there (undefined:
+     * the branch must not exist yet), so commits pushed meanwhile by someone
+     * else are never lost (`--force-with-lease`).
+     */
+    async pushWithLease(
+        remote: string,
+        branches: { branch: string; expected: string | undefined }[],
+    ): Promise<void> {
+        const q = GitService.escapeArg;
+        const leases = branches
+            .map((b) => `--force-with-lease="refs/heads/${q(b.branch)}:${q(b.expected ?? '')}"`)
+            .join(' ');
+        const refspecs = branches
+            .map((b) => `"refs/heads/${q(b.branch)}:refs/heads/${q(b.branch)}"`)
+            .join(' ');
+        const { stderr, exitCode } = await this.execGit(
+            `push --atomic ${leases} "${q(remote)}" ${refspecs}`,
+        );
+        if (exitCode !== 0) {
+            throw new Error(stderr || `Failed to push to ${remote}`);
+        }
+    }
+
+    /**
+     * Pull the current branch from its upstream.
+     */
+    async pull(): Promise<void> {
+        const { stderr, exitCode } = await this.execGit('pull');
+        if (exitCode !== 0) {
+            throw new Error(stderr || 'Failed to pull');
+        }
+    }
+
     /**
      * Get the diff of the current branch against a base branch.
      * Uses merge-base to find the common ancestor for a clean diff.
@@ -476,6 +1435,88 @@ export class GitService {
         return stdout;
     }
 
+    /**
+     * Split a unified diff into per-hunk entries, keeping each file's header
+     * so hunks can be recombined with `buildPatch()`.
+     */
+    static parseDiffHunks(diff: string): DiffHunk[] {
+        const hunks: DiffHunk[] = [];
+        let filePath = '';
+        let fileHeader: string[] = [];
+        let current: DiffHunk | undefined;
+
+        for (const line of diff.split('\n')) {
+            if (line.startsWith('diff --git ')) {
+                current = undefined;
+                fileHeader = [line];
+                // "diff --git a/path b/path" — take the b/ side
+                const match = line.match(/^diff --git "?a\/.+?"? "?b\/(.+?)"?$/);
+                filePath = match ? match[1] : '';
+                continue;
+            }
+            if (line.startsWith('@@')) {
+                current = {
+                    id: `${filePath}:${line}`,
+                    filePath,
+                    fileHeader: fileHeader.join('\n'),
+                    header: line,
+                    lines: [],
+                };
+                hunks.push(current);
+                continue;
+            }
+            if (current) {
+                current.lines.push(line);
+            } else if (fileHeader.length > 0) {
+                fileHeader.push(line);
+            }
+        }
+
+        // execGit() trims stdout, which can eat the blank context line(s) that end
+        // the last hunk — pad back up to the line counts from the @@ header
+        for (const hunk of hunks) {
+            while (hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1] === '') {
+                hunk.lines.pop();
+            }
+            const counts = hunk.header.match(/^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+            if (!counts) {
+                continue;
+            }
+            const expectedOld = counts[1] !== undefined ? parseInt(counts[1], 10) : 1;
+            let oldCount = hunk.lines.filter((l) => l.startsWith(' ') || l.startsWith('-')).length;
+            while (oldCount < expectedOld) {
+                hunk.lines.push(' ');
+                oldCount++;
+            }
+        }
+        return hunks;
+    }
+
+    /**
+     * Reassemble hunks (in order) into a patch for `git apply`.
+     * Returns an empty string when there are no hunks.
+     */
+    static buildPatch(hunks: DiffHunk[]): string {
+        if (hunks.length === 0) {
+            return '';
+        }
+        const out: string[] = [];
+        let lastHeader: string | undefined;
+        for (const hunk of hunks) {
+            if (hunk.fileHeader !== lastHeader) {
+                out.push(hunk.fileHeader);
+                lastHeader = hunk.fileHeader;
+            }
+            out.push(hunk.header, ...hunk.lines);
+        }
+        return out.join('\n') + '\n';
+    }
+
+    /** Escape a value for use inside a double-quoted shell argument. */
+    static escapeArg(value: string): string {
+        return value.replace(/(["\\$`])/g, '\\$1');
+    }
+
     /**
      * Static parser for GitHub remote URLs. Useful for testing.
      */
@@ -1,7 +1,159 @@
 import * as vscode from 'vscode';
-import { GistService } from '../gistService';
+import * as path from 'path';
+import { GistService, type GistNote } from '../gistService';
 import { extractErrorMessage } from '../utils';
-import type { MessageHandler } from './types';
+import { pickNoteTemplate } from '../uiUtils';
+import { type NotesCache } from '../notesCache';
+import { findBacklinks, renameWikiLinks } from '../noteWikiLinks';
+import type { HandlerContext, MessageHandler } from './types';
+
+/** Raster images are attached as base64 text — gists only hold text. */
+const RASTER_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.gif', '.webp']);
+
+/** Largest file `notes.attachFile` accepts (gist files over ~1 MB are truncated). */
+const MAX_ATTACHMENT_BYTES = 1024 * 1024;
+
+/**
+ * Send the webview a note's file list after a file was added, saved, renamed
+ * or removed. `extra` says which: `savedFile`, or `renamedFrom`/`renamedTo`.
+ */
+function postNoteFiles(
+    ctx: HandlerContext,
+    note: GistNote,
+    extra: Record<string, string> = {},
+): void {
+    ctx.postMessage({
+        type: 'noteFilesChanged',
+        noteId: note.id,
+        mainFile: note.mainFile,
+        files: note.files,
+        updatedAt: note.updatedAt.toISOString(),
+        ...extra,
+    });
+}
+
+/** Tell the webview whether GitHub is reachable and how many notes wait to sync. */
+function postSyncStatus(ctx: HandlerContext): void {
+    if (ctx.notesCache) {
+        ctx.postMessage({
+            type: 'notesSyncStatus',
+            offline: ctx.notesCache.offline,
+            pending: ctx.notesCache.pendingCount,
+        });
+    }
+}
+
+/** Create a note linked to the current workspace and open it in the webview. */
+async function createNote(
+    ctx: HandlerContext,
+    gistService: GistService,
+    title: string,
+    content: string,
+    isPublic = false,
+): Promise<GistNote | undefined> {
+    try {
+        ctx.postMessage({ type: 'notesLoading' });
+        // Auto-link to current workspace
+        const repoInfo = await ctx.getRepoInfo();
+        const linkedRepo = repoInfo ? `${repoInfo.owner}/${repoInfo.repo}` : undefined;
+        const note = await gistService.createNote(title, content, isPublic, linkedRepo);
+        ctx.postMessage({
+            type: 'noteCreated',
+            note: GistService.toData(note),
+        });
+        return note;
+    } catch (e: unknown) {
+        const m = extractErrorMessage(e);
+        vscode.window.showErrorMessage(`Failed to create note: ${m}`);
+        ctx.postMessage({ type: 'notesError', message: m });
+        return undefined;
+    }
+}
+
+/** Send the webview the notes that link to a note with `[[title]]`. */
+async function postBacklinks(
+    ctx: HandlerContext,
+    notesCache: NotesCache,
+    noteId: string,
+    title: string,
+): Promise<void> {
+    const backlinks = findBacklinks(await notesCache.listPages(), { id: noteId, title });
+    ctx.postMessage({ type: 'noteBacklinks', noteId, backlinks });
+}
+
+/**
+ * After a note was renamed, offer to point the `[[links]]` of the notes
+ * referring to its old title at the new one.
+ */
+async function offerLinkRename(
+    ctx: HandlerContext,
+    notesCache: NotesCache,
+    note: GistNote,
+    oldTitle: string,
+): Promise<void> {
+    const pages = await notesCache.listPages();
+    const referring = findBacklinks(pages, { id: note.id, title: oldTitle });
+    if (referring.length === 0) {
+        return;
+    }
+    const count = referring.length === 1 ? '1 note links' : `${referring.length} notes link`;
+    const choice = await vscode.window.showInformationMessage(
+        `${count} to "${oldTitle}". Update the links to "${note.title}"?`,
+        'Update Links',
+    );
+    if (choice !== 'Update Links') {
+        return;
+    }
+
+    let updated = 0;
+    for (const { id } of referring) {
+        const page = pages.find((p) => p.note.id === id);
+        if (!page) {
+            continue;
+        }
+        try {
+            const { note: saved } = await notesCache.updateNote(
+                id,
+                page.note.title,
+                renameWikiLinks(page.content, oldTitle, note.title),
+            );
+            ctx.postMessage({
+                type: 'noteContent',
+                noteId: saved.id,
+                title: saved.title,
+                content: saved.content,
+                mainFile: saved.mainFile,
+                files: saved.files,
+                syncState: notesCache.syncState(saved.id),
+            });
+            updated++;
+        } catch (e: unknown) {
+            vscode.window.showErrorMessage(
+                `Failed to update links in "${page.note.title}": ${extractErrorMessage(e)}`,
+            );
+        }
+    }
+    vscode.window.showInformationMessage(
+        `Updated links in ${updated} note${updated === 1 ? '' : 's'}.`,
+    );
+    await postBacklinks(ctx, notesCache, note.id, note.title);
+}
+
+/** Ask for a file name for a note, defaulting to a Markdown page. */
+async function promptFilename(prompt: string, value = ''): Promise<string | undefined> {
+    const name = await vscode.window.showInputBox({
+        prompt,
+        value,
+        placeHolder: 'e.g. Setup.md, deploy.sh, diagram.svg',
+        validateInput: (v) =>
+            !v.trim()
+                ? 'Enter a file name'
+                : v.includes('/')
+                  ? 'File names cannot contain "/"'
+                  : null,
+    });
+    return name?.trim() || undefined;
+}
 
 /** Handle all `notes.*` messages from the webview. */
 export const handleNotesMessage: MessageHandler = async (ctx, msg) => {
@@ -21,27 +173,30 @@ export const handleNotesMessage: MessageHandler = async (ctx, msg) => {
             await ctx.refreshNotes();
             return true;
 
+        case 'notes.sync':
+            await vscode.commands.executeCommand('superprompt-forge.notes.sync');
+            return true;
+
         case 'notes.create':
             if (msg.title && ctx.gistService) {
-                try {
-                    ctx.postMessage({ type: 'notesLoading' });
-                    // Auto-link to current workspace
-                    const repoInfo = await ctx.getRepoInfo();
-                    const linkedRepo = repoInfo ? `${repoInfo.owner}/${repoInfo.repo}` : undefined;
-                    const note = await ctx.gistService.createNote(
-                        msg.title,
-                        msg.content ?? '',
-                        msg.isPublic ?? false,
-                        linkedRepo,
+                await createNote(ctx, ctx.gistService, msg.title, msg.content ?? '', msg.isPublic);
+            }
+            return true;
+
+        case 'notes.createFromTemplate':
+            if (ctx.gistService) {
+                const template = await pickNoteTemplate(ctx.gistService, {
+                    git: ctx.gitService,
+                    prs: ctx.prService,
+                });
+                if (template) {
+                    await createNote(
+                        ctx,
+                        ctx.gistService,
+                        msg.title || template.title || 'Untitled Note',
+                        template.content,
+                        msg.isPublic,
                     );
-                    ctx.postMessage({
-                        type: 'noteCreated',
-                        note: GistService.toData(note),
-                    });
-                } catch (e: unknown) {
-                    const m = extractErrorMessage(e);
-                    vscode.window.showErrorMessage(`Failed to create note: ${m}`);
-                    ctx.postMessage({ type: 'notesError', message: m });
                 }
             }
             return true;
@@ -50,18 +205,45 @@ export const handleNotesMessage: MessageHandler = async (ctx, msg) => {
             if (msg.noteId && ctx.gistService) {
                 try {
                     ctx.postMessage({ type: 'notesSaving' });
-                    const saved = await ctx.gistService.updateNote(
-                        msg.noteId,
-                        msg.title ?? '',
-                        msg.content ?? '',
-                    );
+                    const { note: saved, status } = ctx.notesCache
+                        ? await ctx.notesCache.updateNote(
+                              msg.noteId,
+                              msg.title ?? '',
+                              msg.content ?? '',
+                          )
+                        : {
+                              note: await ctx.gistService.updateNote(
+                                  msg.noteId,
+                                  msg.title ?? '',
+                                  msg.content ?? '',
+                              ),
+                              status: 'saved',
+                          };
                     ctx.postMessage({
                         type: 'noteSaved',
                         noteId: msg.noteId,
                         title: saved.title,
                         content: saved.content,
+                        mainFile: saved.mainFile,
+                        files: saved.files,
                         updatedAt: saved.updatedAt.toISOString(),
+                        syncState: ctx.notesCache?.syncState(msg.noteId),
                     });
+                    if (status === 'conflict') {
+                        // Show the merge result, conflict markers and all
+                        ctx.postMessage({
+                            type: 'noteContent',
+                            noteId: saved.id,
+                            title: saved.title,
+                            content: saved.content,
+                            mainFile: saved.mainFile,
+                            files: saved.files,
+                        });
+                    }
+                    postSyncStatus(ctx);
+                    if (ctx.notesCache && msg.previousTitle && msg.previousTitle !== saved.title) {
+                        void offerLinkRename(ctx, ctx.notesCache, saved, msg.previousTitle);
+                    }
                 } catch (e: unknown) {
                     const m = extractErrorMessage(e);
                     vscode.window.showErrorMessage(`Failed to save note: ${m}`);
@@ -112,15 +294,198 @@ export const handleNotesMessage: MessageHandler = async (ctx, msg) => {
         case 'notes.loadNote':
             if (msg.noteId && ctx.gistService) {
                 try {
-                    const fullNote = await ctx.gistService.getNote(msg.noteId);
+                    const fullNote = await (ctx.notesCache ?? ctx.gistService).getNote(msg.noteId);
                     ctx.postMessage({
                         type: 'noteContent',
                         noteId: fullNote.id,
                         title: fullNote.title,
                         content: fullNote.content,
+                        mainFile: fullNote.mainFile,
+                        files: fullNote.files,
+                        syncState: ctx.notesCache?.syncState(fullNote.id),
+                    });
+                } catch (e: unknown) {
+                    const m = extractErrorMessage(e);
+                    ctx.postMessage({ type: 'notesError', message: m });
+                }
+            }
+            return true;
+
+        case 'notes.loadBacklinks':
+            if (msg.noteId && msg.title && ctx.notesCache) {
+                try {
+                    await postBacklinks(ctx, ctx.notesCache, msg.noteId, msg.title);
+                } catch (e: unknown) {
+                    ctx.outputChannel.appendLine(
+                        `[Notes] Backlinks failed: ${extractErrorMessage(e)}`,
+                    );
+                    ctx.postMessage({ type: 'noteBacklinks', noteId: msg.noteId, backlinks: [] });
+                }
+            }
+            return true;
+
+        case 'notes.openWikiLink':
+            if (msg.title && ctx.gistService) {
+                try {
+                    const title = String(msg.title).trim();
+                    const notes = await (ctx.notesCache ?? ctx.gistService).listNotes();
+                    let target = notes.find(
+                        (n) => n.title.trim().toLowerCase() === title.toLowerCase(),
+                    );
+                    if (!target) {
+                        const choice = await vscode.window.showInformationMessage(
+                            `No note is titled "${title}".`,
+                            'Create Note',
+                        );
+                        if (choice === 'Create Note') {
+                            target = await createNote(ctx, ctx.gistService, title, '');
+                        }
+                    }
+                    if (target) {
+                        ctx.postMessage({ type: 'openNote', noteId: target.id });
+                    }
+                } catch (e: unknown) {
+                    vscode.window.showErrorMessage(
+                        `Failed to open note: ${extractErrorMessage(e)}`,
+                    );
+                }
+            }
+            return true;
+
+        case 'notes.addFile':
+            if (msg.noteId && ctx.gistService) {
+                const filename = await promptFilename(
+                    'Name of the new page or snippet',
+                    'Untitled.md',
+                );
+                if (!filename) {
+                    return true;
+                }
+                try {
+                    const content = filename.endsWith('.md')
+                        ? `# ${filename.replace(/\.md$/, '')}\n`
+                        : '';
+                    postNoteFiles(
+                        ctx,
+                        await ctx.gistService.saveNoteFile(msg.noteId, filename, content),
+                    );
+                } catch (e: unknown) {
+                    const m = extractErrorMessage(e);
+                    vscode.window.showErrorMessage(`Failed to add file: ${m}`);
+                    ctx.postMessage({ type: 'notesError', message: m });
+                }
+            }
+            return true;
+
+        case 'notes.attachFile':
+            if (msg.noteId && ctx.gistService) {
+                const [uri] =
+                    (await vscode.window.showOpenDialog({
+                        canSelectMany: false,
+                        openLabel: 'Attach to Note',
+                    })) ?? [];
+                if (!uri) {
+                    return true;
+                }
+                try {
+                    const bytes = await vscode.workspace.fs.readFile(uri);
+                    if (bytes.byteLength > MAX_ATTACHMENT_BYTES) {
+                        throw new Error('Attachments are limited to 1 MB.');
+                    }
+                    const basename = path.basename(uri.fsPath);
+                    let filename = basename;
+                    let content: string;
+                    if (RASTER_EXTENSIONS.has(path.extname(basename).toLowerCase())) {
+                        filename = `${basename}.base64`;
+                        content = Buffer.from(bytes).toString('base64');
+                    } else {
+                        if (bytes.includes(0)) {
+                            throw new Error(`${basename} is a binary file.`);
+                        }
+                        content = new TextDecoder('utf-8').decode(bytes);
+                    }
+                    postNoteFiles(
+                        ctx,
+                        await ctx.gistService.saveNoteFile(msg.noteId, filename, content),
+                    );
+                } catch (e: unknown) {
+                    const m = extractErrorMessage(e);
+                    vscode.window.showErrorMessage(`Failed to attach file: ${m}`);
+                    ctx.postMessage({ type: 'notesError', message: m });
+                }
+            }
+            return true;
+
+        case 'notes.saveFile':
+            if (msg.noteId && msg.filename && ctx.gistService) {
+                try {
+                    ctx.postMessage({ type: 'notesSaving' });
+                    const { note, status } = ctx.notesCache
+                        ? await ctx.notesCache.saveNoteFile(
+                              msg.noteId,
+                              msg.filename,
+                              msg.content ?? '',
+                          )
+                        : {
+                              note: await ctx.gistService.saveNoteFile(
+                                  msg.noteId,
+                                  msg.filename,
+                                  msg.content ?? '',
+                              ),
+                              status: 'saved',
+                          };
+                    // `syncState` conflict makes the webview reload the file with its markers
+                    postNoteFiles(ctx, note, {
+                        savedFile: msg.filename,
+                        ...(status === 'saved' ? {} : { syncState: status }),
                     });
+                    postSyncStatus(ctx);
+                } catch (e: unknown) {
+                    const m = extractErrorMessage(e);
+                    vscode.window.showErrorMessage(`Failed to save ${msg.filename}: ${m}`);
+                    ctx.postMessage({ type: 'notesError', message: m });
+                }
+            }
+            return true;
+
+        case 'notes.renameFile':
+            if (msg.noteId && msg.filename && ctx.gistService) {
+                const newFilename = await promptFilename(`Rename ${msg.filename} to`, msg.filename);
+                if (!newFilename || newFilename === msg.filename) {
+                    return true;
+                }
+                try {
+                    postNoteFiles(
+                        ctx,
+                        await ctx.gistService.renameNoteFile(msg.noteId, msg.filename, newFilename),
+                        { renamedFrom: msg.filename, renamedTo: newFilename },
+                    );
+                } catch (e: unknown) {
+                    const m = extractErrorMessage(e);
+                    vscode.window.showErrorMessage(`Failed to rename file: ${m}`);
+                    ctx.postMessage({ type: 'notesError', message: m });
+                }
+            }
+            return true;
+
+        case 'notes.deleteFile':
+            if (msg.noteId && msg.filename && ctx.gistService) {
+                const confirm = await vscode.window.showWarningMessage(
+                    `Remove ${msg.filename} from this note?`,
+                    { modal: true, detail: 'The gist keeps it in its revision history.' },
+                    'Remove',
+                );
+                if (confirm !== 'Remove') {
+                    return true;
+                }
+                try {
+                    postNoteFiles(
+                        ctx,
+                        await ctx.gistService.deleteNoteFile(msg.noteId, msg.filename),
+                    );
                 } catch (e: unknown) {
                     const m = extractErrorMessage(e);
+                    vscode.window.showErrorMessage(`Failed to remove file: ${m}`);
                     ctx.postMessage({ type: 'notesError', message: m });
                 }
             }
@@ -153,6 +518,72 @@ export const handleNotesMessage: MessageHandler = async (ctx, msg) => {
             }
             return true;
 
+        case 'notes.listRevisions':
+            if (msg.noteId && ctx.gistService) {
+                try {
+                    const revisions = await ctx.gistService.listRevisions(msg.noteId);
+                    ctx.postMessage({
+                        type: 'noteRevisions',
+                        noteId: msg.noteId,
+                        revisions: revisions.map(GistService.toRevisionData),
+                    });
+                } catch (e: unknown) {
+                    const m = extractErrorMessage(e);
+                    ctx.postMessage({ type: 'notesError', message: m });
+                }
+            }
+            return true;
+
+        case 'notes.diffRevisions':
+            if (msg.noteId && msg.from && msg.to && ctx.gistService) {
+                try {
+                    const files = await ctx.gistService.diffRevisions(msg.noteId, msg.from, msg.to);
+                    ctx.postMessage({
+                        type: 'noteRevisionDiff',
+                        noteId: msg.noteId,
+                        from: msg.from,
+                        to: msg.to,
+                        files,
+                    });
+                } catch (e: unknown) {
+                    const m = extractErrorMessage(e);
+                    vscode.window.showErrorMessage(`Failed to compare revisions: ${m}`);
+                    ctx.postMessage({ type: 'notesError', message: m });
+                }
+            }
+            return true;
+
+        case 'notes.restoreRevision':
+            if (msg.noteId && msg.version && ctx.gistService) {
+                const confirm = await vscode.window.showWarningMessage(
+                    'Restore this revision?',
+                    {
+                        modal: true,
+                        detail: 'It is saved as a new revision, so the current content stays in the history.',
+                    },
+                    'Restore',
+                );
+                if (confirm !== 'Restore') {
+                    return true;
+                }
+                try {
+                    ctx.postMessage({ type: 'notesSaving' });
+                    const restored = await ctx.gistService.restoreRevision(msg.noteId, msg.version);
+                    ctx.postMessage({ type: 'noteRestored', note: GistService.toData(restored) });
+                    const revisions = await ctx.gistService.listRevisions(msg.noteId);
+                    ctx.postMessage({
+                        type: 'noteRevisions',
+                        noteId: msg.noteId,
+                        revisions: revisions.map(GistService.toRevisionData),
+                    });
+                } catch (e: unknown) {
+                    const m = extractErrorMessage(e);
+                    vscode.window.showErrorMessage(`Failed to restore revision: ${m}`);
+                    ctx.postMessage({ type: 'notesError', message: m });
+                }
+            }
+            return true;
+
         case 'notes.getTabSize': {
             const tabSize = vscode.workspace
                 .getConfiguration('editor')
@@ -190,6 +621,7 @@ export const handleNotesMessage: MessageHandler = async (ctx, msg) => {
                         type: 'noteLinked',
                         noteId: msg.noteId,
                         linkedRepo: linked.linkedRepo,
+                        linkedPaths: linked.linkedPaths,
                     });
                     vscode.window.showInformationMessage(`Note linked to ${repoSlug}`);
                 } catch (e: unknown) {
@@ -207,6 +639,7 @@ export const handleNotesMessage: MessageHandler = async (ctx, msg) => {
                         type: 'noteLinked',
                         noteId: msg.noteId,
                         linkedRepo: unlinked.linkedRepo,
+                        linkedPaths: unlinked.linkedPaths,
                     });
                     vscode.window.showInformationMessage('Note unlinked from workspace');
                 } catch (e: unknown) {
@@ -216,6 +649,74 @@ export const handleNotesMessage: MessageHandler = async (ctx, msg) => {
             }
             return true;
 
+        case 'notes.unlinkPath':
+            if (msg.noteId && msg.path && ctx.gistService) {
+                try {
+                    const unlinked = await ctx.gistService.unlinkPath(msg.noteId, msg.path);
+                    ctx.postMessage({
+                        type: 'noteLinked',
+                        noteId: msg.noteId,
+                        linkedRepo: unlinked.linkedRepo,
+                        linkedPaths: unlinked.linkedPaths,
+                    });
+                } catch (e: unknown) {
+                    const m = extractErrorMessage(e);
+                    vscode.window.showErrorMessage(`Failed to unlink note: ${m}`);
+                }
+            }
+            return true;
+
+        case 'notes.setTags':
+            if (msg.noteId && Array.isArray(msg.tags) && ctx.gistService) {
+                try {
+                    const tagged = await ctx.gistService.setTags(msg.noteId, msg.tags);
+                    ctx.postMessage({
+                        type: 'noteMetaChanged',
+                        noteId: msg.noteId,
+                        tags: tagged.tags,
+                        folder: tagged.folder,
+                    });
+                } catch (e: unknown) {
+                    const m = extractErrorMessage(e);
+                    vscode.window.showErrorMessage(`Failed to tag note: ${m}`);
+                }
+            }
+            return true;
+
+        case 'notes.moveToFolder':
+            if (msg.noteId && ctx.gistService) {
+                try {
+                    const moved = await ctx.gistService.moveToFolder(msg.noteId, msg.folder ?? null);
+                    ctx.postMessage({
+                        type: 'noteMetaChanged',
+                        noteId: msg.noteId,
+                        tags: moved.tags,
+                        folder: moved.folder,
+                    });
+                } catch (e: unknown) {
+                    const m = extractErrorMessage(e);
+                    vscode.window.showErrorMessage(`Failed to move note: ${m}`);
+                }
+            }
+            return true;
+
+        case 'notes.openLinkedPath':
+            if (msg.path) {
+                const repoRoot = await ctx.gitService.getRepositoryRoot();
+                if (!repoRoot) {
+                    return true;
+                }
+                const uri = vscode.Uri.file(path.join(repoRoot, msg.path));
+                if (msg.path.endsWith('/')) {
+                    await vscode.commands.executeCommand('revealInExplorer', uri);
+                } else {
+                    await vscode.window.showTextDocument(uri).then(undefined, () =>
+                        vscode.window.showWarningMessage(`${msg.path} is not in this checkout.`),
+                    );
+                }
+            }
+            return true;
+
         case 'notes.migrate':
             if (msg.noteId && ctx.gistService) {
                 try {
@@ -1,8 +1,138 @@
 import * as vscode from 'vscode';
 import { AiService } from '../aiService';
-import { PrService, type PRReviewEvent, type PRMergeMethod, type PendingInlineComment } from '../prService';
+import { PrService, type PullRequest, type PRReviewEvent, type PRMergeMethod, type PendingInlineComment } from '../prService';
+import { rollupChecks } from '../prChecks';
+import { applySuggestions, groupSuggestionsByPath, type SuggestionEdit } from '../prSuggestions';
+import { findStack, restackBranches } from '../prStacks';
 import { extractErrorMessage } from '../utils';
-import type { MessageHandler } from './types';
+import type { HandlerContext, MessageHandler } from './types';
+
+/**
+ * Rebase the stacks the given PRs belong to — or a PR alone, if it is not
+ * stacked — on the updated parents and force-push them, after asking. All
+ * of them are restacked in one go, so they are either all pushed or all
+ * left as they were. `upstreams` is passed on to `restackBranches`.
+ */
+async function restackPRs(
+    ctx: HandlerContext,
+    owner: string,
+    repo: string,
+    prNumbers: number[],
+    upstreams: Record<string, string> = {},
+): Promise<void> {
+    if (!ctx.prService) {
+        return;
+    }
+    try {
+        const prs = await ctx.prService.listPullRequests(owner, repo, 'open');
+        const stacks: PullRequest[][] = [];
+        for (const prNumber of prNumbers) {
+            if (stacks.some((s) => s.some((pr) => pr.number === prNumber))) {
+                continue;
+            }
+            const stack = findStack(prs, prNumber, `${owner}/${repo}`);
+            const pr = prs.find((p) => p.number === prNumber);
+            if (!pr) {
+                throw new Error(`PR #${prNumber} is not open`);
+            }
+            stacks.push(stack.length > 0 ? stack : [pr]);
+        }
+        // Parents come before their children within each stack
+        const stack = stacks.flat();
+        const fork = stack.find((pr) => pr.headRepo?.toLowerCase() !== `${owner}/${repo}`.toLowerCase());
+        if (fork) {
+            throw new Error(`The branch of PR #${fork.number} is in a fork`);
+        }
+        const remote = (await ctx.gitService.getAllGitHubRemotes()).find(
+            (r) =>
+                r.owner.toLowerCase() === owner.toLowerCase() &&
+                r.repo.toLowerCase() === repo.toLowerCase(),
+        )?.remote;
+        if (!remote) {
+            throw new Error(`No git remote points at ${owner}/${repo}`);
+        }
+
+        const chains = stacks
+            .map((s) => [s[0].baseBranch, ...s.map((pr) => `${pr.branch} (#${pr.number})`)].join(' ← '))
+            .join('\n');
+        const choice = await vscode.window.showWarningMessage(
+            stack.length === 1 ? `Rebase PR #${stack[0].number}?` : `Restack ${stack.length} pull requests?`,
+            {
+                modal: true,
+                detail: `${chains}\n\nEach branch is rebased on its parent and force-pushed to ${remote} with a lease.`,
+            },
+            'Restack',
+        );
+        if (choice !== 'Restack') {
+            return;
+        }
+
+        ctx.postMessage({ type: 'prStackRestacking', prNumbers });
+        const branches = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Restacking ${stack.map((pr) => `#${pr.number}`).join(', ')}…`,
+                cancellable: false,
+            },
+            () => restackBranches(ctx.gitService, remote, stack, upstreams),
+        );
+        ctx.postMessage({ type: 'prStackRestacked', prNumbers, branches });
+        vscode.window.showInformationMessage(
+            branches.length > 0
+                ? `Restacked and pushed ${branches.join(', ')}`
+                : 'The stack is already up to date',
+        );
+        await ctx.refreshPRs();
+    } catch (e: unknown) {
+        const m = extractErrorMessage(e);
+        vscode.window.showErrorMessage(`Failed to restack: ${m}`);
+        ctx.postMessage({ type: 'prStackError', message: m });
+    }
+}
+
+/**
+ * After a PR merged, point the PRs stacked on it at its base branch, then
+ * offer to rebase them. They are rebased from the merged head, so their
+ * parent's commits are dropped even if it was squashed.
+ */
+async function retargetStackedPRs(
+    ctx: HandlerContext,
+    owner: string,
+    repo: string,
+    prNumber: number,
+): Promise<void> {
+    if (!ctx.prService) {
+        return;
+    }
+    const merged = await ctx.prService.getPullRequest(owner, repo, prNumber);
+    if (merged.headRepo?.toLowerCase() !== `${owner}/${repo}`.toLowerCase()) {
+        return;
+    }
+    const children = (await ctx.prService.listPullRequests(owner, repo, 'open')).filter(
+        (pr) => pr.baseBranch === merged.branch,
+    );
+    for (const child of children) {
+        await ctx.prService.updatePullRequest(owner, repo, child.number, { base: merged.baseBranch });
+    }
+    if (children.length === 0) {
+        return;
+    }
+    await ctx.refreshPRs();
+
+    const choice = await vscode.window.showInformationMessage(
+        `Retargeted ${children.map((pr) => `#${pr.number}`).join(', ')} onto ${merged.baseBranch}`,
+        'Restack',
+    );
+    if (choice === 'Restack') {
+        await restackPRs(
+            ctx,
+            owner,
+            repo,
+            children.map((pr) => pr.number),
+            Object.fromEntries(children.map((pr) => [pr.branch, merged.headSha])),
+        );
+    }
+}
 
 /** Handle all `prs.*` messages from the webview. */
 export const handlePrMessage: MessageHandler = async (ctx, msg) => {
@@ -622,14 +752,32 @@ Bullets for optional improvements or deferred cleanup.`;
                     if (!repoInfo) { return true; }
                     ctx.postMessage({ type: 'prReviewSubmitting' });
 
-                    const review = await ctx.prService.submitReview(
-                        repoInfo.owner,
-                        repoInfo.repo,
-                        msg.prNumber as number,
-                        msg.event as PRReviewEvent,
-                        msg.body as string | undefined,
-                        msg.comments as PendingInlineComment[] | undefined,
-                    );
+                    // A pending review on GitHub is submitted as is, after syncing the last edits
+                    const { owner, repo } = repoInfo;
+                    const prNumber = msg.prNumber as number;
+                    const comments = (msg.comments as PendingInlineComment[] | undefined) ?? [];
+                    const pending = ctx.reviewDrafts?.get(owner, repo, prNumber)?.pendingReview;
+                    if (pending) {
+                        await ctx.reviewDrafts?.save(owner, repo, prNumber, (msg.body as string) ?? '', comments);
+                    }
+                    const review = pending
+                        ? await ctx.prService.submitPendingReview(
+                              owner,
+                              repo,
+                              prNumber,
+                              pending.id,
+                              msg.event as PRReviewEvent,
+                              msg.body as string | undefined,
+                          )
+                        : await ctx.prService.submitReview(
+                              owner,
+                              repo,
+                              prNumber,
+                              msg.event as PRReviewEvent,
+                              msg.body as string | undefined,
+                              comments,
+                          );
+                    await ctx.reviewDrafts?.clear(owner, repo, prNumber);
 
                     ctx.postMessage({
                         type: 'prReviewSubmitted',
@@ -656,6 +804,231 @@ Bullets for optional improvements or deferred cleanup.`;
             return true;
         }
 
+        // ─── Review drafts ───
+        case 'prs.getReviewDraft': {
+            if (msg.prNumber !== undefined && ctx.reviewDrafts) {
+                const repoInfo = await ctx.getRepoInfo();
+                if (!repoInfo) { return true; }
+                const draft = await ctx.reviewDrafts.load(
+                    repoInfo.owner,
+                    repoInfo.repo,
+                    msg.prNumber as number,
+                );
+                ctx.postMessage({
+                    type: 'prReviewDraft',
+                    prNumber: msg.prNumber,
+                    body: draft?.body ?? '',
+                    comments: draft?.comments ?? [],
+                    source: draft?.pendingReview ? 'github' : 'local',
+                });
+            }
+            return true;
+        }
+
+        case 'prs.saveReviewDraft': {
+            if (msg.prNumber !== undefined && ctx.reviewDrafts) {
+                try {
+                    const repoInfo = await ctx.getRepoInfo();
+                    if (!repoInfo) { return true; }
+                    await ctx.reviewDrafts.save(
+                        repoInfo.owner,
+                        repoInfo.repo,
+                        msg.prNumber as number,
+                        (msg.body as string) ?? '',
+                        (msg.comments as PendingInlineComment[]) ?? [],
+                    );
+                } catch (e: unknown) {
+                    // The draft is kept locally; the next save retries GitHub
+                    ctx.outputChannel.appendLine(
+                        `[PR] Failed to sync review draft of #${msg.prNumber}: ${extractErrorMessage(e)}`,
+                    );
+                }
+            }
+            return true;
+        }
+
+        case 'prs.discardReviewDraft': {
+            if (msg.prNumber !== undefined && ctx.reviewDrafts) {
+                try {
+                    const repoInfo = await ctx.getRepoInfo();
+                    if (!repoInfo) { return true; }
+                    await ctx.reviewDrafts.discard(repoInfo.owner, repoInfo.repo, msg.prNumber as number);
+                    ctx.postMessage({
+                        type: 'prReviewDraft',
+                        prNumber: msg.prNumber,
+                        body: '',
+                        comments: [],
+                        source: 'local',
+                    });
+                } catch (e: unknown) {
+                    vscode.window.showErrorMessage(`Failed to discard review draft: ${extractErrorMessage(e)}`);
+                }
+            }
+            return true;
+        }
+
+        // ─── CI checks ───
+        case 'prs.getChecks': {
+            if (msg.prNumber !== undefined && msg.ref && ctx.prService) {
+                try {
+                    const repoInfo = await ctx.getRepoInfo();
+                    if (!repoInfo) { return true; }
+                    ctx.postMessage({ type: 'prChecksLoading' });
+                    const { checks, required } = await ctx.prService.getChecks(
+                        repoInfo.owner,
+                        repoInfo.repo,
+                        msg.ref as string,
+                        msg.baseBranch as string | undefined,
+                    );
+                    // Required checks that have not reported yet count as pending
+                    const missing = required.filter((name) => !checks.some((c) => c.name === name));
+                    ctx.postMessage({
+                        type: 'prChecks',
+                        prNumber: msg.prNumber,
+                        ref: msg.ref,
+                        checks: checks.map(PrService.toCheckData),
+                        missingRequired: missing,
+                        rollup: rollupChecks([
+                            ...checks,
+                            ...missing.map(() => ({ state: 'pending' as const })),
+                        ]),
+                    });
+                } catch (e: unknown) {
+                    const m = extractErrorMessage(e);
+                    ctx.postMessage({ type: 'prChecksError', message: m });
+                }
+            }
+            return true;
+        }
+
+        case 'prs.getCheckLog': {
+            if (msg.checkId !== undefined && ctx.prService) {
+                try {
+                    const repoInfo = await ctx.getRepoInfo();
+                    if (!repoInfo) { return true; }
+                    const excerpt = await ctx.prService.getCheckLogExcerpt(
+                        repoInfo.owner,
+                        repoInfo.repo,
+                        msg.checkId as number,
+                    );
+                    ctx.postMessage({ type: 'prCheckLog', checkId: msg.checkId, excerpt });
+                } catch (e: unknown) {
+                    const m = extractErrorMessage(e);
+                    ctx.postMessage({ type: 'prCheckLog', checkId: msg.checkId, error: m });
+                }
+            }
+            return true;
+        }
+
+        // ─── Local checkout ───
+        case 'prs.checkout': {
+            if (msg.prNumber !== undefined) {
+                const repoInfo = await ctx.getRepoInfo();
+                if (!repoInfo) { return true; }
+                await vscode.commands.executeCommand('superprompt-forge.prs.checkout', {
+                    ...repoInfo,
+                    prNumber: msg.prNumber as number,
+                });
+            }
+            return true;
+        }
+
+        case 'prs.returnFromCheckout':
+            await vscode.commands.executeCommand('superprompt-forge.prs.returnFromCheckout');
+            return true;
+
+        // ─── Suggested changes ───
+        case 'prs.applySuggestions': {
+            const suggestions = msg.suggestions as SuggestionEdit[] | undefined;
+            if (msg.prNumber !== undefined && suggestions?.length && ctx.prService) {
+                const prService = ctx.prService;
+                try {
+                    const repoInfo = await ctx.getRepoInfo();
+                    if (!repoInfo) { return true; }
+                    ctx.postMessage({ type: 'prSuggestionsApplying' });
+
+                    const { owner, repo } = repoInfo;
+                    const prNumber = msg.prNumber as number;
+                    const message =
+                        suggestions.length === 1
+                            ? 'Apply suggestion from code review'
+                            : 'Apply suggestions from code review';
+
+                    // With the PR checked out, commit there; otherwise straight onto the PR branch
+                    const local = !!(await ctx.prCheckout?.isCheckedOut(owner, repo, prNumber));
+                    let commit: string;
+                    if (local && ctx.prCheckout) {
+                        commit = await ctx.prCheckout.applySuggestions(suggestions, message);
+                    } else {
+                        const pr = await prService.getPullRequest(owner, repo, prNumber);
+                        if (pr.state !== 'open' || !pr.headRepo) {
+                            throw new Error(`The branch of PR #${prNumber} can no longer be changed`);
+                        }
+                        const [headOwner, headName] = pr.headRepo.split('/');
+                        const files = await Promise.all(
+                            [...groupSuggestionsByPath(suggestions)].map(async ([path, edits]) => ({
+                                path,
+                                content: applySuggestions(
+                                    await prService.getFileContent(headOwner, headName, path, pr.headSha),
+                                    edits,
+                                ),
+                            })),
+                        );
+                        commit = await prService.commitFileChanges(
+                            headOwner,
+                            headName,
+                            pr.branch,
+                            pr.headSha,
+                            message,
+                            files,
+                        );
+
+                        // As on GitHub, applied suggestions resolve their threads
+                        const threadIds = new Set(suggestions.map((s) => s.threadId).filter((id) => !!id));
+                        for (const threadId of threadIds) {
+                            try {
+                                await prService.resolveReviewThread(threadId as string);
+                            } catch (e: unknown) {
+                                ctx.outputChannel.appendLine(
+                                    `[PR] Failed to resolve thread ${threadId}: ${extractErrorMessage(e)}`,
+                                );
+                            }
+                        }
+                    }
+
+                    ctx.postMessage({
+                        type: 'prSuggestionsApplied',
+                        prNumber,
+                        commentIds: suggestions.map((s) => s.commentId).filter((id) => id !== undefined),
+                        commit,
+                        local,
+                    });
+                    const count = suggestions.length === 1 ? 'suggestion' : `${suggestions.length} suggestions`;
+                    vscode.window.showInformationMessage(
+                        local
+                            ? `Committed ${count} on ${ctx.prCheckout?.state?.branch} — push to update PR #${prNumber}`
+                            : `Committed ${count} to PR #${prNumber}`,
+                    );
+                    await ctx.sendPRComments(prNumber);
+                } catch (e: unknown) {
+                    const m = extractErrorMessage(e);
+                    vscode.window.showErrorMessage(`Failed to apply suggestions: ${m}`);
+                    ctx.postMessage({ type: 'prSuggestionsError', message: m });
+                }
+            }
+            return true;
+        }
+
+        // ─── Stacked PRs ───
+        case 'prs.restack': {
+            if (msg.prNumber !== undefined) {
+                const repoInfo = await ctx.getRepoInfo();
+                if (!repoInfo) { return true; }
+                await restackPRs(ctx, repoInfo.owner, repoInfo.repo, [msg.prNumber as number]);
+            }
+            return true;
+        }
+
         // ─── Merge PR ───
         case 'prs.mergePR': {
             if (msg.prNumber !== undefined && ctx.prService) {
@@ -684,6 +1057,13 @@ Bullets for optional improvements or deferred cleanup.`;
                         );
                         // Refresh PR list to update state
                         await ctx.refreshPRs();
+                        try {
+                            await retargetStackedPRs(ctx, repoInfo.owner, repoInfo.repo, msg.prNumber as number);
+                        } catch (e: unknown) {
+                            vscode.window.showWarningMessage(
+                                `Could not retarget the PRs stacked on #${msg.prNumber}: ${extractErrorMessage(e)}`,
+                            );
+                        }
                     } else {
                         ctx.postMessage({
                             type: 'prMergeError',
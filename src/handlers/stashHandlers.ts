@@ -1,11 +1,18 @@
 import * as vscode from 'vscode';
-import { extractErrorMessage, getConfig } from '../utils';
-import type { MessageHandler } from './types';
+import * as path from 'path';
+import { StashChangedError, type DiffHunk, type StashDiffBase } from '../gitService';
+import { StashItem } from '../stashItem';
+import { extractErrorMessage, formatRelativeTime, getConfig } from '../utils';
+import type { HandlerContext, MessageHandler } from './types';
 
 /**
  * Handle core / stash messages from the webview:
- *   ready, refresh, switchRepo, apply, pop, drop, showFile, getFileDiff,
- *   createStash, createStashInline, clearStashes
+ *   ready, refresh, switchRepo, apply, pop, drop, branchFromStash, editStashMetadata,
+ *   togglePinStash, showFile, getFileDiff, getStashApplyRisks, searchStashContents,
+ *   createStash, createStashInline, getWorkingChanges, getWorkingFileHunks,
+ *   getConflicts, openConflictInMergeEditor, resolveConflict, dropConflictStash,
+ *   dismissConflicts, clearStashes, getDroppedStashes, restoreDroppedStash,
+ *   exportStash, sendStashToGist, importStashBundle
  */
 export const handleStashMessage: MessageHandler = async (ctx, msg) => {
     switch (msg.type) {
@@ -49,10 +56,15 @@ export const handleStashMessage: MessageHandler = async (ctx, msg) => {
 
         case 'apply':
             if (msg.index !== undefined) {
-                const applyResult = await ctx.gitService.applyStash(msg.index);
+                const applyResult = await ctx.gitService.applyStash(msg.index, msg.sha);
                 if (applyResult.success && applyResult.conflicts) {
+                    // The conflict panel opens in the webview via the assistant's change event
+                    await ctx.conflictAssistant?.begin(
+                        { index: msg.index, name: `stash@{${msg.index}}`, sha: msg.sha ?? '' },
+                        'apply',
+                    );
                     vscode.window.showWarningMessage(
-                        `Applied stash@{${msg.index}} with merge conflicts. Resolve them manually.`,
+                        `Applied stash@{${msg.index}} with merge conflicts.`,
                     );
                 } else if (applyResult.success) {
                     vscode.window.showInformationMessage(`Applied stash@{${msg.index}}`);
@@ -65,10 +77,14 @@ export const handleStashMessage: MessageHandler = async (ctx, msg) => {
 
         case 'pop':
             if (msg.index !== undefined) {
-                const popResult = await ctx.gitService.popStash(msg.index);
+                const popResult = await ctx.gitService.popStash(msg.index, msg.sha);
                 if (popResult.success && popResult.conflicts) {
+                    await ctx.conflictAssistant?.begin(
+                        { index: msg.index, name: `stash@{${msg.index}}`, sha: msg.sha ?? '' },
+                        'pop',
+                    );
                     vscode.window.showWarningMessage(
-                        `Stash applied with conflicts but was NOT removed. Resolve conflicts, then drop manually.`,
+                        `Stash applied with conflicts but was NOT removed. Resolve conflicts, then drop it.`,
                     );
                 } else if (popResult.success) {
                     vscode.window.showInformationMessage(`Popped stash@{${msg.index}}`);
@@ -94,31 +110,65 @@ export const handleStashMessage: MessageHandler = async (ctx, msg) => {
                     }
                 }
                 try {
-                    await ctx.gitService.dropStash(msg.index);
+                    await ctx.gitService.dropStash(msg.index, msg.sha);
                     vscode.window.showInformationMessage(`Dropped stash@{${msg.index}}`);
                     await ctx.refresh();
                 } catch (e: unknown) {
+                    if (e instanceof StashChangedError) {
+                        await ctx.refresh();
+                    }
                     const m = extractErrorMessage(e);
                     vscode.window.showErrorMessage(`Failed to drop: ${m}`);
                 }
             }
             return true;
 
+        case 'branchFromStash':
+        case 'editStashMetadata':
+        case 'togglePinStash':
+        case 'exportStash':
+        case 'sendStashToGist':
+            if (msg.index !== undefined) {
+                // Reuse the commands so prompts and refreshes stay in one place
+                const entry = (await ctx.gitService.getStashList()).find(
+                    (s) => s.index === msg.index,
+                );
+                if (entry && msg.sha && entry.sha !== msg.sha) {
+                    await ctx.refresh();
+                    vscode.window.showErrorMessage(new StashChangedError(msg.index).message);
+                } else if (entry) {
+                    await vscode.commands.executeCommand(
+                        `superprompt-forge.${msg.type}`,
+                        new StashItem(entry),
+                    );
+                    await ctx.refresh();
+                }
+            }
+            return true;
+
         case 'showFile':
             if (msg.index !== undefined && msg.filePath) {
                 const fileName = (msg.filePath as string).split('/').pop() ?? msg.filePath;
-                const parentUri = vscode.Uri.parse(
-                    `superprompt-forge:/${msg.filePath}?ref=parent&index=${msg.index}`,
-                );
+                const shaParam = msg.sha ? `&sha=${msg.sha}` : '';
+                const base = (msg.base as StashDiffBase | undefined) ?? 'parent';
+                const root = ctx.gitService.workspaceRoot;
+                const baseUri =
+                    base === 'working' && root
+                        ? vscode.Uri.file(path.join(root, msg.filePath))
+                        : vscode.Uri.parse(
+                              `superprompt-forge:/${msg.filePath}?ref=${base === 'head' ? 'head' : 'parent'}&index=${msg.index}${shaParam}`,
+                          );
+                const against =
+                    base === 'head' ? ' ↔ HEAD' : base === 'working' ? ' ↔ Working Tree' : '';
                 const stashUri = vscode.Uri.parse(
-                    `superprompt-forge:/${msg.filePath}?ref=stash&index=${msg.index}`,
+                    `superprompt-forge:/${msg.filePath}?ref=stash&index=${msg.index}${shaParam}`,
                 );
                 try {
                     await vscode.commands.executeCommand(
                         'vscode.diff',
-                        parentUri,
+                        baseUri,
                         stashUri,
-                        `${fileName} (stash@{${msg.index}})`,
+                        `${fileName} (stash@{${msg.index}}${against})`,
                         { preview: true },
                     );
                 } catch (e: unknown) {
@@ -131,14 +181,19 @@ export const handleStashMessage: MessageHandler = async (ctx, msg) => {
         case 'getFileDiff':
             if (msg.index !== undefined && msg.filePath) {
                 const diffKey = `${msg.index}:${msg.filePath}`;
+                // Echo the base so the webview can drop diffs for a base it has since left
+                const base = (msg.base as StashDiffBase | undefined) ?? 'parent';
                 try {
                     const diff = await ctx.gitService.getStashFileDiff(
                         msg.index,
                         msg.filePath,
+                        msg.sha,
+                        base,
                     );
                     ctx.postMessage({
                         type: 'fileDiff',
                         key: diffKey,
+                        base,
                         diff: diff || '',
                     });
                 } catch {
@@ -146,12 +201,38 @@ export const handleStashMessage: MessageHandler = async (ctx, msg) => {
                     ctx.postMessage({
                         type: 'fileDiff',
                         key: diffKey,
+                        base,
                         diff: '',
                     });
                 }
             }
             return true;
 
+        case 'getStashApplyRisks':
+            if (msg.index !== undefined) {
+                try {
+                    const risks = await ctx.gitService.getStashApplyRisks(msg.index, msg.sha);
+                    ctx.postMessage({ type: 'stashApplyRisks', sha: msg.sha, risks });
+                } catch {
+                    ctx.postMessage({ type: 'stashApplyRisks', sha: msg.sha, risks: [] });
+                }
+            }
+            return true;
+
+        case 'searchStashContents': {
+            // Echo the query so the webview can drop results for one it has since changed
+            const query = (msg.query as string | undefined) ?? '';
+            try {
+                const stashes = await ctx.gitService.getStashList();
+                const results =
+                    (await ctx.stashSearchIndex?.search(ctx.gitService, stashes, query)) ?? [];
+                ctx.postMessage({ type: 'stashContentResults', query, results });
+            } catch {
+                ctx.postMessage({ type: 'stashContentResults', query, results: [] });
+            }
+            return true;
+        }
+
         case 'createStash':
             await vscode.commands.executeCommand('superprompt-forge.stash');
             await ctx.refresh();
@@ -161,8 +242,32 @@ export const handleStashMessage: MessageHandler = async (ctx, msg) => {
             // 8b-ii: Handle inline stash creation from webview form
             const stashMessage = (msg.message as string) ?? '';
             const stashMode = ((msg.mode as string) ?? 'all') as 'all' | 'staged' | 'untracked';
+            // Partial stash: whole files via `paths`, individual hunks via `hunks`
+            const paths = (msg.paths as string[] | undefined) ?? [];
+            const hunkRefs = (msg.hunks as { filePath: string; id: string }[] | undefined) ?? [];
             try {
-                await ctx.gitService.createStash(stashMessage || undefined, stashMode);
+                if (hunkRefs.length > 0) {
+                    const hunks: DiffHunk[] = [];
+                    for (const filePath of new Set(hunkRefs.map((h) => h.filePath))) {
+                        const wanted = new Set(
+                            hunkRefs.filter((h) => h.filePath === filePath).map((h) => h.id),
+                        );
+                        const fileHunks = await ctx.gitService.getWorkingFileHunks(filePath);
+                        hunks.push(...fileHunks.filter((h) => wanted.has(h.id)));
+                    }
+                    if (hunks.length < hunkRefs.length) {
+                        throw new Error(
+                            'The working tree changed since the hunks were selected. Reselect and try again.',
+                        );
+                    }
+                    await ctx.gitService.createPartialStash(stashMessage || undefined, hunks, paths);
+                } else {
+                    await ctx.gitService.createStash(
+                        stashMessage || undefined,
+                        stashMode,
+                        paths.length > 0 ? paths : undefined,
+                    );
+                }
                 vscode.window.showInformationMessage(
                     stashMessage
                         ? `Stashed: "${stashMessage}"`
@@ -176,12 +281,118 @@ export const handleStashMessage: MessageHandler = async (ctx, msg) => {
             return true;
         }
 
+        case 'getWorkingChanges': {
+            const files = await ctx.gitService.getWorkingChanges();
+            ctx.postMessage({ type: 'workingChanges', files });
+            return true;
+        }
+
+        case 'getWorkingFileHunks':
+            if (msg.filePath) {
+                const hunks = await ctx.gitService.getWorkingFileHunks(msg.filePath as string);
+                ctx.postMessage({
+                    type: 'workingFileHunks',
+                    filePath: msg.filePath,
+                    hunks: hunks.map((h) => ({
+                        id: h.id,
+                        filePath: h.filePath,
+                        header: h.header,
+                        lines: h.lines,
+                    })),
+                });
+            }
+            return true;
+
+        // ─── Conflict assistant (after a conflicting apply/pop) ───
+        case 'getConflicts': {
+            const state = await ctx.conflictAssistant?.refresh();
+            ctx.postMessage({ type: 'stashConflicts', conflict: state ?? null });
+            return true;
+        }
+
+        case 'openConflictInMergeEditor':
+            if (msg.filePath && ctx.conflictAssistant) {
+                await ctx.conflictAssistant.openInMergeEditor(msg.filePath as string);
+            }
+            return true;
+
+        case 'resolveConflict':
+            if (msg.filePath && ctx.conflictAssistant) {
+                const side = msg.side === 'ours' ? 'ours' : 'stash';
+                try {
+                    await ctx.conflictAssistant.resolveWith(msg.filePath as string, side);
+                } catch (e: unknown) {
+                    vscode.window.showErrorMessage(
+                        `Failed to resolve ${msg.filePath}: ${extractErrorMessage(e)}`,
+                    );
+                }
+            }
+            return true;
+
+        case 'dropConflictStash':
+            if (ctx.conflictAssistant) {
+                try {
+                    await ctx.conflictAssistant.dropStash();
+                } catch (e: unknown) {
+                    vscode.window.showErrorMessage(`Failed to drop: ${extractErrorMessage(e)}`);
+                }
+                await ctx.refresh();
+            }
+            return true;
+
+        case 'dismissConflicts':
+            ctx.conflictAssistant?.dismiss();
+            return true;
+
+        // ─── Recently dropped (unreachable stash commits) ───
+        case 'getDroppedStashes':
+            await postDroppedStashes(ctx);
+            return true;
+
+        case 'restoreDroppedStash':
+            if (msg.sha && msg.subject) {
+                try {
+                    await ctx.gitService.restoreDroppedStash({
+                        sha: msg.sha as string,
+                        subject: msg.subject as string,
+                    });
+                    vscode.window.showInformationMessage('Restored dropped stash as stash@{0}');
+                } catch (e: unknown) {
+                    vscode.window.showErrorMessage(
+                        `Failed to restore stash: ${extractErrorMessage(e)}`,
+                    );
+                }
+                // The webview rescans the dropped list when the stash list changes
+                await ctx.refresh();
+            }
+            return true;
+
         case 'clearStashes':
             await vscode.commands.executeCommand('superprompt-forge.clear');
             await ctx.refresh();
             return true;
 
+        case 'importStashBundle':
+            await vscode.commands.executeCommand('superprompt-forge.importStashBundle');
+            await ctx.refresh();
+            return true;
+
         default:
             return false;
     }
 };
+
+async function postDroppedStashes(ctx: HandlerContext): Promise<void> {
+    const dropped = await ctx.gitService.getDroppedStashes();
+    ctx.postMessage({
+        type: 'droppedStashes',
+        stashes: dropped.map((d) => ({
+            sha: d.sha,
+            subject: d.subject,
+            branch: d.branch,
+            message: d.message,
+            date: d.date.toISOString(),
+            relativeDate: formatRelativeTime(d.date),
+        })),
+    });
+}
@@ -2,6 +2,7 @@ import type * as vscode from 'vscode';
 import { type GitService } from '../gitService';
 import { type AuthService } from '../authService';
 import { type GistService } from '../gistService';
+import { type NotesCache } from '../notesCache';
 import { type PrService } from '../prService';
 import { type IssueService } from '../issueService';
 import { type MattermostService } from '../mattermostService';
@@ -11,6 +12,10 @@ import { type GoogleDriveService } from '../googleDriveService';
 import { type GoogleCalendarService } from '../calendarService';
 import { type WikiService } from '../wikiService';
 import { type AiService } from '../aiService';
+import { type StashConflictAssistant } from '../stashConflictAssistant';
+import { type StashSearchIndex } from '../stashSearch';
+import { type PrReviewDrafts } from '../prReviewDrafts';
+import { type PrCheckoutManager } from '../prCheckout';
 
 // ─── Handler Context ─────────────────────────────────────────────
 // Everything a domain handler needs to do its job.  Passed by the
@@ -27,6 +32,7 @@ export interface HandlerContext {
     gitService: GitService;
     authService: AuthService | undefined;
     gistService: GistService | undefined;
+    notesCache: NotesCache | undefined;
     prService: PrService | undefined;
     issueService: IssueService | undefined;
     mattermostService: MattermostService | undefined;
@@ -35,6 +41,10 @@ export interface HandlerContext {
     calendarService: GoogleCalendarService | undefined;
     wikiService: WikiService | undefined;
     aiService: AiService;
+    conflictAssistant: StashConflictAssistant | undefined;
+    stashSearchIndex: StashSearchIndex | undefined;
+    reviewDrafts: PrReviewDrafts | undefined;
+    prCheckout: PrCheckoutManager | undefined;
 
     // ─── Panel helpers ────────────────────────────────────
     /** Resolve the active GitHub repo (user override or auto-detect). */
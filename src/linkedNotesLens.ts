@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import { type GistNote } from './gistService';
+import { type RepositoryManager } from './repositoryManager';
+import { notesForPath, toLinkPath } from './noteLinks';
+import { getConfig } from './utils';
+
+/** Where a file or folder sits for note links. */
+export interface LinkLocation {
+    /** GitHub "owner/repo" of the repository containing it */
+    repo: string;
+    /** Link path in that repository; undefined for the repository root itself */
+    path: string | undefined;
+}
+
+/**
+ * Surfaces Gist Notes linked to the workspace where the code is: a CodeLens
+ * at the top of each file with linked notes, and a status bar entry with the
+ * notes of the active file — or of its repository when the file has none.
+ * Notes come from the notes tree, which calls `update()` after every load.
+ */
+export class LinkedNotesLens implements vscode.CodeLensProvider, vscode.Disposable {
+    private _notes: GistNote[] = [];
+    /** GitHub slug by repository root — resolved once, remotes rarely change */
+    private readonly _repoSlugs = new Map<string, Promise<string | undefined>>();
+    private readonly _statusBarItem: vscode.StatusBarItem;
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses: vscode.Event<void> = this._onDidChangeCodeLenses.event;
+
+    constructor(private readonly _repositories: RepositoryManager) {
+        this._statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 48);
+        this._statusBarItem.command = 'superprompt-forge.notes.showLinked';
+        this._disposables.push(
+            this._statusBarItem,
+            this._onDidChangeCodeLenses,
+            vscode.window.onDidChangeActiveTextEditor(() => void this._updateStatusBar()),
+            this._repositories.onDidChangeRepositories(() => {
+                this._repoSlugs.clear();
+                this._changed();
+            }),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('superprompt-forge.notes.codeLens')) {
+                    this._onDidChangeCodeLenses.fire();
+                }
+            }),
+        );
+    }
+
+    /** Replace the known notes (after the notes tree loaded them). */
+    update(notes: GistNote[]): void {
+        this._notes = notes;
+        this._changed();
+    }
+
+    /** The GitHub repository and link path of a file or folder, if it is in one. */
+    async locate(uri: vscode.Uri, isFolder = false): Promise<LinkLocation | undefined> {
+        const repository = this._repositories.forUri(uri);
+        if (!repository) {
+            return undefined;
+        }
+        let slug = this._repoSlugs.get(repository.root);
+        if (!slug) {
+            slug = repository.gitService
+                .getGitHubRepo()
+                .then((r) => (r ? `${r.owner}/${r.repo}` : undefined));
+            this._repoSlugs.set(repository.root, slug);
+        }
+        const repo = await slug;
+        return repo ? { repo, path: toLinkPath(repository.root, uri.fsPath, isFolder) } : undefined;
+    }
+
+    /** Notes linked to the file at `uri`, and the other notes of its repository. */
+    async notesFor(uri: vscode.Uri): Promise<{ fileNotes: GistNote[]; repoNotes: GistNote[] }> {
+        const location = await this.locate(uri);
+        if (!location) {
+            return { fileNotes: [], repoNotes: [] };
+        }
+        const fileNotes = location.path
+            ? notesForPath(this._notes, location.repo, location.path)
+            : [];
+        const repoNotes = this._notes.filter(
+            (n) => n.linkedRepo === location.repo && !fileNotes.includes(n),
+        );
+        return { fileNotes, repoNotes };
+    }
+
+    async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+        if (!getConfig<boolean>('notes.codeLens', true)) {
+            return [];
+        }
+        const { fileNotes } = await this.notesFor(document.uri);
+        const top = new vscode.Range(0, 0, 0, 0);
+        return fileNotes.map(
+            (note) =>
+                new vscode.CodeLens(top, {
+                    title: `$(note) ${note.title || 'Untitled'}`,
+                    tooltip: 'Open the Gist Note linked to this file',
+                    command: 'superprompt-forge.notes.open',
+                    arguments: [{ note }],
+                }),
+        );
+    }
+
+    private _changed(): void {
+        this._onDidChangeCodeLenses.fire();
+        void this._updateStatusBar();
+    }
+
+    private async _updateStatusBar(): Promise<void> {
+        const uri = vscode.window.activeTextEditor?.document.uri;
+        const { fileNotes, repoNotes } =
+            uri?.scheme === 'file' ? await this.notesFor(uri) : { fileNotes: [], repoNotes: [] };
+        if (uri !== vscode.window.activeTextEditor?.document.uri) {
+            return; // The editor changed meanwhile; its own update follows
+        }
+
+        const titles = (notes: GistNote[]) => notes.map((n) => `• ${n.title || 'Untitled'}`);
+        if (fileNotes.length > 0) {
+            this._statusBarItem.text = `$(note) ${fileNotes.length}`;
+            this._statusBarItem.tooltip = [`Gist Notes for this file:`, ...titles(fileNotes)].join(
+                '\n',
+            );
+        } else if (repoNotes.length > 0) {
+            this._statusBarItem.text = `$(notebook) ${repoNotes.length}`;
+            this._statusBarItem.tooltip = [
+                `Gist Notes for ${repoNotes[0].linkedRepo}:`,
+                ...titles(repoNotes),
+            ].join('\n');
+        } else {
+            this._statusBarItem.hide();
+            return;
+        }
+        this._statusBarItem.show();
+    }
+
+    dispose(): void {
+        this._disposables.forEach((d) => d.dispose());
+    }
+}
@@ -0,0 +1,415 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { type GistNote } from './gistService';
+import { normalizeFolder, normalizeTags } from './noteSearch';
+
+/**
+ * Gist Notes as a folder of Markdown files — a backup independent of GitHub,
+ * and the way in from an existing Markdown vault (Obsidian and the like).
+ *
+ * Each note's main page becomes `<folder>/<Title>.md`, its virtual folder
+ * mapped to directories, with YAML front-matter recording what the gist
+ * holds besides the text:
+ *
+ *   ---
+ *   id: 5f1c0e…
+ *   title: Deploy Runbook
+ *   visibility: secret
+ *   linkedRepo: acme/app
+ *   tags: [ops, runbook]
+ *   folder: Work/Incidents
+ *   created: 2026-02-10T14:00:00.000Z
+ *   updated: 2026-02-11T09:30:00.000Z
+ *   ---
+ *
+ * Importing matches files to notes by `id`, so a re-import updates the notes
+ * it came from. Files without front-matter (or without an `id` of a known
+ * note) become new notes; their folder is the directory they sit in, and the
+ * new note's `id` is written into their front-matter. Other files of
+ * multi-file notes are not exported.
+ */
+
+/** What a Markdown file's front-matter says about its note; all optional on import */
+export interface NoteFrontMatter {
+    id?: string;
+    title?: string;
+    visibility?: 'public' | 'secret';
+    linkedRepo?: string | null;
+    linkedPaths?: string[];
+    tags?: string[];
+    folder?: string | null;
+    created?: string;
+    updated?: string;
+}
+
+/** A Markdown file read for import. */
+export interface NoteArchiveFile {
+    /** Path relative to the imported folder, with "/" separators */
+    relativePath: string;
+    meta: NoteFrontMatter;
+    body: string;
+}
+
+/** A note to create from an imported file. */
+export interface NoteImportCreate {
+    file: NoteArchiveFile;
+    title: string;
+    isPublic?: boolean;
+    linkedRepo: string | null;
+    linkedPaths: string[];
+    tags: string[];
+    folder: string | null;
+}
+
+/** An existing note to bring in line with an imported file — only the fields that differ. */
+export interface NoteImportUpdate {
+    file: NoteArchiveFile;
+    note: GistNote;
+    /** New title and content, when either changed */
+    page?: { title: string; content: string };
+    tags?: string[];
+    folder?: string | null;
+}
+
+export interface NoteImportPlan {
+    create: NoteImportCreate[];
+    update: NoteImportUpdate[];
+    /** Files matching their note already */
+    unchanged: number;
+}
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/** Characters not allowed in file names on some platform */
+const UNSAFE_FILENAME = /[\\/:*?"<>|\u0000-\u001f]/g;
+
+/** Directories of vaults that are not notes (`.obsidian`, `.git`, `.trash`…) */
+function isHiddenDir(name: string): boolean {
+    return name.startsWith('.');
+}
+
+// ─── Front-matter ─────────────────────────────────────────────────
+
+/** A YAML scalar, quoted when plain YAML would read it differently. */
+function yamlScalar(value: string): string {
+    return /^[\w./@-][\w ./@:+-]*$/.test(value) &&
+        !/^(true|false|null|yes|no|on|off|~)$/i.test(value) &&
+        !/: |\s$/.test(value)
+        ? value
+        : JSON.stringify(value);
+}
+
+function yamlList(values: readonly string[]): string {
+    return `[${values.map(yamlScalar).join(', ')}]`;
+}
+
+/** Read a YAML scalar — plain, double-quoted or single-quoted; null for `null`, `~` or nothing. */
+function readScalar(raw: string): string | null {
+    const value = raw.trim();
+    if (value === '' || value === '~' || value === 'null') {
+        return null;
+    }
+    if (value.startsWith('"')) {
+        try {
+            return JSON.parse(value) as string;
+        } catch {
+            return value.slice(1, -1);
+        }
+    }
+    if (value.startsWith("'") && value.endsWith("'")) {
+        return value.slice(1, -1).replace(/''/g, "'");
+    }
+    return value;
+}
+
+/** Read a YAML flow list (`[a, "b"]`) or a comma-separated scalar (`a, b`). */
+function readInlineList(raw: string): string[] {
+    const value = raw.trim();
+    const inner = value.startsWith('[') && value.endsWith(']') ? value.slice(1, -1) : value;
+    return (inner.match(/"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+/g) ?? [])
+        .map((item) => readScalar(item))
+        .filter((item): item is string => !!item);
+}
+
+/**
+ * Parse the front-matter block of a Markdown file. Only the subset of YAML
+ * notes use is understood — `key: scalar`, flow lists and block lists —
+ * and unknown keys are ignored.
+ */
+export function parseNoteMarkdown(text: string): { meta: NoteFrontMatter; body: string } {
+    const match = text.match(FRONT_MATTER);
+    if (!match) {
+        return { meta: {}, body: text };
+    }
+
+    const fields = new Map<string, string | string[] | null>();
+    let listKey: string | undefined;
+    for (const line of match[1].split(/\r?\n/)) {
+        const item = line.match(/^\s+-\s*(.*)$/) ?? line.match(/^-\s+(.*)$/);
+        if (item && listKey) {
+            const value = readScalar(item[1]);
+            const list = fields.get(listKey);
+            if (value) {
+                fields.set(listKey, [...(Array.isArray(list) ? list : []), value]);
+            }
+            continue;
+        }
+        const field = line.match(/^([A-Za-z][\w-]*)\s*:\s*(.*)$/);
+        if (!field) {
+            continue;
+        }
+        const [, key, value] = field;
+        listKey = value.trim() === '' ? key : undefined;
+        fields.set(key, value.trim().startsWith('[') ? readInlineList(value) : readScalar(value));
+    }
+
+    const str = (key: string) => {
+        const value = fields.get(key);
+        return typeof value === 'string' ? value : undefined;
+    };
+    const list = (key: string) => {
+        const value = fields.get(key);
+        return Array.isArray(value) ? value : typeof value === 'string' ? readInlineList(value) : [];
+    };
+
+    const meta: NoteFrontMatter = {};
+    const visibility = str('visibility');
+    if (str('id')) {
+        meta.id = str('id');
+    }
+    if (str('title')) {
+        meta.title = str('title');
+    }
+    if (visibility === 'public' || visibility === 'secret') {
+        meta.visibility = visibility;
+    }
+    if (fields.has('linkedRepo')) {
+        meta.linkedRepo = str('linkedRepo') ?? null;
+        meta.linkedPaths = list('linkedPaths');
+    }
+    if (fields.has('tags')) {
+        meta.tags = normalizeTags(list('tags'));
+    }
+    if (fields.has('folder')) {
+        meta.folder = normalizeFolder(str('folder') ?? '');
+    }
+    if (str('created')) {
+        meta.created = str('created');
+    }
+    if (str('updated')) {
+        meta.updated = str('updated');
+    }
+    return { meta, body: text.slice(match[0].length) };
+}
+
+/** A note's main page as a Markdown file with front-matter. */
+export function toNoteMarkdown(note: GistNote, content: string): string {
+    const lines = [
+        '---',
+        `id: ${yamlScalar(note.id)}`,
+        `title: ${yamlScalar(note.title)}`,
+        `visibility: ${note.isPublic ? 'public' : 'secret'}`,
+        `linkedRepo: ${note.linkedRepo ? yamlScalar(note.linkedRepo) : 'null'}`,
+        ...(note.linkedPaths.length > 0 ? [`linkedPaths: ${yamlList(note.linkedPaths)}`] : []),
+        `tags: ${yamlList(note.tags)}`,
+        `folder: ${note.folder ? yamlScalar(note.folder) : 'null'}`,
+        `created: ${note.createdAt.toISOString()}`,
+        `updated: ${note.updatedAt.toISOString()}`,
+        '---',
+        '',
+    ];
+    return lines.join('\n') + content;
+}
+
+/**
+ * `text` with its front-matter `id` set to `id` — replaced, added to the
+ * block, or in a new block before a file without one. The rest is kept as is.
+ */
+export function withNoteId(text: string, id: string): string {
+    const line = `id: ${yamlScalar(id)}`;
+    const match = text.match(FRONT_MATTER);
+    if (!match) {
+        return `---\n${line}\n---\n${text}`;
+    }
+    const block = /^id\s*:.*$/m.test(match[1])
+        ? match[1].replace(/^id\s*:.*$/m, line)
+        : `${line}\n${match[1]}`;
+    const start = match[0].indexOf('\n') + 1;
+    return text.slice(0, start) + block + text.slice(start + match[1].length);
+}
+
+// ─── Export ───────────────────────────────────────────────────────
+
+function safeName(name: string): string {
+    return name.replace(UNSAFE_FILENAME, '-').replace(/^[\s.]+|[\s.]+$/g, '') || 'Untitled';
+}
+
+/**
+ * Where each note is written, relative to the export folder and keyed by
+ * note id. Notes found in `existing` (relative paths by note id, from an
+ * earlier export) keep their file; the others get `<folder>/<Title>.md`,
+ * numbered when the name is taken.
+ */
+export function planExportPaths(
+    notes: readonly GistNote[],
+    existing: ReadonlyMap<string, string> = new Map(),
+): Map<string, string> {
+    const paths = new Map<string, string>();
+    const taken = new Set<string>();
+    for (const note of notes) {
+        const kept = existing.get(note.id);
+        if (kept) {
+            paths.set(note.id, kept);
+            taken.add(kept.toLowerCase());
+        }
+    }
+    for (const note of notes) {
+        if (paths.has(note.id)) {
+            continue;
+        }
+        const dir = note.folder ? note.folder.split('/').map(safeName).join('/') + '/' : '';
+        const stem = safeName(note.title);
+        let candidate = `${dir}${stem}.md`;
+        for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+            candidate = `${dir}${stem} (${n}).md`;
+        }
+        paths.set(note.id, candidate);
+        taken.add(candidate.toLowerCase());
+    }
+    return paths;
+}
+
+/**
+ * Write `pages` into `dir` (created if needed). A note exported there before
+ * is written over its earlier file. Returns the number of files written.
+ */
+export async function writeNotesFolder(
+    dir: string,
+    pages: readonly { note: GistNote; content: string }[],
+): Promise<number> {
+    const existing = new Map<string, string>();
+    for (const file of await readNotesFolder(dir)) {
+        if (file.meta.id) {
+            existing.set(file.meta.id, file.relativePath);
+        }
+    }
+    const paths = planExportPaths(pages.map((p) => p.note), existing);
+    for (const { note, content } of pages) {
+        const target = path.join(dir, ...(paths.get(note.id) ?? '').split('/'));
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        await fs.promises.writeFile(target, toNoteMarkdown(note, content), 'utf8');
+    }
+    return pages.length;
+}
+
+// ─── Import ───────────────────────────────────────────────────────
+
+/** Every Markdown file below `dir`, skipping hidden directories; none if `dir` does not exist. */
+export async function readNotesFolder(dir: string): Promise<NoteArchiveFile[]> {
+    const files: NoteArchiveFile[] = [];
+    const walk = async (relative: string): Promise<void> => {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(path.join(dir, relative), { withFileTypes: true });
+        } catch (e: unknown) {
+            if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+                return;
+            }
+            throw e;
+        }
+        for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+            const child = relative ? `${relative}/${entry.name}` : entry.name;
+            if (entry.isDirectory() && !isHiddenDir(entry.name)) {
+                await walk(child);
+            } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.md')) {
+                const text = await fs.promises.readFile(path.join(dir, child), 'utf8');
+                files.push({ relativePath: child, ...parseNoteMarkdown(text) });
+            }
+        }
+    };
+    await walk('');
+    return files;
+}
+
+/** A note title for a file without one: its first `# Heading`, else its file name. */
+function titleOf(file: NoteArchiveFile): string {
+    if (file.meta.title) {
+        return file.meta.title;
+    }
+    const heading = file.body.match(/^#\s+(.+?)\s*#*\s*$/m);
+    return heading
+        ? heading[1]
+        : path.posix.basename(file.relativePath, path.posix.extname(file.relativePath));
+}
+
+/** The folder of a file without one in its front-matter: the directory it sits in. */
+function folderOf(file: NoteArchiveFile): string | null {
+    if (file.meta.folder !== undefined) {
+        return file.meta.folder;
+    }
+    const dir = path.posix.dirname(file.relativePath);
+    return dir === '.' ? null : normalizeFolder(dir);
+}
+
+/**
+ * Decide what importing `files` does: files whose `id` is one of `notes`
+ * update that note where they differ; the rest become new notes. A note
+ * matched by several files takes the first.
+ */
+export function planNoteImport(
+    files: readonly NoteArchiveFile[],
+    notes: readonly { note: GistNote; content: string }[],
+): NoteImportPlan {
+    const plan: NoteImportPlan = { create: [], update: [], unchanged: 0 };
+    const byId = new Map(notes.map((p) => [p.note.id, p]));
+    const matched = new Set<string>();
+
+    for (const file of files) {
+        const existing = file.meta.id ? byId.get(file.meta.id) : undefined;
+        const title = titleOf(file);
+        const tags = file.meta.tags ?? [];
+        const folder = folderOf(file);
+
+        if (!existing) {
+            plan.create.push({
+                file,
+                title,
+                isPublic: file.meta.visibility ? file.meta.visibility === 'public' : undefined,
+                linkedRepo: file.meta.linkedRepo ?? null,
+                linkedPaths: file.meta.linkedPaths ?? [],
+                tags,
+                folder,
+            });
+            continue;
+        }
+        if (matched.has(existing.note.id)) {
+            continue;
+        }
+        matched.add(existing.note.id);
+
+        const { note, content } = existing;
+        const update: NoteImportUpdate = { file, note };
+        if (title !== note.title || file.body !== content) {
+            update.page = { title, content: file.body };
+        }
+        if (file.meta.tags && tags.join() !== note.tags.join()) {
+            update.tags = tags;
+        }
+        if (folder !== note.folder) {
+            update.folder = folder;
+        }
+        if (update.page || update.tags || update.folder !== undefined) {
+            plan.update.push(update);
+        } else {
+            plan.unchanged++;
+        }
+    }
+    return plan;
+}
+
+/** Record note `id` in the front-matter of imported `file`, so the next import updates that note. */
+export async function writeNoteId(dir: string, file: NoteArchiveFile, id: string): Promise<void> {
+    const target = path.join(dir, ...file.relativePath.split('/'));
+    const text = await fs.promises.readFile(target, 'utf8');
+    await fs.promises.writeFile(target, withNoteId(text, id), 'utf8');
+}
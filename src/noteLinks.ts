@@ -0,0 +1,51 @@
+import * as path from 'path';
+import { type GistNote } from './gistService';
+
+/**
+ * Workspace links of Gist Notes. A note linked to a repository ("owner/repo")
+ * belongs to its knowledge base; it can also be linked to files and folders
+ * in it, stored as repo-relative paths with forward slashes — folders with a
+ * trailing "/" — so a link means the same on every clone.
+ */
+
+/** `file` relative to the repository `root`, as stored in a link; undefined when outside it. */
+export function toLinkPath(root: string, file: string, isFolder = false): string | undefined {
+    const relative = path.relative(root, file);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+        return undefined;
+    }
+    const linkPath = relative.split(path.sep).join('/');
+    return isFolder ? `${linkPath}/` : linkPath;
+}
+
+/** Whether a link covers `filePath`: the file itself, or a folder containing it. */
+export function linkCovers(link: string, filePath: string): boolean {
+    return link === filePath || (link.endsWith('/') && filePath.startsWith(link));
+}
+
+/**
+ * Notes of `repo` linked to `filePath` — direct file links first, then by
+ * the depth of the linked folder, deepest first.
+ */
+export function notesForPath(notes: GistNote[], repo: string, filePath: string): GistNote[] {
+    const depth = (note: GistNote) =>
+        Math.max(
+            ...note.linkedPaths
+                .filter((link) => linkCovers(link, filePath))
+                .map((link) => (link === filePath ? Infinity : link.length)),
+        );
+    return notes
+        .filter((n) => n.linkedRepo === repo && n.linkedPaths.some((l) => linkCovers(l, filePath)))
+        .sort((a, b) => depth(b) - depth(a));
+}
+
+/** Notes linked to `repo` first, each group keeping its order. */
+export function pinRepoNotes(notes: GistNote[], repo: string | undefined): GistNote[] {
+    if (!repo) {
+        return notes;
+    }
+    return [
+        ...notes.filter((n) => n.linkedRepo === repo),
+        ...notes.filter((n) => n.linkedRepo !== repo),
+    ];
+}
@@ -0,0 +1,259 @@
+import { type GitService } from './gitService';
+import { type PrService } from './prService';
+
+/**
+ * Note templates: skeletons for new Gist Notes, with `{{variable}}`
+ * placeholders filled in from the workspace when a note is created. The
+ * library holds the built-in templates, templates from the
+ * `notes.templates` setting, and every Markdown file of the gists listed in
+ * `notes.templateGists` — a way to share templates with a team.
+ */
+
+export interface NoteTemplate {
+    /** Unique in the library: `builtin:<name>`, `settings:<index>` or `gist:<id>/<file>` */
+    id: string;
+    name: string;
+    description?: string;
+    /** Title of the notes created from it; may use variables */
+    title: string;
+    content: string;
+    source: 'builtin' | 'settings' | 'gist';
+}
+
+/** Variables a template can use, as `{{name}}` */
+export const TEMPLATE_VARIABLES = ['date', 'time', 'branch', 'repo', 'user', 'openPRs'] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+/** Where variable values come from — the workspace repository and GitHub. */
+export interface TemplateSources {
+    git: Pick<GitService, 'getCurrentBranch' | 'getGitHubRepo'>;
+    prs?: Pick<PrService, 'getAuthenticatedUser' | 'listPullRequests'>;
+    now?: Date;
+}
+
+const VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+function isTemplateVariable(name: string): name is TemplateVariable {
+    return (TEMPLATE_VARIABLES as readonly string[]).includes(name);
+}
+
+export const BUILTIN_NOTE_TEMPLATES: NoteTemplate[] = [
+    {
+        id: 'builtin:meeting',
+        name: 'Meeting notes',
+        description: 'Agenda, notes, decisions and action items',
+        title: 'Meeting notes {{date}}',
+        content: [
+            '# Meeting notes — {{date}}',
+            '',
+            '**Attendees:** @{{user}}',
+            '',
+            '## Agenda',
+            '',
+            '- ',
+            '',
+            '## Notes',
+            '',
+            '## Decisions',
+            '',
+            '## Action items',
+            '',
+            '- [ ] ',
+            '',
+        ].join('\n'),
+        source: 'builtin',
+    },
+    {
+        id: 'builtin:postmortem',
+        name: 'Incident postmortem',
+        description: 'Impact, timeline, root cause and follow-ups',
+        title: 'Incident postmortem {{date}}',
+        content: [
+            '# Incident postmortem — {{date}}',
+            '',
+            '**Repository:** {{repo}}  ',
+            '**Author:** @{{user}}  ',
+            '**Status:** Draft',
+            '',
+            '## Summary',
+            '',
+            '## Impact',
+            '',
+            '## Timeline',
+            '',
+            '| Time | Event |',
+            '| ---- | ----- |',
+            '| {{date}} {{time}} | |',
+            '',
+            '## Root cause',
+            '',
+            '## Resolution',
+            '',
+            '## Action items',
+            '',
+            '- [ ] ',
+            '',
+            '## Lessons learned',
+            '',
+        ].join('\n'),
+        source: 'builtin',
+    },
+    {
+        id: 'builtin:pr-checklist',
+        name: 'PR checklist',
+        description: 'Pre-review checklist for the current branch',
+        title: 'PR checklist {{branch}}',
+        content: [
+            '# PR checklist — {{branch}}',
+            '',
+            '- [ ] Rebased on the base branch',
+            '- [ ] Tests added or updated',
+            '- [ ] Lint and type checks pass',
+            '- [ ] Docs and CHANGELOG updated',
+            '- [ ] Diff reviewed for leftovers (logs, TODOs, debug code)',
+            '- [ ] Screenshots for UI changes',
+            '',
+            '## Open pull requests in {{repo}}',
+            '',
+            '{{openPRs}}',
+            '',
+        ].join('\n'),
+        source: 'builtin',
+    },
+    {
+        id: 'builtin:standup',
+        name: 'Standup',
+        description: 'Yesterday, today, blockers and open pull requests',
+        title: 'Standup {{date}}',
+        content: [
+            '# Standup — {{date}}',
+            '',
+            '## Yesterday',
+            '',
+            '- ',
+            '',
+            '## Today',
+            '',
+            '- Working on `{{branch}}`',
+            '',
+            '## Blockers',
+            '',
+            '- None',
+            '',
+            '## Open pull requests',
+            '',
+            '{{openPRs}}',
+            '',
+        ].join('\n'),
+        source: 'builtin',
+    },
+];
+
+/** The known variables used in `texts`, each once. */
+export function usedVariables(...texts: string[]): TemplateVariable[] {
+    const names = new Set<TemplateVariable>();
+    for (const text of texts) {
+        for (const [, name] of text.matchAll(VARIABLE)) {
+            if (isTemplateVariable(name)) {
+                names.add(name);
+            }
+        }
+    }
+    return [...names];
+}
+
+/** Fill in the variables of `text`; unknown ones (e.g. `{{other}}`) are left as they are. */
+export function renderTemplate(text: string, values: TemplateValues): string {
+    return text.replace(VARIABLE, (match, name: string) =>
+        isTemplateVariable(name) ? (values[name] ?? match) : match,
+    );
+}
+
+/**
+ * Values of the variables `names` — only those, since `openPRs` costs an API
+ * call. A value that cannot be found (no repository, not signed in) is empty.
+ */
+export async function resolveTemplateVariables(
+    names: TemplateVariable[],
+    sources: TemplateSources,
+): Promise<TemplateValues> {
+    const now = sources.now ?? new Date();
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const repo =
+        names.includes('repo') || names.includes('openPRs')
+            ? await sources.git.getGitHubRepo().catch(() => undefined)
+            : undefined;
+
+    const resolvers: Record<TemplateVariable, () => Promise<string>> = {
+        date: async () => `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+        time: async () => `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+        branch: async () => (await sources.git.getCurrentBranch()) ?? '',
+        repo: async () => (repo ? `${repo.owner}/${repo.repo}` : ''),
+        user: async () => (sources.prs ? sources.prs.getAuthenticatedUser() : ''),
+        openPRs: async () => {
+            if (!repo || !sources.prs) {
+                return '';
+            }
+            const prs = await sources.prs.listPullRequests(repo.owner, repo.repo, 'open');
+            if (prs.length === 0) {
+                return '_No open pull requests_';
+            }
+            return prs
+                .map(
+                    (pr) =>
+                        `- [#${pr.number}](${pr.htmlUrl}) ${pr.title} — @${pr.author}` +
+                        (pr.isDraft ? ' (draft)' : ''),
+                )
+                .join('\n');
+        },
+    };
+
+    const entries = await Promise.all(
+        names.map(async (name) => [name, await resolvers[name]().catch(() => '')] as const),
+    );
+    return Object.fromEntries(entries);
+}
+
+/** Templates from the `notes.templates` setting; malformed entries are skipped. */
+export function templatesFromSettings(value: unknown): NoteTemplate[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+    return value.flatMap((entry: unknown, index): NoteTemplate[] => {
+        const t = entry as Partial<Record<'name' | 'description' | 'title' | 'content', unknown>>;
+        if (!t || typeof t.name !== 'string' || typeof t.content !== 'string') {
+            return [];
+        }
+        return [
+            {
+                id: `settings:${index}`,
+                name: t.name,
+                description: typeof t.description === 'string' ? t.description : undefined,
+                title: typeof t.title === 'string' ? t.title : `${t.name} {{date}}`,
+                content: t.content,
+                source: 'settings',
+            },
+        ];
+    });
+}
+
+/** One template per Markdown file of a template gist, named after the file. */
+export function templatesFromGist(gistId: string, files: Record<string, string>): NoteTemplate[] {
+    return Object.keys(files)
+        .filter((filename) => /\.(md|markdown)$/i.test(filename) && !filename.startsWith('.'))
+        .sort((a, b) => a.localeCompare(b))
+        .map((filename) => {
+            const name = filename.replace(/\.(md|markdown)$/i, '').replace(/[-_]+/g, ' ');
+            return {
+                id: `gist:${gistId}/${filename}`,
+                name,
+                description: filename,
+                title: `${name} {{date}}`,
+                content: files[filename],
+                source: 'gist',
+            };
+        });
+}
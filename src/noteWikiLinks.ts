@@ -0,0 +1,70 @@
+import { type GistNote } from './gistService';
+
+/**
+ * `[[Note Title]]` links between Gist Notes — `[[Note Title|label]]` shows
+ * other text. Titles match case-insensitively. Links inside code spans and
+ * fenced code blocks are not links.
+ */
+
+/** A note linking to another, with the line holding the first link. */
+export interface NoteBacklink {
+    id: string;
+    title: string;
+    excerpt: string;
+}
+
+/** Code (left alone) or a wiki link: target in group 2, `|label` in group 3 */
+const WIKI_LINK =
+    /(```[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]*`)|\[\[([^[\]|\n]+)(\|[^[\]\n]+)?\]\]/g;
+
+/** Longest excerpt shown for a backlink */
+const MAX_EXCERPT = 160;
+
+function sameTitle(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** Titles `content` links to, in order, each once (as first written). */
+export function parseWikiLinks(content: string): string[] {
+    const targets: string[] = [];
+    for (const [, code, target] of content.matchAll(WIKI_LINK)) {
+        if (!code && target.trim() && !targets.some((t) => sameTitle(t, target))) {
+            targets.push(target.trim());
+        }
+    }
+    return targets;
+}
+
+/** The notes among `pages` that link to `note`, by title, sorted by title. */
+export function findBacklinks(
+    pages: { note: GistNote; content: string }[],
+    note: Pick<GistNote, 'id' | 'title'>,
+): NoteBacklink[] {
+    return pages
+        .flatMap(({ note: from, content }): NoteBacklink[] => {
+            if (from.id === note.id) {
+                return [];
+            }
+            for (const match of content.matchAll(WIKI_LINK)) {
+                if (!match[1] && sameTitle(match[2], note.title)) {
+                    const lineStart = content.lastIndexOf('\n', match.index) + 1;
+                    const lineEnd = content.indexOf('\n', match.index);
+                    const line = content.slice(lineStart, lineEnd < 0 ? undefined : lineEnd).trim();
+                    const excerpt =
+                        line.length > MAX_EXCERPT ? `${line.slice(0, MAX_EXCERPT - 1)}…` : line;
+                    return [{ id: from.id, title: from.title, excerpt }];
+                }
+            }
+            return [];
+        })
+        .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/** Point the links to `oldTitle` in `content` at `newTitle`, keeping their labels. */
+export function renameWikiLinks(content: string, oldTitle: string, newTitle: string): string {
+    return content.replace(
+        WIKI_LINK,
+        (match, code: string | undefined, target: string, label = '') =>
+            !code && sameTitle(target, oldTitle) ? `[[${newTitle}${label}]]` : match,
+    );
+}
@@ -0,0 +1,533 @@
+import * as vscode from 'vscode';
+import {
+    GistOfflineError,
+    GistService,
+    noteFileKind,
+    type GistNote,
+    type GistNoteData,
+    type NoteSyncState,
+} from './gistService';
+import { hasConflictMarkers, mergeText } from './textDiff';
+
+/**
+ * Local copy of the user's notes, so they can be read and edited without a
+ * connection to GitHub.
+ *
+ * Every note is kept as last fetched ("synced") in global state. Saves are
+ * recorded as pending edits on top of it and pushed straight away; when
+ * GitHub is unreachable they stay queued and are pushed by the next sync.
+ * Before pushing, the gist's `updated_at` is compared with the synced copy:
+ * if the note changed on GitHub meanwhile, the edits are three-way merged
+ * with the synced copy as base. Overlapping changes are left in the note as
+ * conflict markers for the user to resolve, and the note is not pushed until
+ * they are gone.
+ */
+
+/** A note as stored — dates as ISO strings */
+type StoredNote = Omit<GistNote, 'createdAt' | 'updatedAt'> & {
+    createdAt: string;
+    updatedAt: string;
+};
+
+/** Local edits of a note not yet on GitHub. */
+interface PendingEdit {
+    title: string;
+    /** Edited file contents by filename — the main page under its synced name */
+    files: Record<string, string>;
+    editedAt: string;
+    /** Files a merge left conflict markers in */
+    conflicts: string[];
+}
+
+interface CacheEntry {
+    /** The note as last fetched from GitHub — the merge base of `pending` */
+    synced: StoredNote;
+    /** Whether `synced` has file contents (list results do not) */
+    complete: boolean;
+    pending?: PendingEdit;
+}
+
+type CacheState = Record<string, CacheEntry>;
+
+/** Outcome of saving a note through the cache. */
+export type NoteSaveStatus = 'saved' | 'queued' | 'conflict';
+
+export interface NotesSyncResult {
+    pushed: number;
+    /** Titles of notes left with conflicts to resolve */
+    conflicts: string[];
+    /** Notes still holding unsynced edits */
+    remaining: number;
+}
+
+function store(note: GistNote): StoredNote {
+    return {
+        ...note,
+        createdAt: note.createdAt.toISOString(),
+        updatedAt: note.updatedAt.toISOString(),
+    };
+}
+
+/** Content of one file of a note ('' if it has no such file). */
+function contentOf(note: StoredNote | GistNote, filename: string): string {
+    if (filename === note.mainFile) {
+        return note.content;
+    }
+    return note.files.find((f) => f.filename === filename)?.content ?? '';
+}
+
+/** The note as the user sees it: the synced copy with pending edits applied. */
+function revive({ synced, pending }: CacheEntry): GistNote {
+    const note: GistNote = {
+        ...synced,
+        // Notes cached before tags and folders existed have neither
+        tags: synced.tags ?? [],
+        folder: synced.folder ?? null,
+        createdAt: new Date(synced.createdAt),
+        updatedAt: new Date(synced.updatedAt),
+    };
+    if (!pending) {
+        return note;
+    }
+    const files = note.files.map((f) =>
+        Object.hasOwn(pending.files, f.filename) ? { ...f, content: pending.files[f.filename] } : f,
+    );
+    for (const [filename, content] of Object.entries(pending.files)) {
+        if (!files.some((f) => f.filename === filename)) {
+            files.push({ filename, content, kind: noteFileKind(filename) });
+        }
+    }
+    return {
+        ...note,
+        title: pending.title,
+        content: pending.files[synced.mainFile] ?? synced.content,
+        files,
+        updatedAt: new Date(pending.editedAt),
+    };
+}
+
+export class NotesCache implements vscode.Disposable {
+    private static readonly STATE_KEY = 'superprompt-forge.notesCache';
+    /** Delay between sync attempts while edits are queued and GitHub is unreachable */
+    private static readonly RETRY_MS = 60_000;
+
+    private _offline = false;
+    private _syncing: Promise<NotesSyncResult> | undefined;
+    private _retryTimer: ReturnType<typeof setTimeout> | undefined;
+    /** Serializes pushes, so a save and a background sync never push the same edit twice */
+    private _chain: Promise<unknown> = Promise.resolve();
+
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    /** Fires when connectivity changes or a background sync pushed or conflicted. */
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    constructor(
+        private readonly _gistService: GistService,
+        private readonly _state: vscode.Memento,
+        private readonly _outputChannel?: vscode.OutputChannel,
+    ) {}
+
+    /** Whether the last request found GitHub unreachable. */
+    get offline(): boolean {
+        return this._offline;
+    }
+
+    /** Number of notes with edits not yet on GitHub. */
+    get pendingCount(): number {
+        return Object.values(this._entries).filter((e) => e.pending).length;
+    }
+
+    /** `queued` for unsynced edits, `conflict` when they await conflict resolution. */
+    syncState(id: string): NoteSyncState | undefined {
+        const pending = this._entries[id]?.pending;
+        if (!pending) {
+            return undefined;
+        }
+        return pending.conflicts.length > 0 ? 'conflict' : 'queued';
+    }
+
+    /** `GistService.toData` plus the note's sync state. */
+    toData(note: GistNote): GistNoteData {
+        const syncState = this.syncState(note.id);
+        return { ...GistService.toData(note), ...(syncState ? { syncState } : {}) };
+    }
+
+    private get _entries(): CacheState {
+        return this._state.get<CacheState>(NotesCache.STATE_KEY, {});
+    }
+
+    private async _setEntries(entries: CacheState): Promise<void> {
+        await this._state.update(NotesCache.STATE_KEY, entries);
+    }
+
+    private async _put(id: string, entry: CacheEntry): Promise<void> {
+        await this._setEntries({ ...this._entries, [id]: entry });
+    }
+
+    private _setOffline(offline: boolean): void {
+        if (offline === this._offline) {
+            return;
+        }
+        this._offline = offline;
+        this._outputChannel?.appendLine(`[NOTES CACHE] ${offline ? 'offline' : 'back online'}`);
+        this._onDidChange.fire();
+    }
+
+    // ─── Reads ────────────────────────────────────────────────────
+
+    /**
+     * All notes — from GitHub when reachable (refreshing the cache and
+     * pushing queued edits), otherwise from the cache.
+     */
+    async listNotes(): Promise<GistNote[]> {
+        let remote: GistNote[];
+        try {
+            remote = await this._gistService.listNotes();
+        } catch (e: unknown) {
+            if (!(e instanceof GistOfflineError)) {
+                throw e;
+            }
+            this._setOffline(true);
+            this._scheduleRetry();
+            return Object.values(this._entries).map(revive);
+        }
+        this._setOffline(false);
+
+        const previous = this._entries;
+        const entries: CacheState = {};
+        for (const note of remote) {
+            const prev = previous[note.id];
+            // Keep fetched contents while the gist is unchanged, and the base of local edits
+            const keep =
+                prev && (prev.pending || prev.synced.updatedAt === note.updatedAt.toISOString());
+            entries[note.id] = keep ? prev : { synced: store(note), complete: false };
+        }
+        for (const [id, entry] of Object.entries(previous)) {
+            if (!entries[id] && entry.pending) {
+                this._outputChannel?.appendLine(`[NOTES CACHE] ${id} deleted on GitHub`);
+                vscode.window.showWarningMessage(
+                    `"${entry.pending.title}" was deleted on GitHub — its unsynced local edits were discarded.`,
+                );
+            }
+        }
+        await this._setEntries(entries);
+
+        if (this._hasSyncable()) {
+            void this.sync();
+        }
+        return remote.map((n) => {
+            const entry = entries[n.id];
+            return entry.pending || entry.complete ? revive(entry) : n;
+        });
+    }
+
+    /** A note with its contents — from GitHub when reachable, otherwise from the cache. */
+    async getNote(id: string): Promise<GistNote> {
+        let note: GistNote;
+        try {
+            note = await this._gistService.getNote(id);
+        } catch (e: unknown) {
+            const entry = this._entries[id];
+            if (e instanceof GistOfflineError && entry?.complete) {
+                this._setOffline(true);
+                return revive(entry);
+            }
+            throw e;
+        }
+        this._setOffline(false);
+
+        const entry = this._entries[id];
+        if (entry?.pending) {
+            // Local edits show until they are synced; the cached base stays for the merge
+            return revive(entry);
+        }
+        await this._put(id, { synced: store(note), complete: true });
+        return note;
+    }
+
+    /**
+     * The notes as last listed, each with its main page — local edits
+     * included — for looking through the text of every note. Pages not in
+     * the cache are read from GitHub; those that cannot be are left out.
+     */
+    async listPages(): Promise<{ note: GistNote; content: string }[]> {
+        const entries = this._entries;
+        const missing = Object.keys(entries).filter((id) => !entries[id].complete);
+        const fetched = missing.length > 0 ? await this._gistService.getPages(missing) : undefined;
+        return Object.values(entries).flatMap((entry) => {
+            const note = revive(entry);
+            const content = entry.complete ? note.content : fetched?.get(note.id);
+            return content !== undefined ? [{ note, content }] : [];
+        });
+    }
+
+    // ─── Writes ───────────────────────────────────────────────────
+
+    /** Save a note's title and main page. */
+    updateNote(
+        id: string,
+        title: string,
+        content: string,
+    ): Promise<{ note: GistNote; status: NoteSaveStatus }> {
+        return this._edit(id, (synced, pending) => ({
+            ...pending,
+            title,
+            files: { ...pending.files, [synced.mainFile]: content },
+        }));
+    }
+
+    /** Save (or add) one file of a note. */
+    saveNoteFile(
+        id: string,
+        filename: string,
+        content: string,
+    ): Promise<{ note: GistNote; status: NoteSaveStatus }> {
+        return this._edit(id, (_synced, pending) => ({
+            ...pending,
+            files: { ...pending.files, [filename]: content },
+        }));
+    }
+
+    private async _edit(
+        id: string,
+        apply: (synced: StoredNote, pending: PendingEdit) => PendingEdit,
+    ): Promise<{ note: GistNote; status: NoteSaveStatus }> {
+        if (!this._entries[id]?.complete) {
+            // Edits need a base to merge against later
+            const synced = store(await this._gistService.getNote(id));
+            if (!this._entries[id]?.complete) {
+                await this._put(id, { synced, complete: true });
+            }
+        }
+        // Read the entry only now, with no await before it is written, so an
+        // edit saved or pushed meanwhile is built on rather than overwritten
+        const entry = this._entries[id];
+        const pending = entry.pending ?? {
+            title: entry.synced.title,
+            files: {},
+            editedAt: '',
+            conflicts: [],
+        };
+        await this._put(id, {
+            ...entry,
+            pending: { ...apply(entry.synced, pending), editedAt: new Date().toISOString() },
+        });
+        const result = await this._serial(() => this._syncNote(id));
+        this._scheduleRetry();
+        return result;
+    }
+
+    // ─── Sync ─────────────────────────────────────────────────────
+
+    /** Push every queued edit GitHub will take now. */
+    sync(): Promise<NotesSyncResult> {
+        if (!this._syncing) {
+            this._syncing = this._syncAll().finally(() => {
+                this._syncing = undefined;
+            });
+        }
+        return this._syncing;
+    }
+
+    /** Whether some note has edits to push (and no unresolved conflict markers). */
+    private _hasSyncable(): boolean {
+        return Object.values(this._entries).some((e) => e.pending && !this._blocked(e.pending));
+    }
+
+    private _blocked(pending: PendingEdit): boolean {
+        return pending.conflicts.some((f) => hasConflictMarkers(pending.files[f] ?? ''));
+    }
+
+    private async _syncAll(): Promise<NotesSyncResult> {
+        const result: NotesSyncResult = { pushed: 0, conflicts: [], remaining: 0 };
+        let changed = false;
+        for (const [id, entry] of Object.entries(this._entries)) {
+            if (!entry.pending) {
+                continue;
+            }
+            try {
+                const wasConflicted = entry.pending.conflicts.length > 0;
+                const { note, status } = await this._serial(() => this._syncNote(id));
+                if (status === 'queued') {
+                    break; // Still offline
+                }
+                if (status === 'saved') {
+                    result.pushed++;
+                    changed = true;
+                } else {
+                    result.conflicts.push(note.title);
+                    changed ||= !wasConflicted;
+                }
+            } catch (e: unknown) {
+                const m = e instanceof Error ? e.message : String(e);
+                this._outputChannel?.appendLine(`[NOTES CACHE] sync of ${id} failed: ${m}`);
+            }
+        }
+        result.remaining = this.pendingCount;
+        this._scheduleRetry();
+        if (changed) {
+            this._onDidChange.fire();
+        }
+        return result;
+    }
+
+    /** While offline with edits queued, try again every RETRY_MS. */
+    private _scheduleRetry(): void {
+        if (this._retryTimer || !this._offline || !this._hasSyncable()) {
+            return;
+        }
+        this._retryTimer = setTimeout(() => {
+            this._retryTimer = undefined;
+            void this.sync();
+        }, NotesCache.RETRY_MS);
+    }
+
+    private _serial<T>(task: () => Promise<T>): Promise<T> {
+        const run = this._chain.then(task, task);
+        this._chain = run.catch(() => undefined);
+        return run;
+    }
+
+    /** Whether `pending` is still the latest edit of a note. */
+    private _isLatest(id: string, pending: PendingEdit): boolean {
+        return JSON.stringify(this._entries[id]?.pending) === JSON.stringify(pending);
+    }
+
+    /**
+     * The edit saved while `pushed` was being pushed, if any, carried over
+     * onto the note as pushed. It was made on top of `pushed`, so that is the
+     * base it is merged from when GitHub had changes of its own.
+     */
+    private _editSince(
+        id: string,
+        pushed: PendingEdit,
+        synced: StoredNote,
+        note: GistNote,
+        remoteChanged: boolean,
+    ): PendingEdit | undefined {
+        const latest = this._entries[id]?.pending;
+        if (!latest || this._isLatest(id, pushed)) {
+            return undefined;
+        }
+        const files: Record<string, string> = {};
+        const conflicts: string[] = [];
+        for (const [filename, local] of Object.entries(latest.files)) {
+            // The main page follows the title on GitHub
+            const name = filename === synced.mainFile ? note.mainFile : filename;
+            if (!remoteChanged) {
+                files[name] = local;
+                continue;
+            }
+            const base = Object.hasOwn(pushed.files, filename)
+                ? pushed.files[filename]
+                : contentOf(synced, filename);
+            const merged = mergeText(base, local, contentOf(note, name), {
+                ours: 'local',
+                theirs: 'GitHub',
+            });
+            files[name] = merged.text;
+            if (merged.conflicts > 0) {
+                conflicts.push(name);
+            }
+        }
+        return { ...latest, files, conflicts };
+    }
+
+    /** Push a note's pending edits, merging with changes made on GitHub meanwhile. */
+    private async _syncNote(id: string): Promise<{ note: GistNote; status: NoteSaveStatus }> {
+        const entry = this._entries[id];
+        if (!entry?.pending) {
+            return { note: revive(entry), status: 'saved' };
+        }
+        const { synced, pending } = entry;
+        if (this._blocked(pending)) {
+            return { note: revive(entry), status: 'conflict' };
+        }
+
+        try {
+            const remote = await this._gistService.getNote(id);
+            this._setOffline(false);
+
+            // Files by their name on GitHub — the main page follows the title
+            const toRemoteName = (f: string) => (f === synced.mainFile ? remote.mainFile : f);
+            const remoteChanged = remote.updatedAt.toISOString() !== synced.updatedAt;
+            const files: Record<string, string> = {};
+            const conflicts: string[] = [];
+            for (const [filename, local] of Object.entries(pending.files)) {
+                const name = toRemoteName(filename);
+                if (!remoteChanged) {
+                    files[name] = local;
+                    continue;
+                }
+                const merged = mergeText(
+                    contentOf(synced, filename),
+                    local,
+                    contentOf(remote, name),
+                    {
+                        ours: 'local',
+                        theirs: 'GitHub',
+                    },
+                );
+                files[name] = merged.text;
+                if (merged.conflicts > 0) {
+                    conflicts.push(name);
+                }
+            }
+            const title = pending.title !== synced.title ? pending.title : remote.title;
+
+            if (conflicts.length > 0) {
+                if (!this._isLatest(id, pending)) {
+                    // A newer edit was saved meanwhile — merge that one instead
+                    return this._syncNote(id);
+                }
+                // GitHub's version becomes the base, so the resolved text is pushed as is
+                const conflicted: CacheEntry = {
+                    synced: store(remote),
+                    complete: true,
+                    pending: { ...pending, title, files, conflicts },
+                };
+                await this._put(id, conflicted);
+                this._outputChannel?.appendLine(
+                    `[NOTES CACHE] ${id} conflicts in ${conflicts.join(', ')}`,
+                );
+                vscode.window.showWarningMessage(
+                    `"${title}" was also changed on GitHub. Resolve the conflict markers in the note and save it again.`,
+                );
+                return { note: revive(conflicted), status: 'conflict' };
+            }
+
+            let note = remote;
+            if (Object.hasOwn(files, remote.mainFile) || title !== remote.title) {
+                note = await this._gistService.updateNote(
+                    id,
+                    title,
+                    files[remote.mainFile] ?? remote.content,
+                );
+            }
+            for (const [filename, content] of Object.entries(files)) {
+                if (filename !== remote.mainFile) {
+                    note = await this._gistService.saveNoteFile(id, filename, content);
+                }
+            }
+            const since = this._editSince(id, pending, synced, note, remoteChanged);
+            const saved: CacheEntry = {
+                synced: store(note),
+                complete: true,
+                ...(since ? { pending: since } : {}),
+            };
+            await this._put(id, saved);
+            return { note: since ? revive(saved) : note, status: 'saved' };
+        } catch (e: unknown) {
+            if (!(e instanceof GistOfflineError)) {
+                throw e;
+            }
+            this._setOffline(true);
+            return { note: revive(this._entries[id]), status: 'queued' };
+        }
+    }
+
+    dispose(): void {
+        clearTimeout(this._retryTimer);
+        this._onDidChange.dispose();
+    }
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import { type GitService } from './gitService';
 import { type AuthService } from './authService';
 import { type GistService } from './gistService';
+import { type NotesCache } from './notesCache';
 import { type PrService } from './prService';
 import { type IssueService } from './issueService';
 import { type MattermostService } from './mattermostService';
@@ -9,6 +10,10 @@ import { type ProjectService } from './projectService';
 import { type GoogleDriveService } from './googleDriveService';
 import { type GoogleCalendarService } from './calendarService';
 import { type WikiService } from './wikiService';
+import { type StashConflictAssistant } from './stashConflictAssistant';
+import { type StashSearchIndex } from './stashSearch';
+import { type PrCheckoutManager } from './prCheckout';
+import { type PrReviewDrafts } from './prReviewDrafts';
 
 // ─── PanelServices ────────────────────────────────────────────────
 
@@ -22,6 +27,7 @@ export interface PanelServices {
     outputChannel: vscode.OutputChannel;
     authService?: AuthService;
     gistService?: GistService;
+    notesCache?: NotesCache;
     prService?: PrService;
     issueService?: IssueService;
     mattermostService?: MattermostService;
@@ -29,6 +35,10 @@ export interface PanelServices {
     driveService?: GoogleDriveService;
     calendarService?: GoogleCalendarService;
     wikiService?: WikiService;
+    conflictAssistant?: StashConflictAssistant;
+    stashSearchIndex?: StashSearchIndex;
+    prCheckout?: PrCheckoutManager;
+    reviewDrafts?: PrReviewDrafts;
 }
 
 // ─── Google OAuth Credential Prompting ────────────────────────────
@@ -0,0 +1,379 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { type AutoStashGuard } from './autoStashGuard';
+import { GitService } from './gitService';
+import { type PRComment, type PrService, type PullRequest } from './prService';
+import { applySuggestions, groupSuggestionsByPath, type SuggestionEdit } from './prSuggestions';
+import { extractErrorMessage } from './utils';
+
+/** The pull request currently checked out, as shown in the status bar and the panel. */
+export interface PrCheckoutState {
+    /** Repository top-level directory */
+    repoRoot: string;
+    owner: string;
+    repo: string;
+    prNumber: number;
+    title: string;
+    /** Local branch holding the PR head (`pr/<number>`) */
+    branch: string;
+    /** Branch to return to */
+    previousBranch: string;
+}
+
+/** A native comment thread and the review comment replies go to. */
+interface ThreadInfo {
+    rootCommentId: number;
+    /** GraphQL node ID, needed to resolve the thread */
+    threadId?: string;
+}
+
+/**
+ * Checks out the head of a pull request — forks included, via
+ * `refs/pull/<n>/head` on the base repository — into a local `pr/<n>`
+ * branch behind the auto-stash guard, and takes the user back to where they
+ * were afterwards with their stashed work re-applied.
+ *
+ * While the PR branch is checked out, its review threads are shown as native
+ * comment threads on the files, where they can be replied to and resolved.
+ */
+export class PrCheckoutManager implements vscode.Disposable {
+    private static readonly STATE_KEY = 'superprompt-forge.prCheckout';
+
+    private readonly _controller: vscode.CommentController;
+    private _threads = new Map<vscode.CommentThread, ThreadInfo>();
+    private readonly _statusBarItem: vscode.StatusBarItem;
+    private _disposables: vscode.Disposable[] = [];
+
+    private readonly _onDidChange = new vscode.EventEmitter<PrCheckoutState | undefined>();
+    readonly onDidChange: vscode.Event<PrCheckoutState | undefined> = this._onDidChange.event;
+
+    constructor(
+        private readonly _gitService: GitService,
+        private readonly _prService: PrService,
+        private readonly _guard: AutoStashGuard,
+        private readonly _workspaceState: vscode.Memento,
+        private readonly _outputChannel: vscode.OutputChannel,
+    ) {
+        this._controller = vscode.comments.createCommentController(
+            'superprompt-forge-pr-review',
+            'Pull Request Review',
+        );
+        this._controller.options = { placeHolder: 'Reply…', prompt: 'Reply to this thread' };
+
+        this._statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 49);
+        this._statusBarItem.command = 'superprompt-forge.prs.returnFromCheckout';
+
+        this._disposables.push(
+            this._controller,
+            this._statusBarItem,
+            this._guard.onDidChangeHead(({ root, head }) => void this._onHeadChange(root, head)),
+        );
+        this._update();
+    }
+
+    get state(): PrCheckoutState | undefined {
+        return this._workspaceState.get<PrCheckoutState>(PrCheckoutManager.STATE_KEY);
+    }
+
+    private async _setState(state: PrCheckoutState | undefined): Promise<void> {
+        await this._workspaceState.update(PrCheckoutManager.STATE_KEY, state);
+        this._update();
+        this._onDidChange.fire(state);
+    }
+
+    private _update(): void {
+        const state = this.state;
+        void vscode.commands.executeCommand('setContext', 'superprompt-forge.prCheckedOut', !!state);
+        if (state) {
+            this._statusBarItem.text = `$(git-pull-request) PR #${state.prNumber} · Return`;
+            this._statusBarItem.tooltip = `Checked out ${state.title}\nClick to return to ${state.previousBranch}`;
+            this._statusBarItem.show();
+        } else {
+            this._statusBarItem.hide();
+        }
+    }
+
+    /** Show the review threads again if the PR branch is still checked out. */
+    async restore(): Promise<void> {
+        const state = this.state;
+        if (state && (await this._gitService.getCurrentBranch()) === state.branch) {
+            await this.refreshThreads();
+        }
+    }
+
+    /**
+     * Fetch the PR head and check it out as `pr/<number>`. Returns false if
+     * the user cancelled.
+     */
+    async checkout(owner: string, repo: string, pr: PullRequest): Promise<boolean> {
+        const git = this._gitService;
+        const repoRoot = (await git.getRepositoryRoot()) ?? git.workspaceRoot;
+        const current = await git.getCurrentBranch();
+        const branch = `pr/${pr.number}`;
+        if (current === branch) {
+            vscode.window.showInformationMessage(`PR #${pr.number} is already checked out`);
+            return true;
+        }
+        if (!repoRoot) {
+            throw new Error('No git repository open');
+        }
+        if (!current || current === GitService.DETACHED_HEAD) {
+            throw new Error('HEAD is detached — check out a branch first, to have somewhere to return to');
+        }
+
+        // PR refs live on the base repository; fetch by URL when no remote points at it
+        const remotes = await git.getAllGitHubRemotes();
+        const remote =
+            remotes.find(
+                (r) =>
+                    r.owner.toLowerCase() === owner.toLowerCase() &&
+                    r.repo.toLowerCase() === repo.toLowerCase(),
+            )?.remote ?? `https://github.com/${owner}/${repo}.git`;
+
+        const head = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Fetching PR #${pr.number}…`,
+                cancellable: false,
+            },
+            () => git.fetchPullRequest(remote, pr.number),
+        );
+
+        // Re-checking out moves pr/<n> to the new head; don't drop local commits silently
+        const existing = await git.resolveRef(`refs/heads/${branch}`);
+        if (existing && !(await git.isAncestor(existing, head))) {
+            const choice = await vscode.window.showWarningMessage(
+                `Local branch ${branch} has commits that are not in PR #${pr.number}.`,
+                {
+                    modal: true,
+                    detail: 'Resetting it to the PR head leaves those commits behind.',
+                },
+                'Reset to PR Head',
+            );
+            if (choice !== 'Reset to PR Head') {
+                return false;
+            }
+        }
+
+        // Hopping from one checked-out PR to another still returns to where it all started
+        const previous = this.state;
+        const previousBranch =
+            previous?.repoRoot === repoRoot && previous.branch === current ? previous.previousBranch : current;
+
+        const done = await this._guard.run(
+            git,
+            { kind: 'checkout', target: branch, pullRequest: pr.number },
+            () => git.checkoutBranchAt(branch, head),
+        );
+        if (!done) {
+            return false;
+        }
+        this._outputChannel.appendLine(`[PR] Checked out #${pr.number} (${head}) as ${branch}`);
+
+        await this._setState({
+            repoRoot,
+            owner,
+            repo,
+            prNumber: pr.number,
+            title: pr.title,
+            branch,
+            previousBranch,
+        });
+        await this.refreshThreads();
+        return true;
+    }
+
+    /** Whether the given PR is checked out and its branch is the current one. */
+    async isCheckedOut(owner: string, repo: string, prNumber: number): Promise<boolean> {
+        const state = this.state;
+        return (
+            !!state &&
+            state.owner.toLowerCase() === owner.toLowerCase() &&
+            state.repo.toLowerCase() === repo.toLowerCase() &&
+            state.prNumber === prNumber &&
+            (await this._gitService.getCurrentBranch()) === state.branch
+        );
+    }
+
+    /**
+     * Apply suggested changes to the files of the checked-out PR and commit
+     * them on its branch. Files with unsaved changes are refused rather than
+     * mixed into the commit. Returns the new commit's SHA.
+     */
+    async applySuggestions(edits: SuggestionEdit[], message: string): Promise<string> {
+        const state = this.state;
+        if (!state) {
+            throw new Error('No pull request is checked out');
+        }
+        const groups = groupSuggestionsByPath(edits);
+        const documents = await Promise.all(
+            [...groups.keys()].map((p) =>
+                vscode.workspace.openTextDocument(vscode.Uri.file(path.join(state.repoRoot, p))),
+            ),
+        );
+        const dirty = documents.find((d) => d.isDirty);
+        if (dirty) {
+            throw new Error(`${vscode.workspace.asRelativePath(dirty.uri)} has unsaved changes — save or revert it first`);
+        }
+
+        // Compute every file before touching any, so a stale suggestion changes nothing
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        [...groups.values()].forEach((fileEdits, i) => {
+            const document = documents[i];
+            const fullRange = document.validateRange(new vscode.Range(0, 0, document.lineCount, 0));
+            workspaceEdit.replace(document.uri, fullRange, applySuggestions(document.getText(), fileEdits));
+        });
+        if (!(await vscode.workspace.applyEdit(workspaceEdit))) {
+            throw new Error('Failed to apply the suggestions');
+        }
+        await Promise.all(documents.map((d) => d.save()));
+
+        const sha = await this._gitService.commitPaths(
+            [...groups.keys()].map((p) => path.join(state.repoRoot, p)),
+            message,
+        );
+        this._outputChannel.appendLine(
+            `[PR] Committed ${edits.length} suggestion(s) on ${state.branch} as ${sha}`,
+        );
+        return sha;
+    }
+
+    /** Check out the branch the PR was checked out from and re-apply what was stashed. */
+    async returnToPrevious(): Promise<void> {
+        const state = this.state;
+        if (!state) {
+            return;
+        }
+        const record = this._guard.recordForPullRequest(state.repoRoot, state.prNumber);
+        await this._guard.returnTo(this._gitService, state.previousBranch, record);
+        this._clearThreads();
+        await this._setState(undefined);
+    }
+
+    private async _onHeadChange(root: string, head: string | undefined): Promise<void> {
+        const state = this.state;
+        if (!state || path.normalize(state.repoRoot) !== root) {
+            return;
+        }
+        if (head === state.branch) {
+            await this.refreshThreads();
+            return;
+        }
+        this._clearThreads();
+        // Back where the checkout started — nothing left to return to
+        if (head === state.previousBranch) {
+            await this._setState(undefined);
+        }
+    }
+
+    // ─── Review threads ───────────────────────────────────────────
+
+    /** Re-fetch the review threads of the checked-out PR and show them on the files. */
+    async refreshThreads(): Promise<void> {
+        const state = this.state;
+        if (!state) {
+            return;
+        }
+        let comments: PRComment[];
+        try {
+            comments = await this._prService.getCommentsWithThreads(
+                state.owner,
+                state.repo,
+                state.prNumber,
+            );
+        } catch (e: unknown) {
+            this._outputChannel.appendLine(
+                `[PR] Failed to load review threads for #${state.prNumber}: ${extractErrorMessage(e)}`,
+            );
+            return;
+        }
+
+        // Group review comments under the comment that started each thread
+        const groups = new Map<number, PRComment[]>();
+        for (const comment of comments) {
+            if (!comment.isReviewComment) {
+                continue;
+            }
+            const rootId = comment.inReplyToId ?? comment.id;
+            groups.set(rootId, [...(groups.get(rootId) ?? []), comment]);
+        }
+
+        this._clearThreads();
+        for (const [rootCommentId, thread] of groups) {
+            const first = thread.find((c) => c.id === rootCommentId) ?? thread[0];
+            // Outdated threads no longer map to a line of the file
+            if (!first.path || first.line === null || first.line === undefined) {
+                continue;
+            }
+            const uri = vscode.Uri.file(path.join(state.repoRoot, first.path));
+            const line = Math.max(0, first.line - 1);
+            const commentThread = this._controller.createCommentThread(
+                uri,
+                new vscode.Range(line, 0, line, 0),
+                thread.map((c) => this._toComment(c)),
+            );
+            const resolved = !!first.isResolved;
+            commentThread.label = resolved && first.resolvedBy ? `Resolved by ${first.resolvedBy}` : undefined;
+            commentThread.state = resolved
+                ? vscode.CommentThreadState.Resolved
+                : vscode.CommentThreadState.Unresolved;
+            commentThread.collapsibleState = resolved
+                ? vscode.CommentThreadCollapsibleState.Collapsed
+                : vscode.CommentThreadCollapsibleState.Expanded;
+            commentThread.contextValue = resolved ? 'prThread-resolved' : 'prThread-unresolved';
+            this._threads.set(commentThread, { rootCommentId, threadId: first.threadId });
+        }
+    }
+
+    private _toComment(comment: PRComment): vscode.Comment {
+        return {
+            body: new vscode.MarkdownString(comment.body),
+            mode: vscode.CommentMode.Preview,
+            author: {
+                name: comment.author,
+                iconPath: comment.authorAvatarUrl ? vscode.Uri.parse(comment.authorAvatarUrl) : undefined,
+            },
+            timestamp: comment.createdAt,
+        };
+    }
+
+    private _clearThreads(): void {
+        this._threads.forEach((_, thread) => thread.dispose());
+        this._threads.clear();
+    }
+
+    /** Post a reply typed into a native comment thread. */
+    async reply(reply: vscode.CommentReply): Promise<void> {
+        const state = this.state;
+        const info = this._threads.get(reply.thread);
+        if (!state || !info || !reply.text.trim()) {
+            return;
+        }
+        await this._prService.replyToReviewComment(
+            state.owner,
+            state.repo,
+            state.prNumber,
+            info.rootCommentId,
+            reply.text,
+        );
+        await this.refreshThreads();
+    }
+
+    /** Resolve or unresolve a native comment thread. */
+    async setResolved(thread: vscode.CommentThread, resolved: boolean): Promise<void> {
+        const threadId = this._threads.get(thread)?.threadId;
+        if (!threadId) {
+            throw new Error('This thread cannot be resolved from here');
+        }
+        await (resolved
+            ? this._prService.resolveReviewThread(threadId)
+            : this._prService.unresolveReviewThread(threadId));
+        await this.refreshThreads();
+    }
+
+    dispose(): void {
+        this._clearThreads();
+        this._disposables.forEach((d) => d.dispose());
+        this._onDidChange.dispose();
+    }
+}
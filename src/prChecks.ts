@@ -0,0 +1,107 @@
+import type { PRCheck, PRCheckRollup, PRCheckState } from './prService';
+
+/**
+ * CI checks of a pull request — check runs and commit statuses reduced to
+ * one state each, rolled up into a summary, and failure logs cut down to
+ * the lines worth reading.
+ */
+
+/** Longest failure excerpt, in lines */
+const MAX_EXCERPT_LINES = 40;
+
+/** Timestamp GitHub Actions puts in front of every log line */
+const LOG_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z ?/;
+
+/** State of a check run from its `status` and, once completed, its `conclusion`. */
+export function checkRunState(status: string, conclusion: string | null): PRCheckState {
+    if (status !== 'completed') {
+        return 'pending';
+    }
+    switch (conclusion) {
+        case 'success':
+            return 'success';
+        case 'neutral':
+        case 'stale':
+            return 'neutral';
+        case 'skipped':
+            return 'skipped';
+        default:
+            // failure, timed_out, cancelled, action_required, startup_failure
+            return 'failure';
+    }
+}
+
+/** State of a commit status (`success`, `failure`, `error` or `pending`). */
+export function commitStatusState(state: string): PRCheckState {
+    switch (state) {
+        case 'success':
+            return 'success';
+        case 'pending':
+            return 'pending';
+        default:
+            return 'failure';
+    }
+}
+
+/**
+ * Overall state of a set of checks, as GitHub shows it: failing if any
+ * check failed, else pending if any is still running, else passing.
+ */
+export function rollupChecks(checks: readonly Pick<PRCheck, 'state'>[]): PRCheckRollup {
+    const count = (state: PRCheckState) => checks.filter((c) => c.state === state).length;
+    const rollup = {
+        total: checks.length,
+        passed: count('success'),
+        failed: count('failure'),
+        pending: count('pending'),
+        skipped: count('skipped') + count('neutral'),
+    };
+    const state: PRCheckState =
+        rollup.failed > 0
+            ? 'failure'
+            : rollup.pending > 0
+              ? 'pending'
+              : rollup.passed > 0
+                ? 'success'
+                : 'neutral';
+    return { state, ...rollup };
+}
+
+/** Sort order of checks: failing first, then running, then the rest, each by name. */
+export function sortChecks<T extends Pick<PRCheck, 'state' | 'name'>>(checks: readonly T[]): T[] {
+    const rank: Record<PRCheckState, number> = {
+        failure: 0,
+        pending: 1,
+        success: 2,
+        neutral: 3,
+        skipped: 4,
+    };
+    return [...checks].sort(
+        (a, b) => rank[a.state] - rank[b.state] || a.name.localeCompare(b.name),
+    );
+}
+
+/**
+ * The part of a job log that explains a failure: the lines leading up to
+ * the last `##[error]` annotation, or the end of the log without one.
+ * Timestamps and group markers are stripped.
+ */
+export function extractLogExcerpt(log: string, maxLines = MAX_EXCERPT_LINES): string {
+    const lines = log
+        .split('\n')
+        .map((l) => l.replace(/\r$/, '').replace(LOG_TIMESTAMP, ''))
+        .filter((l) => !l.startsWith('##[endgroup]'))
+        .map((l) => l.replace(/^##\[group\]/, '').replace(/^##\[error\]/, 'Error: '));
+
+    let end = lines.length;
+    while (end > 0 && !lines[end - 1].trim()) {
+        end--;
+    }
+    for (let i = end - 1; i >= 0; i--) {
+        if (lines[i].startsWith('Error: ')) {
+            end = i + 1;
+            break;
+        }
+    }
+    return lines.slice(Math.max(0, end - maxLines), end).join('\n');
+}
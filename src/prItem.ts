@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { type PullRequest, type PRState } from './prService';
+import { type PullRequest, type PRCheckState, type PRState } from './prService';
 import { formatRelativeTime } from './utils';
 
 /**
@@ -23,8 +23,9 @@ export class PrItem extends vscode.TreeItem {
         // Stable identity
         this.id = `pr-${pr.number}`;
 
-        // Description: branch → base, relative time
-        this.description = `${pr.branch} → ${pr.baseBranch} · ${formatRelativeTime(pr.updatedAt)}`;
+        // Description: CI state, branch → base, relative time
+        const checks = pr.checkState ? `${checkGlyph[pr.checkState]} ` : '';
+        this.description = `${checks}${pr.branch} → ${pr.baseBranch} · ${formatRelativeTime(pr.updatedAt)}`;
 
         // Rich tooltip
         this.tooltip = this._buildTooltip();
@@ -44,7 +45,7 @@ export class PrItem extends vscode.TreeItem {
 
         // Accessibility
         this.accessibilityInformation = {
-            label: `Pull request #${pr.number}: ${pr.title}, ${pr.state}${pr.isDraft ? ' draft' : ''}, updated ${formatRelativeTime(pr.updatedAt)}`,
+            label: `Pull request #${pr.number}: ${pr.title}, ${pr.state}${pr.isDraft ? ' draft' : ''}${pr.checkState ? `, checks ${checkLabel[pr.checkState]}` : ''}, updated ${formatRelativeTime(pr.updatedAt)}`,
             role: 'treeitem',
         };
     }
@@ -67,6 +68,10 @@ export class PrItem extends vscode.TreeItem {
             `$(calendar) ${pr.createdAt.toLocaleDateString()} · $(history) ${formatRelativeTime(pr.updatedAt)}\n\n`,
         );
 
+        if (pr.checkState) {
+            md.appendMarkdown(`${checkIcon[pr.checkState]} Checks ${checkLabel[pr.checkState]}\n\n`);
+        }
+
         if (pr.labels.length > 0) {
             md.appendMarkdown(
                 pr.labels.map((l) => `\`${l.name}\``).join(' ') + '\n\n',
@@ -91,6 +96,31 @@ export class PrItem extends vscode.TreeItem {
     }
 }
 
+/** CI state shown in front of the description */
+const checkGlyph: Record<PRCheckState, string> = {
+    success: '✓',
+    failure: '✗',
+    pending: '●',
+    neutral: '○',
+    skipped: '○',
+};
+
+const checkIcon: Record<PRCheckState, string> = {
+    success: '$(pass)',
+    failure: '$(error)',
+    pending: '$(sync)',
+    neutral: '$(circle-outline)',
+    skipped: '$(circle-slash)',
+};
+
+const checkLabel: Record<PRCheckState, string> = {
+    success: 'passing',
+    failure: 'failing',
+    pending: 'running',
+    neutral: 'neutral',
+    skipped: 'skipped',
+};
+
 /** Map PR state to a ThemeIcon */
 function stateIcon(state: PRState, isDraft: boolean): vscode.ThemeIcon {
     if (isDraft) {
@@ -168,6 +168,7 @@ export class PrProvider implements vscode.TreeDataProvider<PrItem>, vscode.Dispo
                 this._username,
                 'authored', // tree view always shows authored PRs
             );
+            await this._prService.attachCheckStates(this._owner, this._repo, prs);
             this._cachedPRs = prs;
 
             const hasPRs = prs.length > 0;
@@ -0,0 +1,205 @@
+import type * as vscode from 'vscode';
+import type { PendingInlineComment, PendingReview, PrService } from './prService';
+import { extractErrorMessage } from './utils';
+
+/** A review in progress on one pull request: the overall body and its inline comments. */
+export interface PRReviewDraft {
+    body: string;
+    comments: PendingInlineComment[];
+    /** GitHub's pending review this draft mirrors, when there is one */
+    pendingReview?: { id: number; nodeId: string };
+    updatedAt: string;
+}
+
+/** Workspace-state key of the draft for one pull request. */
+export function draftKey(owner: string, repo: string, prNumber: number): string {
+    return `${owner}/${repo}#${prNumber}`.toLowerCase();
+}
+
+/**
+ * The draft to show for a PR. GitHub's pending review is the source of truth
+ * for inline comments when there is one; its body is only set on submit, so
+ * a local body is kept while GitHub's is empty.
+ */
+export function reconcileDraft(
+    local: PRReviewDraft | undefined,
+    remote: PendingReview | undefined,
+    now = new Date(),
+): PRReviewDraft | undefined {
+    if (!remote) {
+        // A pending review that is gone was submitted or deleted on GitHub
+        return local?.pendingReview ? undefined : local;
+    }
+    return {
+        body: remote.body || (local?.body ?? ''),
+        comments: remote.comments,
+        pendingReview: { id: remote.id, nodeId: remote.nodeId },
+        updatedAt: now.toISOString(),
+    };
+}
+
+/**
+ * How to bring a pending review in line with the comments the webview holds.
+ * The webview may not know comment IDs, so comments without one are matched
+ * to stored comments by position and text. Returns the comments with the IDs
+ * found, the indices of those still to be added, and the IDs to delete.
+ */
+export function planDraftSync(
+    stored: readonly PendingInlineComment[],
+    incoming: readonly PendingInlineComment[],
+): { comments: PendingInlineComment[]; add: number[]; remove: number[] } {
+    const unclaimed = stored.filter((c) => c.id !== undefined);
+    const claim = (match: (c: PendingInlineComment) => boolean) => {
+        const index = unclaimed.findIndex(match);
+        return index === -1 ? undefined : unclaimed.splice(index, 1)[0].id;
+    };
+
+    const add: number[] = [];
+    const comments = incoming.map((comment, index) => {
+        const id =
+            (comment.id !== undefined ? claim((c) => c.id === comment.id) : undefined) ??
+            claim(
+                (c) =>
+                    c.path === comment.path &&
+                    c.line === comment.line &&
+                    c.startLine === comment.startLine &&
+                    (c.side ?? 'RIGHT') === (comment.side ?? 'RIGHT') &&
+                    c.body === comment.body,
+            );
+        if (id === undefined) {
+            add.push(index);
+        }
+        return { ...comment, id };
+    });
+    return { comments, add, remove: unclaimed.map((c) => c.id as number) };
+}
+
+/**
+ * Review drafts persisted per PR in workspace state, so a half-written review
+ * survives the panel closing and VS Code reloading. When the user has a
+ * pending review on GitHub, the draft mirrors it: comments added or removed
+ * here are added to or deleted from that review as well.
+ */
+export class PrReviewDrafts {
+    private static readonly STATE_KEY = 'superprompt-forge.prReviewDrafts';
+
+    /** Saves per PR run one after another, so comments are not added twice */
+    private _queues = new Map<string, Promise<unknown>>();
+
+    constructor(
+        private readonly _state: vscode.Memento,
+        private readonly _prService: PrService,
+        private readonly _outputChannel: vscode.OutputChannel,
+    ) {}
+
+    private get _drafts(): Record<string, PRReviewDraft> {
+        return this._state.get<Record<string, PRReviewDraft>>(PrReviewDrafts.STATE_KEY, {});
+    }
+
+    private async _set(key: string, draft: PRReviewDraft | undefined): Promise<void> {
+        const drafts = { ...this._drafts };
+        if (draft && (draft.body.trim() || draft.comments.length > 0 || draft.pendingReview)) {
+            drafts[key] = draft;
+        } else {
+            delete drafts[key];
+        }
+        await this._state.update(PrReviewDrafts.STATE_KEY, drafts);
+    }
+
+    private _enqueue<T>(key: string, task: () => Promise<T>): Promise<T> {
+        const run = (this._queues.get(key) ?? Promise.resolve()).then(task, task);
+        this._queues.set(key, run.catch(() => undefined));
+        return run;
+    }
+
+    get(owner: string, repo: string, prNumber: number): PRReviewDraft | undefined {
+        return this._drafts[draftKey(owner, repo, prNumber)];
+    }
+
+    /** The draft for a PR, refreshed from GitHub's pending review when it can be reached. */
+    load(owner: string, repo: string, prNumber: number): Promise<PRReviewDraft | undefined> {
+        const key = draftKey(owner, repo, prNumber);
+        return this._enqueue(key, async () => {
+            const local = this._drafts[key];
+            let remote: PendingReview | undefined;
+            try {
+                remote = await this._prService.getPendingReview(owner, repo, prNumber);
+            } catch (e: unknown) {
+                this._outputChannel.appendLine(
+                    `[PR] Pending review of #${prNumber} unavailable, using the local draft: ${extractErrorMessage(e)}`,
+                );
+                return local;
+            }
+            const draft = reconcileDraft(local, remote);
+            await this._set(key, draft);
+            return draft;
+        });
+    }
+
+    /** Store the draft as the webview holds it, syncing comments to GitHub's pending review. */
+    save(
+        owner: string,
+        repo: string,
+        prNumber: number,
+        body: string,
+        comments: PendingInlineComment[],
+    ): Promise<PRReviewDraft> {
+        const key = draftKey(owner, repo, prNumber);
+        return this._enqueue(key, async () => {
+            const stored = this._drafts[key];
+            const draft: PRReviewDraft = {
+                body,
+                comments,
+                pendingReview: stored?.pendingReview,
+                updatedAt: new Date().toISOString(),
+            };
+
+            if (stored?.pendingReview) {
+                const plan = planDraftSync(stored.comments, comments);
+                draft.comments = plan.comments;
+                // Store progress after each step: what is on GitHub, plus what is not yet —
+                // a failure part-way neither loses comments nor adds them twice later
+                let onGitHub = stored.comments.filter((c) => c.id !== undefined);
+                const persist = () =>
+                    this._set(key, {
+                        ...draft,
+                        comments: [...onGitHub, ...draft.comments.filter((c) => c.id === undefined)],
+                    });
+                for (const id of plan.remove) {
+                    await this._prService.deleteReviewComment(owner, repo, id);
+                    onGitHub = onGitHub.filter((c) => c.id !== id);
+                    await persist();
+                }
+                for (const index of plan.add) {
+                    const id = await this._prService.addPendingReviewComment(
+                        stored.pendingReview.nodeId,
+                        draft.comments[index],
+                    );
+                    draft.comments[index] = { ...draft.comments[index], id };
+                    onGitHub.push(draft.comments[index]);
+                    await persist();
+                }
+            }
+
+            await this._set(key, draft);
+            return draft;
+        });
+    }
+
+    /** Forget the draft of a PR, e.g. after its review was submitted. */
+    async clear(owner: string, repo: string, prNumber: number): Promise<void> {
+        await this._set(draftKey(owner, repo, prNumber), undefined);
+    }
+
+    /** Throw the draft away, deleting GitHub's pending review with it. */
+    discard(owner: string, repo: string, prNumber: number): Promise<void> {
+        const key = draftKey(owner, repo, prNumber);
+        return this._enqueue(key, async () => {
+            const pending = this._drafts[key]?.pendingReview;
+            if (pending) {
+                await this._prService.deletePendingReview(owner, repo, prNumber, pending.id);
+            }
+            await this._set(key, undefined);
+        });
+    }
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { type AuthService } from './authService';
+import { checkRunState, commitStatusState, extractLogExcerpt, sortChecks } from './prChecks';
 
 // ─── Data Models ──────────────────────────────────────────────────
 
@@ -18,6 +19,9 @@ export interface PullRequest {
     authorAvatarUrl: string;
     branch: string; // head ref
     baseBranch: string; // base ref
+    headSha: string;
+    /** `owner/name` of the repository the head branch lives in (a fork, or the base repo); null if it was deleted */
+    headRepo: string | null;
     createdAt: Date;
     updatedAt: Date;
     mergedAt: Date | null;
@@ -30,6 +34,8 @@ export interface PullRequest {
     isDraft: boolean;
     requestedReviewers: { login: string; avatarUrl: string }[];
     assignees: { login: string; avatarUrl: string }[];
+    /** Overall CI state of the head commit, when fetched (see `getCheckStates`) */
+    checkState?: PRCheckState;
 }
 
 export interface PRComment {
@@ -44,6 +50,8 @@ export interface PRComment {
     isReviewComment: boolean;
     path?: string;
     line?: number | null;
+    /** First line of a multi-line comment */
+    startLine?: number | null;
     diffHunk?: string;
     /** Threading: the review comment this is a reply to (review comments only) */
     inReplyToId?: number;
@@ -66,6 +74,8 @@ export interface PullRequestData {
     authorAvatarUrl: string;
     branch: string;
     baseBranch: string;
+    headSha: string;
+    headRepo: string | null;
     createdAt: string;
     updatedAt: string;
     mergedAt: string | null;
@@ -78,6 +88,7 @@ export interface PullRequestData {
     isDraft: boolean;
     requestedReviewers: { login: string; avatarUrl: string }[];
     assignees: { login: string; avatarUrl: string }[];
+    checkState?: PRCheckState;
 }
 
 export interface PRCommentData {
@@ -92,6 +103,8 @@ export interface PRCommentData {
     isReviewComment: boolean;
     path?: string;
     line?: number | null;
+    /** First line of a multi-line comment */
+    startLine?: number | null;
     diffHunk?: string;
     /** Threading: the review comment this is a reply to (review comments only) */
     inReplyToId?: number;
@@ -159,14 +172,77 @@ export interface PendingInlineComment {
     path: string;
     /** The line number in the diff (new-file side) to attach the comment to. */
     line: number;
+    /** First line, for a comment spanning several lines (same side as `line`). */
+    startLine?: number;
     /** Which side of the diff: LEFT (deletion) or RIGHT (addition/context). */
     side?: 'LEFT' | 'RIGHT';
     body: string;
+    /** Review comment ID, once the comment is on GitHub's pending review */
+    id?: number;
+}
+
+/** The authenticated user's pending (not yet submitted) review on a pull request. */
+export interface PendingReview {
+    id: number;
+    /** GraphQL node ID, needed to add comments */
+    nodeId: string;
+    body: string;
+    comments: PendingInlineComment[];
 }
 
 /** Merge method options. */
 export type PRMergeMethod = 'merge' | 'squash' | 'rebase';
 
+// ─── CI Check Models ──────────────────────────────────────────────
+
+/** State of one check, or of all checks of a commit. */
+export type PRCheckState = 'success' | 'failure' | 'pending' | 'neutral' | 'skipped';
+
+/** A check run or commit status reported on the head commit of a pull request. */
+export interface PRCheck {
+    /** Check run ID, or the status ID for commit statuses */
+    id: number;
+    kind: 'check-run' | 'status';
+    name: string;
+    /** The app or service that reported it, e.g. "GitHub Actions" */
+    app: string;
+    state: PRCheckState;
+    /** GitHub's own conclusion or status, e.g. "timed_out", "in_progress" */
+    conclusion: string;
+    description: string;
+    detailsUrl: string | null;
+    startedAt: Date | null;
+    completedAt: Date | null;
+    /** Whether branch protection on the base branch requires this check */
+    isRequired: boolean;
+}
+
+/** Webview-safe version of PRCheck (dates as ISO strings). */
+export interface PRCheckData {
+    id: number;
+    kind: 'check-run' | 'status';
+    name: string;
+    app: string;
+    state: PRCheckState;
+    conclusion: string;
+    description: string;
+    detailsUrl: string | null;
+    startedAt: string | null;
+    completedAt: string | null;
+    isRequired: boolean;
+}
+
+/** Counts of checks by state and their overall state. */
+export interface PRCheckRollup {
+    state: PRCheckState;
+    total: number;
+    passed: number;
+    failed: number;
+    pending: number;
+    /** Skipped and neutral checks */
+    skipped: number;
+}
+
 // ─── GitHub API Response Types ────────────────────────────────────
 
 /** Raw GitHub Pull Request API response (partial — only fields we use) */
@@ -178,7 +254,7 @@ interface GitHubPR {
     body: string | null;
     draft: boolean;
     user: { login: string; avatar_url: string } | null;
-    head: { ref: string };
+    head: { ref: string; sha: string; repo: { full_name: string } | null };
     base: { ref: string };
     created_at: string;
     updated_at: string;
@@ -216,6 +292,8 @@ interface GitHubReviewComment {
     path: string;
     line: number | null;
     original_line: number | null;
+    start_line: number | null;
+    original_start_line: number | null;
     diff_hunk: string;
     in_reply_to_id?: number;
     pull_request_review_id: number;
@@ -243,6 +321,40 @@ interface GitHubPRReview {
     html_url: string;
 }
 
+/** Raw GitHub check run response */
+interface GitHubCheckRun {
+    id: number;
+    name: string;
+    status: string;
+    conclusion: string | null;
+    details_url: string | null;
+    html_url: string | null;
+    started_at: string | null;
+    completed_at: string | null;
+    app: { name: string } | null;
+    output: { title: string | null; summary: string | null; text: string | null };
+}
+
+/** Raw GitHub combined status response (latest status per context) */
+interface GitHubCombinedStatus {
+    statuses: {
+        id: number;
+        context: string;
+        state: string;
+        description: string | null;
+        target_url: string | null;
+        created_at: string;
+        updated_at: string;
+    }[];
+}
+
+/** Raw GitHub branch response (partial — protection only) */
+interface GitHubBranch {
+    protection?: {
+        required_status_checks?: { contexts?: string[] } | null;
+    };
+}
+
 /** Raw GitHub merge response */
 interface GitHubMergeResult {
     sha: string;
@@ -293,6 +405,24 @@ export class PrService {
         path: string,
         body?: unknown,
     ): Promise<{ data: T; headers: Headers }> {
+        const response = await this._send(method, path, body);
+
+        if (response.status === 204) {
+            return { data: undefined as T, headers: response.headers };
+        }
+
+        const data = (await response.json()) as T;
+        return { data, headers: response.headers };
+    }
+
+    /** GET a plain-text resource, such as a job log. */
+    private async _requestText(path: string): Promise<string> {
+        const response = await this._send('GET', path);
+        return response.text();
+    }
+
+    /** Send an authenticated request; throws on a non-2xx response. */
+    private async _send(method: string, path: string, body?: unknown): Promise<Response> {
         const token = await this._getToken();
         const url = path.startsWith('http') ? path : `${API_BASE}${path}`;
 
@@ -320,12 +450,7 @@ export class PrService {
             await this._handleHttpError(response);
         }
 
-        if (response.status === 204) {
-            return { data: undefined as T, headers: response.headers };
-        }
-
-        const data = (await response.json()) as T;
-        return { data, headers: response.headers };
+        return response;
     }
 
     private _checkRateLimit(headers: Headers): void {
@@ -395,6 +520,8 @@ export class PrService {
             authorAvatarUrl: pr.user?.avatar_url ?? '',
             branch: pr.head.ref,
             baseBranch: pr.base.ref,
+            headSha: pr.head.sha,
+            headRepo: pr.head.repo?.full_name ?? null,
             createdAt: new Date(pr.created_at),
             updatedAt: new Date(pr.updated_at),
             mergedAt: pr.merged_at ? new Date(pr.merged_at) : null,
@@ -441,6 +568,7 @@ export class PrService {
             isReviewComment: true,
             path: comment.path,
             line: comment.line ?? comment.original_line,
+            startLine: comment.line !== null ? comment.start_line : comment.original_start_line,
             diffHunk: comment.diff_hunk,
             inReplyToId: comment.in_reply_to_id,
         };
@@ -916,13 +1044,14 @@ export class PrService {
     }
 
     /**
-     * Update an existing pull request (title, body, etc.).
+     * Update an existing pull request (title, body, etc.). Changing `base`
+     * retargets it onto another branch.
      */
     async updatePullRequest(
         owner: string,
         repo: string,
         prNumber: number,
-        update: { title?: string; body?: string },
+        update: { title?: string; body?: string; base?: string },
     ): Promise<PullRequest> {
         const { data } = await this._request<GitHubPR>(
             'PATCH',
@@ -991,7 +1120,11 @@ export class PrService {
             `/repos/${owner}/${repo}/pulls/${prNumber}/reviews?per_page=100`,
         );
 
-        return data.map((r) => ({
+        return data.map((r) => this._parseReview(r));
+    }
+
+    private _parseReview(r: GitHubPRReview): PRReview {
+        return {
             id: r.id,
             user: r.user?.login ?? 'unknown',
             userAvatarUrl: r.user?.avatar_url ?? '',
@@ -999,7 +1132,7 @@ export class PrService {
             body: r.body,
             submittedAt: r.submitted_at ? new Date(r.submitted_at) : null,
             htmlUrl: r.html_url,
-        }));
+        };
     }
 
     /**
@@ -1025,6 +1158,9 @@ export class PrService {
                 path: c.path,
                 line: c.line,
                 side: c.side ?? 'RIGHT',
+                ...(c.startLine !== undefined && c.startLine < c.line
+                    ? { start_line: c.startLine, start_side: c.side ?? 'RIGHT' }
+                    : {}),
                 body: c.body,
             }));
         }
@@ -1035,17 +1171,226 @@ export class PrService {
             payload,
         );
 
+        return this._parseReview(data);
+    }
+
+    // ─── Pending Review ──────────────────────────────────────────
+
+    /**
+     * The authenticated user's pending review on a PR, if they have one —
+     * GitHub only shows a pending review to its author. Inline comments carry
+     * their ID; the diff side comes from the comment's thread.
+     */
+    async getPendingReview(
+        owner: string,
+        repo: string,
+        prNumber: number,
+    ): Promise<PendingReview | undefined> {
+        const query = `
+            query($owner: String!, $repo: String!, $prNumber: Int!) {
+                repository(owner: $owner, name: $repo) {
+                    pullRequest(number: $prNumber) {
+                        reviews(states: PENDING, first: 1) {
+                            nodes {
+                                id
+                                databaseId
+                                body
+                                comments(first: 100) {
+                                    nodes { databaseId path line originalLine startLine originalStartLine body }
+                                }
+                            }
+                        }
+                        reviewThreads(last: 100) {
+                            nodes {
+                                diffSide
+                                comments(first: 1) { nodes { databaseId } }
+                            }
+                        }
+                    }
+                }
+            }
+        `;
+
+        interface GQLResponse {
+            repository: {
+                pullRequest: {
+                    reviews: {
+                        nodes: {
+                            id: string;
+                            databaseId: number;
+                            body: string;
+                            comments: {
+                                nodes: {
+                                    databaseId: number;
+                                    path: string;
+                                    line: number | null;
+                                    originalLine: number | null;
+                                    startLine: number | null;
+                                    originalStartLine: number | null;
+                                    body: string;
+                                }[];
+                            };
+                        }[];
+                    };
+                    reviewThreads: {
+                        nodes: { diffSide: 'LEFT' | 'RIGHT'; comments: { nodes: { databaseId: number }[] } }[];
+                    };
+                };
+            };
+        }
+
+        const data = await this._graphql<GQLResponse>(query, { owner, repo, prNumber });
+        const { reviews, reviewThreads } = data.repository.pullRequest;
+        const [review] = reviews.nodes;
+        if (!review) {
+            return undefined;
+        }
+
+        const sides = new Map<number, 'LEFT' | 'RIGHT'>();
+        for (const thread of reviewThreads.nodes) {
+            const first = thread.comments.nodes[0];
+            if (first) {
+                sides.set(first.databaseId, thread.diffSide);
+            }
+        }
+
         return {
-            id: data.id,
-            user: data.user?.login ?? 'unknown',
-            userAvatarUrl: data.user?.avatar_url ?? '',
-            state: data.state,
-            body: data.body,
-            submittedAt: data.submitted_at ? new Date(data.submitted_at) : null,
-            htmlUrl: data.html_url,
+            id: review.databaseId,
+            nodeId: review.id,
+            body: review.body,
+            comments: review.comments.nodes
+                .filter((c) => (c.line ?? c.originalLine) !== null)
+                .map((c) => ({
+                    id: c.databaseId,
+                    path: c.path,
+                    line: (c.line ?? c.originalLine) as number,
+                    startLine: (c.line !== null ? c.startLine : c.originalStartLine) ?? undefined,
+                    side: sides.get(c.databaseId) ?? 'RIGHT',
+                    body: c.body,
+                })),
         };
     }
 
+    /** Add an inline comment to a pending review; returns the new comment's ID. */
+    async addPendingReviewComment(reviewNodeId: string, comment: PendingInlineComment): Promise<number> {
+        const mutation = `
+            mutation(
+                $reviewId: ID!, $path: String!, $line: Int!, $side: DiffSide!,
+                $startLine: Int, $startSide: DiffSide, $body: String!
+            ) {
+                addPullRequestReviewThread(input: {
+                    pullRequestReviewId: $reviewId, path: $path, line: $line, side: $side,
+                    startLine: $startLine, startSide: $startSide, body: $body
+                }) {
+                    thread { comments(first: 1) { nodes { databaseId } } }
+                }
+            }
+        `;
+
+        interface MutationResponse {
+            addPullRequestReviewThread: {
+                thread: { comments: { nodes: { databaseId: number }[] } };
+            };
+        }
+
+        const data = await this._graphql<MutationResponse>(mutation, {
+            reviewId: reviewNodeId,
+            path: comment.path,
+            line: comment.line,
+            side: comment.side ?? 'RIGHT',
+            ...(comment.startLine !== undefined && comment.startLine < comment.line
+                ? { startLine: comment.startLine, startSide: comment.side ?? 'RIGHT' }
+                : {}),
+            body: comment.body,
+        });
+        return data.addPullRequestReviewThread.thread.comments.nodes[0].databaseId;
+    }
+
+    /** Delete a review comment (REST API). */
+    async deleteReviewComment(owner: string, repo: string, commentId: number): Promise<void> {
+        await this._request<void>('DELETE', `/repos/${owner}/${repo}/pulls/comments/${commentId}`);
+    }
+
+    /** Submit a pending review with its comments as they are on GitHub. */
+    async submitPendingReview(
+        owner: string,
+        repo: string,
+        prNumber: number,
+        reviewId: number,
+        event: PRReviewEvent,
+        body?: string,
+    ): Promise<PRReview> {
+        const { data } = await this._request<GitHubPRReview>(
+            'POST',
+            `/repos/${owner}/${repo}/pulls/${prNumber}/reviews/${reviewId}/events`,
+            body?.trim() ? { event, body: body.trim() } : { event },
+        );
+        return this._parseReview(data);
+    }
+
+    /** Delete a pending review and its comments. */
+    async deletePendingReview(owner: string, repo: string, prNumber: number, reviewId: number): Promise<void> {
+        await this._request<GitHubPRReview>(
+            'DELETE',
+            `/repos/${owner}/${repo}/pulls/${prNumber}/reviews/${reviewId}`,
+        );
+    }
+
+    // ─── Suggested Changes ───────────────────────────────────────
+
+    /** The text of a file at a commit (contents API — files up to 1 MB). */
+    async getFileContent(owner: string, repo: string, filePath: string, ref: string): Promise<string> {
+        const encodedPath = filePath.split('/').map(encodeURIComponent).join('/');
+        const { data } = await this._request<{ content?: string; encoding?: string }>(
+            'GET',
+            `/repos/${owner}/${repo}/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`,
+        );
+        if (data.encoding !== 'base64' || data.content === undefined) {
+            throw new Error(`${filePath} is too large to change from here`);
+        }
+        return Buffer.from(data.content, 'base64').toString('utf8');
+    }
+
+    /**
+     * Commit new contents of files onto a branch, as the authenticated user.
+     * Fails if the branch moved past `expectedHeadOid`, so changes made from
+     * an older head are never committed over newer work. Returns the new
+     * commit's SHA.
+     */
+    async commitFileChanges(
+        owner: string,
+        repo: string,
+        branch: string,
+        expectedHeadOid: string,
+        message: string,
+        files: { path: string; content: string }[],
+    ): Promise<string> {
+        const mutation = `
+            mutation($input: CreateCommitOnBranchInput!) {
+                createCommitOnBranch(input: $input) { commit { oid } }
+            }
+        `;
+
+        interface MutationResponse {
+            createCommitOnBranch: { commit: { oid: string } };
+        }
+
+        const data = await this._graphql<MutationResponse>(mutation, {
+            input: {
+                branch: { repositoryNameWithOwner: `${owner}/${repo}`, branchName: branch },
+                expectedHeadOid,
+                message: { headline: message },
+                fileChanges: {
+                    additions: files.map((f) => ({
+                        path: f.path,
+                        contents: Buffer.from(f.content, 'utf8').toString('base64'),
+                    })),
+                },
+            },
+        });
+        return data.createCommitOnBranch.commit.oid;
+    }
+
     // ─── Merge PR ────────────────────────────────────────────────
 
     /**
@@ -1085,6 +1430,170 @@ export class PrService {
         };
     }
 
+    // ─── CI Checks ───────────────────────────────────────────────
+
+    /**
+     * Get the check runs and commit statuses reported on a commit, failing
+     * first, and the names of the checks branch protection on `baseBranch`
+     * requires (when the protection rules are readable). Checks that are
+     * required are marked; those that have not reported yet are in
+     * `required` only.
+     */
+    async getChecks(
+        owner: string,
+        repo: string,
+        ref: string,
+        baseBranch?: string,
+    ): Promise<{ checks: PRCheck[]; required: string[] }> {
+        const [runsRes, statusRes, required] = await Promise.all([
+            this._request<{ check_runs: GitHubCheckRun[] }>(
+                'GET',
+                `/repos/${owner}/${repo}/commits/${ref}/check-runs?per_page=100`,
+            ),
+            this._request<GitHubCombinedStatus>(
+                'GET',
+                `/repos/${owner}/${repo}/commits/${ref}/status?per_page=100`,
+            ),
+            baseBranch
+                ? this._getRequiredChecks(owner, repo, baseBranch)
+                : Promise.resolve(new Set<string>()),
+        ]);
+
+        const runs: PRCheck[] = runsRes.data.check_runs.map((run) => ({
+            id: run.id,
+            kind: 'check-run',
+            name: run.name,
+            app: run.app?.name ?? '',
+            state: checkRunState(run.status, run.conclusion),
+            conclusion: run.conclusion ?? run.status,
+            description: run.output.title ?? '',
+            detailsUrl: run.details_url ?? run.html_url,
+            startedAt: run.started_at ? new Date(run.started_at) : null,
+            completedAt: run.completed_at ? new Date(run.completed_at) : null,
+            isRequired: required.has(run.name),
+        }));
+        const statuses: PRCheck[] = statusRes.data.statuses.map((status) => ({
+            id: status.id,
+            kind: 'status',
+            name: status.context,
+            app: '',
+            state: commitStatusState(status.state),
+            conclusion: status.state,
+            description: status.description ?? '',
+            detailsUrl: status.target_url,
+            startedAt: new Date(status.created_at),
+            completedAt: status.state === 'pending' ? null : new Date(status.updated_at),
+            isRequired: required.has(status.context),
+        }));
+
+        return { checks: sortChecks([...runs, ...statuses]), required: [...required] };
+    }
+
+    /** Names of the status checks branch protection requires on `branch`; empty if unknown. */
+    private async _getRequiredChecks(owner: string, repo: string, branch: string): Promise<Set<string>> {
+        try {
+            const { data } = await this._request<GitHubBranch>(
+                'GET',
+                `/repos/${owner}/${repo}/branches/${encodeURIComponent(branch)}`,
+            );
+            return new Set(data.protection?.required_status_checks?.contexts ?? []);
+        } catch {
+            return new Set();
+        }
+    }
+
+    /**
+     * The part of a check run's output that explains why it failed. For
+     * GitHub Actions jobs this is the end of the job log; for other apps it
+     * is the output the check reported.
+     */
+    async getCheckLogExcerpt(owner: string, repo: string, checkRunId: number): Promise<string> {
+        try {
+            const log = await this._requestText(
+                `/repos/${owner}/${repo}/actions/jobs/${checkRunId}/logs`,
+            );
+            return extractLogExcerpt(log);
+        } catch {
+            const { data } = await this._request<GitHubCheckRun>(
+                'GET',
+                `/repos/${owner}/${repo}/check-runs/${checkRunId}`,
+            );
+            const { title, summary, text } = data.output;
+            return [title, summary, text].filter((part) => part?.trim()).join('\n\n');
+        }
+    }
+
+    /**
+     * Get the overall CI state of the head commit of several pull requests in
+     * one GraphQL call. PRs without any checks are left out of the map.
+     */
+    async getCheckStates(
+        owner: string,
+        repo: string,
+        prNumbers: number[],
+    ): Promise<Map<number, PRCheckState>> {
+        const states = new Map<number, PRCheckState>();
+        if (prNumbers.length === 0) {
+            return states;
+        }
+
+        const fields = prNumbers
+            .map(
+                (n) =>
+                    `pr${n}: pullRequest(number: ${n}) { commits(last: 1) { nodes { commit { statusCheckRollup { state } } } } }`,
+            )
+            .join('\n');
+        const query = `
+            query($owner: String!, $repo: String!) {
+                repository(owner: $owner, name: $repo) {
+                    ${fields}
+                }
+            }
+        `;
+
+        type RollupNode = {
+            commits: { nodes: { commit: { statusCheckRollup: { state: string } | null } }[] };
+        } | null;
+        const data = await this._graphql<{ repository: Record<string, RollupNode> }>(query, {
+            owner,
+            repo,
+        });
+
+        for (const n of prNumbers) {
+            const rollup = data.repository[`pr${n}`]?.commits.nodes[0]?.commit.statusCheckRollup;
+            if (!rollup) {
+                continue;
+            }
+            // StatusState: SUCCESS, FAILURE, ERROR, PENDING, EXPECTED
+            states.set(
+                n,
+                rollup.state === 'SUCCESS'
+                    ? 'success'
+                    : rollup.state === 'PENDING' || rollup.state === 'EXPECTED'
+                      ? 'pending'
+                      : 'failure',
+            );
+        }
+        return states;
+    }
+
+    /**
+     * Set `checkState` on the open PRs of a list. Failures are only logged,
+     * so the list still shows without CI states.
+     */
+    async attachCheckStates(owner: string, repo: string, prs: PullRequest[]): Promise<void> {
+        const open = prs.filter((pr) => pr.state === 'open');
+        try {
+            const states = await this.getCheckStates(owner, repo, open.map((pr) => pr.number));
+            for (const pr of open) {
+                pr.checkState = states.get(pr.number);
+            }
+        } catch (e: unknown) {
+            const msg = e instanceof Error ? e.message : String(e);
+            this._outputChannel.appendLine(`[PR] Check states unavailable: ${msg}`);
+        }
+    }
+
     // ─── Static Converters ────────────────────────────────────────
 
     /** Convert a PullRequest to its webview-safe data shape. */
@@ -1099,6 +1608,8 @@ export class PrService {
             authorAvatarUrl: pr.authorAvatarUrl,
             branch: pr.branch,
             baseBranch: pr.baseBranch,
+            headSha: pr.headSha,
+            headRepo: pr.headRepo,
             createdAt: pr.createdAt.toISOString(),
             updatedAt: pr.updatedAt.toISOString(),
             mergedAt: pr.mergedAt?.toISOString() ?? null,
@@ -1111,6 +1622,24 @@ export class PrService {
             isDraft: pr.isDraft,
             requestedReviewers: pr.requestedReviewers,
             assignees: pr.assignees,
+            checkState: pr.checkState,
+        };
+    }
+
+    /** Convert a PRCheck to its webview-safe data shape. */
+    static toCheckData(check: PRCheck): PRCheckData {
+        return {
+            id: check.id,
+            kind: check.kind,
+            name: check.name,
+            app: check.app,
+            state: check.state,
+            conclusion: check.conclusion,
+            description: check.description,
+            detailsUrl: check.detailsUrl,
+            startedAt: check.startedAt?.toISOString() ?? null,
+            completedAt: check.completedAt?.toISOString() ?? null,
+            isRequired: check.isRequired,
         };
     }
 
@@ -1127,6 +1656,7 @@ export class PrService {
             isReviewComment: comment.isReviewComment,
             path: comment.path,
             line: comment.line,
+            startLine: comment.startLine,
             diffHunk: comment.diffHunk,
             inReplyToId: comment.inReplyToId,
             threadId: comment.threadId,
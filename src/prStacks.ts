@@ -0,0 +1,205 @@
+import { GitService } from './gitService';
+
+/**
+ * Stacked pull requests — PRs based on the head branch of another open PR
+ * (feature-2 on feature-1 on main) — found from base/head branch
+ * relationships, and restacked by rebasing each branch on its parent.
+ */
+
+/** The fields of a pull request stacks are built from. */
+export interface StackPR {
+    number: number;
+    state: string;
+    /** Head branch */
+    branch: string;
+    baseBranch: string;
+    /** `owner/name` of the head repository */
+    headRepo: string | null;
+}
+
+/**
+ * The parent of every stacked PR: the open PR whose head branch it is based
+ * on. Only heads in the repository itself count — a fork's branch of the
+ * same name is not what the base branch refers to.
+ */
+export function stackParents<T extends StackPR>(prs: readonly T[], repoFullName: string): Map<number, T> {
+    const open = prs.filter((pr) => pr.state === 'open');
+    const byHead = new Map<string, T>();
+    for (const pr of open) {
+        if (pr.headRepo?.toLowerCase() === repoFullName.toLowerCase()) {
+            byHead.set(pr.branch, pr);
+        }
+    }
+    const parents = new Map<number, T>();
+    for (const pr of open) {
+        const parent = byHead.get(pr.baseBranch);
+        if (parent && parent.number !== pr.number) {
+            parents.set(pr.number, parent);
+        }
+    }
+    return parents;
+}
+
+/**
+ * The whole stack a PR belongs to, parents before children, starting from
+ * the PR based on a non-PR branch. Empty if the PR is not stacked.
+ */
+export function findStack<T extends StackPR>(prs: readonly T[], prNumber: number, repoFullName: string): T[] {
+    const parents = stackParents(prs, repoFullName);
+    let root = prs.find((pr) => pr.number === prNumber && pr.state === 'open');
+    if (!root) {
+        return [];
+    }
+    const seen = new Set([root.number]);
+    for (let parent = parents.get(root.number); parent && !seen.has(parent.number); parent = parents.get(parent.number)) {
+        seen.add(parent.number);
+        root = parent;
+    }
+    // The root is followed by its descendants, up to the next PR of depth 0
+    const rows = orderByStack(prs, prs, parents);
+    const rootNumber = root.number;
+    const start = rows.findIndex(({ pr }) => pr.number === rootNumber);
+    let end = start + 1;
+    while (end < rows.length && rows[end].depth > 0) {
+        end++;
+    }
+    return end - start > 1 ? rows.slice(start, end).map(({ pr }) => pr) : [];
+}
+
+/**
+ * `prs` with every stacked PR moved right after its parent, with its depth
+ * in the stack — a list that shows stacks as chains. PRs whose parent is
+ * not in `all` stay where they are.
+ */
+export function orderByStack<T extends StackPR>(
+    prs: readonly T[],
+    all: readonly T[],
+    parents: Map<number, T>,
+): { pr: T; depth: number }[] {
+    const children = new Map<number, T[]>();
+    for (const pr of all) {
+        const parent = parents.get(pr.number);
+        if (parent) {
+            children.set(parent.number, [...(children.get(parent.number) ?? []), pr]);
+        }
+    }
+    const listed = new Set(prs.map((pr) => pr.number));
+    const result: { pr: T; depth: number }[] = [];
+    const placed = new Set<number>();
+    const place = (pr: T, depth: number) => {
+        if (placed.has(pr.number)) {
+            return;
+        }
+        placed.add(pr.number);
+        result.push({ pr, depth });
+        for (const child of children.get(pr.number) ?? []) {
+            if (listed.has(child.number)) {
+                place(child, depth + 1);
+            }
+        }
+    };
+    for (const pr of prs) {
+        // Children of a listed parent are placed with it
+        const parent = parents.get(pr.number);
+        if (!parent || !listed.has(parent.number) || placed.has(parent.number)) {
+            place(pr, 0);
+        }
+    }
+    // PRs based on each other's heads in a cycle have no root to hang from
+    for (const pr of prs) {
+        place(pr, 0);
+    }
+    return result;
+}
+
+/**
+ * Rebase every branch of a stack on its updated parent and force-push them
+ * with a lease. The bottom branch goes onto `<remote>/<base>`; each other
+ * branch onto its parent, replaying only the commits after the parent's old
+ * tip. `upstreams` overrides where a branch's own commits start — the old
+ * head of a parent that has since been merged, say.
+ *
+ * Local branches behind the remote are fast-forwarded first; a branch that
+ * diverged from it is refused. If any rebase stops on conflicts, every
+ * branch is put back as it was, and those that only existed on the remote
+ * are deleted again. Returns the branches pushed.
+ */
+export async function restackBranches(
+    git: GitService,
+    remote: string,
+    stack: readonly StackPR[],
+    upstreams: Record<string, string> = {},
+): Promise<string[]> {
+    const startBranch = await git.getCurrentBranch();
+    if (!startBranch || startBranch === GitService.DETACHED_HEAD) {
+        throw new Error('HEAD is detached — check out a branch first');
+    }
+    if (await git.hasChanges()) {
+        throw new Error('Commit or stash your changes before restacking');
+    }
+
+    const branches = stack.map((pr) => pr.branch);
+    const trunks = stack.filter((pr) => !branches.includes(pr.baseBranch)).map((pr) => pr.baseBranch);
+    await git.fetchBranches(remote, [...new Set([...trunks, ...branches])]);
+
+    // Where each branch is locally, on the remote, and where restacking starts from
+    const localTips = new Map<string, string | undefined>();
+    const remoteTips = new Map<string, string | undefined>();
+    const startTips = new Map<string, string>();
+    for (const branch of branches) {
+        const local = await git.resolveRef(`refs/heads/${branch}`);
+        const pushed = await git.resolveRef(`refs/remotes/${remote}/${branch}`);
+        localTips.set(branch, local);
+        remoteTips.set(branch, pushed);
+        if (local && pushed && local !== pushed && !(await git.isAncestor(pushed, local))) {
+            if (!(await git.isAncestor(local, pushed))) {
+                throw new Error(`${branch} has diverged from ${remote}/${branch} — pull or push it first`);
+            }
+            startTips.set(branch, pushed);
+        } else {
+            const tip = local ?? pushed;
+            if (!tip) {
+                throw new Error(`Branch ${branch} exists neither locally nor on ${remote}`);
+            }
+            startTips.set(branch, tip);
+        }
+    }
+
+    await git.detachHead();
+    try {
+        for (const branch of branches) {
+            await git.setBranch(branch, startTips.get(branch) as string);
+        }
+        for (const pr of stack) {
+            const parentIsPR = branches.includes(pr.baseBranch);
+            const onto = parentIsPR ? pr.baseBranch : `${remote}/${pr.baseBranch}`;
+            const upstream =
+                upstreams[pr.branch] ?? (parentIsPR ? (startTips.get(pr.baseBranch) as string) : onto);
+            await git.rebaseOnto(pr.branch, onto, upstream);
+        }
+    } catch (e: unknown) {
+        await git.detachHead();
+        for (const [branch, tip] of localTips) {
+            if (tip) {
+                await git.setBranch(branch, tip);
+            } else {
+                await git.deleteBranch(branch);
+            }
+        }
+        await git.checkoutBranch(startBranch);
+        throw e;
+    }
+    await git.checkoutBranch(startBranch);
+
+    const changed: { branch: string; expected: string | undefined }[] = [];
+    for (const branch of branches) {
+        const expected = remoteTips.get(branch);
+        if ((await git.resolveRef(`refs/heads/${branch}`)) !== expected) {
+            changed.push({ branch, expected });
+        }
+    }
+    if (changed.length > 0) {
+        await git.pushWithLease(remote, changed);
+    }
+    return changed.map((c) => c.branch);
+}
@@ -0,0 +1,110 @@
+/**
+ * GitHub suggested changes — the ```suggestion blocks of review comments,
+ * which replace the commented lines with the block's content when applied.
+ */
+
+/** One suggestion to apply to a file. */
+export interface SuggestionEdit {
+    path: string;
+    /** First line replaced (1-based, new side of the diff) */
+    startLine: number;
+    /** Last line replaced */
+    line: number;
+    /** Text that replaces the lines; empty to delete them */
+    replacement: string;
+    /** The lines as the reviewer saw them — applying refuses if the file no longer has them */
+    original?: string[];
+    /** Review comment holding the suggestion */
+    commentId?: number;
+    /** Review thread to resolve once the suggestion is applied */
+    threadId?: string;
+}
+
+/** Opening fence of a suggestion block: three or more backticks or tildes */
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})\s*suggestion\s*$/;
+
+/** The content of every ```suggestion block in a comment body, in order. */
+export function parseSuggestions(body: string): string[] {
+    const lines = body.split(/\r?\n/);
+    const suggestions: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const open = FENCE_OPEN.exec(lines[i]);
+        if (!open) {
+            continue;
+        }
+        // Closed by a fence of the same character, at least as long
+        const fence = open[1];
+        const isClose = (l: string) => {
+            const t = l.trim();
+            return t.length >= fence.length && t === fence.charAt(0).repeat(t.length);
+        };
+        const content: string[] = [];
+        let j = i + 1;
+        while (j < lines.length && !isClose(lines[j])) {
+            content.push(lines[j]);
+            j++;
+        }
+        suggestions.push(content.join('\n'));
+        i = j;
+    }
+    return suggestions;
+}
+
+/**
+ * The lines a suggestion replaces, taken from the comment's diff hunk —
+ * GitHub cuts the hunk off at the commented line, so they are the last
+ * new-side lines of it.
+ */
+export function suggestionOriginalLines(
+    diffHunk: string,
+    startLine: number | null | undefined,
+    line: number,
+): string[] {
+    const count = line - (startLine ?? line) + 1;
+    const newSide = diffHunk
+        .split('\n')
+        .filter((l) => !l.startsWith('@@') && !l.startsWith('-') && !l.startsWith('\\'))
+        .map((l) => l.slice(1));
+    return newSide.slice(Math.max(0, newSide.length - count));
+}
+
+/** Group suggestions by the file they change, keeping their order. */
+export function groupSuggestionsByPath(edits: readonly SuggestionEdit[]): Map<string, SuggestionEdit[]> {
+    const groups = new Map<string, SuggestionEdit[]>();
+    for (const edit of edits) {
+        groups.set(edit.path, [...(groups.get(edit.path) ?? []), edit]);
+    }
+    return groups;
+}
+
+/**
+ * Apply suggestions to the text of one file. Throws if two suggestions
+ * overlap or a file no longer has the lines a suggestion was made on.
+ * Line endings of the file are kept.
+ */
+export function applySuggestions(text: string, edits: readonly SuggestionEdit[]): string {
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    const lines = text.split(/\r?\n/);
+
+    const sorted = [...edits].sort((a, b) => b.startLine - a.startLine);
+    for (let i = 1; i < sorted.length; i++) {
+        if (sorted[i].line >= sorted[i - 1].startLine) {
+            throw new Error(
+                `Suggestions on lines ${sorted[i].startLine}–${sorted[i].line} and ${sorted[i - 1].startLine}–${sorted[i - 1].line} of ${sorted[i].path} overlap`,
+            );
+        }
+    }
+
+    for (const edit of sorted) {
+        if (edit.startLine < 1 || edit.line > lines.length || edit.startLine > edit.line) {
+            throw new Error(`${edit.path} has no lines ${edit.startLine}–${edit.line}`);
+        }
+        const current = lines.slice(edit.startLine - 1, edit.line);
+        if (edit.original && edit.original.join('\n') !== current.join('\n')) {
+            throw new Error(`${edit.path} changed since the suggestion on line ${edit.line} was made`);
+        }
+        const replacement = edit.replacement === '' ? [] : edit.replacement.split(/\r?\n/);
+        lines.splice(edit.startLine - 1, edit.line - edit.startLine + 1, ...replacement);
+    }
+    return lines.join(eol);
+}
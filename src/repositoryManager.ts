@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitService } from './gitService';
+import { getConfig } from './utils';
+
+/** A git repository whose stashes are shown — a workspace folder's repo or a submodule. */
+export interface StashRepository {
+    /** Absolute top-level directory (`git rev-parse --show-toplevel`) */
+    root: string;
+    /** Display name: the folder name, or `parent/sub/path` for a submodule */
+    name: string;
+    /** True for repositories found as submodules of another one */
+    isSubmodule: boolean;
+    gitService: GitService;
+}
+
+/**
+ * Discovers the git repositories in the workspace — one per workspace folder
+ * plus (optionally) their checked-out submodules — and owns a GitService and
+ * a stash-ref watcher for each. Re-discovers when workspace folders change.
+ *
+ * The first repository reuses the extension's primary GitService so features
+ * that only know about one repo (PRs, issues, the webview) keep working.
+ */
+export class RepositoryManager implements vscode.Disposable {
+    private _repositories: StashRepository[] = [];
+    private _services = new Map<string, GitService>();
+    private _watchers: vscode.Disposable[] = [];
+    private _disposables: vscode.Disposable[] = [];
+    private _discovery: Promise<void> | undefined;
+
+    private readonly _onDidChangeRepositories = new vscode.EventEmitter<
+        readonly StashRepository[]
+    >();
+    readonly onDidChangeRepositories: vscode.Event<readonly StashRepository[]> =
+        this._onDidChangeRepositories.event;
+
+    /** Fires when a repository's stash ref changes on disk (push, pop, drop, …). */
+    private readonly _onDidChangeStashes = new vscode.EventEmitter<StashRepository>();
+    readonly onDidChangeStashes: vscode.Event<StashRepository> = this._onDidChangeStashes.event;
+
+    constructor(
+        private readonly _primary: GitService,
+        private readonly _outputChannel?: vscode.OutputChannel,
+    ) {
+        this._disposables.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(() => void this.discover()),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('superprompt-forge.includeSubmodules')) {
+                    void this.discover();
+                }
+            }),
+        );
+    }
+
+    get repositories(): readonly StashRepository[] {
+        return this._repositories;
+    }
+
+    /** True when the stash tree should be grouped by repository. */
+    get isMultiRepo(): boolean {
+        return this._repositories.length > 1;
+    }
+
+    /** Resolves once the first discovery has finished. */
+    whenReady(): Promise<void> {
+        return this._discovery ?? this.discover();
+    }
+
+    /** GitService for `root`, or the first repository's (primary) when unset or unknown. */
+    get(root?: string): GitService {
+        const repo = root ? this._repositories.find((r) => r.root === root) : undefined;
+        return repo?.gitService ?? this._repositories[0]?.gitService ?? this._primary;
+    }
+
+    /** The innermost repository containing `uri`, if any. */
+    forUri(uri: vscode.Uri): StashRepository | undefined {
+        const file = uri.fsPath;
+        return this._repositories
+            .filter((r) => file === r.root || file.startsWith(r.root + path.sep))
+            .sort((a, b) => b.root.length - a.root.length)[0];
+    }
+
+    /**
+     * Choose a repository for a command that was not invoked on a tree item.
+     * Only asks when there is more than one candidate; the repository of the
+     * active editor is listed first.
+     */
+    async pick(
+        placeHolder: string,
+        candidates: readonly StashRepository[] = this._repositories,
+    ): Promise<StashRepository | undefined> {
+        if (candidates.length <= 1) {
+            return candidates[0];
+        }
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        const active = activeUri ? this.forUri(activeUri) : undefined;
+        const ordered =
+            active && candidates.includes(active)
+                ? [active, ...candidates.filter((r) => r !== active)]
+                : [...candidates];
+
+        const items = await Promise.all(
+            ordered.map(async (repo) => ({
+                label: `$(${repo.isSubmodule ? 'file-submodule' : 'repo'}) ${repo.name}`,
+                description: (await repo.gitService.getCurrentBranch()) ?? '',
+                detail: repo.root,
+                repo,
+            })),
+        );
+        const picked = await vscode.window.showQuickPick(items, { placeHolder });
+        return picked?.repo;
+    }
+
+    /** Repositories for which `predicate` holds, e.g. those with local changes. */
+    async filter(
+        predicate: (repo: StashRepository) => Promise<boolean>,
+    ): Promise<StashRepository[]> {
+        const matches = await Promise.all(this._repositories.map(predicate));
+        return this._repositories.filter((_, i) => matches[i]);
+    }
+
+    /** Scan workspace folders (and submodules) for repositories. */
+    discover(): Promise<void> {
+        const run = this._discover().catch((e: unknown) => {
+            this._outputChannel?.appendLine(`[REPOS] discovery failed: ${e}`);
+        });
+        this._discovery = run;
+        return run;
+    }
+
+    private async _discover(): Promise<void> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const includeSubmodules = getConfig<boolean>('includeSubmodules', true);
+        const found: StashRepository[] = [];
+        const seen = new Set<string>();
+
+        for (const [i, folder] of folders.entries()) {
+            const probe =
+                i === 0 ? this._primary : new GitService(folder.uri.fsPath, this._outputChannel);
+            const root = await probe.getRepositoryRoot();
+            if (!root || seen.has(root)) {
+                continue;
+            }
+            seen.add(root);
+            const gitService = this._serviceFor(root, i === 0 ? this._primary : undefined);
+            const name = folders.length > 1 ? folder.name : path.basename(root);
+            found.push({ root, name, isSubmodule: false, gitService });
+
+            if (!includeSubmodules) {
+                continue;
+            }
+            for (const subRoot of await gitService.listSubmodules()) {
+                if (seen.has(subRoot)) {
+                    continue;
+                }
+                seen.add(subRoot);
+                found.push({
+                    root: subRoot,
+                    name: `${name}/${path.relative(root, subRoot).split(path.sep).join('/')}`,
+                    isSubmodule: true,
+                    gitService: this._serviceFor(subRoot),
+                });
+            }
+        }
+
+        this._repositories = found;
+        this._outputChannel?.appendLine(
+            `[REPOS] ${found.length} repositor${found.length === 1 ? 'y' : 'ies'}: ${found.map((r) => r.name).join(', ')}`,
+        );
+        await this._watch();
+        this._onDidChangeRepositories.fire(found);
+    }
+
+    private _serviceFor(root: string, existing?: GitService): GitService {
+        let service = this._services.get(root);
+        if (!service) {
+            service = existing ?? new GitService(root, this._outputChannel);
+            this._services.set(root, service);
+        }
+        return service;
+    }
+
+    /** One watcher per repository on its stash ref and reflog. */
+    private async _watch(): Promise<void> {
+        this._watchers.forEach((w) => w.dispose());
+        this._watchers = [];
+        for (const repo of this._repositories) {
+            const gitDir = await repo.gitService.getGitDir();
+            if (!gitDir) {
+                continue;
+            }
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(vscode.Uri.file(gitDir), '{refs/stash,logs/refs/stash}'),
+            );
+            const fire = () => this._onDidChangeStashes.fire(repo);
+            watcher.onDidChange(fire);
+            watcher.onDidCreate(fire);
+            watcher.onDidDelete(fire);
+            this._watchers.push(watcher);
+        }
+    }
+
+    dispose(): void {
+        this._watchers.forEach((w) => w.dispose());
+        this._disposables.forEach((d) => d.dispose());
+        this._onDidChangeRepositories.dispose();
+        this._onDidChangeStashes.dispose();
+    }
+}
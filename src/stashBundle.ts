@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { type StashExport } from './gitService';
+
+/**
+ * Portable stash bundles — one or more exported stashes as plain files:
+ * a JSON manifest plus a patch per part. The same file set is written to a
+ * folder on disk or attached to a gist, so either can be imported.
+ *
+ *   stash-bundle.json
+ *   01-fix-login.patch            base → working tree
+ *   01-fix-login.index.patch      base → index (only when something was staged)
+ *   01-fix-login.untracked.patch  untracked files (only when stashed with -u)
+ */
+
+/** Manifest filename — also how a bundle folder or gist is recognised */
+export const STASH_BUNDLE_MANIFEST = 'stash-bundle.json';
+
+const BUNDLE_FORMAT = 'superprompt-forge/stash-bundle';
+const BUNDLE_VERSION = 1;
+const SHA_PATTERN = /^[0-9a-f]{40}$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+export interface StashBundleEntry {
+    message: string;
+    branch: string;
+    subject: string;
+    baseSha: string;
+    date: string;
+    untrackedFiles: string[];
+    /** Patch filenames within the bundle — omitted parts were empty (gists reject empty files) */
+    patches: { worktree?: string; index?: string; untracked?: string };
+}
+
+export interface StashBundleManifest {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string;
+    stashes: StashBundleEntry[];
+}
+
+/** Bundle contents keyed by filename (manifest included) */
+export type StashBundleFiles = Record<string, string>;
+
+function slugify(text: string): string {
+    return (
+        text
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '')
+            .slice(0, 40)
+            .replace(/-+$/, '') || 'stash'
+    );
+}
+
+/** Serialize exported stashes into bundle files. */
+export function buildStashBundle(stashes: StashExport[]): StashBundleFiles {
+    const files: StashBundleFiles = {};
+    const entries: StashBundleEntry[] = stashes.map((stash, i) => {
+        const stem = `${String(i + 1).padStart(2, '0')}-${slugify(stash.message)}`;
+        const patches: StashBundleEntry['patches'] = {};
+        if (stash.worktreePatch) {
+            patches.worktree = `${stem}.patch`;
+            files[patches.worktree] = stash.worktreePatch;
+        }
+        if (stash.indexPatch) {
+            patches.index = `${stem}.index.patch`;
+            files[patches.index] = stash.indexPatch;
+        }
+        if (stash.untrackedPatch) {
+            patches.untracked = `${stem}.untracked.patch`;
+            files[patches.untracked] = stash.untrackedPatch;
+        }
+        return {
+            message: stash.message,
+            branch: stash.branch,
+            subject: stash.subject,
+            baseSha: stash.baseSha,
+            date: stash.date,
+            untrackedFiles: stash.untrackedFiles,
+            patches,
+        };
+    });
+
+    const manifest: StashBundleManifest = {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        stashes: entries,
+    };
+    files[STASH_BUNDLE_MANIFEST] = JSON.stringify(manifest, null, 2) + '\n';
+    return files;
+}
+
+/**
+ * Parse bundle files back into stash exports, in manifest order (newest first).
+ * Throws with a user-facing message if the manifest or a patch is missing.
+ */
+export function parseStashBundle(files: StashBundleFiles): StashExport[] {
+    const raw = files[STASH_BUNDLE_MANIFEST];
+    if (raw === undefined) {
+        throw new Error(`Not a stash bundle — ${STASH_BUNDLE_MANIFEST} is missing.`);
+    }
+
+    let manifest: StashBundleManifest;
+    try {
+        manifest = JSON.parse(raw) as StashBundleManifest;
+    } catch {
+        throw new Error(`${STASH_BUNDLE_MANIFEST} is not valid JSON.`);
+    }
+    if (manifest.format !== BUNDLE_FORMAT || !Array.isArray(manifest.stashes)) {
+        throw new Error(`${STASH_BUNDLE_MANIFEST} is not a Superprompt Forge stash bundle.`);
+    }
+    if (manifest.version > BUNDLE_VERSION) {
+        throw new Error('This stash bundle was made by a newer version of Superprompt Forge.');
+    }
+
+    const read = (name: string | undefined): string | undefined => {
+        if (name === undefined) {
+            return undefined;
+        }
+        const content = files[name];
+        if (content === undefined) {
+            throw new Error(`Stash bundle is incomplete — ${name} is missing.`);
+        }
+        return content;
+    };
+
+    return manifest.stashes.map((entry) => {
+        // Manifest values end up in git commands — accept only what an export writes
+        if (typeof entry.baseSha !== 'string' || !SHA_PATTERN.test(entry.baseSha)) {
+            throw new Error(`Stash bundle is invalid — "${entry.baseSha}" is not a commit SHA.`);
+        }
+        if (
+            typeof entry.date !== 'string' ||
+            !ISO_DATE_PATTERN.test(entry.date) ||
+            isNaN(Date.parse(entry.date))
+        ) {
+            throw new Error(`Stash bundle is invalid — "${entry.date}" is not an ISO date.`);
+        }
+        const indexPatch = read(entry.patches.index);
+        const untrackedPatch = read(entry.patches.untracked);
+        return {
+            subject: entry.subject,
+            branch: entry.branch,
+            message: entry.message,
+            baseSha: entry.baseSha,
+            date: entry.date,
+            untrackedFiles: entry.untrackedFiles ?? [],
+            worktreePatch: read(entry.patches.worktree) ?? '',
+            ...(indexPatch ? { indexPatch } : {}),
+            ...(untrackedPatch ? { untrackedPatch } : {}),
+        };
+    });
+}
+
+/** Write bundle files into `dir` (created if needed). */
+export async function writeStashBundle(dir: string, files: StashBundleFiles): Promise<void> {
+    await fs.promises.mkdir(dir, { recursive: true });
+    for (const [name, content] of Object.entries(files)) {
+        await fs.promises.writeFile(path.join(dir, name), content, 'utf8');
+    }
+}
+
+/** Read the bundle whose manifest is at `manifestPath`. */
+export async function readStashBundle(manifestPath: string): Promise<StashBundleFiles> {
+    const dir = path.dirname(manifestPath);
+    const files: StashBundleFiles = {
+        [STASH_BUNDLE_MANIFEST]: await fs.promises.readFile(manifestPath, 'utf8'),
+    };
+    for (const name of await fs.promises.readdir(dir)) {
+        if (name.endsWith('.patch')) {
+            files[name] = await fs.promises.readFile(path.join(dir, name), 'utf8');
+        }
+    }
+    return files;
+}
+
+/** Default folder name for a bundle, e.g. `fix-login.stash-bundle`. */
+export function suggestBundleName(stashes: Pick<StashExport, 'message'>[]): string {
+    const stem = stashes.length === 1 ? slugify(stashes[0].message) : `${stashes.length}-stashes`;
+    return `${stem}.stash-bundle`;
+}
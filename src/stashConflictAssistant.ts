@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { type GitService, type StashEntry } from './gitService';
+import { extractErrorMessage } from './utils';
+
+/** Conflict state after a stash apply/pop, as shown in the conflict panel. */
+export interface StashConflictState {
+    stashIndex: number;
+    stashName: string;
+    /** Stash commit SHA, used to find the stash again if indices shift */
+    stashSha: string;
+    operation: 'apply' | 'pop';
+    /** Paths (relative to the repo root) that still have conflict markers. */
+    files: string[];
+}
+
+/**
+ * Tracks the conflicts left behind by a stash apply/pop and walks the user
+ * through resolving them: open in the merge editor, take one side per file,
+ * and — for a conflicted pop, where git keeps the stash — offer to drop the
+ * stash once every file is resolved.
+ *
+ * Shared by the tree commands and the webview so both see the same state.
+ */
+export class StashConflictAssistant implements vscode.Disposable {
+    private _state: StashConflictState | undefined;
+    private _dropOffered = false;
+
+    private readonly _onDidChange = new vscode.EventEmitter<StashConflictState | undefined>();
+    readonly onDidChange: vscode.Event<StashConflictState | undefined> = this._onDidChange.event;
+
+    constructor(
+        private _gitService: GitService,
+        private _workspaceRoot: string | undefined,
+    ) {}
+
+    get state(): StashConflictState | undefined {
+        return this._state;
+    }
+
+    /**
+     * Start tracking conflicts from applying or popping `entry`. Pass the
+     * stash's repository's `gitService` in multi-repo workspaces; the
+     * assistant then follows that repository until the next `begin`.
+     */
+    async begin(
+        entry: Pick<StashEntry, 'index' | 'name' | 'sha'>,
+        operation: 'apply' | 'pop',
+        gitService?: GitService,
+    ): Promise<void> {
+        if (gitService) {
+            this._gitService = gitService;
+            this._workspaceRoot = gitService.workspaceRoot;
+        }
+        this._state = {
+            stashIndex: entry.index,
+            stashName: entry.name,
+            stashSha: entry.sha,
+            operation,
+            files: [],
+        };
+        this._dropOffered = false;
+        await this.refresh();
+    }
+
+    /**
+     * Re-read the conflicted files. When the last one is resolved after a pop,
+     * offer (once) to drop the stash that git kept.
+     */
+    async refresh(): Promise<StashConflictState | undefined> {
+        if (!this._state) {
+            return undefined;
+        }
+        this._state = { ...this._state, files: await this._gitService.getConflictedFiles() };
+        this._onDidChange.fire(this._state);
+
+        if (this._state.files.length === 0 && !this._dropOffered) {
+            this._dropOffered = true;
+            void this._offerCompletion(this._state);
+        }
+        return this._state;
+    }
+
+    /** Open a conflicted file in VS Code's 3-way merge editor. */
+    async openInMergeEditor(filePath: string): Promise<void> {
+        const uri = this._toUri(filePath);
+        try {
+            await vscode.commands.executeCommand('git.openMergeEditor', uri);
+        } catch {
+            // Git extension unavailable — fall back to the file with inline markers
+            await vscode.commands.executeCommand('vscode.open', uri);
+        }
+    }
+
+    /** Take the stash's version ("theirs") or the working tree's ("ours") of a file. */
+    async resolveWith(filePath: string, side: 'stash' | 'ours'): Promise<void> {
+        await this._gitService.resolveConflict(filePath, side === 'stash' ? 'theirs' : 'ours');
+        await this.refresh();
+    }
+
+    /** Drop the stash that was kept after the conflicted operation and stop tracking. */
+    async dropStash(): Promise<void> {
+        const state = this._state;
+        if (!state) {
+            return;
+        }
+        // Other stashes may have been pushed while resolving — drop by SHA, not index
+        let index = state.stashIndex;
+        if (state.stashSha) {
+            const current = await this._gitService.findStashBySha(state.stashSha);
+            if (!current) {
+                this.dismiss();
+                throw new Error(`${state.stashName} is no longer in the stash list`);
+            }
+            index = current.index;
+        }
+        await this._gitService.dropStash(index, state.stashSha || undefined);
+        vscode.window.showInformationMessage(`Dropped ${state.stashName}`);
+        this.dismiss();
+    }
+
+    /** Stop tracking (e.g. the user wants to keep the stash). */
+    dismiss(): void {
+        this._state = undefined;
+        this._dropOffered = false;
+        this._onDidChange.fire(undefined);
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+
+    private async _offerCompletion(state: StashConflictState): Promise<void> {
+        if (state.operation === 'apply') {
+            vscode.window.showInformationMessage(
+                `All conflicts from applying ${state.stashName} are resolved.`,
+            );
+            this.dismiss();
+            return;
+        }
+
+        const choice = await vscode.window.showInformationMessage(
+            `All conflicts resolved. ${state.stashName} was kept because the pop conflicted — drop it now?`,
+            'Drop Stash',
+            'Keep',
+        );
+        // Ignore stale answers if tracking moved on while the toast was open
+        if (this._state?.stashSha !== state.stashSha) {
+            return;
+        }
+        if (choice === 'Drop Stash') {
+            try {
+                await this.dropStash();
+            } catch (e: unknown) {
+                vscode.window.showErrorMessage(`Failed to drop stash: ${extractErrorMessage(e)}`);
+            }
+        } else if (choice === 'Keep') {
+            this.dismiss();
+        }
+    }
+
+    private _toUri(filePath: string): vscode.Uri {
+        return this._workspaceRoot
+            ? vscode.Uri.file(path.join(this._workspaceRoot, filePath))
+            : vscode.Uri.file(filePath);
+    }
+}
@@ -1,11 +1,14 @@
 import * as vscode from 'vscode';
-import { type GitService } from './gitService';
+import { type RepositoryManager } from './repositoryManager';
 
 /**
- * URI scheme: superprompt-forge:/stash@{index}/filepath?ref=stash|parent
+ * URI scheme: superprompt-forge:/stash@{index}/filepath?ref=stash|parent|head
  *
  * - ref=stash  → file content from the stash commit
  * - ref=parent → file content from the stash's parent commit (the base)
+ * - ref=head   → file content at the current HEAD, to compare a stash against today's code
+ * - sha (optional) → read from the stash commit itself rather than stash@{index}
+ * - repo (optional) → repository root, in multi-repo workspaces
  *
  * Example: superprompt-forge:/stash@{0}/src/app.ts?ref=stash
  */
@@ -13,7 +16,7 @@ export class StashContentProvider implements vscode.TextDocumentContentProvider
     private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
     readonly onDidChange = this._onDidChange.event;
 
-    constructor(private gitService: GitService) {}
+    constructor(private repositories: RepositoryManager) {}
 
     async provideTextDocumentContent(
         uri: vscode.Uri,
@@ -22,19 +25,27 @@ export class StashContentProvider implements vscode.TextDocumentContentProvider
         const params = new URLSearchParams(uri.query);
         const ref = params.get('ref') ?? 'stash';
         const index = parseInt(params.get('index') ?? '0', 10);
+        const sha = params.get('sha');
+        const stashRef = sha ? sha : `stash@{${index}}`;
         const filePath = uri.path.slice(1); // remove leading /
+        const gitService = this.repositories.get(params.get('repo') ?? undefined);
 
         try {
             if (ref === 'parent') {
                 // Show the file as it was before the stash (parent of stash commit)
-                const { stdout, exitCode } = await this.gitService.execGitPublic(
-                    `show "stash@{${index}}^":"${filePath}"`,
+                const { stdout, exitCode } = await gitService.execGitPublic(
+                    `show "${stashRef}^":"${filePath}"`,
+                );
+                return exitCode === 0 ? stdout : '';
+            } else if (ref === 'head') {
+                const { stdout, exitCode } = await gitService.execGitPublic(
+                    `show HEAD:"${filePath}"`,
                 );
                 return exitCode === 0 ? stdout : '';
             } else {
                 // Show the file as it is in the stash
-                const { stdout, exitCode } = await this.gitService.execGitPublic(
-                    `show "stash@{${index}}":"${filePath}"`,
+                const { stdout, exitCode } = await gitService.execGitPublic(
+                    `show "${stashRef}":"${filePath}"`,
                 );
                 return exitCode === 0 ? stdout : '';
             }
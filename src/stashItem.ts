@@ -1,6 +1,14 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { type StashEntry, type FileStatus } from './gitService';
+import {
+    type StashEntry,
+    type FileStatus,
+    type DroppedStashEntry,
+    type StashApplyRisk,
+} from './gitService';
+import { type StashRepository } from './repositoryManager';
+import { type StaleReason, describeStaleReason } from './stashPolicy';
+import { type AutoStashRecord } from './autoStashGuard';
 import { formatRelativeTime, getConfig } from './utils';
 
 export class StashItem extends vscode.TreeItem {
@@ -9,6 +17,12 @@ export class StashItem extends vscode.TreeItem {
         public readonly collapsibleState: vscode.TreeItemCollapsibleState = vscode
             .TreeItemCollapsibleState.Collapsed,
         searchQuery?: string,
+        /** Root of the repository this stash belongs to (multi-repo workspaces) */
+        public readonly repoRoot?: string,
+        /** Why the stash age policy considers this stash stale (empty when it doesn't) */
+        public readonly staleReasons: readonly StaleReason[] = [],
+        /** Set when the auto-stash guard made this stash before a checkout or pull */
+        public readonly autoStash?: AutoStashRecord,
     ) {
         // Use TreeItemLabel with highlights if there's a search query match
         const label = stashEntry.message || '(no message)';
@@ -21,7 +35,7 @@ export class StashItem extends vscode.TreeItem {
         );
 
         // Stable identity — preserves expand/scroll/selection across refreshes
-        this.id = `stash-${stashEntry.index}`;
+        this.id = repoRoot ? `${repoRoot}:stash-${stashEntry.index}` : `stash-${stashEntry.index}`;
 
         // Description: stash@{n} · branch · relative time (branch conditional on setting)
         const showBranch = getConfig<boolean>('showBranchInDescription', true);
@@ -29,11 +43,24 @@ export class StashItem extends vscode.TreeItem {
         this.description = showBranch
             ? `${stashEntry.name} · ${stashEntry.branch} · ${timePart}`
             : `${stashEntry.name} · ${timePart}`;
+        const tags = stashEntry.metadata?.tags ?? [];
+        if (tags.length > 0) {
+            this.description += ` · ${tags.map((t) => `#${t}`).join(' ')}`;
+        }
+        if (staleReasons.length > 0) {
+            this.description += ' · stale';
+        }
 
         // Rich MarkdownString tooltip (stats added lazily via resolveTreeItem)
         this.tooltip = this._buildTooltip();
 
-        this.iconPath = new vscode.ThemeIcon('archive');
+        this.iconPath = stashEntry.metadata?.pinned
+            ? new vscode.ThemeIcon('pinned')
+            : autoStash
+              ? new vscode.ThemeIcon('shield')
+              : staleReasons.length > 0
+              ? new vscode.ThemeIcon('archive', new vscode.ThemeColor('list.warningForeground'))
+              : new vscode.ThemeIcon('archive');
         this.contextValue = 'stashItem';
 
         // Accessibility: rich screen reader description
@@ -51,6 +78,33 @@ export class StashItem extends vscode.TreeItem {
         md.appendMarkdown(`$(calendar) ${formatRelativeTime(this.stashEntry.date)}\n\n`);
         md.appendMarkdown(`${this.stashEntry.message || '(no message)'}`);
 
+        const metadata = this.stashEntry.metadata;
+        if (metadata?.pinned || metadata?.tags.length) {
+            md.appendMarkdown(`\n\n`);
+            if (metadata.pinned) {
+                md.appendMarkdown(`$(pinned) Pinned  `);
+            }
+            if (metadata.tags.length > 0) {
+                md.appendMarkdown(`$(tag) ${metadata.tags.map((t) => `\`${t}\``).join(' ')}`);
+            }
+        }
+        if (metadata?.description) {
+            md.appendMarkdown(`\n\n---\n\n`);
+            md.appendText(metadata.description);
+        }
+        if (this.autoStash) {
+            md.appendMarkdown(
+                this.autoStash.operation === 'checkout'
+                    ? `\n\n$(shield) Auto-stash — offered back when you return to \`${this.autoStash.branch}\``
+                    : `\n\n$(shield) Auto-stash — made before a pull`,
+            );
+        }
+        if (this.staleReasons.length > 0) {
+            md.appendMarkdown(
+                `\n\n$(warning) Stale: ${this.staleReasons.map(describeStaleReason).join(', ')}`,
+            );
+        }
+
         if (this.stashEntry.stats) {
             const { filesChanged, insertions, deletions } = this.stashEntry.stats;
             md.appendMarkdown(`\n\n---\n\n`);
@@ -108,6 +162,11 @@ function fileStatusIcon(status: FileStatus): vscode.ThemeIcon {
     }
 }
 
+/** Map an apply risk to a short human-readable phrase */
+function applyRiskLabel(risk: StashApplyRisk['reason']): string {
+    return risk === 'conflict' ? 'Would conflict' : 'Has local changes';
+}
+
 /** Map FileStatus to a human-readable word */
 function fileStatusLabel(status: FileStatus): string {
     switch (status) {
@@ -127,7 +186,7 @@ function fileStatusLabel(status: FileStatus): string {
 export class StashFileItem extends vscode.TreeItem {
     /**
      * Custom URI for FileDecorationProvider — allows SCM-style colored badges.
-     * Format: superprompt-forge-file:/<filePath>?index=N&status=M
+     * Format: superprompt-forge-file:/<filePath>?index=N&status=M[&risk=conflict]
      */
     public readonly decorationUri: vscode.Uri;
 
@@ -135,15 +194,20 @@ export class StashFileItem extends vscode.TreeItem {
         public readonly filePath: string,
         public readonly stashIndex: number,
         public readonly status?: FileStatus,
+        /** Stash commit SHA — pins diffs to this stash even if indices shift */
+        public readonly stashSha?: string,
+        public readonly repoRoot?: string,
+        /** Set when the file would not apply cleanly onto today's code */
+        public readonly applyRisk?: StashApplyRisk['reason'],
     ) {
         super(path.basename(filePath), vscode.TreeItemCollapsibleState.None);
 
         // Stable identity across refreshes
-        this.id = `stash-${stashIndex}-file-${filePath}`;
+        this.id = `${repoRoot ? `${repoRoot}:` : ''}stash-${stashIndex}-file-${filePath}`;
 
         // resourceUri enables FileDecorationProvider
         this.decorationUri = vscode.Uri.parse(
-            `superprompt-forge-file:///${filePath}?index=${stashIndex}&status=${status ?? ''}`,
+            `superprompt-forge-file:///${filePath}?index=${stashIndex}&status=${status ?? ''}${applyRisk ? `&risk=${applyRisk}` : ''}`,
         );
         this.resourceUri = this.decorationUri;
 
@@ -158,19 +222,25 @@ export class StashFileItem extends vscode.TreeItem {
         if (showStatus && status) {
             parts.push(fileStatusLabel(status));
         }
+        if (applyRisk) {
+            parts.push(applyRiskLabel(applyRisk));
+        }
         this.description = parts.join(' · ');
 
         // Override label since resourceUri takes precedence for rendering
         this.label = path.basename(filePath);
 
-        this.tooltip = `${filePath}${status ? ` (${fileStatusLabel(status)})` : ''}`;
-        this.iconPath =
-            status && showStatus ? fileStatusIcon(status) : new vscode.ThemeIcon('file');
+        this.tooltip = `${filePath}${status ? ` (${fileStatusLabel(status)})` : ''}${applyRisk ? `\n${applyRiskLabel(applyRisk)} on apply` : ''}`;
+        this.iconPath = applyRisk
+            ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'))
+            : status && showStatus
+              ? fileStatusIcon(status)
+              : new vscode.ThemeIcon('file');
         this.contextValue = 'stashFileItem';
 
         // Accessibility: rich screen reader label
         this.accessibilityInformation = {
-            label: `${path.basename(filePath)}${status ? `, ${fileStatusLabel(status)}` : ''}, in ${dir === '.' ? 'root' : dir}`,
+            label: `${path.basename(filePath)}${status ? `, ${fileStatusLabel(status)}` : ''}${applyRisk ? `, ${applyRiskLabel(applyRisk)}` : ''}, in ${dir === '.' ? 'root' : dir}`,
             role: 'treeitem',
         };
 
@@ -183,6 +253,94 @@ export class StashFileItem extends vscode.TreeItem {
     }
 }
 
+/** Any node in the stash tree. */
+export type StashTreeNode =
+    | RepositoryItem
+    | StashItem
+    | StashFileItem
+    | DroppedStashGroupItem
+    | DroppedStashItem;
+
+/**
+ * Top-level group for one repository when the workspace has several
+ * (multi-root folders or submodules). Its children are that repo's stashes.
+ */
+export class RepositoryItem extends vscode.TreeItem {
+    constructor(
+        public readonly repository: StashRepository,
+        stashCount: number,
+        branch: string | undefined,
+        collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState
+            .Expanded,
+    ) {
+        super(repository.name, collapsibleState);
+
+        this.id = `repo-${repository.root}`;
+        const countPart = `${stashCount} stash${stashCount !== 1 ? 'es' : ''}`;
+        this.description = branch ? `${countPart} · on ${branch}` : countPart;
+        this.tooltip = `${repository.root}\n${countPart}${branch ? ` · on ${branch}` : ''}`;
+        this.iconPath = new vscode.ThemeIcon(repository.isSubmodule ? 'file-submodule' : 'repo');
+        this.contextValue = 'stashRepository';
+
+        this.accessibilityInformation = {
+            label: `Repository ${repository.name}, ${countPart}`,
+            role: 'treeitem',
+        };
+    }
+}
+
+/**
+ * "Recently dropped" group at the bottom of the stash tree. Its children come
+ * from `git fsck`, which is slow on big repos, so they load only on expand.
+ */
+export class DroppedStashGroupItem extends vscode.TreeItem {
+    constructor(public readonly repoRoot?: string) {
+        super('Recently Dropped', vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = repoRoot ? `${repoRoot}:dropped-stashes` : 'dropped-stashes';
+        this.iconPath = new vscode.ThemeIcon('history');
+        this.tooltip = 'Dropped or cleared stashes that git has not garbage-collected yet';
+        this.contextValue = 'droppedStashGroup';
+    }
+}
+
+/** A dropped stash that can still be restored with `git stash store`. */
+export class DroppedStashItem extends vscode.TreeItem {
+    constructor(
+        public readonly droppedEntry: DroppedStashEntry,
+        public readonly repoRoot?: string,
+    ) {
+        super(droppedEntry.message || '(no message)', vscode.TreeItemCollapsibleState.None);
+
+        this.id = `${repoRoot ? `${repoRoot}:` : ''}dropped-${droppedEntry.sha}`;
+        this.description = `${droppedEntry.branch} · ${formatRelativeTime(droppedEntry.date)}`;
+
+        const md = new vscode.MarkdownString();
+        md.supportThemeIcons = true;
+        md.appendMarkdown(`**Dropped stash** \`${droppedEntry.sha.slice(0, 8)}\`\n\n`);
+        md.appendMarkdown(`$(git-branch) ${droppedEntry.branch}\n\n`);
+        md.appendMarkdown(`$(calendar) ${formatRelativeTime(droppedEntry.date)}\n\n`);
+        md.appendText(droppedEntry.message || '(no message)');
+        this.tooltip = md;
+
+        this.iconPath = new vscode.ThemeIcon(
+            'archive',
+            new vscode.ThemeColor('disabledForeground'),
+        );
+        this.contextValue = 'droppedStashItem';
+
+        this.accessibilityInformation = {
+            label: `Dropped stash: ${droppedEntry.message}, on branch ${droppedEntry.branch}, created ${formatRelativeTime(droppedEntry.date)}`,
+            role: 'treeitem',
+        };
+
+        this.command = {
+            command: 'superprompt-forge.showDroppedStash',
+            title: 'Show Dropped Stash',
+            arguments: [this],
+        };
+    }
+}
+
 /**
  * Compute case-insensitive highlight ranges for a search query within a label.
  * Returns an array of [startIndex, endIndex) tuples for TreeItemLabel.highlights.
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import { type GitService, type StashEntry, type StashFileEntry } from './gitService';
 import { type AuthService } from './authService';
 import { GistService } from './gistService';
+import { type NotesCache } from './notesCache';
 import { PrService } from './prService';
 import { IssueService } from './issueService';
 import { MattermostService, type MattermostPostData, type MattermostChannelData, type MattermostFileInfoData, type MattermostChannel } from './mattermostService';
@@ -11,6 +12,10 @@ import { type GoogleDriveService } from './googleDriveService';
 import { type GoogleCalendarService } from './calendarService';
 import { WikiService } from './wikiService';
 import { AiService } from './aiService';
+import { type StashConflictAssistant } from './stashConflictAssistant';
+import { type StashSearchIndex } from './stashSearch';
+import { type PrCheckoutManager } from './prCheckout';
+import { type PrReviewDrafts } from './prReviewDrafts';
 import { formatRelativeTime, extractErrorMessage } from './utils';
 import { type PanelServices } from './panelContext';
 import { handlerRegistry, type HandlerContext } from './handlers';
@@ -80,6 +85,7 @@ export class StashPanel {
     private readonly _gitService: GitService;
     private readonly _authService: AuthService | undefined;
     private readonly _gistService: GistService | undefined;
+    private readonly _notesCache: NotesCache | undefined;
     private readonly _prService: PrService | undefined;
     private readonly _issueService: IssueService | undefined;
     private readonly _mattermostService: MattermostService | undefined;
@@ -88,6 +94,10 @@ export class StashPanel {
     private readonly _calendarService: GoogleCalendarService | undefined;
     private readonly _wikiService: WikiService | undefined;
     private readonly _aiService: AiService;
+    private readonly _conflictAssistant: StashConflictAssistant | undefined;
+    private readonly _stashSearchIndex: StashSearchIndex | undefined;
+    private readonly _prCheckout: PrCheckoutManager | undefined;
+    private readonly _reviewDrafts: PrReviewDrafts | undefined;
     private readonly _extensionUri: vscode.Uri;
     private readonly _outputChannel: vscode.OutputChannel;
     private _disposables: vscode.Disposable[] = [];
@@ -118,6 +128,16 @@ export class StashPanel {
         }
     }
 
+    /**
+     * Re-send the local branch list (PR create form pickers) if the panel is
+     * open — called after commands that create or switch branches.
+     */
+    public static refreshBranchesIfOpen(): void {
+        if (StashPanel._instance && StashPanel._instance._isReady) {
+            StashPanel._instance._handleMessage({ type: 'prs.getBranches' });
+        }
+    }
+
     /**
      * Resolve the active GitHub repo — uses the user's webview override
      * if set, otherwise falls back to auto-detecting from the git origin.
@@ -213,6 +233,7 @@ export class StashPanel {
         this._outputChannel = services.outputChannel;
         this._authService = services.authService;
         this._gistService = services.gistService;
+        this._notesCache = services.notesCache;
         this._prService = services.prService;
         this._issueService = services.issueService;
         this._mattermostService = services.mattermostService;
@@ -221,6 +242,27 @@ export class StashPanel {
         this._calendarService = services.calendarService;
         this._wikiService = services.wikiService;
         this._aiService = new AiService(services.outputChannel);
+        this._conflictAssistant = services.conflictAssistant;
+        this._stashSearchIndex = services.stashSearchIndex;
+        this._prCheckout = services.prCheckout;
+        this._reviewDrafts = services.reviewDrafts;
+
+        // Show offline state and notes pushed or conflicted by background syncs
+        this._notesCache?.onDidChange(() => this._refreshNotes(), null, this._disposables);
+
+        // Keep the conflict panel in sync with resolutions made anywhere
+        this._conflictAssistant?.onDidChange(
+            (state) => this._panel.webview.postMessage({ type: 'stashConflicts', conflict: state ?? null }),
+            null,
+            this._disposables,
+        );
+
+        // Checkout / return of a PR, whether from the panel, the tree or the status bar
+        this._prCheckout?.onDidChange(
+            (state) => this._panel.webview.postMessage({ type: 'prCheckoutState', checkout: state ?? null }),
+            null,
+            this._disposables,
+        );
 
         this._panel.iconPath = new vscode.ThemeIcon('archive');
         this._panel.webview.html = this._getHtml();
@@ -252,6 +294,16 @@ export class StashPanel {
         }
     }
 
+    /** Deep-link: switch to Stashes tab and show the conflict panel. */
+    public openConflicts(): void {
+        const msg = { type: 'openStashConflicts' };
+        if (this._isReady) {
+            this._panel.webview.postMessage(msg);
+        } else {
+            this._pendingDeepLinks.push(msg);
+        }
+    }
+
     /** Deep-link: switch to PRs tab and select a specific PR. */
     public openPR(prNumber: number): void {
         const msg = { type: 'openPR', prNumber };
@@ -299,8 +351,16 @@ export class StashPanel {
 
         try {
             const stashes = await this._gitService.getStashList();
+            const metadata = await this._gitService.getStashMetadata(stashes.map((s) => s.sha));
+            for (const entry of stashes) {
+                entry.metadata = metadata.get(entry.sha);
+            }
+            // Pinned stashes first, like the tree view
+            stashes.sort((a, b) => Number(!!b.metadata?.pinned) - Number(!!a.metadata?.pinned));
             const payload = await this._buildPayload(stashes);
             this._panel.webview.postMessage({ type: 'stashData', payload });
+            // Also re-reads conflicts resolved outside the panel (merge editor, terminal)
+            await this._conflictAssistant?.refresh();
 
             // 8b-vi: Update panel title with stash count
             this._panel.title = stashes.length > 0 ? `Superprompt Forge (${stashes.length})` : 'Superprompt Forge';
@@ -316,13 +376,13 @@ export class StashPanel {
         for (const entry of stashes) {
             let files: StashFileEntry[] = [];
             try {
-                files = await this._gitService.getStashFilesWithStatus(entry.index);
+                files = await this._gitService.getStashFilesWithStatus(entry.index, entry.sha);
             } catch {
                 /* non-critical */
             }
 
             try {
-                const stats = await this._gitService.getStashStats(entry.index);
+                const stats = await this._gitService.getStashStats(entry.index, entry.sha);
                 if (stats) {
                     entry.stats = stats;
                 }
@@ -332,7 +392,7 @@ export class StashPanel {
 
             let numstat: { path: string; insertions: number; deletions: number }[] = [];
             try {
-                numstat = await this._gitService.getStashFileNumstat(entry.index);
+                numstat = await this._gitService.getStashFileNumstat(entry.index, entry.sha);
             } catch {
                 /* optional */
             }
@@ -340,10 +400,14 @@ export class StashPanel {
             result.push({
                 index: entry.index,
                 name: entry.name,
+                sha: entry.sha,
                 branch: entry.branch,
                 message: entry.message,
                 date: entry.date.toISOString(),
                 relativeDate: formatRelativeTime(entry.date),
+                tags: entry.metadata?.tags ?? [],
+                description: entry.metadata?.description ?? '',
+                pinned: entry.metadata?.pinned ?? false,
                 stats: entry.stats,
                 files: files.map((f) => ({ path: f.path, status: f.status })),
                 numstat: numstat.map((n) => ({
@@ -430,6 +494,7 @@ export class StashPanel {
             gitService: this._gitService,
             authService: this._authService,
             gistService: this._gistService,
+            notesCache: this._notesCache,
             prService: this._prService,
             issueService: this._issueService,
             mattermostService: this._mattermostService,
@@ -438,6 +503,10 @@ export class StashPanel {
             calendarService: this._calendarService,
             wikiService: this._wikiService,
             aiService: this._aiService,
+            conflictAssistant: this._conflictAssistant,
+            stashSearchIndex: this._stashSearchIndex,
+            reviewDrafts: this._reviewDrafts,
+            prCheckout: this._prCheckout,
 
             // Panel helpers
             getRepoInfo: () => this._getRepoInfo(),
@@ -1161,7 +1230,7 @@ export class StashPanel {
         }
     }
 
-    /** Fetch notes from GistService and send to webview. */
+    /** Fetch notes (through the offline cache when there is one) and send to webview. */
     private async _refreshNotes(): Promise<void> {
         if (!this._gistService || !this._authService) {
             this._outputChannel.appendLine('[Notes] Skipped: service not available');
@@ -1180,10 +1249,18 @@ export class StashPanel {
             this._panel.webview.postMessage({ type: 'notesCurrentRepo', repo: repoSlug });
 
             this._panel.webview.postMessage({ type: 'notesLoading' });
-            const notes = await this._gistService.listNotes();
+            const cache = this._notesCache;
+            const notes = await (cache ?? this._gistService).listNotes();
             this._outputChannel.appendLine(`[Notes] Loaded ${notes.length} notes`);
-            const payload = notes.map((n) => GistService.toData(n));
+            const payload = notes.map((n) => (cache ? cache.toData(n) : GistService.toData(n)));
             this._panel.webview.postMessage({ type: 'notesData', payload });
+            if (cache) {
+                this._panel.webview.postMessage({
+                    type: 'notesSyncStatus',
+                    offline: cache.offline,
+                    pending: cache.pendingCount,
+                });
+            }
         } catch (e: unknown) {
             const m = extractErrorMessage(e);
             this._outputChannel.appendLine(`[Notes] Error: ${m}`);
@@ -1229,8 +1306,13 @@ export class StashPanel {
                 authorFilter ?? 'all',
             );
             this._outputChannel.appendLine(`[PRs] Loaded ${prs.length} PRs`);
+            await this._prService.attachCheckStates(repoInfo.owner, repoInfo.repo, prs);
             const payload = prs.map((pr) => PrService.toData(pr));
             this._panel.webview.postMessage({ type: 'prsData', payload });
+            this._panel.webview.postMessage({
+                type: 'prCheckoutState',
+                checkout: this._prCheckout?.state ?? null,
+            });
         } catch (e: unknown) {
             const m = extractErrorMessage(e);
             this._outputChannel.appendLine(`[PRs] Error: ${m}`);
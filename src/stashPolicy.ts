@@ -0,0 +1,130 @@
+import { type GitService, type StashEntry } from './gitService';
+
+/**
+ * Stash age policies — decide which stashes look forgotten so the cleanup
+ * assistant can offer to drop, export or archive them. Pure apart from
+ * `loadBranchState`, so the rules can be tested without git.
+ *
+ * Pinned stashes are never stale: pinning is how a stash is kept on purpose.
+ */
+
+export interface StashAgePolicy {
+    /** Flag stashes older than this many days; 0 turns the age rule off */
+    maxAgeDays: number;
+    /** Flag stashes whose branch was deleted or merged into the default branch */
+    flagMergedBranches: boolean;
+}
+
+export type StaleReason =
+    | { kind: 'age'; days: number }
+    | { kind: 'branchDeleted'; branch: string }
+    | { kind: 'branchMerged'; branch: string; into: string };
+
+export interface StaleStash {
+    entry: StashEntry;
+    reasons: StaleReason[];
+}
+
+/** Local branches of a repository, as far as the branch rule needs them. */
+export interface BranchState {
+    existing: ReadonlySet<string>;
+    /** Branches with commits of their own, all merged into `defaultBranch` */
+    merged: ReadonlySet<string>;
+    defaultBranch?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Branch names `git stash` records for stashes made outside a branch. */
+const NO_BRANCH = new Set(['unknown', '(no branch)', 'HEAD']);
+
+/** Stashes that break at least one rule of `policy`, in the order given. */
+export function findStaleStashes(
+    stashes: readonly StashEntry[],
+    policy: StashAgePolicy,
+    branches?: BranchState,
+    now: Date = new Date(),
+): StaleStash[] {
+    const stale: StaleStash[] = [];
+    for (const entry of stashes) {
+        if (entry.metadata?.pinned) {
+            continue;
+        }
+        const reasons: StaleReason[] = [];
+
+        const days = Math.floor((now.getTime() - entry.date.getTime()) / DAY_MS);
+        if (policy.maxAgeDays > 0 && days > policy.maxAgeDays) {
+            reasons.push({ kind: 'age', days });
+        }
+
+        // No branches at all means git could not list them, not that all were deleted
+        if (
+            policy.flagMergedBranches &&
+            branches &&
+            branches.existing.size > 0 &&
+            !NO_BRANCH.has(entry.branch)
+        ) {
+            const defaultName = branches.defaultBranch?.replace(/^[^/]+\//, '');
+            if (!branches.existing.has(entry.branch)) {
+                reasons.push({ kind: 'branchDeleted', branch: entry.branch });
+            } else if (
+                branches.defaultBranch &&
+                entry.branch !== defaultName &&
+                branches.merged.has(entry.branch)
+            ) {
+                reasons.push({
+                    kind: 'branchMerged',
+                    branch: entry.branch,
+                    into: branches.defaultBranch,
+                });
+            }
+        }
+
+        if (reasons.length > 0) {
+            stale.push({ entry, reasons });
+        }
+    }
+    return stale;
+}
+
+/** True when a stash is stale because of its branch — the rule auto-archive acts on. */
+export function isBranchGone(reasons: readonly StaleReason[]): boolean {
+    return reasons.some((r) => r.kind !== 'age');
+}
+
+export function describeStaleReason(reason: StaleReason): string {
+    switch (reason.kind) {
+        case 'age':
+            return `${reason.days} days old`;
+        case 'branchDeleted':
+            return `branch ${reason.branch} was deleted`;
+        case 'branchMerged':
+            return `branch ${reason.branch} is merged into ${reason.into}`;
+    }
+}
+
+/** Read the branches the branch rule needs; skips the merge check without a default branch. */
+export async function loadBranchState(gitService: GitService): Promise<BranchState> {
+    const [existing, defaultBranch] = await Promise.all([
+        gitService.listBranches(),
+        gitService.getDefaultBranch(),
+    ]);
+    const merged = defaultBranch ? await gitService.listMergedBranches(defaultBranch) : [];
+    // `branch --merged` also lists branches with no commits of their own yet —
+    // ones still at the default tip or at the commit they were created from
+    const defaultTip = defaultBranch ? await gitService.resolveRef(defaultBranch) : undefined;
+    const hasOwnCommits = await Promise.all(
+        merged.map(async (branch) => {
+            const tip = await gitService.resolveRef(`refs/heads/${branch}`);
+            if (!tip || tip === defaultTip) {
+                return false;
+            }
+            return tip !== (await gitService.getBranchStart(branch));
+        }),
+    );
+    return {
+        existing: new Set(existing),
+        merged: new Set(merged.filter((_, i) => hasOwnCommits[i])),
+        defaultBranch,
+    };
+}
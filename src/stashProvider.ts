@@ -1,18 +1,32 @@
 import * as vscode from 'vscode';
-import { type GitService } from './gitService';
-import { StashItem, StashFileItem } from './stashItem';
+import {
+    type GitService,
+    type StashApplyRisk,
+    type StashDiffBase,
+    type StashEntry,
+} from './gitService';
+import { type AutoStashGuard } from './autoStashGuard';
+import { type RepositoryManager, type StashRepository } from './repositoryManager';
+import {
+    RepositoryItem,
+    StashItem,
+    StashFileItem,
+    DroppedStashGroupItem,
+    DroppedStashItem,
+    type StashTreeNode,
+} from './stashItem';
 import { StashPanel } from './stashPanel';
-import { getConfig } from './utils';
+import { findStaleStashes, loadBranchState } from './stashPolicy';
+import { type StashSearchIndex } from './stashSearch';
+import { getConfig, getStashAgePolicy } from './utils';
 
-export class StashProvider implements vscode.TreeDataProvider<StashItem | StashFileItem> {
-    private _onDidChangeTreeData: vscode.EventEmitter<
-        StashItem | StashFileItem | undefined | null | void
-    > = new vscode.EventEmitter<StashItem | StashFileItem | undefined | null | void>();
-    readonly onDidChangeTreeData: vscode.Event<
-        StashItem | StashFileItem | undefined | null | void
-    > = this._onDidChangeTreeData.event;
+export class StashProvider implements vscode.TreeDataProvider<StashTreeNode> {
+    private _onDidChangeTreeData: vscode.EventEmitter<StashTreeNode | undefined | null | void> =
+        new vscode.EventEmitter<StashTreeNode | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<StashTreeNode | undefined | null | void> =
+        this._onDidChangeTreeData.event;
 
-    private _treeView?: vscode.TreeView<StashItem | StashFileItem>;
+    private _treeView?: vscode.TreeView<StashTreeNode>;
     private _statusBarItem?: vscode.StatusBarItem;
     private _refreshTimer?: ReturnType<typeof setTimeout>;
     private _isRefreshing = false;
@@ -22,21 +36,36 @@ export class StashProvider implements vscode.TreeDataProvider<StashItem | StashF
     private _pendingRefreshReason?: string;
 
     // Expand/collapse persistence: track which stash IDs are expanded
+    // (repository groups start expanded, so those track collapses instead)
     private _expandedIds = new Set<string>();
+    private _collapsedRepoIds = new Set<string>();
 
     // Search/filter state
     private _searchQuery = '';
 
     // Cache parent mapping for getParent() support
     private _parentMap = new Map<string, StashItem>();
+    private _repoItems = new Map<string, RepositoryItem>();
+
+    // Children of each repository group, built with the root level
+    private _repoChildren = new Map<string, StashTreeNode[]>();
 
     // Last-known stash count for message banner
     private _lastMessage = '';
 
+    // Recognises stashes made by the auto-stash guard (distinct icon)
+    private _autoStashGuard?: AutoStashGuard;
+
+    // Lets the search also match text inside stash diffs
+    private _searchIndex?: StashSearchIndex;
+
+    // What file diffs compare the stash against; anything but `parent` also marks apply risks
+    private _diffBase: StashDiffBase = 'parent';
+
     private static readonly DEBOUNCE_MS = 300;
 
     constructor(
-        private gitService: GitService,
+        private repositories: RepositoryManager,
         private _outputChannel?: vscode.OutputChannel,
     ) {}
 
@@ -47,12 +76,26 @@ export class StashProvider implements vscode.TreeDataProvider<StashItem | StashF
         this._statusBarItem = statusBarItem;
     }
 
+    /**
+     * Set the auto-stash guard so its stashes get their own icon, and
+     * re-render when it starts or stops tracking one.
+     */
+    setAutoStashGuard(guard: AutoStashGuard): void {
+        this._autoStashGuard = guard;
+        guard.onDidChange(() => this.refresh('auto-stash-changed'));
+    }
+
+    /** Set the diff index so searches also match the content of stashed changes. */
+    setSearchIndex(index: StashSearchIndex): void {
+        this._searchIndex = index;
+    }
+
     /**
      * Set the tree view reference so we can update badge/title/description/message.
      * Also wires up visibility and expand/collapse tracking.
      * Called after createTreeView() in extension.ts.
      */
-    setTreeView(treeView: vscode.TreeView<StashItem | StashFileItem>): void {
+    setTreeView(treeView: vscode.TreeView<StashTreeNode>): void {
         this._treeView = treeView;
 
         // Visibility-gated refresh: track when tree is shown/hidden
@@ -70,12 +113,16 @@ export class StashProvider implements vscode.TreeDataProvider<StashItem | StashF
 
         // Expand/collapse persistence
         treeView.onDidExpandElement((e) => {
-            if (e.element.id) {
+            if (e.element instanceof RepositoryItem && e.element.id) {
+                this._collapsedRepoIds.delete(e.element.id);
+            } else if (e.element.id) {
                 this._expandedIds.add(e.element.id);
             }
         });
         treeView.onDidCollapseElement((e) => {
-            if (e.element.id) {
+            if (e.element instanceof RepositoryItem && e.element.id) {
+                this._collapsedRepoIds.add(e.element.id);
+            } else if (e.element.id) {
                 this._expandedIds.delete(e.element.id);
             }
         });
@@ -96,6 +143,21 @@ export class StashProvider implements vscode.TreeDataProvider<StashItem | StashF
         return this._searchQuery;
     }
 
+    // --- Diff base ---
+
+    get diffBase(): StashDiffBase {
+        return this._diffBase;
+    }
+
+    /**
+     * Compare stash files against their parent, HEAD or the working tree.
+     * Re-renders the tree so file items pick up (or drop) their apply-risk marks.
+     */
+    setDiffBase(base: StashDiffBase): void {
+        this._diffBase = base;
+        this._onDidChangeTreeData.fire();
+    }
+
     /**
      * Set the tree view message banner.
      */
@@ -133,18 +195,26 @@ export class StashProvider implements vscode.TreeDataProvider<StashItem | StashF
         }, StashProvider.DEBOUNCE_MS);
     }
 
-    getTreeItem(element: StashItem | StashFileItem): vscode.TreeItem {
+    getTreeItem(element: StashTreeNode): vscode.TreeItem {
         return element;
     }
 
     /**
      * Enable reveal() support by providing parent mapping.
-     * StashFileItems belong to StashItems; StashItems have no parent (root).
+     * StashFileItems belong to StashItems; StashItems and the dropped group
+     * belong to their repository group, or are roots in a single-repo tree.
      */
-    getParent(element: StashItem | StashFileItem): StashItem | undefined {
+    getParent(element: StashTreeNode): StashItem | RepositoryItem | undefined {
         if (element instanceof StashFileItem && element.id) {
             return this._parentMap.get(element.id);
         }
+        if (
+            (element instanceof StashItem || element instanceof DroppedStashGroupItem) &&
+            element.repoRoot &&
+            this.repositories.isMultiRepo
+        ) {
+            return this._repoItems.get(element.repoRoot);
+        }
         return undefined;
     }
 
@@ -153,12 +223,16 @@ export class StashProvider implements vscode.TreeDataProvider<StashItem | StashF
      */
     async resolveTreeItem(
         item: vscode.TreeItem,
-        element: StashItem | StashFileItem,
+        element: StashTreeNode,
         _token: vscode.CancellationToken,
     ): Promise<vscode.TreeItem> {
         if (element instanceof StashItem && !element.stashEntry.stats) {
             try {
-                const stats = await this.gitService.getStashStats(element.stashEntry.index);
+                const gitService = this.repositories.get(element.repoRoot);
+                const stats = await gitService.getStashStats(
+                    element.stashEntry.index,
+                    element.stashEntry.sha,
+                );
                 if (stats) {
                     element.stashEntry.stats = stats;
                     element.updateTooltipWithStats();
@@ -170,39 +244,77 @@ export class StashProvider implements vscode.TreeDataProvider<StashItem | StashF
         return item;
     }
 
-    async getChildren(element?: StashItem | StashFileItem): Promise<(StashItem | StashFileItem)[]> {
+    async getChildren(element?: StashTreeNode): Promise<StashTreeNode[]> {
         // 1c-v: No toasts — let welcome view handle messaging via context keys
-        // TODO: multi-root — group stashes by workspace folder, add RepoItem parent level
         if (!vscode.workspace.workspaceFolders) {
             await vscode.commands.executeCommand('setContext', 'superprompt-forge.isGitRepo', false);
             await vscode.commands.executeCommand('setContext', 'superprompt-forge.hasStashes', false);
             return [];
         }
 
-        const isGitRepo = await this.gitService.isGitRepository();
+        await this.repositories.whenReady();
+        const repos = this.repositories.repositories;
+        const isGitRepo = repos.length > 0;
         await vscode.commands.executeCommand('setContext', 'superprompt-forge.isGitRepo', isGitRepo);
         if (!isGitRepo) {
             await vscode.commands.executeCommand('setContext', 'superprompt-forge.hasStashes', false);
             return [];
         }
 
+        if (element instanceof RepositoryItem) {
+            return this._repoChildren.get(element.repository.root) ?? [];
+        }
+
+        if (element instanceof DroppedStashGroupItem) {
+            try {
+                const dropped = await this.repositories.get(element.repoRoot).getDroppedStashes();
+                return dropped.map((entry) => new DroppedStashItem(entry, element.repoRoot));
+            } catch {
+                return [];
+            }
+        }
+        if (element instanceof DroppedStashItem) {
+            return [];
+        }
+
         if (element instanceof StashItem) {
             // Return files for this stash
+            const gitService = this.repositories.get(element.repoRoot);
             try {
                 const showStatus = getConfig<boolean>('showFileStatus', true);
+                const risks = await this._applyRisks(gitService, element.stashEntry);
                 let fileItems: StashFileItem[];
                 if (showStatus) {
-                    const entries = await this.gitService.getStashFilesWithStatus(
+                    const entries = await gitService.getStashFilesWithStatus(
                         element.stashEntry.index,
+                        element.stashEntry.sha,
                     );
                     fileItems = entries.map(
                         (entry) =>
-                            new StashFileItem(entry.path, element.stashEntry.index, entry.status),
+                            new StashFileItem(
+                                entry.path,
+                                element.stashEntry.index,
+                                entry.status,
+                                element.stashEntry.sha,
+                                element.repoRoot,
+                                risks.get(entry.path),
+                            ),
                     );
                 } else {
-                    const files = await this.gitService.getStashFiles(element.stashEntry.index);
+                    const files = await gitService.getStashFiles(
+                        element.stashEntry.index,
+                        element.stashEntry.sha,
+                    );
                     fileItems = files.map(
-                        (file) => new StashFileItem(file, element.stashEntry.index),
+                        (file) =>
+                            new StashFileItem(
+                                file,
+                                element.stashEntry.index,
+                                undefined,
+                                element.stashEntry.sha,
+                                element.repoRoot,
+                                risks.get(file),
+                            ),
                     );
                 }
                 // Cache parent mapping for getParent()
@@ -224,49 +336,38 @@ export class StashProvider implements vscode.TreeDataProvider<StashItem | StashF
         this._isRefreshing = true;
 
         try {
-            const stashes = await this.gitService.getStashList();
-            const hasStashes = stashes.length > 0;
-            await vscode.commands.executeCommand('setContext', 'superprompt-forge.hasStashes', hasStashes);
-
-            // 9a-iii: Sort order — git returns newest-first by default
-            const sortOrder = getConfig<string>('sortOrder', 'newest');
-            if (sortOrder === 'oldest') {
-                stashes.reverse();
-            }
-
-            // Filter by search query if active
             const query = this._searchQuery.trim().toLowerCase();
-            const filtered = query
-                ? stashes.filter(
-                      (s) =>
-                          s.message.toLowerCase().includes(query) ||
-                          s.branch.toLowerCase().includes(query) ||
-                          s.name.toLowerCase().includes(query),
-                  )
-                : stashes;
+            const loaded = await Promise.all(
+                repos.map((repo) => this._loadRepository(repo, query)),
+            );
+            const total = loaded.reduce((sum, r) => sum + r.stashes.length, 0);
+            const shown = loaded.reduce((sum, r) => sum + r.filteredCount, 0);
+            const hasStashes = total > 0;
+            await vscode.commands.executeCommand('setContext', 'superprompt-forge.hasStashes', hasStashes);
 
             // Update tree view chrome
             if (this._treeView) {
                 // Badge
                 this._treeView.badge = hasStashes
                     ? {
-                          value: stashes.length,
-                          tooltip: `${stashes.length} stash${stashes.length !== 1 ? 'es' : ''}`,
+                          value: total,
+                          tooltip: `${total} stash${total !== 1 ? 'es' : ''}`,
                       }
                     : undefined;
 
                 // Title
-                this._treeView.title = hasStashes
-                    ? `Git Stashes (${stashes.length})`
-                    : 'Git Stashes';
+                this._treeView.title = hasStashes ? `Git Stashes (${total})` : 'Git Stashes';
 
-                // Description: current branch
-                const branch = await this.gitService.getCurrentBranch();
-                this._treeView.description = branch ? `on ${branch}` : undefined;
+                // Description: current branch, or the repository count when grouped
+                this._treeView.description = this.repositories.isMultiRepo
+                    ? `${repos.length} repositories`
+                    : loaded[0].branch
+                      ? `on ${loaded[0].branch}`
+                      : undefined;
 
                 // Search indicator in message
                 if (query) {
-                    this._treeView.message = `$(search) Showing ${filtered.length} of ${stashes.length} stashes matching "${this._searchQuery}"`;
+                    this._treeView.message = `$(search) Showing ${shown} of ${total} stashes matching "${this._searchQuery}"`;
                 } else if (this._lastMessage) {
                     this._treeView.message = this._lastMessage;
                 } else {
@@ -274,33 +375,144 @@ export class StashProvider implements vscode.TreeDataProvider<StashItem | StashF
                 }
             }
 
-            // 9b-i: Update status bar item
+            // 9b-i: Update status bar item — total count, broken down per repo in the tooltip
             if (this._statusBarItem) {
                 if (hasStashes) {
-                    this._statusBarItem.text = `$(archive) ${stashes.length}`;
-                    this._statusBarItem.tooltip = `Superprompt Forge — ${stashes.length} stash${stashes.length !== 1 ? 'es' : ''}`;
+                    this._statusBarItem.text = `$(archive) ${total}`;
+                    this._statusBarItem.tooltip = this.repositories.isMultiRepo
+                        ? `Superprompt Forge — ${total} stash${total !== 1 ? 'es' : ''}\n` +
+                          loaded
+                              .map((r) => `${r.repository.name}: ${r.stashes.length}`)
+                              .join('\n')
+                        : `Superprompt Forge — ${total} stash${total !== 1 ? 'es' : ''}`;
                     this._statusBarItem.show();
                 } else {
                     this._statusBarItem.hide();
                 }
             }
 
-            // Build items with expand persistence and search highlights
-            return filtered.map((stash) => {
-                const itemId = `stash-${stash.index}`;
-                const wasExpanded = this._expandedIds.has(itemId);
-                return new StashItem(
-                    stash,
-                    wasExpanded
-                        ? vscode.TreeItemCollapsibleState.Expanded
-                        : vscode.TreeItemCollapsibleState.Collapsed,
-                    query || undefined,
-                );
-            });
+            if (!this.repositories.isMultiRepo) {
+                return this._repoChildren.get(repos[0].root) ?? [];
+            }
+
+            // Group by repository; while searching, hide repositories without matches
+            this._repoItems.clear();
+            return loaded
+                .filter((r) => !query || r.filteredCount > 0)
+                .map((r) => {
+                    const id = `repo-${r.repository.root}`;
+                    const item = new RepositoryItem(
+                        r.repository,
+                        r.stashes.length,
+                        r.branch,
+                        this._collapsedRepoIds.has(id)
+                            ? vscode.TreeItemCollapsibleState.Collapsed
+                            : vscode.TreeItemCollapsibleState.Expanded,
+                    );
+                    this._repoItems.set(r.repository.root, item);
+                    return item;
+                });
         } finally {
             this._isRefreshing = false;
         }
     }
+
+    /** Files of `entry` that would not apply cleanly — only computed off the `parent` base. */
+    private async _applyRisks(
+        gitService: GitService,
+        entry: StashEntry,
+    ): Promise<Map<string, StashApplyRisk['reason']>> {
+        if (this._diffBase === 'parent') {
+            return new Map();
+        }
+        try {
+            const risks = await gitService.getStashApplyRisks(entry.index, entry.sha);
+            return new Map(risks.map((r) => [r.path, r.reason]));
+        } catch {
+            return new Map();
+        }
+    }
+
+    /**
+     * Load one repository's stashes (with metadata, sorted and filtered) and
+     * cache its tree children for the root level or its repository group.
+     */
+    private async _loadRepository(
+        repository: StashRepository,
+        query: string,
+    ): Promise<{
+        repository: StashRepository;
+        stashes: StashEntry[];
+        filteredCount: number;
+        branch: string | undefined;
+    }> {
+        const gitService = repository.gitService;
+        const stashes = await gitService.getStashList();
+
+        // Tags / description / pinned from the git-notes sidecar
+        const metadata = await gitService.getStashMetadata(stashes.map((s) => s.sha));
+        for (const stash of stashes) {
+            stash.metadata = metadata.get(stash.sha);
+        }
+
+        // 9a-iii: Sort order — git returns newest-first by default
+        const sortOrder = getConfig<string>('sortOrder', 'newest');
+        if (sortOrder === 'oldest') {
+            stashes.reverse();
+        }
+        // Pinned stashes float to the top, keeping the chosen order within each group
+        stashes.sort((a, b) => Number(!!b.metadata?.pinned) - Number(!!a.metadata?.pinned));
+
+        // Filter by search query if active — including the text of the stashed changes
+        const contentMatches =
+            query && this._searchIndex
+                ? await this._searchIndex.matchingShas(gitService, stashes, query)
+                : new Set<string>();
+        const filtered = query
+            ? stashes.filter(
+                  (s) =>
+                      s.message.toLowerCase().includes(query) ||
+                      s.branch.toLowerCase().includes(query) ||
+                      s.name.toLowerCase().includes(query) ||
+                      (s.metadata?.description.toLowerCase().includes(query) ?? false) ||
+                      (s.metadata?.tags.some((t) => t.toLowerCase().includes(query)) ?? false) ||
+                      contentMatches.has(s.sha),
+              )
+            : stashes;
+
+        // Age policy: mark stashes that look forgotten
+        const policy = getStashAgePolicy();
+        const branchState = policy.flagMergedBranches
+            ? await loadBranchState(gitService)
+            : undefined;
+        const staleReasons = new Map(
+            findStaleStashes(stashes, policy, branchState).map((s) => [s.entry.sha, s.reasons]),
+        );
+
+        // Build items with expand persistence and search highlights
+        const items: StashTreeNode[] = filtered.map((stash) => {
+            const itemId = `${repository.root}:stash-${stash.index}`;
+            const wasExpanded = this._expandedIds.has(itemId);
+            return new StashItem(
+                stash,
+                wasExpanded
+                    ? vscode.TreeItemCollapsibleState.Expanded
+                    : vscode.TreeItemCollapsibleState.Collapsed,
+                query || undefined,
+                repository.root,
+                staleReasons.get(stash.sha),
+                this._autoStashGuard?.recordFor(stash.sha),
+            );
+        });
+        // With no stashes the welcome view (and its recover link) shows instead
+        if (stashes.length > 0 && !query) {
+            items.push(new DroppedStashGroupItem(repository.root));
+        }
+        this._repoChildren.set(repository.root, items);
+
+        const branch = await gitService.getCurrentBranch();
+        return { repository, stashes, filteredCount: filtered.length, branch };
+    }
 }
 
 // --- FileDecorationProvider for superprompt-forge-file: URIs ---
@@ -325,6 +537,14 @@ export class StashFileDecorationProvider implements vscode.FileDecorationProvide
 
         const params = new URLSearchParams(uri.query);
         const status = params.get('status');
+        const risk = params.get('risk');
+        if (risk) {
+            return new vscode.FileDecoration(
+                '!',
+                risk === 'conflict' ? 'Would conflict on apply' : 'Has local changes',
+                new vscode.ThemeColor('gitDecoration.conflictingResourceForeground'),
+            );
+        }
         if (!status) {
             return undefined;
         }
@@ -372,9 +592,7 @@ export class StashFileDecorationProvider implements vscode.FileDecorationProvide
  * Enables dragging stash files into the editor (opens diff) and
  * visual stash reordering within the tree.
  */
-export class StashDragAndDropController implements vscode.TreeDragAndDropController<
-    StashItem | StashFileItem
-> {
+export class StashDragAndDropController implements vscode.TreeDragAndDropController<StashTreeNode> {
     // Accept drops from our own tree
     readonly dropMimeTypes = ['application/vnd.code.tree.superprompt-forge-view'];
     // Provide text/uri-list for dragging into editor, and our own tree mime
@@ -383,7 +601,7 @@ export class StashDragAndDropController implements vscode.TreeDragAndDropControl
     constructor(private _outputChannel?: vscode.OutputChannel) {}
 
     handleDrag(
-        source: readonly (StashItem | StashFileItem)[],
+        source: readonly StashTreeNode[],
         dataTransfer: vscode.DataTransfer,
         _token: vscode.CancellationToken,
     ): void {
@@ -409,7 +627,7 @@ export class StashDragAndDropController implements vscode.TreeDragAndDropControl
     }
 
     async handleDrop(
-        target: StashItem | StashFileItem | undefined,
+        target: StashTreeNode | undefined,
         dataTransfer: vscode.DataTransfer,
         _token: vscode.CancellationToken,
     ): Promise<void> {
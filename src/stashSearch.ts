@@ -0,0 +1,175 @@
+import { GitService, type DiffHunk, type StashEntry } from './gitService';
+
+/**
+ * Full-text search inside stash diffs — "which stash touched `parseConfig`?"
+ *
+ * Diffs are read lazily with `getStashDiff` the first time a stash is searched
+ * and cached by stash SHA: a stash commit never changes, so a cached diff can
+ * only go stale by the stash being dropped, which the next search of its
+ * repository notices and evicts.
+ *
+ * Only added and removed lines are searched; context lines would report every
+ * stash that merely sits near a match.
+ */
+
+/** One matching line of a stash diff. */
+export interface StashContentMatch {
+    stashIndex: number;
+    stashName: string;
+    sha: string;
+    message: string;
+    filePath: string;
+    /** Hunk header (`@@ -10,4 +10,6 @@ fn`) the line belongs to */
+    hunkHeader: string;
+    /** The matching line, without its `+`/`-` prefix */
+    text: string;
+    kind: 'added' | 'removed';
+    /** 1-based line number — in the stash's version for added lines, the parent's for removed ones */
+    line: number;
+    /** Line of the stash's version to reveal the match at (where a removed line used to be) */
+    stashLine: number;
+}
+
+type LineMatch = Pick<StashContentMatch, 'text' | 'kind' | 'line' | 'stashLine'>;
+
+interface CachedDiff {
+    /** Repository the stash belongs to, so dropped stashes can be evicted per repository */
+    root: string;
+    hunks: DiffHunk[];
+}
+
+export class StashSearchIndex {
+    private readonly _cache = new Map<string, CachedDiff>();
+
+    /** Number of stash diffs held in the cache. */
+    get size(): number {
+        return this._cache.size;
+    }
+
+    /**
+     * Search `stashes` (all from `gitService`'s repository) for `query`,
+     * case-insensitively. Stops after `limit` matches.
+     */
+    async search(
+        gitService: GitService,
+        stashes: readonly StashEntry[],
+        query: string,
+        limit = 200,
+    ): Promise<StashContentMatch[]> {
+        const needle = query.trim().toLowerCase();
+        const root = gitService.workspaceRoot ?? '';
+        this._evict(root, stashes);
+        if (!needle) {
+            return [];
+        }
+
+        const matches: StashContentMatch[] = [];
+        for (const entry of stashes) {
+            const hunks = await this._load(gitService, root, entry);
+            for (const hunk of hunks) {
+                for (const match of StashSearchIndex.matchHunk(hunk, needle)) {
+                    matches.push({
+                        stashIndex: entry.index,
+                        stashName: entry.name,
+                        sha: entry.sha,
+                        message: entry.message,
+                        filePath: hunk.filePath,
+                        hunkHeader: hunk.header,
+                        ...match,
+                    });
+                    if (matches.length >= limit) {
+                        return matches;
+                    }
+                }
+            }
+        }
+        return matches;
+    }
+
+    /** SHAs of the `stashes` with at least one changed line containing `query`. */
+    async matchingShas(
+        gitService: GitService,
+        stashes: readonly StashEntry[],
+        query: string,
+    ): Promise<Set<string>> {
+        const needle = query.trim().toLowerCase();
+        const root = gitService.workspaceRoot ?? '';
+        this._evict(root, stashes);
+        const shas = new Set<string>();
+        if (!needle) {
+            return shas;
+        }
+        for (const entry of stashes) {
+            const hunks = await this._load(gitService, root, entry);
+            if (hunks.some((hunk) => StashSearchIndex.matchHunk(hunk, needle).length > 0)) {
+                shas.add(entry.sha);
+            }
+        }
+        return shas;
+    }
+
+    /** Forget every cached diff. */
+    clear(): void {
+        this._cache.clear();
+    }
+
+    private async _load(
+        gitService: GitService,
+        root: string,
+        entry: StashEntry,
+    ): Promise<DiffHunk[]> {
+        const cached = this._cache.get(entry.sha);
+        if (cached) {
+            return cached.hunks;
+        }
+        let hunks: DiffHunk[];
+        try {
+            hunks = GitService.parseDiffHunks(
+                await gitService.getStashDiff(entry.index, entry.sha),
+            );
+        } catch {
+            // Unreadable stash (e.g. dropped mid-search) — skip it, and retry next time
+            return [];
+        }
+        this._cache.set(entry.sha, { root, hunks });
+        return hunks;
+    }
+
+    /** Drop cached diffs of this repository's stashes that are gone. */
+    private _evict(root: string, stashes: readonly StashEntry[]): void {
+        const live = new Set(stashes.map((s) => s.sha));
+        for (const [sha, cached] of this._cache) {
+            if (cached.root === root && !live.has(sha)) {
+                this._cache.delete(sha);
+            }
+        }
+    }
+
+    /** Changed lines of `hunk` containing `needle` (already lower-cased), with line numbers. */
+    static matchHunk(hunk: DiffHunk, needle: string): LineMatch[] {
+        const start = hunk.header.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+        let oldLine = start ? parseInt(start[1], 10) : 1;
+        let newLine = start ? parseInt(start[2], 10) : 1;
+
+        const found: LineMatch[] = [];
+        for (const line of hunk.lines) {
+            const text = line.slice(1);
+            if (line.startsWith('+')) {
+                if (text.toLowerCase().includes(needle)) {
+                    found.push({ text, kind: 'added', line: newLine, stashLine: newLine });
+                }
+                newLine++;
+            } else if (line.startsWith('-')) {
+                if (text.toLowerCase().includes(needle)) {
+                    found.push({ text, kind: 'removed', line: oldLine, stashLine: newLine });
+                }
+                oldLine++;
+            } else if (!line.startsWith('\\')) {
+                // Context line ("\ No newline at end of file" belongs to neither side)
+                oldLine++;
+                newLine++;
+            }
+        }
+        return found;
+    }
+}
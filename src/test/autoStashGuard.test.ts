@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import type * as vscode from 'vscode';
+import { AutoStashGuard } from '../autoStashGuard';
+import type { GitService, StashEntry } from '../gitService';
+import type { RepositoryManager } from '../repositoryManager';
+
+/**
+ * Unit tests for AutoStashGuard — which stash gets recorded around a PR
+ * checkout (always guarded with the default settings), against a fake
+ * GitService whose stash list is a plain array.
+ */
+
+function makeEntry(sha: string, message: string): StashEntry {
+    return {
+        index: 0,
+        name: 'stash@{0}',
+        sha,
+        branch: 'main',
+        message,
+        date: new Date('2026-02-10T14:00:00Z'),
+    };
+}
+
+/** vscode.Memento backed by a Map */
+function mockMemento(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: <T>(key: string, defaultValue?: T) =>
+            (values.has(key) ? values.get(key) : defaultValue) as T,
+        update: async (key: string, value: unknown) => {
+            values.set(key, value);
+        },
+    };
+}
+
+/** A GitService stand-in with a dirty tree; `stashes` says whether `createStash` stashes anything */
+function fakeGit(stashList: StashEntry[], stashes: boolean): GitService {
+    return {
+        hasChanges: async () => true,
+        getRepositoryRoot: async () => '/repo',
+        getCurrentBranch: async () => 'main',
+        createStash: async (message: string) => {
+            if (stashes) {
+                stashList.unshift(makeEntry('f'.repeat(40), message));
+            }
+        },
+        getStashList: async () => [...stashList],
+    } as unknown as GitService;
+}
+
+const checkout = { kind: 'checkout', target: 'pr-7', pullRequest: 7 } as const;
+
+suite('AutoStashGuard Unit Tests', () => {
+    test('records the stash it made before a PR checkout', async () => {
+        const guard = new AutoStashGuard({} as RepositoryManager, mockMemento());
+        const git = fakeGit([makeEntry('a'.repeat(40), 'older')], true);
+
+        assert.strictEqual(await guard.run(git, checkout, async () => {}), true);
+
+        const record = guard.recordForPullRequest('/repo', 7);
+        assert.strictEqual(record?.sha, 'f'.repeat(40));
+        assert.strictEqual(record?.branch, 'main');
+        assert.strictEqual(guard.recordFor('a'.repeat(40)), undefined);
+    });
+
+    test('records nothing when there was nothing to stash', async () => {
+        const guard = new AutoStashGuard({} as RepositoryManager, mockMemento());
+        const git = fakeGit([makeEntry('a'.repeat(40), 'older')], false);
+
+        assert.strictEqual(await guard.run(git, checkout, async () => {}), true);
+
+        assert.strictEqual(guard.recordForPullRequest('/repo', 7), undefined);
+        assert.strictEqual(guard.recordFor('a'.repeat(40)), undefined);
+    });
+});
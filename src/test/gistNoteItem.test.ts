@@ -1,6 +1,6 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { GistNoteItem } from '../gistNoteItem';
+import { GistNoteItem, NoteFolderItem } from '../gistNoteItem';
 import { type GistNote } from '../gistService';
 
 /**
@@ -19,6 +19,11 @@ function makeNote(overrides: Partial<GistNote> = {}): GistNote {
         htmlUrl: 'https://gist.github.com/gist-abc',
         description: '[Superprompt Forge] Test Note',
         linkedRepo: null,
+        linkedPaths: [],
+        tags: [],
+        folder: null,
+        mainFile: 'Test-Note.md',
+        files: [{ filename: 'Test-Note.md', content: '# Test\n\nContent here.', kind: 'markdown' }],
         ...overrides,
     };
 }
@@ -56,6 +61,33 @@ suite('GistNoteItem Tests', () => {
         );
     });
 
+    test('description counts the files of multi-file notes', () => {
+        const single = new GistNoteItem(makeNote());
+        const multi = new GistNoteItem(
+            makeNote({
+                files: [
+                    { filename: 'Test-Note.md', content: '# Test', kind: 'markdown' },
+                    { filename: 'setup.sh', content: 'npm ci', kind: 'code' },
+                ],
+            }),
+        );
+        assert.ok(!String(single.description).includes('files'));
+        assert.ok(String(multi.description).endsWith('· 2 files'));
+    });
+
+    test('description lists tags', () => {
+        const item = new GistNoteItem(makeNote({ tags: ['ops', 'runbook'] }));
+        assert.ok(String(item.description).endsWith('· #ops · #runbook'));
+    });
+
+    test('folder item is labelled with its last segment', () => {
+        const folder = new NoteFolderItem('Work/Incidents', 3);
+        assert.strictEqual(folder.label, 'Incidents');
+        assert.strictEqual(folder.description, '3');
+        assert.strictEqual(folder.contextValue, 'gistNoteFolder');
+        assert.strictEqual(folder.collapsibleState, vscode.TreeItemCollapsibleState.Collapsed);
+    });
+
     test('iconPath is "note" for secret notes', () => {
         const item = new GistNoteItem(makeNote({ isPublic: false }));
         assert.ok(item.iconPath instanceof vscode.ThemeIcon);
@@ -68,6 +100,11 @@ suite('GistNoteItem Tests', () => {
         assert.strictEqual((item.iconPath as vscode.ThemeIcon).id, 'globe');
     });
 
+    test('iconPath is "pinned" for notes of the workspace repository', () => {
+        const item = new GistNoteItem(makeNote({ linkedRepo: 'acme/app' }), undefined, true);
+        assert.strictEqual((item.iconPath as vscode.ThemeIcon).id, 'pinned');
+    });
+
     test('contextValue is "gistNote" for secret notes', () => {
         const item = new GistNoteItem(makeNote({ isPublic: false }));
         assert.strictEqual(item.contextValue, 'gistNote');
@@ -1,5 +1,5 @@
 import * as assert from 'assert';
-import { GistService, type GistNote, type FetchFn } from '../gistService';
+import { GistOfflineError, GistService, type GistNote, type FetchFn } from '../gistService';
 import type { AuthService } from '../authService';
 import type * as vscode from 'vscode';
 
@@ -61,10 +61,18 @@ function makeGist(
         isPublic?: boolean;
         createdAt?: string;
         updatedAt?: string;
+        extraFiles?: Record<string, string>;
     } = {},
 ) {
     const title = overrides.title ?? 'Test Note';
     const content = overrides.content ?? '# Test Note\n\nHello world.';
+    const filename = `${title.replace(/\s+/g, '-')}.md`;
+    const extraFiles = Object.fromEntries(
+        Object.entries(overrides.extraFiles ?? {}).map(([name, body]) => [
+            name,
+            { filename: name, content: body },
+        ]),
+    );
     return {
         id: overrides.id ?? 'gist123',
         description: `[Superprompt Forge] ${title}`,
@@ -74,8 +82,9 @@ function makeGist(
         updated_at: overrides.updatedAt ?? '2026-02-10T15:00:00Z',
         files: {
             '.superprompt-forge-note': { filename: '.superprompt-forge-note', content: '{"v":1}' },
-            'Test-Note.md': { filename: 'Test-Note.md', content },
-        },
+            ...extraFiles,
+            [filename]: { filename, content },
+        } as Record<string, { filename: string; content: string }>,
     };
 }
 
@@ -279,6 +288,43 @@ suite('GistService Unit Tests', () => {
             const mdContent = body.files['Empty.md'].content;
             assert.ok(mdContent.startsWith('# Empty'));
         });
+
+        test('includes attachment files alongside the note', async () => {
+            const createdGist = makeGist({ id: 'att1', title: 'Shared Stash' });
+            const fetch = mockFetch([{ status: 201, body: createdGist }]);
+            const svc = createService(fetch);
+            await svc.createNote('Shared Stash', '# Shared', false, undefined, {
+                'stash-bundle.json': '{}',
+            });
+
+            const body = JSON.parse(fetch.calls[0].init.body as string);
+            assert.strictEqual(body.files['stash-bundle.json'].content, '{}');
+            assert.ok(body.files['Shared-Stash.md']);
+        });
+    });
+
+    // ─── getGistFiles / parseGistId ───────────────────────────────
+
+    suite('getGistFiles / parseGistId', () => {
+        test('returns every file in the gist by name', async () => {
+            const fetch = mockFetch([{ status: 200, body: makeGist({ id: 'g1' }) }]);
+            const svc = createService(fetch);
+            const files = await svc.getGistFiles('g1');
+
+            assert.ok(fetch.calls[0].url.endsWith('/gists/g1'));
+            assert.deepStrictEqual(Object.keys(files).sort(), [
+                '.superprompt-forge-note',
+                'Test-Note.md',
+            ]);
+        });
+
+        test('accepts gist URLs and bare IDs', () => {
+            const id = 'aa11bb22cc33dd44ee55ff66';
+            assert.strictEqual(GistService.parseGistId(id), id);
+            assert.strictEqual(GistService.parseGistId(`https://gist.github.com/octo/${id}`), id);
+            assert.strictEqual(GistService.parseGistId(`https://gist.github.com/${id}/`), id);
+            assert.strictEqual(GistService.parseGistId('not a gist'), undefined);
+        });
     });
 
     // ─── updateNote ───────────────────────────────────────────────
@@ -324,6 +370,107 @@ suite('GistService Unit Tests', () => {
         });
     });
 
+    // ─── Note files ───────────────────────────────────────────────
+
+    suite('note files', () => {
+        const runbook = () =>
+            makeGist({
+                id: 'f1',
+                title: 'Runbook',
+                extraFiles: {
+                    'deploy.sh': 'echo deploy',
+                    'diagram.png.base64': 'iVBORw0KGgo=',
+                    'Appendix.md': '# Appendix',
+                },
+            });
+
+        test('lists every file with its kind, main page first', async () => {
+            const fetch = mockFetch([{ status: 200, body: runbook() }]);
+            const note = await createService(fetch).getNote('f1');
+
+            assert.strictEqual(note.mainFile, 'Runbook.md');
+            assert.strictEqual(note.content, '# Test Note\n\nHello world.');
+            assert.deepStrictEqual(
+                note.files.map((f) => [f.filename, f.kind]),
+                [
+                    ['Runbook.md', 'markdown'],
+                    ['deploy.sh', 'code'],
+                    ['diagram.png.base64', 'image'],
+                    ['Appendix.md', 'markdown'],
+                ],
+            );
+        });
+
+        test('saveNoteFile patches only that file', async () => {
+            const fetch = mockFetch([{ status: 200, body: runbook() }]);
+            await createService(fetch).saveNoteFile('f1', 'config.yaml', 'port: 8080');
+
+            const body = JSON.parse(fetch.calls[0].init.body as string);
+            assert.strictEqual(fetch.calls[0].init.method, 'PATCH');
+            assert.deepStrictEqual(body, { files: { 'config.yaml': { content: 'port: 8080' } } });
+        });
+
+        test('rejects the marker file name', async () => {
+            const svc = createService(mockFetch([]));
+            await assert.rejects(
+                () => svc.saveNoteFile('f1', '.superprompt-forge-note', '{}'),
+                /reserved/,
+            );
+        });
+
+        test('renameNoteFile renames via the filename field', async () => {
+            const fetch = mockFetch([
+                { status: 200, body: runbook() },
+                { status: 200, body: runbook() },
+            ]);
+            await createService(fetch).renameNoteFile('f1', 'deploy.sh', 'release.sh');
+
+            const body = JSON.parse(fetch.calls[1].init.body as string);
+            assert.deepStrictEqual(body, { files: { 'deploy.sh': { filename: 'release.sh' } } });
+        });
+
+        test('refuses to rename or delete the main page', async () => {
+            const fetch = mockFetch([
+                { status: 200, body: runbook() },
+                { status: 200, body: runbook() },
+            ]);
+            const svc = createService(fetch);
+
+            await assert.rejects(() => svc.renameNoteFile('f1', 'Runbook.md', 'x.md'), /main page/);
+            await assert.rejects(() => svc.deleteNoteFile('f1', 'Runbook.md'), /main page/);
+            assert.strictEqual(fetch.calls.length, 2); // the GETs only
+        });
+
+        test('deleteNoteFile sends null for the file', async () => {
+            const fetch = mockFetch([
+                { status: 200, body: runbook() },
+                { status: 200, body: runbook() },
+            ]);
+            await createService(fetch).deleteNoteFile('f1', 'deploy.sh');
+
+            const body = JSON.parse(fetch.calls[1].init.body as string);
+            assert.deepStrictEqual(body, { files: { 'deploy.sh': null } });
+        });
+
+        test('toggleVisibility carries the extra files over', async () => {
+            const fetch = mockFetch([
+                { status: 200, body: runbook() },
+                { status: 204 },
+                { status: 201, body: runbook() },
+            ]);
+            await createService(fetch).toggleVisibility('f1');
+
+            const body = JSON.parse(fetch.calls[2].init.body as string);
+            assert.deepStrictEqual(Object.keys(body.files).sort(), [
+                '.superprompt-forge-note',
+                'Appendix.md',
+                'Runbook.md',
+                'deploy.sh',
+                'diagram.png.base64',
+            ]);
+        });
+    });
+
     // ─── deleteNote ───────────────────────────────────────────────
 
     suite('deleteNote', () => {
@@ -361,6 +508,312 @@ suite('GistService Unit Tests', () => {
         });
     });
 
+    // ─── Revisions ────────────────────────────────────────────────
+
+    suite('revisions', () => {
+        test('listRevisions maps the history array', async () => {
+            const gist = {
+                ...makeGist({ id: 'r1' }),
+                history: [
+                    {
+                        version: 'v2',
+                        committed_at: '2026-02-11T09:00:00Z',
+                        user: { login: 'octocat' },
+                        change_status: { additions: 3, deletions: 1, total: 4 },
+                    },
+                    {
+                        version: 'v1',
+                        committed_at: '2026-02-10T09:00:00Z',
+                        user: null,
+                        change_status: {},
+                    },
+                ],
+            };
+            const revisions = await createService(
+                mockFetch([{ status: 200, body: gist }]),
+            ).listRevisions('r1');
+
+            assert.deepStrictEqual(
+                revisions.map((r) => [r.version, r.author, r.additions, r.deletions]),
+                [
+                    ['v2', 'octocat', 3, 1],
+                    ['v1', null, 0, 0],
+                ],
+            );
+            assert.strictEqual(revisions[0].committedAt.toISOString(), '2026-02-11T09:00:00.000Z');
+        });
+
+        test('getRevision fetches a version once', async () => {
+            const fetch = mockFetch([
+                { status: 200, body: makeGist({ id: 'r1', content: '# Old' }) },
+            ]);
+            const svc = createService(fetch);
+
+            const first = await svc.getRevision('r1', 'v1');
+            const second = await svc.getRevision('r1', 'v1');
+
+            assert.strictEqual(first.content, '# Old');
+            assert.strictEqual(second, first);
+            assert.strictEqual(fetch.calls.length, 1);
+            assert.ok(fetch.calls[0].url.endsWith('/gists/r1/v1'));
+        });
+
+        test('diffRevisions lists changed files with hunks', async () => {
+            const fetch = mockFetch([
+                {
+                    status: 200,
+                    body: makeGist({ id: 'r1', content: 'a\nb\n', extraFiles: { 'x.sh': 'x' } }),
+                },
+                {
+                    status: 200,
+                    body: makeGist({
+                        id: 'r1',
+                        content: 'a\nc\n',
+                        extraFiles: { 'y.svg': '<svg/>' },
+                    }),
+                },
+            ]);
+            const diffs = await createService(fetch).diffRevisions('r1', 'v1', 'v2');
+
+            assert.deepStrictEqual(
+                diffs.map((d) => [d.filename, d.status]),
+                [
+                    ['Test-Note.md', 'modified'],
+                    ['x.sh', 'removed'],
+                    ['y.svg', 'added'],
+                ],
+            );
+            assert.strictEqual(diffs[0].diff, '@@ -1,2 +1,2 @@\n a\n-b\n+c\n');
+            assert.strictEqual(diffs[2].diff, '');
+        });
+
+        test('restoreRevision writes the old files and removes newer ones', async () => {
+            const current = makeGist({
+                id: 'r1',
+                title: 'Plan',
+                content: '# New',
+                extraFiles: { 'added-later.sh': 'echo' },
+            });
+            const old = makeGist({
+                id: 'r1',
+                title: 'Plan',
+                content: '# Old',
+                extraFiles: { 'notes.txt': 'kept' },
+            });
+            const fetch = mockFetch([
+                { status: 200, body: current },
+                { status: 200, body: old },
+                { status: 200, body: old },
+            ]);
+            await createService(fetch).restoreRevision('r1', 'v1');
+
+            const body = JSON.parse(fetch.calls[2].init.body as string);
+            assert.strictEqual(fetch.calls[2].init.method, 'PATCH');
+            assert.deepStrictEqual(body.files, {
+                'Plan.md': { content: '# Old' },
+                'added-later.sh': null,
+                'notes.txt': { content: 'kept' },
+            });
+        });
+    });
+
+    // ─── Workspace links ──────────────────────────────────────────
+
+    suite('workspace links', () => {
+        test('reads links of listed notes from the marker raw URL, once', async () => {
+            // The list API omits file contents
+            const listed = makeGist({ id: 'wl1', title: 'Linked' });
+            listed.files['.superprompt-forge-note'] = {
+                filename: '.superprompt-forge-note',
+                raw_url: 'https://gist.githubusercontent.com/wl1/raw/abc/.superprompt-forge-note',
+            } as unknown as { filename: string; content: string };
+
+            const fetch = mockFetch([
+                { status: 200, body: [listed] },
+                { status: 200, body: { v: 1, repo: 'acme/app', paths: ['src/api/'] } },
+                { status: 200, body: [listed] },
+            ]);
+            const svc = createService(fetch);
+            await svc.listNotes();
+            const [note] = await svc.listNotes();
+
+            assert.strictEqual(note.linkedRepo, 'acme/app');
+            assert.deepStrictEqual(note.linkedPaths, ['src/api/']);
+            assert.strictEqual(fetch.calls.length, 3);
+        });
+
+        test('fetches marker files of listed notes a few at a time', async () => {
+            const listed = Array.from({ length: 25 }, (_, i) => {
+                const gist = makeGist({ id: `wb${i}` });
+                gist.files['.superprompt-forge-note'] = {
+                    filename: '.superprompt-forge-note',
+                    raw_url: `https://gist.githubusercontent.com/wb${i}/raw/abc/.superprompt-forge-note`,
+                } as unknown as { filename: string; content: string };
+                return gist;
+            });
+
+            let inFlight = 0;
+            let maxInFlight = 0;
+            let rawFetches = 0;
+            const fetch = (async (input: string | URL | Request) => {
+                if (String(input).startsWith('https://api.github.com/')) {
+                    return new Response(JSON.stringify(listed), {
+                        status: 200,
+                        headers: { 'Content-Type': 'application/json' },
+                    });
+                }
+                rawFetches++;
+                maxInFlight = Math.max(maxInFlight, ++inFlight);
+                await new Promise((resolve) => setTimeout(resolve, 1));
+                inFlight--;
+                return new Response('{"v":1}', { status: 200 });
+            }) as FetchFn;
+            const svc = createService(fetch);
+
+            assert.strictEqual((await svc.listNotes()).length, 25);
+            assert.strictEqual(rawFetches, 25);
+            assert.strictEqual(maxInFlight, 10);
+        });
+
+        test('linkToPath adds the path and keeps the repository link', async () => {
+            const current = makeGist({ id: 'wl2' });
+            current.files['.superprompt-forge-note'].content = JSON.stringify({
+                v: 1,
+                repo: 'acme/app',
+                paths: ['README.md'],
+            });
+            const fetch = mockFetch([
+                { status: 200, body: current },
+                { status: 200, body: current },
+                { status: 200, body: current },
+            ]);
+            const svc = createService(fetch);
+            await svc.linkToPath('wl2', 'acme/app', 'src/index.ts');
+
+            const body = JSON.parse(fetch.calls[1].init.body as string);
+            assert.deepStrictEqual(JSON.parse(body.files['.superprompt-forge-note'].content), {
+                v: 1,
+                repo: 'acme/app',
+                paths: ['README.md', 'src/index.ts'],
+            });
+        });
+
+        test('linkToRepo drops the paths of another repository', async () => {
+            const current = makeGist({ id: 'wl3' });
+            current.files['.superprompt-forge-note'].content = JSON.stringify({
+                v: 1,
+                repo: 'acme/app',
+                paths: ['README.md'],
+            });
+            const fetch = mockFetch([
+                { status: 200, body: current },
+                { status: 200, body: current },
+                { status: 200, body: current },
+            ]);
+            const svc = createService(fetch);
+            await svc.linkToRepo('wl3', 'acme/other');
+
+            const body = JSON.parse(fetch.calls[1].init.body as string);
+            assert.deepStrictEqual(JSON.parse(body.files['.superprompt-forge-note'].content), {
+                v: 1,
+                repo: 'acme/other',
+            });
+        });
+    });
+
+    // ─── Tags and folders ─────────────────────────────────────────
+
+    suite('tags and folders', () => {
+        test('reads tags and folder from the marker file', async () => {
+            const gist = makeGist({ id: 'tf1' });
+            gist.files['.superprompt-forge-note'].content = JSON.stringify({
+                v: 1,
+                tags: ['#Ops', 'ops', 'on call'],
+                folder: ' Work / Incidents ',
+            });
+            const fetch = mockFetch([{ status: 200, body: gist }]);
+            const note = await createService(fetch).getNote('tf1');
+
+            assert.deepStrictEqual(note.tags, ['on-call', 'ops']);
+            assert.strictEqual(note.folder, 'Work/Incidents');
+        });
+
+        test('setTags keeps the workspace link and folder', async () => {
+            const current = makeGist({ id: 'tf2' });
+            current.files['.superprompt-forge-note'].content = JSON.stringify({
+                v: 1,
+                repo: 'acme/app',
+                folder: 'Work',
+            });
+            const fetch = mockFetch([
+                { status: 200, body: current },
+                { status: 200, body: current },
+                { status: 200, body: current },
+            ]);
+            await createService(fetch).setTags('tf2', ['Deploy', '#deploy', 'infra']);
+
+            const body = JSON.parse(fetch.calls[1].init.body as string);
+            assert.deepStrictEqual(JSON.parse(body.files['.superprompt-forge-note'].content), {
+                v: 1,
+                repo: 'acme/app',
+                tags: ['deploy', 'infra'],
+                folder: 'Work',
+            });
+        });
+
+        test('moveToFolder with an empty path moves to the top level', async () => {
+            const current = makeGist({ id: 'tf3' });
+            current.files['.superprompt-forge-note'].content = JSON.stringify({
+                v: 1,
+                tags: ['ops'],
+                folder: 'Work',
+            });
+            const fetch = mockFetch([
+                { status: 200, body: current },
+                { status: 200, body: current },
+                { status: 200, body: current },
+            ]);
+            await createService(fetch).moveToFolder('tf3', ' / ');
+
+            const body = JSON.parse(fetch.calls[1].init.body as string);
+            assert.deepStrictEqual(JSON.parse(body.files['.superprompt-forge-note'].content), {
+                v: 1,
+                tags: ['ops'],
+            });
+        });
+    });
+
+    // ─── Pages ────────────────────────────────────────────────────
+
+    suite('getPages', () => {
+        test('reads the main pages of listed notes from their raw URLs, once', async () => {
+            const listed = makeGist({ id: 'pg1', title: 'Runbook' });
+            listed.files['Runbook.md'] = {
+                filename: 'Runbook.md',
+                raw_url: 'https://gist.githubusercontent.com/pg1/raw/abc/Runbook.md',
+            } as unknown as { filename: string; content: string };
+
+            const urls: string[] = [];
+            const fetch = (async (input: string | URL | Request) => {
+                const url = String(input);
+                urls.push(url);
+                return url.startsWith('https://api.github.com/gists?')
+                    ? new Response(JSON.stringify(url.includes('page=1') ? [listed] : []), {
+                          status: 200,
+                          headers: { 'Content-Type': 'application/json' },
+                      })
+                    : new Response('# Runbook\n\nSee [[Deploy]].', { status: 200 });
+            }) as FetchFn;
+            const svc = createService(fetch);
+            await svc.listNotes();
+
+            const pages = await svc.getPages(['pg1', 'unknown']);
+            await svc.getPages(['pg1']);
+            assert.deepStrictEqual([...pages], [['pg1', '# Runbook\n\nSee [[Deploy]].']]);
+            assert.strictEqual(urls.filter((u) => u.endsWith('/Runbook.md')).length, 1);
+        });
+    });
+
     // ─── toData ───────────────────────────────────────────────────
 
     suite('toData', () => {
@@ -375,6 +828,11 @@ suite('GistService Unit Tests', () => {
                 htmlUrl: 'https://gist.github.com/td1',
                 description: '[Superprompt Forge] Data Test',
                 linkedRepo: null,
+                linkedPaths: [],
+                tags: ['ops'],
+                folder: 'Work',
+                mainFile: 'Data-Test.md',
+                files: [{ filename: 'Data-Test.md', content: '# Hello', kind: 'markdown' }],
             };
             const data = GistService.toData(note);
 
@@ -383,6 +841,8 @@ suite('GistService Unit Tests', () => {
             assert.strictEqual(data.createdAt, '2026-02-10T14:00:00.000Z');
             assert.strictEqual(data.updatedAt, '2026-02-10T15:00:00.000Z');
             assert.strictEqual(typeof data.createdAt, 'string');
+            assert.deepStrictEqual(data.tags, ['ops']);
+            assert.strictEqual(data.folder, 'Work');
         });
     });
 
@@ -410,6 +870,13 @@ suite('GistService Unit Tests', () => {
             await assert.rejects(() => svc.getNote('missing'), /not found/i);
         });
 
+        test('throws GistOfflineError when fetch itself fails', async () => {
+            const offline: FetchFn = async () => {
+                throw new TypeError('fetch failed');
+            };
+            await assert.rejects(() => createService(offline).listNotes(), GistOfflineError);
+        });
+
         test('throws on unauthenticated (no token)', async () => {
             const auth = mockAuthService('');
             // getToken returns empty string; service should check for falsy token
@@ -1,5 +1,7 @@
 import * as assert from 'assert';
-import { GitService, type ExecFn, StashEntry, GitResult } from '../gitService';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitService, StashChangedError, type ExecFn, StashEntry, GitResult } from '../gitService';
 
 /**
  * Unit tests for GitService — uses injectable ExecFn to mock git CLI output.
@@ -44,7 +46,7 @@ suite('GitService Unit Tests', () => {
         test('parses standard stash entry with message', async () => {
             const exec = mockExec([
                 {
-                    stdout: 'stash@{0}|2026-02-10 14:23:05 -0600|On main: fix login bug',
+                    stdout: 'stash@{0}|aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0|2026-02-10 14:23:05 -0600|On main: fix login bug',
                 },
             ]);
             const svc = new GitService('/fake/root', undefined, exec);
@@ -53,6 +55,7 @@ suite('GitService Unit Tests', () => {
             assert.strictEqual(list.length, 1);
             assert.strictEqual(list[0].index, 0);
             assert.strictEqual(list[0].name, 'stash@{0}');
+            assert.strictEqual(list[0].sha, 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0');
             assert.strictEqual(list[0].branch, 'main');
             assert.strictEqual(list[0].message, 'fix login bug');
         });
@@ -60,7 +63,7 @@ suite('GitService Unit Tests', () => {
         test('parses WIP stash with no user message', async () => {
             const exec = mockExec([
                 {
-                    stdout: 'stash@{0}|2026-02-10 14:23:05 -0600|WIP on feature: abc1234 commit msg',
+                    stdout: 'stash@{0}|aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0|2026-02-10 14:23:05 -0600|WIP on feature: abc1234 commit msg',
                 },
             ]);
             const svc = new GitService('/fake/root', undefined, exec);
@@ -73,7 +76,7 @@ suite('GitService Unit Tests', () => {
         test('parses stash with user message containing pipes', async () => {
             const exec = mockExec([
                 {
-                    stdout: 'stash@{0}|2026-02-10 14:23:05 -0600|On main: fix|something|weird',
+                    stdout: 'stash@{0}|aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0|2026-02-10 14:23:05 -0600|On main: fix|something|weird',
                 },
             ]);
             const svc = new GitService('/fake/root', undefined, exec);
@@ -86,9 +89,9 @@ suite('GitService Unit Tests', () => {
             const exec = mockExec([
                 {
                     stdout: [
-                        'stash@{0}|2026-02-10 14:23:05 -0600|On main: newest',
-                        'stash@{1}|2026-02-09 10:00:00 -0600|On dev: middle',
-                        'stash@{2}|2026-02-08 09:00:00 -0600|On main: oldest',
+                        'stash@{0}|aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0|2026-02-10 14:23:05 -0600|On main: newest',
+                        'stash@{1}|aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1|2026-02-09 10:00:00 -0600|On dev: middle',
+                        'stash@{2}|aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa2|2026-02-08 09:00:00 -0600|On main: oldest',
                     ].join('\n'),
                 },
             ]);
@@ -124,7 +127,7 @@ suite('GitService Unit Tests', () => {
         test('handles stash on branch with slashes', async () => {
             const exec = mockExec([
                 {
-                    stdout: 'stash@{0}|2026-02-10 14:23:05 -0600|On feature/auth/login: my stash',
+                    stdout: 'stash@{0}|aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0|2026-02-10 14:23:05 -0600|On feature/auth/login: my stash',
                 },
             ]);
             const svc = new GitService('/fake/root', undefined, exec);
@@ -137,7 +140,7 @@ suite('GitService Unit Tests', () => {
         test('handles WIP stash with only commit hash as message', async () => {
             const exec = mockExec([
                 {
-                    stdout: 'stash@{0}|2026-02-10 14:23:05 -0600|WIP on main: abc1234',
+                    stdout: 'stash@{0}|aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0|2026-02-10 14:23:05 -0600|WIP on main: abc1234',
                 },
             ]);
             const svc = new GitService('/fake/root', undefined, exec);
@@ -147,13 +150,67 @@ suite('GitService Unit Tests', () => {
         });
     });
 
+    suite('stash metadata (git notes)', () => {
+        const sha0 = 'a'.repeat(40);
+        const sha1 = 'b'.repeat(40);
+
+        test('reads notes for all SHAs in one call and skips stashes without one', async () => {
+            const exec = mockExec([
+                {
+                    stdout: `${sha0}\x1f\x1e\n${sha1}\x1f{"tags":["wip","auth"],"description":"halfway","pinned":true}\n\x1e`,
+                },
+            ]);
+            const svc = new GitService('/fake/root', undefined, exec);
+            const meta = await svc.getStashMetadata([sha0, sha1]);
+
+            assert.strictEqual(meta.size, 1);
+            assert.deepStrictEqual(meta.get(sha1), {
+                tags: ['wip', 'auth'],
+                description: 'halfway',
+                pinned: true,
+            });
+            const call = (exec as ExecFn & { calls: string[] }).calls[0];
+            assert.ok(call.includes('--notes=superprompt-forge'));
+            assert.ok(call.endsWith(`${sha0} ${sha1}`));
+        });
+
+        test('makes no git call when there are no SHAs', async () => {
+            const exec = mockExec([]);
+            const svc = new GitService('/fake/root', undefined, exec);
+            const meta = await svc.getStashMetadata([]);
+
+            assert.strictEqual(meta.size, 0);
+            assert.strictEqual((exec as ExecFn & { calls: string[] }).calls.length, 0);
+        });
+
+        test('removes the note when metadata is empty', async () => {
+            const exec = mockExec([{ stdout: '' }]);
+            const svc = new GitService('/fake/root', undefined, exec);
+            await svc.setStashMetadata(sha0, { tags: [], description: ' ', pinned: false });
+
+            assert.strictEqual(
+                (exec as ExecFn & { calls: string[] }).calls[0],
+                `git notes --ref=superprompt-forge remove --ignore-missing ${sha0}`,
+            );
+        });
+
+        test('parseStashMetadata tolerates partial and foreign notes', () => {
+            assert.deepStrictEqual(GitService.parseStashMetadata('{"tags":["x",1]}'), {
+                tags: ['x'],
+                description: '',
+                pinned: false,
+            });
+            assert.strictEqual(GitService.parseStashMetadata('not json'), undefined);
+        });
+    });
+
     // ─── 10a-ii: Date parsing ────────────────────────────────────
 
     suite('getStashList — date parsing', () => {
         test('parses ISO date string into Date object', async () => {
             const exec = mockExec([
                 {
-                    stdout: 'stash@{0}|2026-02-10 14:23:05 -0600|On main: test',
+                    stdout: 'stash@{0}|aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0|2026-02-10 14:23:05 -0600|On main: test',
                 },
             ]);
             const svc = new GitService('/fake/root', undefined, exec);
@@ -166,7 +223,7 @@ suite('GitService Unit Tests', () => {
         test('falls back to current date on invalid date string', async () => {
             const exec = mockExec([
                 {
-                    stdout: 'stash@{0}|not-a-date|On main: test',
+                    stdout: 'stash@{0}|aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0|not-a-date|On main: test',
                 },
             ]);
             const svc = new GitService('/fake/root', undefined, exec);
@@ -326,6 +383,323 @@ suite('GitService Unit Tests', () => {
 
             await assert.rejects(() => svc.createStash('test'), /No local changes to save/);
         });
+
+        test('appends quoted pathspec when paths are given', async () => {
+            const exec = mockExec([{ stdout: '' }]);
+            const svc = new GitService('/fake/root', undefined, exec);
+            await svc.createStash('partial', 'all', ['src/a.ts', 'my file.txt']);
+
+            assert.ok(
+                (exec as ExecFn & { calls: string[] }).calls[0].endsWith(
+                    '-m "partial" -- "src/a.ts" "my file.txt"',
+                ),
+            );
+        });
+
+        test('escapes shell characters in file names and the message', async () => {
+            const exec = mockExec([{ stdout: '' }]);
+            const svc = new GitService('/fake/root', undefined, exec);
+            await svc.createStash('say "hi"', 'untracked', ['$(touch pwned)', 'a`id`.txt']);
+
+            assert.ok(
+                (exec as ExecFn & { calls: string[] }).calls[0].endsWith(
+                    '-m "say \\"hi\\"" -- "\\$(touch pwned)" "a\\`id\\`.txt"',
+                ),
+            );
+        });
+    });
+
+    // ─── Partial stash: working changes and hunks ────────────────
+
+    suite('getWorkingChanges — porcelain status parsing', () => {
+        test('parses modified, untracked, staged and renamed files', async () => {
+            const exec = mockExec([
+                {
+                    stdout: [
+                        ' M src/a.ts',
+                        '?? notes.txt',
+                        'A  src/new.ts',
+                        'R  old.ts -> renamed.ts',
+                    ].join('\n'),
+                },
+            ]);
+            const svc = new GitService('/fake/root', undefined, exec);
+            const files = await svc.getWorkingChanges();
+
+            assert.deepStrictEqual(files, [
+                { path: 'src/a.ts', status: 'M' },
+                { path: 'notes.txt', status: '?' },
+                { path: 'src/new.ts', status: 'A' },
+                { path: 'renamed.ts', status: 'R' },
+            ]);
+        });
+
+        test('returns empty array for a clean tree', async () => {
+            const exec = mockExec([{ stdout: '' }]);
+            const svc = new GitService('/fake/root', undefined, exec);
+            assert.deepStrictEqual(await svc.getWorkingChanges(), []);
+        });
+    });
+
+    suite('parseDiffHunks / buildPatch', () => {
+        const diff = [
+            'diff --git a/src/a.ts b/src/a.ts',
+            'index 1111111..2222222 100644',
+            '--- a/src/a.ts',
+            '+++ b/src/a.ts',
+            '@@ -1,3 +1,3 @@',
+            ' one',
+            '-two',
+            '+TWO',
+            ' three',
+            '@@ -10,2 +10,3 @@ function f() {',
+            ' ten',
+            '+ten-and-a-half',
+            '',
+        ].join('\n');
+
+        test('splits a file diff into hunks with stable ids', () => {
+            const hunks = GitService.parseDiffHunks(diff);
+
+            assert.strictEqual(hunks.length, 2);
+            assert.strictEqual(hunks[0].filePath, 'src/a.ts');
+            assert.strictEqual(hunks[0].id, 'src/a.ts:@@ -1,3 +1,3 @@');
+            assert.deepStrictEqual(hunks[0].lines, [' one', '-two', '+TWO', ' three']);
+            assert.ok(hunks[1].fileHeader.startsWith('diff --git a/src/a.ts b/src/a.ts'));
+        });
+
+        test('restores a trailing blank context line lost to trimming', () => {
+            const hunks = GitService.parseDiffHunks(diff.trimEnd());
+            assert.deepStrictEqual(hunks[1].lines, [' ten', '+ten-and-a-half', ' ']);
+        });
+
+        test('buildPatch emits the file header once per file', () => {
+            const hunks = GitService.parseDiffHunks(diff);
+            const patch = GitService.buildPatch(hunks);
+
+            assert.strictEqual(patch.split('diff --git').length - 1, 1);
+            assert.ok(patch.includes('@@ -1,3 +1,3 @@\n one\n-two'));
+            assert.ok(patch.endsWith('\n'));
+            assert.strictEqual(GitService.buildPatch([]), '');
+        });
+    });
+
+    suite('getBranchStart', () => {
+        test('returns the oldest reflog entry of the branch', async () => {
+            const exec = mockExec([{ stdout: 'c3\nc2\nc1' }]) as ExecFn & { calls: string[] };
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            assert.strictEqual(await svc.getBranchStart('feature/x'), 'c1');
+            assert.strictEqual(exec.calls[0], 'git reflog show --format=%H "refs/heads/feature/x" --');
+        });
+
+        test('is undefined without a reflog', async () => {
+            const svc = new GitService('/fake/root', undefined, mockExecError('fatal: bad ref'));
+            assert.strictEqual(await svc.getBranchStart('feature/x'), undefined);
+        });
+    });
+
+    suite('createBranchFromStash / suggestBranchName', () => {
+        test('runs git stash branch with the name and stash ref', async () => {
+            const exec = mockExec([{ stdout: '' }]);
+            const svc = new GitService('/fake/root', undefined, exec);
+            await svc.createBranchFromStash(2, 'main-fix-login');
+
+            assert.strictEqual(
+                (exec as ExecFn & { calls: string[] }).calls[0],
+                'git stash branch "main-fix-login" "stash@{2}"',
+            );
+        });
+
+        test('escapes shell characters in the branch name', async () => {
+            const exec = mockExec([{ stdout: '' }]);
+            const svc = new GitService('/fake/root', undefined, exec);
+            await svc.createBranchFromStash(0, 'x$(id)`id`"');
+
+            assert.strictEqual(
+                (exec as ExecFn & { calls: string[] }).calls[0],
+                'git stash branch "x\\$(id)\\`id\\`\\"" "stash@{0}"',
+            );
+        });
+
+        test('validates branch names like git check-ref-format --branch', () => {
+            for (const name of ['main-fix', 'feature/auth-1', 'user@host', 'a.b']) {
+                assert.ok(GitService.isValidBranchName(name), name);
+            }
+            const invalid = ['', '@', 'a b', 'a..b', 'a@{1}', 'a//b', 'a/.b', '.a', 'a.lock', 'a.lock/b'];
+            for (const name of [...invalid, '-a', 'a/', 'a.', 'a\tb', 'a~1', 'a[0]']) {
+                assert.ok(!GitService.isValidBranchName(name), name);
+            }
+        });
+
+        test('throws with git stderr on failure', async () => {
+            const exec = mockExecError("fatal: a branch named 'x' already exists");
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            await assert.rejects(() => svc.createBranchFromStash(0, 'x'), /already exists/);
+        });
+
+        test('suggests branch + slugified message', () => {
+            assert.strictEqual(
+                GitService.suggestBranchName({
+                    index: 0,
+                    branch: 'feature/auth',
+                    message: 'Fix login redirect (WIP!)',
+                }),
+                'feature/auth-fix-login-redirect-wip',
+            );
+        });
+
+        test('falls back to the stash index without a message', () => {
+            assert.strictEqual(
+                GitService.suggestBranchName({ index: 3, branch: 'main', message: '(no message)' }),
+                'main-stash-3',
+            );
+            assert.strictEqual(
+                GitService.suggestBranchName({ index: 1, branch: 'unknown', message: '' }),
+                'stash-1',
+            );
+        });
+    });
+
+    suite('getConflictedFiles / resolveConflict', () => {
+        test('lists unmerged paths once each', async () => {
+            const exec = mockExec([{ stdout: 'src/a.ts\nsrc/b.ts\nsrc/a.ts\n' }]);
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            assert.deepStrictEqual(await svc.getConflictedFiles(), ['src/a.ts', 'src/b.ts']);
+            assert.ok(
+                (exec as ExecFn & { calls: string[] }).calls[0].includes('--diff-filter=U'),
+            );
+        });
+
+        test('checks out the chosen side then marks the file resolved', async () => {
+            const exec = mockExec([{ stdout: '' }, { stdout: '' }]);
+            const svc = new GitService('/fake/root', undefined, exec);
+            await svc.resolveConflict('src/a.ts', 'theirs');
+
+            const calls = (exec as ExecFn & { calls: string[] }).calls;
+            assert.strictEqual(calls[0], 'git checkout --theirs -- "src/a.ts"');
+            assert.strictEqual(calls[1], 'git add -- "src/a.ts"');
+        });
+
+        test('escapes shell characters in the conflicted path', async () => {
+            const exec = mockExec([{ stdout: '' }, { stdout: '' }]);
+            const svc = new GitService('/fake/root', undefined, exec);
+            await svc.resolveConflict('src/$(id)".ts', 'ours');
+
+            const calls = (exec as ExecFn & { calls: string[] }).calls;
+            assert.strictEqual(calls[0], 'git checkout --ours -- "src/\\$(id)\\".ts"');
+            assert.strictEqual(calls[1], 'git add -- "src/\\$(id)\\".ts"');
+        });
+
+        test('throws without staging when checkout fails', async () => {
+            const exec = mockExecError('error: path does not have their version');
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            await assert.rejects(
+                () => svc.resolveConflict('src/a.ts', 'theirs'),
+                /does not have their version/,
+            );
+            assert.strictEqual((exec as ExecFn & { calls: string[] }).calls.length, 1);
+        });
+    });
+
+    suite('getStashFileDiff bases / getStashApplyRisks', () => {
+        /** Answers by command substring; a `code` makes the call fail like a non-zero exit. */
+        function scriptedExec(
+            script: [string, { stdout: string; code?: number }][],
+        ): ExecFn & { calls: string[] } {
+            const calls: string[] = [];
+            const fn: ExecFn & { calls: string[] } = async (command: string) => {
+                calls.push(command);
+                const [, resp] = script.find(([match]) => command.includes(match)) ?? [
+                    '',
+                    { stdout: '' },
+                ];
+                if (resp.code) {
+                    throw Object.assign(new Error('exit'), {
+                        stdout: resp.stdout,
+                        stderr: '',
+                        code: resp.code,
+                    });
+                }
+                return { stdout: resp.stdout, stderr: '' };
+            };
+            fn.calls = calls;
+            return fn;
+        }
+
+        test('diffs against HEAD or the working tree with the stash on the new side', async () => {
+            const exec = mockExec([{ stdout: 'diff head' }, { stdout: 'diff work' }]) as ExecFn & {
+                calls: string[];
+            };
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            assert.strictEqual(
+                await svc.getStashFileDiff(1, 'a.ts', undefined, 'head'),
+                'diff head',
+            );
+            assert.strictEqual(
+                await svc.getStashFileDiff(1, 'a.ts', undefined, 'working'),
+                'diff work',
+            );
+            assert.strictEqual(exec.calls[0], 'git diff HEAD "stash@{1}" -- "a.ts"');
+            assert.strictEqual(exec.calls[1], 'git diff -R "stash@{1}" -- "a.ts"');
+        });
+
+        test('escapes shell characters in the file path for every base', async () => {
+            const exec = mockExec([{ stdout: 'd' }, { stdout: 'd' }, { stdout: 'd' }]) as ExecFn & {
+                calls: string[];
+            };
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            for (const base of ['head', 'working', 'parent'] as const) {
+                await svc.getStashFileDiff(1, 'a`id`.ts', undefined, base);
+            }
+            assert.strictEqual(exec.calls[0], 'git diff HEAD "stash@{1}" -- "a\\`id\\`.ts"');
+            assert.strictEqual(exec.calls[1], 'git diff -R "stash@{1}" -- "a\\`id\\`.ts"');
+            assert.strictEqual(exec.calls[2], 'git stash show -p "stash@{1}" -- "a\\`id\\`.ts"');
+        });
+
+        test('reports merge-tree conflicts and files with local changes', async () => {
+            const exec = scriptedExec([
+                ['stash show --name-only', { stdout: 'a.ts\nb.ts\nc.ts' }],
+                ['merge-tree', { stdout: `${'t'.repeat(40)}\na.ts\nother.ts`, code: 1 }],
+                ['diff --name-only HEAD', { stdout: 'a.ts\nb.ts' }],
+            ]);
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            assert.deepStrictEqual(await svc.getStashApplyRisks(0), [
+                { path: 'a.ts', reason: 'conflict' },
+                { path: 'b.ts', reason: 'localChanges' },
+            ]);
+        });
+
+        test('clean merge reports only local changes', async () => {
+            const exec = scriptedExec([
+                ['stash show --name-only', { stdout: 'a.ts' }],
+                ['merge-tree', { stdout: 't'.repeat(40) }],
+                ['diff --name-only HEAD', { stdout: '' }],
+            ]);
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            assert.deepStrictEqual(await svc.getStashApplyRisks(0), []);
+        });
+
+        test('falls back to files changed since the stash base on older git', async () => {
+            const exec = scriptedExec([
+                ['stash show --name-only', { stdout: 'a.ts\nb.ts' }],
+                ['merge-tree', { stdout: '', code: 129 }],
+                ['diff --name-only "stash@{0}^" HEAD', { stdout: 'b.ts\nz.ts' }],
+                ['diff --name-only HEAD', { stdout: '' }],
+            ]);
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            assert.deepStrictEqual(await svc.getStashApplyRisks(0), [
+                { path: 'b.ts', reason: 'conflict' },
+            ]);
+        });
     });
 
     // ─── 10a-vi: Conflict detection ──────────────────────────────
@@ -390,6 +764,321 @@ suite('GitService Unit Tests', () => {
         });
     });
 
+    // ─── Stash identity (SHA verification) ───────────────────────
+
+    suite('stash identity — SHA verification', () => {
+        const sha = 'a'.repeat(39) + '0';
+        const otherSha = 'b'.repeat(39) + '0';
+
+        test('dropStash verifies the SHA before dropping', async () => {
+            const exec = mockExec([{ stdout: sha }, { stdout: '' }]) as ExecFn & {
+                calls: string[];
+            };
+            const svc = new GitService('/fake/root', undefined, exec);
+            await svc.dropStash(1, sha);
+
+            assert.deepStrictEqual(exec.calls, [
+                'git rev-parse --verify -q "stash@{1}"',
+                'git stash drop "stash@{1}"',
+            ]);
+        });
+
+        test('dropStash throws StashChangedError without dropping on mismatch', async () => {
+            const exec = mockExec([{ stdout: otherSha }]) as ExecFn & { calls: string[] };
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            await assert.rejects(() => svc.dropStash(1, sha), StashChangedError);
+            assert.strictEqual(exec.calls.length, 1);
+        });
+
+        test('dropStash throws StashChangedError when the index no longer exists', async () => {
+            const exec = mockExecError('');
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            await assert.rejects(() => svc.dropStash(3, sha), StashChangedError);
+        });
+
+        test('applyStash and popStash fail without running on mismatch', async () => {
+            const exec = mockExec([{ stdout: otherSha }, { stdout: otherSha }]) as ExecFn & {
+                calls: string[];
+            };
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            const applied = await svc.applyStash(0, sha);
+            const popped = await svc.popStash(0, sha);
+
+            assert.strictEqual(applied.success, false);
+            assert.strictEqual(popped.success, false);
+            assert.ok(applied.message.includes('stash list changed'));
+            assert.ok(exec.calls.every((c) => c.startsWith('git rev-parse')));
+        });
+
+        test('createBranchFromStash refuses a shifted stash', async () => {
+            const exec = mockExec([{ stdout: otherSha }]) as ExecFn & { calls: string[] };
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            await assert.rejects(
+                () => svc.createBranchFromStash(0, 'feature/x', sha),
+                StashChangedError,
+            );
+            assert.strictEqual(exec.calls.length, 1);
+        });
+
+        test('reads address the stash by SHA when given', async () => {
+            const exec = mockExec([{ stdout: 'M\tsrc/a.ts' }, { stdout: 'diff' }]) as ExecFn & {
+                calls: string[];
+            };
+            const svc = new GitService('/fake/root', undefined, exec);
+            await svc.getStashFilesWithStatus(2, sha);
+            await svc.getStashFileDiff(2, 'src/a.ts', sha);
+
+            assert.strictEqual(exec.calls[0], `git stash show --name-status "${sha}"`);
+            assert.strictEqual(exec.calls[1], `git stash show -p "${sha}" -- "src/a.ts"`);
+        });
+
+        test('findStashBySha returns the current entry for a SHA', async () => {
+            const exec = mockExec([
+                {
+                    stdout: [
+                        `stash@{0}|${otherSha}|2026-02-10 14:23:05 -0600|On main: newer`,
+                        `stash@{1}|${sha}|2026-02-09 14:23:05 -0600|On main: older`,
+                    ].join('\n'),
+                },
+            ]);
+            const svc = new GitService('/fake/root', undefined, exec);
+            const entry = await svc.findStashBySha(sha);
+
+            assert.strictEqual(entry?.index, 1);
+            assert.strictEqual(entry?.message, 'older');
+        });
+    });
+
+    // ─── Recently dropped stashes ────────────────────────────────
+
+    suite('getDroppedStashes / restoreDroppedStash', () => {
+        const dropped = 'd'.repeat(39) + '0';
+        const older = 'e'.repeat(39) + '0';
+        const live = 'f'.repeat(39) + '0';
+        const merge = '1'.repeat(39) + '0';
+
+        test('returns stash-shaped unreachable commits newest first, skipping live stashes', async () => {
+            const exec = mockExec([
+                {
+                    stdout: [
+                        `unreachable commit ${older}`,
+                        `unreachable blob ${'2'.repeat(40)}`,
+                        `unreachable commit ${live}`,
+                        `unreachable commit ${merge}`,
+                        `unreachable commit ${dropped}`,
+                    ].join('\n'),
+                },
+                { stdout: `stash@{0}|${live}|2026-02-12 10:00:00 -0600|On main: still here` },
+                {
+                    stdout: [
+                        `${older}|p1 p2|2026-02-01 09:00:00 -0600|WIP on dev: abc1234 tweak`,
+                        `${merge}|p1 p2|2026-02-11 09:00:00 -0600|Merge branch 'x'`,
+                        `${dropped}|p1 p2 p3|2026-02-10 14:23:05 -0600|On feature/a: half done`,
+                    ].join('\n'),
+                },
+            ]) as ExecFn & { calls: string[] };
+            const svc = new GitService('/fake/root', undefined, exec);
+            const list = await svc.getDroppedStashes();
+
+            assert.deepStrictEqual(
+                list.map((d) => [d.sha, d.branch, d.message]),
+                [
+                    [dropped, 'feature/a', 'half done'],
+                    [older, 'dev', '(no message)'],
+                ],
+            );
+            assert.ok(!exec.calls[2].includes(live));
+        });
+
+        test('makes no log call when fsck finds nothing', async () => {
+            const exec = mockExec([{ stdout: '' }]) as ExecFn & { calls: string[] };
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            assert.deepStrictEqual(await svc.getDroppedStashes(), []);
+            assert.strictEqual(exec.calls.length, 1);
+        });
+
+        test('restores with the original subject, shell-escaped', async () => {
+            const exec = mockExec([{ stdout: '' }]) as ExecFn & { calls: string[] };
+            const svc = new GitService('/fake/root', undefined, exec);
+            await svc.restoreDroppedStash({ sha: dropped, subject: 'On main: fix "login" $HOME' });
+
+            assert.strictEqual(
+                exec.calls[0],
+                `git stash store -m "On main: fix \\"login\\" \\$HOME" ${dropped}`,
+            );
+        });
+    });
+
+    suite('exportStash / importStash', () => {
+        const stashSha = 'a'.repeat(39) + '0';
+        const base = 'b'.repeat(39) + '0';
+        const idx = 'c'.repeat(39) + '0';
+        const untracked = 'd'.repeat(39) + '0';
+
+        /** Mock exec that writes `--output` files, like git does for diffs */
+        function exportExec(outputs: Record<string, string>): ExecFn & { calls: string[] } {
+            const calls: string[] = [];
+            const fn: ExecFn & { calls: string[] } = async (command: string) => {
+                calls.push(command);
+                if (command.startsWith('git log -1')) {
+                    return {
+                        stdout: `${base} ${idx} ${untracked}\x1f2026-02-10T14:23:05-06:00\x1fOn main: fix login`,
+                        stderr: '',
+                    };
+                }
+                if (command.startsWith('git ls-tree')) {
+                    return { stdout: 'notes.txt\n', stderr: '' };
+                }
+                const output = command.match(/--output="([^"]+)"/);
+                if (output) {
+                    const name = Object.keys(outputs).find((n) => output[1].endsWith(n));
+                    await fs.promises.writeFile(output[1], name ? outputs[name] : '');
+                }
+                return { stdout: '', stderr: '' };
+            };
+            fn.calls = calls;
+            return fn;
+        }
+
+        test('exports worktree, index and untracked patches with stash metadata', async () => {
+            const exec = exportExec({
+                'worktree.patch': 'diff --git a/a.ts b/a.ts\n',
+                'untracked.patch': 'diff --git a/notes.txt b/notes.txt\n',
+            });
+            const svc = new GitService('/fake/root', undefined, exec);
+            const data = await svc.exportStash(0, stashSha);
+
+            assert.strictEqual(data.branch, 'main');
+            assert.strictEqual(data.message, 'fix login');
+            assert.strictEqual(data.baseSha, base);
+            assert.strictEqual(data.date, '2026-02-10T14:23:05-06:00');
+            assert.strictEqual(data.worktreePatch, 'diff --git a/a.ts b/a.ts\n');
+            assert.strictEqual(data.indexPatch, undefined, 'empty index patch is omitted');
+            assert.strictEqual(data.untrackedPatch, 'diff --git a/notes.txt b/notes.txt\n');
+            assert.deepStrictEqual(data.untrackedFiles, ['notes.txt']);
+            assert.ok(exec.calls.some((c) => c.startsWith(`git diff --binary ${base} ${stashSha}`)));
+            assert.ok(exec.calls.some((c) => c.startsWith(`git diff --binary ${base} ${idx}`)));
+        });
+
+        test('imports onto HEAD when the base commit is missing', async () => {
+            const head = 'e'.repeat(39) + '0';
+            const calls: string[] = [];
+            const fn: ExecFn = async (command: string) => {
+                calls.push(command);
+                if (command.startsWith('git cat-file')) {
+                    throw Object.assign(new Error('missing'), { stdout: '', stderr: '', code: 1 });
+                }
+                if (command === 'git rev-parse HEAD') {
+                    return { stdout: head, stderr: '' };
+                }
+                if (command.startsWith('git write-tree')) {
+                    return { stdout: 'f'.repeat(40), stderr: '' };
+                }
+                if (command.startsWith('git commit-tree')) {
+                    return { stdout: `${calls.length}`.padStart(40, '0'), stderr: '' };
+                }
+                return { stdout: '', stderr: '' };
+            };
+            const svc = new GitService('/fake/root', undefined, fn);
+            const result = await svc.importStash({
+                subject: 'On main: fix login',
+                branch: 'main',
+                message: 'fix login',
+                baseSha: base,
+                date: '2026-02-10T14:23:05-06:00',
+                untrackedFiles: [],
+                worktreePatch: 'diff --git a/a.ts b/a.ts\n',
+            });
+
+            assert.strictEqual(result.rebased, true);
+            assert.ok(calls.includes(`git read-tree "${head}"`));
+            assert.ok(!calls.some((c) => c.includes('untracked files on')));
+            assert.strictEqual(
+                calls[calls.length - 1],
+                `git stash store -m "On main: fix login" "${result.sha}"`,
+            );
+        });
+
+        test('explains a missing base when the patch does not apply to HEAD', async () => {
+            const fn: ExecFn = async (command: string) => {
+                if (command.startsWith('git cat-file') || command.startsWith('git apply')) {
+                    throw Object.assign(new Error('fail'), {
+                        stdout: '',
+                        stderr: 'error: patch failed: a.ts:1',
+                        code: 1,
+                    });
+                }
+                return { stdout: command === 'git rev-parse HEAD' ? 'e'.repeat(40) : '', stderr: '' };
+            };
+            const svc = new GitService('/fake/root', undefined, fn);
+
+            await assert.rejects(
+                svc.importStash({
+                    subject: 'On main: fix login',
+                    branch: 'main',
+                    message: 'fix login',
+                    baseSha: base,
+                    date: '2026-02-10T14:23:05-06:00',
+                    untrackedFiles: [],
+                    worktreePatch: 'diff --git a/a.ts b/a.ts\n',
+                    indexPatch: 'diff --git a/a.ts b/a.ts\n',
+                }),
+                /base commit is not in this repository.*patch failed/,
+            );
+        });
+    });
+
+    suite('repository discovery — root, git dir, submodules', () => {
+        test('getRepositoryRoot returns the top-level directory', async () => {
+            const exec = mockExec([{ stdout: '/work/mono\n' }]) as ExecFn & { calls: string[] };
+            const svc = new GitService('/work/mono/packages/app', undefined, exec);
+
+            assert.strictEqual(await svc.getRepositoryRoot(), path.normalize('/work/mono'));
+            assert.strictEqual(exec.calls[0], 'git rev-parse --show-toplevel');
+        });
+
+        test('getRepositoryRoot returns undefined outside a repository', async () => {
+            const svc = new GitService('/tmp/plain', undefined, mockExecError('not a git repository'));
+            assert.strictEqual(await svc.getRepositoryRoot(), undefined);
+        });
+
+        test('getGitDir resolves the absolute git directory', async () => {
+            const exec = mockExec([{ stdout: '/work/mono/.git/modules/lib' }]);
+            const svc = new GitService('/work/mono/lib', undefined, exec);
+            assert.strictEqual(await svc.getGitDir(), path.normalize('/work/mono/.git/modules/lib'));
+        });
+
+        test('listSubmodules returns checked-out submodules and skips uninitialized ones', async () => {
+            const exec = mockExec([
+                {
+                    stdout: [
+                        ` ${'a'.repeat(40)} libs/core (heads/main)`,
+                        `+${'b'.repeat(40)} libs/ui kit (v1.2-3-gabc1234)`,
+                        `-${'c'.repeat(40)} vendor/unused`,
+                        ` ${'d'.repeat(40)} libs/core/nested (heads/main)`,
+                    ].join('\n'),
+                },
+            ]);
+            const svc = new GitService('/work/mono', undefined, exec);
+
+            assert.deepStrictEqual(await svc.listSubmodules(), [
+                path.resolve('/work/mono', 'libs/core'),
+                path.resolve('/work/mono', 'libs/ui kit'),
+                path.resolve('/work/mono', 'libs/core/nested'),
+            ]);
+        });
+
+        test('listSubmodules returns [] when there are none', async () => {
+            const svc = new GitService('/work/mono', undefined, mockExec([{ stdout: '' }]));
+            assert.deepStrictEqual(await svc.listSubmodules(), []);
+        });
+    });
+
     // ─── Additional: no workspace root ───────────────────────────
 
     suite('GitService — no workspace root', () => {
@@ -442,4 +1131,159 @@ suite('GitService Unit Tests', () => {
             assert.strictEqual(branch, undefined);
         });
     });
+
+    suite('checkoutBranch / pull', () => {
+        test('checks out the named branch', async () => {
+            const exec = mockExec([{ stdout: '' }]) as ExecFn & { calls: string[] };
+            const svc = new GitService('/fake/root', undefined, exec);
+            await svc.checkoutBranch('feature/x');
+            assert.strictEqual(exec.calls[0], 'git checkout "feature/x"');
+        });
+
+        test('surfaces git errors', async () => {
+            const svc = new GitService(
+                '/fake/root',
+                undefined,
+                mockExecError('error: Your local changes would be overwritten by checkout'),
+            );
+            await assert.rejects(() => svc.checkoutBranch('main'), /would be overwritten/);
+            await assert.rejects(() => svc.pull(), /would be overwritten/);
+        });
+    });
+
+    suite('fetchPullRequest / checkoutBranchAt', () => {
+        test('fetches the pull request head ref and returns its SHA', async () => {
+            const exec = mockExec([{ stdout: '' }, { stdout: 'abc123\n' }]) as ExecFn & {
+                calls: string[];
+            };
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            assert.strictEqual(await svc.fetchPullRequest('upstream', 42), 'abc123');
+            assert.deepStrictEqual(exec.calls, [
+                'git fetch "upstream" "refs/pull/42/head"',
+                'git rev-parse FETCH_HEAD',
+            ]);
+        });
+
+        test('surfaces fetch errors', async () => {
+            const svc = new GitService(
+                '/fake/root',
+                undefined,
+                mockExecError("fatal: couldn't find remote ref refs/pull/9/head"),
+            );
+            await assert.rejects(() => svc.fetchPullRequest('origin', 9), /couldn't find remote ref/);
+        });
+
+        test('resolves refs and tells ancestors apart', async () => {
+            const svc = new GitService('/fake/root', undefined, mockExecError('', 1));
+            assert.strictEqual(await svc.resolveRef('pr/42'), undefined);
+            assert.strictEqual(await svc.isAncestor('pr/42', 'abc123'), false);
+
+            const ok = new GitService('/fake/root', undefined, mockExec([{ stdout: 'def456' }, { stdout: '' }]));
+            assert.strictEqual(await ok.resolveRef('pr/42'), 'def456');
+            assert.strictEqual(await ok.isAncestor('pr/42', 'abc123'), true);
+        });
+
+        test('creates or moves the branch while checking it out', async () => {
+            const exec = mockExec([{ stdout: '' }]) as ExecFn & { calls: string[] };
+            const svc = new GitService('/fake/root', undefined, exec);
+            await svc.checkoutBranchAt('pr/42', 'abc123');
+            assert.strictEqual(exec.calls[0], 'git checkout -B "pr/42" "abc123"');
+        });
+
+        test('commits only the given paths and returns the new SHA', async () => {
+            const exec = mockExec([{ stdout: '' }, { stdout: 'fed789' }]) as ExecFn & { calls: string[] };
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            assert.strictEqual(await svc.commitPaths(['src/a.ts', 'b c.md'], 'Apply "fix"'), 'fed789');
+            assert.deepStrictEqual(exec.calls, [
+                'git commit -m "Apply \\"fix\\"" -- "src/a.ts" "b c.md"',
+                'git rev-parse HEAD',
+            ]);
+        });
+    });
+
+    suite('rebaseOnto / pushWithLease', () => {
+        test('aborts a rebase that stops on conflicts', async () => {
+            const exec = mockExecError('CONFLICT (content): Merge conflict in a.ts') as ExecFn & { calls: string[] };
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            await assert.rejects(
+                () => svc.rebaseOnto('feature-2', 'feature-1', 'abc123'),
+                /Rebasing feature-2 onto feature-1 stopped on conflicts/,
+            );
+            assert.deepStrictEqual(exec.calls, [
+                'git rebase --onto "feature-1" "abc123" "feature-2"',
+                'git rebase --abort',
+            ]);
+        });
+
+        test('pushes every branch atomically with its own lease', async () => {
+            const exec = mockExec([{ stdout: '' }]) as ExecFn & { calls: string[] };
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            await svc.pushWithLease('origin', [
+                { branch: 'feature-1', expected: 'abc123' },
+                { branch: 'feature-2', expected: undefined },
+            ]);
+            assert.strictEqual(
+                exec.calls[0],
+                'git push --atomic --force-with-lease="refs/heads/feature-1:abc123" ' +
+                    '--force-with-lease="refs/heads/feature-2:" "origin" ' +
+                    '"refs/heads/feature-1:refs/heads/feature-1" "refs/heads/feature-2:refs/heads/feature-2"',
+            );
+        });
+        test('escapes shell characters in branch names', async () => {
+            const exec = mockExec(Array.from({ length: 6 }, () => ({ stdout: 'x' }))) as ExecFn & {
+                calls: string[];
+            };
+            const svc = new GitService('/fake/root', undefined, exec);
+            const branch = 'fix-$(id)';
+
+            await svc.setBranch(branch, 'abc123');
+            await svc.deleteBranch(branch);
+            await svc.rebaseOnto(branch, 'main', 'abc123');
+            await svc.pushWithLease('origin', [{ branch, expected: 'abc123' }]);
+            await svc.checkoutBranch(branch);
+            await svc.resolveRef(`refs/heads/${branch}`);
+            assert.deepStrictEqual(exec.calls, [
+                'git branch -f "fix-\\$(id)" "abc123"',
+                'git branch -D "fix-\\$(id)"',
+                'git rebase --onto "main" "abc123" "fix-\\$(id)"',
+                'git push --atomic --force-with-lease="refs/heads/fix-\\$(id):abc123" "origin" ' +
+                    '"refs/heads/fix-\\$(id):refs/heads/fix-\\$(id)"',
+                'git checkout "fix-\\$(id)"',
+                'git rev-parse --verify --quiet "refs/heads/fix-\\$(id)^{commit}"',
+            ]);
+        });
+    });
+
+    suite('getDefaultBranch / listMergedBranches', () => {
+        test('prefers the remote HEAD', async () => {
+            const exec = mockExec([{ stdout: 'origin/main' }]);
+            const svc = new GitService('/fake/root', undefined, exec);
+            assert.strictEqual(await svc.getDefaultBranch(), 'origin/main');
+        });
+
+        test('returns undefined without a remote HEAD, main or master', async () => {
+            const exec = mockExecError('fatal: ref refs/remotes/origin/HEAD is not a symbolic ref');
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            assert.strictEqual(await svc.getDefaultBranch(), undefined);
+            assert.strictEqual((exec as ExecFn & { calls: string[] }).calls.length, 3);
+        });
+
+        test('lists branches merged into a ref', async () => {
+            const exec = mockExec([{ stdout: 'main\nfeature/done' }]) as ExecFn & {
+                calls: string[];
+            };
+            const svc = new GitService('/fake/root', undefined, exec);
+
+            assert.deepStrictEqual(await svc.listMergedBranches('origin/main'), [
+                'main',
+                'feature/done',
+            ]);
+            assert.ok(exec.calls[0].startsWith('git branch --merged "origin/main"'));
+        });
+    });
 });
@@ -2,6 +2,7 @@ import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { GitService, type ExecFn } from '../../gitService';
 import { handleStashMessage } from '../../handlers/stashHandlers';
+import { StashSearchIndex } from '../../stashSearch';
 import type { HandlerContext, WebviewMessage } from '../../handlers/types';
 
 /**
@@ -57,6 +58,7 @@ function createMockContext(opts: MockCtxOptions = {}): MockContext {
         gitService,
         authService: undefined,
         gistService: undefined,
+        notesCache: undefined,
         prService: undefined,
         issueService: undefined,
         mattermostService: undefined,
@@ -65,6 +67,10 @@ function createMockContext(opts: MockCtxOptions = {}): MockContext {
         calendarService: undefined,
         wikiService: undefined,
         aiService: undefined as unknown as HandlerContext['aiService'],
+        conflictAssistant: undefined,
+        stashSearchIndex: new StashSearchIndex(),
+        reviewDrafts: undefined,
+        prCheckout: undefined,
         getRepoInfo: async () => undefined,
         refresh: async () => { refreshCalls++; },
         sendAuthStatus: async () => { /* stub */ },
@@ -137,6 +143,22 @@ suite('Stash Handler Tests (§16a)', () => {
         assert.ok(typeof mock.messages[0].diff === 'string');
     });
 
+    test('getFileDiff diffs against the requested base and echoes it', async () => {
+        const exec = mockExec([{ stdout: 'diff --git a/file.ts b/file.ts' }]);
+        const mock = createMockContext({ exec });
+
+        await handleStashMessage(mock.ctx, {
+            type: 'getFileDiff',
+            index: 0,
+            filePath: 'src/file.ts',
+            base: 'head',
+        });
+
+        assert.strictEqual(exec.calls[0], 'git diff HEAD "stash@{0}" -- "src/file.ts"');
+        assert.strictEqual(mock.messages[0].base, 'head');
+        assert.strictEqual(mock.messages[0].key, '0:src/file.ts');
+    });
+
     test('getFileDiff posts empty diff on error', async () => {
         const exec = mockExec([]); // Will throw — no responses available
         const mock = createMockContext({ exec });
@@ -153,6 +175,26 @@ suite('Stash Handler Tests (§16a)', () => {
         assert.strictEqual(mock.messages[0].diff, '');
     });
 
+    test('searchStashContents posts matches with the query echoed', async () => {
+        const exec = mockExec([
+            { stdout: `stash@{0}|${'a'.repeat(40)}|2026-02-10 14:23:05 -0600|On main: wip` },
+            {
+                stdout: 'diff --git a/src/config.ts b/src/config.ts\n@@ -1,1 +1,2 @@\n context\n+parseConfig(raw)',
+            },
+        ]);
+        const mock = createMockContext({ exec });
+
+        await handleStashMessage(mock.ctx, { type: 'searchStashContents', query: 'parseconfig' });
+
+        assert.strictEqual(mock.messages[0].type, 'stashContentResults');
+        assert.strictEqual(mock.messages[0].query, 'parseconfig');
+        const results = mock.messages[0].results as { filePath: string; line: number }[];
+        assert.deepStrictEqual(
+            results.map((m) => [m.filePath, m.line]),
+            [['src/config.ts', 2]],
+        );
+    });
+
     test('apply with missing index still returns true (no-op)', async () => {
         const mock = createMockContext();
         const handled = await handleStashMessage(mock.ctx, { type: 'apply' });
@@ -173,6 +215,22 @@ suite('Stash Handler Tests (§16a)', () => {
         assert.strictEqual(mock.refreshCalls, 1);
     });
 
+    test('apply with a stale sha does not apply and refreshes', async () => {
+        const exec = mockExec([
+            { stdout: 'b'.repeat(39) + '0' }, // rev-parse stash@{0} → a different stash
+        ]);
+        const mock = createMockContext({ exec });
+
+        const handled = await handleStashMessage(mock.ctx, {
+            type: 'apply',
+            index: 0,
+            sha: 'a'.repeat(39) + '0',
+        });
+        assert.strictEqual(handled, true);
+        assert.strictEqual(exec.calls.length, 1);
+        assert.strictEqual(mock.refreshCalls, 1);
+    });
+
     test('pop with valid index calls refresh', async () => {
         const exec = mockExec([
             { stdout: '' }, // git stash pop
@@ -184,6 +242,35 @@ suite('Stash Handler Tests (§16a)', () => {
         assert.strictEqual(mock.refreshCalls, 1);
     });
 
+    test('createStashInline with paths stashes only those files', async () => {
+        const exec = mockExec([
+            { stdout: '' }, // git stash push -- <paths>
+        ]);
+        const mock = createMockContext({ exec });
+
+        await handleStashMessage(mock.ctx, {
+            type: 'createStashInline',
+            message: 'partial',
+            mode: 'all',
+            paths: ['src/a.ts'],
+        });
+        assert.ok(exec.calls[0].endsWith('-- "src/a.ts"'));
+        assert.strictEqual(mock.refreshCalls, 1);
+    });
+
+    test('getWorkingChanges posts workingChanges message', async () => {
+        const exec = mockExec([{ stdout: ' M src/a.ts\n?? new.txt' }]);
+        const mock = createMockContext({ exec });
+
+        const handled = await handleStashMessage(mock.ctx, { type: 'getWorkingChanges' });
+        assert.strictEqual(handled, true);
+        assert.strictEqual(mock.messages[0].type, 'workingChanges');
+        assert.deepStrictEqual(mock.messages[0].files, [
+            { path: 'src/a.ts', status: 'M' },
+            { path: 'new.txt', status: '?' },
+        ]);
+    });
+
     test('createStashInline with message calls refresh', async () => {
         const exec = mockExec([
             { stdout: '' }, // git stash push
@@ -199,12 +286,35 @@ suite('Stash Handler Tests (§16a)', () => {
         assert.strictEqual(mock.refreshCalls, 1);
     });
 
+    test('getDroppedStashes posts the unreachable stash commits', async () => {
+        const sha = 'c'.repeat(39) + '0';
+        const exec = mockExec([
+            { stdout: `unreachable commit ${sha}` }, // git fsck
+            { stdout: '' }, // git stash list
+            { stdout: `${sha}|p1 p2|2026-02-10 14:23:05 -0600|On main: lost work` }, // git log
+        ]);
+        const mock = createMockContext({ exec });
+
+        const handled = await handleStashMessage(mock.ctx, { type: 'getDroppedStashes' });
+        assert.strictEqual(handled, true);
+        assert.strictEqual(mock.messages[0].type, 'droppedStashes');
+        const stashes = mock.messages[0].stashes as { sha: string; message: string }[];
+        assert.strictEqual(stashes.length, 1);
+        assert.strictEqual(stashes[0].sha, sha);
+        assert.strictEqual(stashes[0].message, 'lost work');
+    });
+
     test('handler correctly routes multiple message types', async () => {
         const mock = createMockContext();
 
         // These should all return true (handled)
-        const handledTypes = ['refresh', 'apply', 'pop', 'drop', 'showFile', 'getFileDiff',
-            'createStash', 'createStashInline', 'clearStashes', 'switchRepo', 'fetchUserRepos'];
+        const handledTypes = ['refresh', 'apply', 'pop', 'drop', 'branchFromStash',
+            'editStashMetadata', 'togglePinStash', 'showFile', 'getFileDiff',
+            'createStash', 'createStashInline', 'getWorkingChanges', 'getWorkingFileHunks',
+            'getConflicts', 'openConflictInMergeEditor', 'resolveConflict', 'dropConflictStash',
+            'dismissConflicts', 'getDroppedStashes', 'restoreDroppedStash', 'clearStashes',
+            'switchRepo', 'fetchUserRepos', 'exportStash', 'sendStashToGist',
+            'importStashBundle', 'getStashApplyRisks', 'searchStashContents'];
 
         for (const type of handledTypes) {
             const result = await handleStashMessage(mock.ctx, { type });
@@ -0,0 +1,198 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { GistNote } from '../gistService';
+import {
+    parseNoteMarkdown,
+    planExportPaths,
+    planNoteImport,
+    readNotesFolder,
+    toNoteMarkdown,
+    withNoteId,
+    writeNoteId,
+    writeNotesFolder,
+} from '../noteArchive';
+
+/**
+ * Unit tests for exporting notes to Markdown files and importing them back —
+ * front-matter and planning are pure; folder round-trips use a temp dir.
+ */
+
+function makeNote(id: string, overrides: Partial<GistNote> = {}): GistNote {
+    return {
+        id,
+        title: `Note ${id}`,
+        content: '',
+        isPublic: false,
+        createdAt: new Date('2026-02-10T14:00:00Z'),
+        updatedAt: new Date('2026-02-10T15:00:00Z'),
+        htmlUrl: `https://gist.github.com/${id}`,
+        description: `[Superprompt Forge] Note ${id}`,
+        linkedRepo: null,
+        linkedPaths: [],
+        tags: [],
+        folder: null,
+        mainFile: `Note-${id}.md`,
+        files: [],
+        ...overrides,
+    };
+}
+
+suite('noteArchive Unit Tests', () => {
+    test('round-trips a note through front-matter', () => {
+        const note = makeNote('abc', {
+            title: 'Deploy: the "hard" way',
+            isPublic: true,
+            linkedRepo: 'acme/app',
+            linkedPaths: ['src/api/'],
+            tags: ['ops', 'on-call'],
+            folder: 'Work/Incidents',
+        });
+        const body = '# Deploy\n\n---\n\nSteps.\n';
+        const { meta, body: parsed } = parseNoteMarkdown(toNoteMarkdown(note, body));
+
+        assert.strictEqual(parsed, body);
+        assert.deepStrictEqual(meta, {
+            id: 'abc',
+            title: 'Deploy: the "hard" way',
+            visibility: 'public',
+            linkedRepo: 'acme/app',
+            linkedPaths: ['src/api/'],
+            tags: ['on-call', 'ops'],
+            folder: 'Work/Incidents',
+            created: '2026-02-10T14:00:00.000Z',
+            updated: '2026-02-10T15:00:00.000Z',
+        });
+    });
+
+    test('reads Obsidian-style block lists and leaves files without front-matter alone', () => {
+        const { meta, body } = parseNoteMarkdown(
+            "---\ntags:\n  - Project/Alpha\n  - '#ideas'\naliases: [x]\n---\nBody",
+        );
+        assert.deepStrictEqual(meta, { tags: ['ideas', 'project/alpha'] });
+        assert.strictEqual(body, 'Body');
+
+        assert.deepStrictEqual(parseNoteMarkdown('# Plain\n---\n'), {
+            meta: {},
+            body: '# Plain\n---\n',
+        });
+    });
+
+    test('places notes by folder and title, keeping earlier files and numbering clashes', () => {
+        const paths = planExportPaths(
+            [
+                makeNote('a', { title: 'Plan', folder: 'Work' }),
+                makeNote('b', { title: 'plan', folder: 'Work' }),
+                makeNote('c', { title: 'a/b: c?' }),
+                makeNote('d', { title: 'Renamed' }),
+            ],
+            new Map([['d', 'Old name.md']]),
+        );
+        assert.deepStrictEqual(Object.fromEntries(paths), {
+            a: 'Work/Plan.md',
+            b: 'Work/plan (2).md',
+            c: 'a-b- c-.md',
+            d: 'Old name.md',
+        });
+    });
+
+    test('plans updates by gist id and creates the rest', () => {
+        const existing = makeNote('abc', { title: 'Runbook', tags: ['ops'], folder: 'Work' });
+        const plan = planNoteImport(
+            [
+                {
+                    relativePath: 'Work/Runbook.md',
+                    meta: { id: 'abc', title: 'Runbook', tags: ['ops'], folder: 'Work' },
+                    body: '# Runbook\n',
+                },
+                {
+                    relativePath: 'Runbook (2).md',
+                    meta: { id: 'abc', title: 'Runbook', tags: ['ops', 'prod'], folder: null },
+                    body: '# Runbook\n',
+                },
+                { relativePath: 'Vault/Ideas/Someday.md', meta: {}, body: '# Big Ideas\n\nText' },
+                { relativePath: 'loose.md', meta: { id: 'gone' }, body: 'no heading' },
+            ],
+            [{ note: existing, content: '# Runbook\n' }],
+        );
+
+        assert.strictEqual(plan.unchanged, 1);
+        assert.strictEqual(plan.update.length, 0, 'a note matched twice takes the first file');
+        assert.deepStrictEqual(
+            plan.create.map(({ title, folder, isPublic }) => ({ title, folder, isPublic })),
+            [
+                { title: 'Big Ideas', folder: 'Vault/Ideas', isPublic: undefined },
+                { title: 'loose', folder: null, isPublic: undefined },
+            ],
+        );
+    });
+
+    test('updates only what changed', () => {
+        const existing = makeNote('abc', { title: 'Runbook', tags: ['ops'], folder: 'Work' });
+        const plan = planNoteImport(
+            [
+                {
+                    relativePath: 'Runbook.md',
+                    meta: { id: 'abc', title: 'Runbook', tags: ['ops'], folder: null },
+                    body: '# Runbook\n\nNew step.\n',
+                },
+            ],
+            [{ note: existing, content: '# Runbook\n' }],
+        );
+        const [update] = plan.update;
+        assert.deepStrictEqual(update.page, { title: 'Runbook', content: '# Runbook\n\nNew step.\n' });
+        assert.strictEqual(update.tags, undefined);
+        assert.strictEqual(update.folder, null);
+    });
+
+    test('re-exports over the earlier file of a note and skips hidden folders', async () => {
+        const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'spf-notes-'));
+        try {
+            await fs.promises.mkdir(path.join(dir, '.obsidian'));
+            await fs.promises.writeFile(path.join(dir, '.obsidian', 'x.md'), 'ignored');
+
+            const note = makeNote('abc', { title: 'Runbook', folder: 'Work' });
+            await writeNotesFolder(dir, [{ note, content: 'v1' }]);
+            const renamed = { ...note, title: 'Deploy Runbook' };
+            await writeNotesFolder(dir, [{ note: renamed, content: 'v2' }]);
+
+            const files = await readNotesFolder(dir);
+            assert.deepStrictEqual(
+                files.map((f) => [f.relativePath, f.meta.title, f.body]),
+                [['Work/Runbook.md', 'Deploy Runbook', 'v2']],
+            );
+        } finally {
+            await fs.promises.rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('writes the id of a created note back so a re-import updates it', async () => {
+        assert.strictEqual(withNoteId('# Plain\n', 'n1'), '---\nid: n1\n---\n# Plain\n');
+        assert.strictEqual(
+            withNoteId('---\ntags: [ops]\n---\nBody', 'n2'),
+            '---\nid: n2\ntags: [ops]\n---\nBody',
+        );
+        assert.strictEqual(
+            withNoteId('---\ntitle: T\nid: gone\n---\nBody', 'n3'),
+            '---\ntitle: T\nid: n3\n---\nBody',
+        );
+
+        const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'spf-notes-'));
+        try {
+            await fs.promises.mkdir(path.join(dir, 'Work'));
+            await fs.promises.writeFile(path.join(dir, 'Work', 'Plan.md'), '# Plan\n\nStep one.\n');
+            const [file] = await readNotesFolder(dir);
+            await writeNoteId(dir, file, 'new1');
+
+            const [reread] = await readNotesFolder(dir);
+            assert.strictEqual(reread.meta.id, 'new1');
+            assert.strictEqual(reread.body, file.body);
+            const note = makeNote('new1', { title: 'Plan', folder: 'Work' });
+            const plan = planNoteImport([reread], [{ note, content: file.body }]);
+            assert.deepStrictEqual([plan.create.length, plan.update.length, plan.unchanged], [0, 0, 1]);
+        } finally {
+            await fs.promises.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
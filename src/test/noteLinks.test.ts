@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import type { GistNote } from '../gistService';
+import { linkCovers, notesForPath, pinRepoNotes, toLinkPath } from '../noteLinks';
+
+/**
+ * Unit tests for Gist Note workspace links — pure path matching, no VS Code needed.
+ */
+
+function makeNote(id: string, linkedRepo: string | null, linkedPaths: string[] = []): GistNote {
+    return {
+        id,
+        title: id,
+        content: '',
+        isPublic: false,
+        createdAt: new Date('2026-02-10T14:00:00Z'),
+        updatedAt: new Date('2026-02-10T15:00:00Z'),
+        htmlUrl: `https://gist.github.com/${id}`,
+        description: `[Superprompt Forge] ${id}`,
+        linkedRepo,
+        linkedPaths,
+        tags: [],
+        folder: null,
+        mainFile: `${id}.md`,
+        files: [],
+    };
+}
+
+suite('noteLinks Unit Tests', () => {
+    test('stores repo-relative paths with forward slashes', () => {
+        const root = path.join(path.sep, 'work', 'app');
+        assert.strictEqual(
+            toLinkPath(root, path.join(root, 'src', 'api', 'users.ts')),
+            'src/api/users.ts',
+        );
+        assert.strictEqual(toLinkPath(root, path.join(root, 'src'), true), 'src/');
+        assert.strictEqual(toLinkPath(root, path.join(path.sep, 'work', 'other.ts')), undefined);
+        assert.strictEqual(toLinkPath(root, root), undefined);
+    });
+
+    test('a folder link covers the files below it', () => {
+        assert.ok(linkCovers('src/api/', 'src/api/users.ts'));
+        assert.ok(linkCovers('src/api/users.ts', 'src/api/users.ts'));
+        assert.ok(!linkCovers('src/api', 'src/api/users.ts'));
+        assert.ok(!linkCovers('src/api/', 'src/apis/users.ts'));
+    });
+
+    test('lists the notes of a file, file links before the deepest folders', () => {
+        const notes = [
+            makeNote('src', 'acme/app', ['src/']),
+            makeNote('other-repo', 'acme/other', ['src/api/users.ts']),
+            makeNote('file', 'acme/app', ['README.md', 'src/api/users.ts']),
+            makeNote('api', 'acme/app', ['src/api/']),
+            makeNote('repo-only', 'acme/app'),
+        ];
+        const found = notesForPath(notes, 'acme/app', 'src/api/users.ts').map((n) => n.id);
+        assert.deepStrictEqual(found, ['file', 'api', 'src']);
+    });
+
+    test('pins the notes of the current repository', () => {
+        const notes = [makeNote('a', null), makeNote('b', 'acme/app'), makeNote('c', 'acme/other')];
+        assert.deepStrictEqual(
+            pinRepoNotes(notes, 'acme/app').map((n) => n.id),
+            ['b', 'a', 'c'],
+        );
+        assert.strictEqual(pinRepoNotes(notes, undefined), notes);
+    });
+});
@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import type { GistNote } from '../gistService';
+import {
+    NoteSearchIndex,
+    inFolder,
+    isEmptyQuery,
+    normalizeFolder,
+    normalizeTags,
+    parseNoteQuery,
+} from '../noteSearch';
+
+/**
+ * Unit tests for note tags, folders and search — pure text handling, no
+ * VS Code needed.
+ */
+
+function makeNote(id: string, overrides: Partial<GistNote> = {}): GistNote {
+    return {
+        id,
+        title: id,
+        content: '',
+        isPublic: false,
+        createdAt: new Date('2026-02-10T14:00:00Z'),
+        updatedAt: new Date('2026-02-10T15:00:00Z'),
+        htmlUrl: `https://gist.github.com/${id}`,
+        description: `[Superprompt Forge] ${id}`,
+        linkedRepo: null,
+        linkedPaths: [],
+        tags: [],
+        folder: null,
+        mainFile: `${id}.md`,
+        files: [],
+        ...overrides,
+    };
+}
+
+function ids(index: NoteSearchIndex, query: string): string[] {
+    return index.search(query).map((r) => r.note.id);
+}
+
+suite('noteSearch Unit Tests', () => {
+    test('normalizes tags and folders', () => {
+        assert.deepStrictEqual(normalizeTags(['#Ops', ' ops ', 'On Call', '#', 'a/b']), [
+            'a/b',
+            'on-call',
+            'ops',
+        ]);
+        assert.strictEqual(normalizeFolder(' Work // Incidents/ '), 'Work/Incidents');
+        assert.strictEqual(normalizeFolder(' / '), null);
+    });
+
+    test('matches folders and their subfolders only', () => {
+        assert.ok(inFolder('Work/Incidents', 'work'));
+        assert.ok(inFolder('Work', 'Work'));
+        assert.ok(!inFolder('Workshop', 'Work'));
+        assert.ok(!inFolder(null, 'Work'));
+    });
+
+    test('parses filters out of the query', () => {
+        const now = new Date('2026-03-01T00:00:00Z');
+        const query = parseNoteQuery(
+            'deploy #Ops tag:infra is:public in:Work/ after:2w before:2026-02-28 "roll back" foo:bar',
+            now,
+        );
+        assert.deepStrictEqual(query.terms, ['deploy', 'roll', 'back', 'foo', 'bar']);
+        assert.deepStrictEqual(query.phrases, ['roll back']);
+        assert.deepStrictEqual(query.tags, ['ops', 'infra']);
+        assert.strictEqual(query.visibility, 'public');
+        assert.strictEqual(query.folder, 'Work');
+        assert.strictEqual(query.after?.toISOString(), '2026-02-15T00:00:00.000Z');
+        assert.strictEqual(query.before?.toISOString(), '2026-02-28T00:00:00.000Z');
+        assert.ok(isEmptyQuery(parseNoteQuery('  ')));
+    });
+
+    test('requires every word, matching word prefixes', () => {
+        const index = new NoteSearchIndex();
+        index.update([
+            makeNote('a', { content: 'Deployment checklist for the API' }),
+            makeNote('b', { content: 'API rate limits' }),
+        ]);
+        assert.deepStrictEqual(ids(index, 'deploy api'), ['a']);
+        assert.deepStrictEqual(ids(index, 'api').sort(), ['a', 'b']);
+        assert.deepStrictEqual(ids(index, 'missing'), []);
+    });
+
+    test('ranks title matches above tags above content', () => {
+        const index = new NoteSearchIndex();
+        index.update([
+            makeNote('content', { content: 'notes on kafka consumers' }),
+            makeNote('tagged', { tags: ['kafka'] }),
+            makeNote('titled', { title: 'Kafka' }),
+            makeNote('other', { content: 'unrelated' }),
+        ]);
+        assert.deepStrictEqual(ids(index, 'kafka'), ['titled', 'tagged', 'content']);
+    });
+
+    test('filters by tag, visibility, folder and date', () => {
+        const index = new NoteSearchIndex();
+        index.update([
+            makeNote('a', { tags: ['ops'], isPublic: true, folder: 'Work/Incidents' }),
+            makeNote('b', { tags: ['ops'], updatedAt: new Date('2026-01-01T00:00:00Z') }),
+            makeNote('c', { folder: 'Personal' }),
+        ]);
+        assert.deepStrictEqual(ids(index, '#ops'), ['a', 'b']);
+        assert.deepStrictEqual(ids(index, '#ops is:secret'), ['b']);
+        assert.deepStrictEqual(ids(index, 'in:work'), ['a']);
+        assert.deepStrictEqual(ids(index, 'before:2026-02-01'), ['b']);
+    });
+
+    test('matches quoted phrases exactly and returns the matching line', () => {
+        const index = new NoteSearchIndex();
+        index.update([
+            makeNote('a', { content: '# Runbook\n\nTo roll back, run deploy --undo.' }),
+            makeNote('b', { content: 'back up, then roll forward' }),
+        ]);
+        const [result, ...rest] = index.search('"roll back"');
+        assert.strictEqual(rest.length, 0);
+        assert.strictEqual(result.note.id, 'a');
+        assert.strictEqual(result.excerpt, 'To roll back, run deploy --undo.');
+    });
+
+    test('re-indexes changed notes and forgets removed ones', () => {
+        const index = new NoteSearchIndex();
+        index.update([makeNote('a', { content: 'alpha' }), makeNote('b', { content: 'beta' })]);
+        index.update([makeNote('a', { content: 'gamma' })]);
+        assert.strictEqual(index.size, 1);
+        assert.deepStrictEqual(ids(index, 'alpha'), []);
+        assert.deepStrictEqual(ids(index, 'gamma'), ['a']);
+    });
+});
@@ -0,0 +1,139 @@
+import * as assert from 'assert';
+import type { PullRequest } from '../prService';
+import {
+    BUILTIN_NOTE_TEMPLATES,
+    type TemplateSources,
+    renderTemplate,
+    resolveTemplateVariables,
+    templatesFromGist,
+    templatesFromSettings,
+    usedVariables,
+} from '../noteTemplates';
+
+/**
+ * Unit tests for note templates — variable substitution and the template
+ * sources, with the repository and GitHub stubbed out.
+ */
+
+function makeSources(calls: string[] = []): TemplateSources {
+    return {
+        git: {
+            getCurrentBranch: async () => {
+                calls.push('branch');
+                return 'feature/login';
+            },
+            getGitHubRepo: async () => {
+                calls.push('repo');
+                return { owner: 'acme', repo: 'app' };
+            },
+        },
+        prs: {
+            getAuthenticatedUser: async () => 'octocat',
+            listPullRequests: async (owner, repo, state) => {
+                calls.push(`prs ${owner}/${repo} ${state}`);
+                return [
+                    {
+                        number: 7,
+                        title: 'Add login',
+                        htmlUrl: 'https://github.com/acme/app/pull/7',
+                        author: 'octocat',
+                        isDraft: true,
+                    } as PullRequest,
+                ];
+            },
+        },
+        now: new Date(2026, 2, 5, 9, 4),
+    };
+}
+
+suite('noteTemplates Unit Tests', () => {
+    test('fills in known variables and leaves unknown ones', () => {
+        assert.strictEqual(
+            renderTemplate('# {{ date }} on {{branch}} {{other}} {{constructor}}', {
+                date: '2026-03-05',
+                branch: 'main',
+            }),
+            '# 2026-03-05 on main {{other}} {{constructor}}',
+        );
+        assert.deepStrictEqual(usedVariables('{{date}} {{x}}', '{{date}} {{openPRs}}'), [
+            'date',
+            'openPRs',
+        ]);
+    });
+
+    test('resolves only the variables a template uses', async () => {
+        const calls: string[] = [];
+        const values = await resolveTemplateVariables(
+            ['date', 'time', 'branch'],
+            makeSources(calls),
+        );
+        assert.deepStrictEqual(values, {
+            date: '2026-03-05',
+            time: '09:04',
+            branch: 'feature/login',
+        });
+        assert.deepStrictEqual(calls, ['branch']);
+    });
+
+    test('lists the open pull requests of the repository', async () => {
+        const calls: string[] = [];
+        const values = await resolveTemplateVariables(
+            ['repo', 'user', 'openPRs'],
+            makeSources(calls),
+        );
+        assert.strictEqual(values.repo, 'acme/app');
+        assert.strictEqual(values.user, 'octocat');
+        assert.strictEqual(
+            values.openPRs,
+            '- [#7](https://github.com/acme/app/pull/7) Add login — @octocat (draft)',
+        );
+        assert.deepStrictEqual(calls, ['repo', 'prs acme/app open']);
+    });
+
+    test('leaves values empty when GitHub is unavailable', async () => {
+        const sources = makeSources();
+        sources.prs = undefined;
+        sources.git.getGitHubRepo = async () => {
+            throw new Error('no remote');
+        };
+        const values = await resolveTemplateVariables(['repo', 'user', 'openPRs'], sources);
+        assert.deepStrictEqual(values, { repo: '', user: '', openPRs: '' });
+    });
+
+    test('reads user templates from settings and gists', () => {
+        const fromSettings = templatesFromSettings([
+            { name: 'Retro', content: '# Retro {{date}}' },
+            { name: 'No content' },
+            'not a template',
+        ]);
+        assert.deepStrictEqual(
+            fromSettings.map((t) => [t.id, t.title]),
+            [['settings:0', 'Retro {{date}}']],
+        );
+
+        const fromGist = templatesFromGist('abc123', {
+            '.superprompt-forge-note': '{"v":1}',
+            'team-sync.md': '# Sync',
+            'script.sh': 'echo',
+            'design_review.md': '# Review',
+        });
+        assert.deepStrictEqual(
+            fromGist.map((t) => [t.id, t.name]),
+            [
+                ['gist:abc123/design_review.md', 'design review'],
+                ['gist:abc123/team-sync.md', 'team sync'],
+            ],
+        );
+    });
+
+    test('built-in templates only use known variables', () => {
+        for (const template of BUILTIN_NOTE_TEMPLATES) {
+            const names = [...`${template.title}${template.content}`.matchAll(/\{\{(\w+)\}\}/g)];
+            assert.strictEqual(
+                usedVariables(template.title, template.content).length,
+                new Set(names.map((m) => m[1])).size,
+                template.name,
+            );
+        }
+    });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import type { GistNote } from '../gistService';
+import { findBacklinks, parseWikiLinks, renameWikiLinks } from '../noteWikiLinks';
+
+/**
+ * Unit tests for `[[Note Title]]` links between Gist Notes — pure text
+ * handling, no VS Code needed.
+ */
+
+function makeNote(id: string, title: string): GistNote {
+    return {
+        id,
+        title,
+        content: '',
+        isPublic: false,
+        createdAt: new Date('2026-02-10T14:00:00Z'),
+        updatedAt: new Date('2026-02-10T15:00:00Z'),
+        htmlUrl: `https://gist.github.com/${id}`,
+        description: `[Superprompt Forge] ${title}`,
+        linkedRepo: null,
+        linkedPaths: [],
+        tags: [],
+        folder: null,
+        mainFile: `${id}.md`,
+        files: [],
+    };
+}
+
+suite('noteWikiLinks Unit Tests', () => {
+    test('parses link targets, ignoring code', () => {
+        const content = [
+            'See [[Deploy Runbook]] and [[API design|the API doc]].',
+            'Again: [[deploy runbook]]. Not links: `[[Inline]]`, [[]], [[ ]].',
+            '```',
+            '[[Fenced]]',
+            '```',
+        ].join('\n');
+        assert.deepStrictEqual(parseWikiLinks(content), ['Deploy Runbook', 'API design']);
+    });
+
+    test('finds the notes linking to a note, with the linking line', () => {
+        const pages = [
+            {
+                note: makeNote('b', 'Standup'),
+                content: '# Standup\n\n- Finish [[deploy runbook]]\n',
+            },
+            {
+                note: makeNote('a', 'Architecture'),
+                content: 'Read [[Deploy Runbook|the runbook]].',
+            },
+            { note: makeNote('c', 'Other'), content: '`[[Deploy Runbook]]` is quoted here' },
+            { note: makeNote('self', 'Deploy Runbook'), content: 'Back to [[Deploy Runbook]]' },
+        ];
+        assert.deepStrictEqual(findBacklinks(pages, { id: 'self', title: 'Deploy Runbook' }), [
+            { id: 'a', title: 'Architecture', excerpt: 'Read [[Deploy Runbook|the runbook]].' },
+            { id: 'b', title: 'Standup', excerpt: '- Finish [[deploy runbook]]' },
+        ]);
+    });
+
+    test('renames links, keeping labels and code', () => {
+        assert.strictEqual(
+            renameWikiLinks('[[Old]] [[old|label]] [[Older]] `[[Old]]`', 'Old', 'New Title'),
+            '[[New Title]] [[New Title|label]] [[Older]] `[[Old]]`',
+        );
+    });
+});
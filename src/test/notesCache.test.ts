@@ -0,0 +1,226 @@
+import * as assert from 'assert';
+import type * as vscode from 'vscode';
+import { GistService, type FetchFn } from '../gistService';
+import { NotesCache } from '../notesCache';
+import type { AuthService } from '../authService';
+
+/**
+ * Unit tests for NotesCache — offline reads, queued saves and the merge of
+ * queued edits with changes made on GitHub meanwhile. A fake gist API that
+ * can be switched offline stands in for GitHub.
+ */
+
+// ─── Mocks ────────────────────────────────────────────────────────
+
+interface FakeGist {
+    id: string;
+    description: string;
+    public: boolean;
+    html_url: string;
+    created_at: string;
+    updated_at: string;
+    files: Record<string, { filename: string; content: string }>;
+}
+
+function makeGist(id: string, title: string, content: string): FakeGist {
+    const filename = `${title.replace(/\s+/g, '-')}.md`;
+    return {
+        id,
+        description: `[Superprompt Forge] ${title}`,
+        public: false,
+        html_url: `https://gist.github.com/${id}`,
+        created_at: '2026-02-10T14:00:00Z',
+        updated_at: '2026-02-10T15:00:00Z',
+        files: {
+            '.superprompt-forge-note': { filename: '.superprompt-forge-note', content: '{"v":1}' },
+            [filename]: { filename, content },
+        },
+    };
+}
+
+/** In-memory gist API: GET and PATCH of /gists, or a network failure while `offline`. */
+function fakeGitHub(gists: FakeGist[]) {
+    const byId = new Map(gists.map((g) => [g.id, g]));
+    let clock = Date.parse('2026-02-10T15:00:00Z');
+
+    const json = (body: unknown) =>
+        new Response(JSON.stringify(body), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json', 'X-RateLimit-Remaining': '100' },
+        });
+
+    const server = {
+        offline: false,
+        /** Runs as a PATCH arrives, before it is applied */
+        onPatch: undefined as (() => Promise<void>) | undefined,
+        patches: [] as { files: Record<string, { content: string } | null> }[],
+
+        /** Change a file as if from another machine. */
+        edit(id: string, filename: string, content: string): void {
+            const gist = byId.get(id)!;
+            gist.files[filename] = { filename, content };
+            gist.updated_at = new Date((clock += 60_000)).toISOString();
+        },
+
+        content(id: string, filename: string): string | undefined {
+            return byId.get(id)?.files[filename]?.content;
+        },
+
+        fetch: (async (input: string | URL | Request, init?: RequestInit) => {
+            if (server.offline) {
+                throw new TypeError('fetch failed');
+            }
+            const url = new URL(typeof input === 'string' ? input : input.toString());
+            if (url.pathname === '/gists') {
+                return json(url.searchParams.get('page') === '1' ? [...byId.values()] : []);
+            }
+            const gist = byId.get(url.pathname.split('/')[2])!;
+            if (init?.method === 'PATCH') {
+                await server.onPatch?.();
+                const body = JSON.parse(String(init.body));
+                server.patches.push(body);
+                for (const [name, file] of Object.entries(
+                    body.files as Record<string, { content: string } | null>,
+                )) {
+                    if (file) {
+                        gist.files[name] = { filename: name, content: file.content };
+                    } else {
+                        delete gist.files[name];
+                    }
+                }
+                gist.description = body.description ?? gist.description;
+                gist.updated_at = new Date((clock += 60_000)).toISOString();
+            }
+            return json(gist);
+        }) as FetchFn,
+    };
+    return server;
+}
+
+/** vscode.Memento backed by a Map */
+function mockMemento(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: <T>(key: string, defaultValue?: T) =>
+            (values.has(key) ? values.get(key) : defaultValue) as T,
+        update: async (key: string, value: unknown) => {
+            values.set(key, value);
+        },
+    };
+}
+
+function createCache(server: ReturnType<typeof fakeGitHub>): NotesCache {
+    const auth = { getToken: async () => 'ghp_testtoken123' } as unknown as AuthService;
+    const output = { appendLine: () => {} } as unknown as vscode.OutputChannel;
+    const gistService = new GistService(auth, output, server.fetch);
+    return new NotesCache(gistService, mockMemento(), output);
+}
+
+// ─── Tests ────────────────────────────────────────────────────────
+
+suite('NotesCache Unit Tests', () => {
+    const BASE = '# Plan\n\none\ntwo\nthree\nfour\nfive\n';
+
+    test('lists the cached notes while GitHub is unreachable', async () => {
+        const server = fakeGitHub([makeGist('g1', 'Plan', BASE)]);
+        const cache = createCache(server);
+        await cache.listNotes();
+        await cache.getNote('g1');
+
+        server.offline = true;
+        const notes = await cache.listNotes();
+        assert.strictEqual(cache.offline, true);
+        assert.strictEqual(notes.length, 1);
+        assert.strictEqual(notes[0].content, BASE);
+        assert.strictEqual((await cache.getNote('g1')).content, BASE);
+        cache.dispose();
+    });
+
+    test('queues saves made offline and pushes them on sync', async () => {
+        const server = fakeGitHub([makeGist('g1', 'Plan', BASE)]);
+        const cache = createCache(server);
+        await cache.getNote('g1');
+
+        server.offline = true;
+        const edited = BASE.replace('one', 'ONE');
+        const { note, status } = await cache.updateNote('g1', 'Plan', edited);
+        assert.strictEqual(status, 'queued');
+        assert.strictEqual(note.content, edited);
+        assert.strictEqual(cache.syncState('g1'), 'queued');
+        assert.strictEqual(cache.pendingCount, 1);
+
+        server.offline = false;
+        const result = await cache.sync();
+        assert.deepStrictEqual(result, { pushed: 1, conflicts: [], remaining: 0 });
+        assert.strictEqual(server.content('g1', 'Plan.md'), edited);
+        assert.strictEqual(cache.syncState('g1'), undefined);
+        cache.dispose();
+    });
+
+    test('merges queued edits with changes made on GitHub meanwhile', async () => {
+        const server = fakeGitHub([makeGist('g1', 'Plan', BASE)]);
+        const cache = createCache(server);
+        await cache.getNote('g1');
+
+        server.offline = true;
+        await cache.updateNote('g1', 'Plan', BASE.replace('one', 'ONE'));
+        server.edit('g1', 'Plan.md', BASE.replace('five', 'FIVE'));
+
+        server.offline = false;
+        await cache.sync();
+        assert.strictEqual(
+            server.content('g1', 'Plan.md'),
+            BASE.replace('one', 'ONE').replace('five', 'FIVE'),
+        );
+        cache.dispose();
+    });
+
+    test('keeps an edit saved while an earlier one is being pushed', async () => {
+        const server = fakeGitHub([makeGist('g1', 'Plan', BASE)]);
+        const cache = createCache(server);
+        await cache.getNote('g1');
+
+        const first = BASE.replace('one', 'ONE');
+        const second = first.replace('two', 'TWO');
+        let overlapping: Promise<unknown> | undefined;
+        server.onPatch = async () => {
+            server.onPatch = undefined;
+            overlapping = cache.updateNote('g1', 'Plan', second);
+            await new Promise((resolve) => setTimeout(resolve, 0));
+        };
+        await cache.updateNote('g1', 'Plan', first);
+        assert.strictEqual(cache.pendingCount, 1);
+        await overlapping;
+
+        assert.strictEqual(server.content('g1', 'Plan.md'), second);
+        assert.strictEqual(cache.pendingCount, 0);
+        cache.dispose();
+    });
+
+    test('keeps conflicting edits local with conflict markers', async () => {
+        const server = fakeGitHub([makeGist('g1', 'Plan', BASE)]);
+        const cache = createCache(server);
+        await cache.getNote('g1');
+
+        server.offline = true;
+        await cache.updateNote('g1', 'Plan', BASE.replace('three', 'mine'));
+        server.edit('g1', 'Plan.md', BASE.replace('three', 'theirs'));
+
+        server.offline = false;
+        const result = await cache.sync();
+        assert.deepStrictEqual(result.conflicts, ['Plan']);
+        assert.strictEqual(server.patches.length, 0);
+        assert.strictEqual(cache.syncState('g1'), 'conflict');
+
+        const local = await cache.getNote('g1');
+        assert.ok(local.content.includes('<<<<<<< local\nmine\n=======\ntheirs\n>>>>>>> GitHub'));
+
+        // Saving the resolved text pushes it over GitHub's version
+        const resolved = BASE.replace('three', 'both');
+        const { status } = await cache.updateNote('g1', 'Plan', resolved);
+        assert.strictEqual(status, 'saved');
+        assert.strictEqual(server.content('g1', 'Plan.md'), resolved);
+        cache.dispose();
+    });
+});
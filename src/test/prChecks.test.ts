@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import {
+    checkRunState,
+    commitStatusState,
+    extractLogExcerpt,
+    rollupChecks,
+    sortChecks,
+} from '../prChecks';
+
+/**
+ * Unit tests for pull request CI checks — state mapping, rollup and log
+ * excerpts are pure, no VS Code needed.
+ */
+
+suite('prChecks Unit Tests', () => {
+    test('maps check run status and conclusion to a state', () => {
+        assert.strictEqual(checkRunState('queued', null), 'pending');
+        assert.strictEqual(checkRunState('in_progress', null), 'pending');
+        assert.strictEqual(checkRunState('completed', 'success'), 'success');
+        assert.strictEqual(checkRunState('completed', 'timed_out'), 'failure');
+        assert.strictEqual(checkRunState('completed', 'cancelled'), 'failure');
+        assert.strictEqual(checkRunState('completed', 'skipped'), 'skipped');
+        assert.strictEqual(checkRunState('completed', 'neutral'), 'neutral');
+    });
+
+    test('maps commit statuses to a state', () => {
+        assert.strictEqual(commitStatusState('success'), 'success');
+        assert.strictEqual(commitStatusState('pending'), 'pending');
+        assert.strictEqual(commitStatusState('error'), 'failure');
+    });
+
+    test('rolls up failing over running over passing', () => {
+        assert.deepStrictEqual(
+            rollupChecks([{ state: 'success' }, { state: 'pending' }, { state: 'skipped' }]),
+            { state: 'pending', total: 3, passed: 1, failed: 0, pending: 1, skipped: 1 },
+        );
+        assert.strictEqual(rollupChecks([{ state: 'pending' }, { state: 'failure' }]).state, 'failure');
+        assert.strictEqual(rollupChecks([{ state: 'success' }, { state: 'neutral' }]).state, 'success');
+        assert.strictEqual(rollupChecks([]).state, 'neutral');
+    });
+
+    test('sorts failing checks first, then by name', () => {
+        const sorted = sortChecks([
+            { name: 'lint', state: 'success' as const },
+            { name: 'test', state: 'failure' as const },
+            { name: 'build', state: 'pending' as const },
+            { name: 'audit', state: 'success' as const },
+        ]);
+        assert.deepStrictEqual(
+            sorted.map((c) => c.name),
+            ['test', 'build', 'audit', 'lint'],
+        );
+    });
+
+    test('cuts a job log down to the lines before the last error', () => {
+        const log = [
+            '2026-02-10T14:00:00.0000000Z ##[group]Run npm test',
+            '2026-02-10T14:00:01.0000000Z npm test',
+            '2026-02-10T14:00:01.5000000Z ##[endgroup]',
+            '2026-02-10T14:00:02.0000000Z   1 failing',
+            '2026-02-10T14:00:03.0000000Z ##[error]Process completed with exit code 1.',
+            '2026-02-10T14:00:04.0000000Z Post job cleanup.',
+            '',
+        ].join('\r\n');
+
+        assert.strictEqual(
+            extractLogExcerpt(log),
+            ['Run npm test', 'npm test', '  1 failing', 'Error: Process completed with exit code 1.'].join(
+                '\n',
+            ),
+        );
+        assert.strictEqual(
+            extractLogExcerpt(log, 2),
+            '  1 failing\nError: Process completed with exit code 1.',
+        );
+    });
+
+    test('falls back to the end of a log without errors', () => {
+        const log = Array.from({ length: 50 }, (_, i) => `line ${i + 1}`).join('\n') + '\n\n';
+        const excerpt = extractLogExcerpt(log, 3);
+        assert.strictEqual(excerpt, 'line 48\nline 49\nline 50');
+    });
+});
@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import type * as vscode from 'vscode';
+import type { PendingInlineComment, PendingReview, PrService } from '../prService';
+import { PrReviewDrafts, planDraftSync, reconcileDraft, type PRReviewDraft } from '../prReviewDrafts';
+
+/**
+ * Unit tests for persisted PR review drafts — reconciling with GitHub's
+ * pending review and syncing comment edits to it.
+ */
+
+/** vscode.Memento backed by a Map */
+function mockMemento(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: <T>(key: string, defaultValue?: T) =>
+            (values.has(key) ? values.get(key) : defaultValue) as T,
+        update: async (key: string, value: unknown) => {
+            values.set(key, value);
+        },
+    };
+}
+
+/** PrService stand-in holding one pending review */
+function fakePrService(pending?: PendingReview) {
+    let nextId = 100;
+    const calls: string[] = [];
+    const service = {
+        calls,
+        getPendingReview: async () => pending,
+        addPendingReviewComment: async (_nodeId: string, c: PendingInlineComment) => {
+            calls.push(`add ${c.path}:${c.line}`);
+            return nextId++;
+        },
+        deleteReviewComment: async (_owner: string, _repo: string, id: number) => {
+            calls.push(`delete ${id}`);
+        },
+    };
+    return service as typeof service & PrService;
+}
+
+const output = { appendLine: () => {} } as unknown as vscode.OutputChannel;
+
+const comment = (line: number, body = `note ${line}`): PendingInlineComment => ({
+    path: 'src/app.ts',
+    line,
+    side: 'RIGHT',
+    body,
+});
+
+suite('prReviewDrafts Unit Tests', () => {
+    test('takes comments from GitHub and keeps a local body GitHub lacks', () => {
+        const local: PRReviewDraft = { body: 'Looks good', comments: [comment(1)], updatedAt: '' };
+        const remote: PendingReview = { id: 7, nodeId: 'PRR_7', body: '', comments: [{ ...comment(2), id: 42 }] };
+
+        const draft = reconcileDraft(local, remote, new Date('2026-02-10T14:00:00Z'));
+        assert.deepStrictEqual(draft, {
+            body: 'Looks good',
+            comments: [{ ...comment(2), id: 42 }],
+            pendingReview: { id: 7, nodeId: 'PRR_7' },
+            updatedAt: '2026-02-10T14:00:00.000Z',
+        });
+
+        assert.strictEqual(reconcileDraft(local, undefined), local);
+        assert.strictEqual(
+            reconcileDraft(draft, undefined),
+            undefined,
+            'a pending review that is gone was submitted or deleted',
+        );
+    });
+
+    test('matches comments without IDs and plans adds and deletes', () => {
+        const stored = [
+            { ...comment(1), id: 11 },
+            { ...comment(2), id: 12 },
+            { ...comment(2), id: 13 },
+        ];
+        const plan = planDraftSync(stored, [comment(2), { ...comment(1), id: 11 }, comment(3)]);
+
+        assert.deepStrictEqual(
+            plan.comments.map((c) => c.id),
+            [12, 11, undefined],
+        );
+        assert.deepStrictEqual(plan.add, [2]);
+        assert.deepStrictEqual(plan.remove, [13]);
+    });
+
+    test('keeps drafts without a pending review in workspace state only', async () => {
+        const service = fakePrService();
+        const drafts = new PrReviewDrafts(mockMemento(), service, output);
+
+        await drafts.save('Acme', 'App', 5, 'WIP', [comment(1)]);
+        assert.deepStrictEqual(service.calls, []);
+        assert.strictEqual(drafts.get('acme', 'app', 5)?.body, 'WIP');
+
+        await drafts.save('Acme', 'App', 5, '  ', []);
+        assert.strictEqual(drafts.get('Acme', 'App', 5), undefined, 'empty drafts are dropped');
+    });
+
+    test('mirrors comment edits onto the pending review, one save at a time', async () => {
+        const service = fakePrService({
+            id: 7,
+            nodeId: 'PRR_7',
+            body: '',
+            comments: [{ ...comment(1), id: 11 }],
+        });
+        const drafts = new PrReviewDrafts(mockMemento(), service, output);
+        await drafts.load('acme', 'app', 5);
+
+        // The webview does not send IDs; two quick saves must not add line 2 twice
+        await Promise.all([
+            drafts.save('acme', 'app', 5, '', [comment(1), comment(2)]),
+            drafts.save('acme', 'app', 5, '', [comment(2)]),
+        ]);
+
+        assert.deepStrictEqual(service.calls, ['add src/app.ts:2', 'delete 11']);
+        assert.deepStrictEqual(
+            drafts.get('acme', 'app', 5)?.comments.map((c) => [c.line, c.id]),
+            [[2, 100]],
+        );
+    });
+});
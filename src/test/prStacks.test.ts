@@ -0,0 +1,212 @@
+import * as assert from 'assert';
+import { findStack, orderByStack, restackBranches, stackParents, type StackPR } from '../prStacks';
+import { GitService } from '../gitService';
+
+/**
+ * Unit tests for stacked pull requests — stacks are found from PR data
+ * alone, and restacking runs against a fake GitService recording its calls.
+ */
+
+const REPO = 'octo/app';
+
+function pr(number: number, branch: string, baseBranch: string, extra: Partial<StackPR> = {}): StackPR {
+    return { number, state: 'open', branch, baseBranch, headRepo: REPO, ...extra };
+}
+
+/**
+ * A GitService stand-in over a map of refs; `ancestors` holds `a..b` pairs
+ * where a is an ancestor of b, and `current` the branch checked out.
+ */
+function fakeGit(
+    refs: Record<string, string>,
+    opts: { ancestors?: string[]; failRebase?: string; current?: string } = {},
+) {
+    const calls: string[] = [];
+    const git = {
+        getCurrentBranch: async () => opts.current ?? 'main',
+        hasChanges: async () => false,
+        fetchBranches: async (remote: string, branches: string[]) => {
+            calls.push(`fetch ${remote} ${branches.join(' ')}`);
+        },
+        resolveRef: async (ref: string) => refs[ref],
+        isAncestor: async (a: string, b: string) => (opts.ancestors ?? []).includes(`${a}..${b}`),
+        detachHead: async () => {
+            calls.push('detach');
+        },
+        setBranch: async (branch: string, commit: string) => {
+            calls.push(`branch ${branch} ${commit}`);
+            refs[`refs/heads/${branch}`] = commit;
+        },
+        deleteBranch: async (branch: string) => {
+            calls.push(`delete ${branch}`);
+            delete refs[`refs/heads/${branch}`];
+        },
+        rebaseOnto: async (branch: string, onto: string, upstream: string) => {
+            calls.push(`rebase ${branch} onto ${onto} from ${upstream}`);
+            if (branch === opts.failRebase) {
+                throw new Error(`Rebasing ${branch} onto ${onto} stopped on conflicts`);
+            }
+            refs[`refs/heads/${branch}`] = `${branch}-rebased`;
+        },
+        checkoutBranch: async (branch: string) => {
+            calls.push(`checkout ${branch}`);
+        },
+        pushWithLease: async (remote: string, branches: { branch: string; expected: string | undefined }[]) => {
+            calls.push(`push ${remote} ${branches.map((b) => `${b.branch}:${b.expected ?? ''}`).join(' ')}`);
+        },
+    };
+    return { git: git as unknown as GitService, calls, refs };
+}
+
+suite('prStacks Unit Tests', () => {
+    test('links open PRs to the PR whose head they are based on, ignoring forks', () => {
+        const prs = [
+            pr(1, 'feature-1', 'main'),
+            pr(2, 'feature-2', 'feature-1'),
+            pr(3, 'feature-1', 'main', { headRepo: 'someone/app' }),
+            pr(4, 'fix', 'feature-1', { state: 'closed' }),
+            pr(5, 'other', 'patch'),
+            pr(6, 'patch', 'main', { headRepo: 'someone/app' }),
+        ];
+        const parents = stackParents(prs, 'Octo/App');
+
+        assert.deepStrictEqual([...parents].map(([n, p]) => [n, p.number]), [[2, 1]]);
+    });
+
+    test('finds the whole stack from any of its PRs, parents first', () => {
+        const prs = [
+            pr(3, 'feature-3', 'feature-2'),
+            pr(9, 'unrelated', 'main'),
+            pr(2, 'feature-2', 'feature-1'),
+            pr(4, 'feature-2b', 'feature-1'),
+            pr(1, 'feature-1', 'main'),
+        ];
+
+        for (const n of [1, 2, 3, 4]) {
+            assert.deepStrictEqual(findStack(prs, n, REPO).map((p) => p.number), [1, 2, 3, 4]);
+        }
+        assert.deepStrictEqual(findStack(prs, 9, REPO), []);
+        assert.deepStrictEqual(findStack(prs, 42, REPO), []);
+    });
+
+    test('orders a list so stacked PRs follow their parent', () => {
+        const all = [
+            pr(3, 'feature-3', 'feature-2'),
+            pr(9, 'unrelated', 'main'),
+            pr(2, 'feature-2', 'feature-1'),
+            pr(1, 'feature-1', 'main'),
+        ];
+        const parents = stackParents(all, REPO);
+
+        const rows = orderByStack(all, all, parents);
+        assert.deepStrictEqual(
+            rows.map(({ pr: p, depth }) => [p.number, depth]),
+            [[9, 0], [1, 0], [2, 1], [3, 2]],
+        );
+
+        // A child whose parent is filtered out keeps its place
+        const listed = all.filter((p) => p.number !== 2);
+        assert.deepStrictEqual(
+            orderByStack(listed, all, parents).map(({ pr: p, depth }) => [p.number, depth]),
+            [[3, 0], [9, 0], [1, 0]],
+        );
+
+        // PRs based on each other's heads are still listed
+        const cycle = [pr(7, 'a', 'b'), pr(8, 'b', 'a')];
+        assert.strictEqual(orderByStack(cycle, cycle, stackParents(cycle, REPO)).length, 2);
+    });
+
+    test('rebases each branch on its parent and pushes the changed ones', async () => {
+        const { git, calls } = fakeGit({
+            'refs/heads/feature-1': 'a1',
+            'refs/remotes/origin/feature-1': 'a0',
+            'refs/remotes/origin/feature-2': 'b1',
+        }, { ancestors: ['a0..a1'] });
+        const stack = [pr(1, 'feature-1', 'main'), pr(2, 'feature-2', 'feature-1')];
+
+        const pushed = await restackBranches(git, 'origin', stack);
+
+        assert.deepStrictEqual(pushed, ['feature-1', 'feature-2']);
+        assert.deepStrictEqual(calls, [
+            'fetch origin main feature-1 feature-2',
+            'detach',
+            'branch feature-1 a1',
+            'branch feature-2 b1',
+            'rebase feature-1 onto origin/main from origin/main',
+            'rebase feature-2 onto feature-1 from a1',
+            'checkout main',
+            'push origin feature-1:a0 feature-2:b1',
+        ]);
+    });
+
+    test('fast-forwards a branch behind its remote and honours upstream overrides', async () => {
+        const { git, calls } = fakeGit({
+            'refs/heads/feature-2': 'b0',
+            'refs/remotes/origin/feature-2': 'b1',
+        }, { ancestors: ['b0..b1'] });
+
+        await restackBranches(git, 'origin', [pr(2, 'feature-2', 'main')], { 'feature-2': 'merged-head' });
+
+        assert.ok(calls.includes('branch feature-2 b1'));
+        assert.ok(calls.includes('rebase feature-2 onto origin/main from merged-head'));
+    });
+
+    test('refuses a branch that diverged from its remote', async () => {
+        const { git, calls } = fakeGit({
+            'refs/heads/feature-1': 'a1',
+            'refs/remotes/origin/feature-1': 'a2',
+        });
+
+        await assert.rejects(
+            () => restackBranches(git, 'origin', [pr(1, 'feature-1', 'main')]),
+            /feature-1 has diverged from origin\/feature-1/,
+        );
+        assert.ok(!calls.includes('detach'));
+    });
+
+    test('refuses to restack from a detached HEAD before touching any branch', async () => {
+        const { git, calls } = fakeGit(
+            { 'refs/heads/feature-1': 'a1', 'refs/remotes/origin/feature-1': 'a1' },
+            { current: GitService.DETACHED_HEAD },
+        );
+
+        await assert.rejects(
+            () => restackBranches(git, 'origin', [pr(1, 'feature-1', 'main')]),
+            /HEAD is detached/,
+        );
+        assert.deepStrictEqual(calls, []);
+    });
+
+    test('puts every branch back when a rebase stops on conflicts', async () => {
+        const { git, calls, refs } = fakeGit({
+            'refs/heads/feature-1': 'a1',
+            'refs/remotes/origin/feature-1': 'a1',
+            'refs/heads/feature-2': 'b1',
+            'refs/remotes/origin/feature-2': 'b1',
+        }, { failRebase: 'feature-2' });
+        const stack = [pr(1, 'feature-1', 'main'), pr(2, 'feature-2', 'feature-1')];
+
+        await assert.rejects(
+            () => restackBranches(git, 'origin', stack),
+            /stopped on conflicts/,
+        );
+        assert.strictEqual(refs['refs/heads/feature-1'], 'a1');
+        assert.strictEqual(refs['refs/heads/feature-2'], 'b1');
+        assert.strictEqual(calls[calls.length - 1], 'checkout main');
+        assert.ok(!calls.some((c) => c.startsWith('push')));
+    });
+
+    test('deletes branches it created from the remote when a rebase fails', async () => {
+        const { git, calls, refs } = fakeGit({
+            'refs/heads/feature-1': 'a1',
+            'refs/remotes/origin/feature-1': 'a1',
+            'refs/remotes/origin/feature-2': 'b1',
+        }, { failRebase: 'feature-2' });
+        const stack = [pr(1, 'feature-1', 'main'), pr(2, 'feature-2', 'feature-1')];
+
+        await assert.rejects(() => restackBranches(git, 'origin', stack), /stopped on conflicts/);
+        assert.strictEqual(refs['refs/heads/feature-1'], 'a1');
+        assert.ok(!('refs/heads/feature-2' in refs));
+        assert.ok(calls.includes('delete feature-2'));
+    });
+});
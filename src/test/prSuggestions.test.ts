@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import {
+    applySuggestions,
+    groupSuggestionsByPath,
+    parseSuggestions,
+    suggestionOriginalLines,
+} from '../prSuggestions';
+
+/**
+ * Unit tests for suggested changes — parsing ```suggestion blocks and
+ * applying them to file text are pure, no VS Code needed.
+ */
+
+suite('prSuggestions Unit Tests', () => {
+    test('finds every suggestion block, including empty and longer fences', () => {
+        const body = [
+            'Rename this:',
+            '```suggestion',
+            'const total = sum(items);',
+            '```',
+            'And drop this line:',
+            '~~~~suggestion',
+            '~~~~',
+            '````suggestion',
+            'a ```',
+            '```',
+            '````',
+            '```ts',
+            'not a suggestion',
+            '```',
+        ].join('\r\n');
+        assert.deepStrictEqual(parseSuggestions(body), [
+            'const total = sum(items);',
+            '',
+            'a ```\n```',
+        ]);
+    });
+
+    test('takes the replaced lines from the end of the diff hunk', () => {
+        const hunk = ['@@ -10,4 +10,4 @@ function f() {', ' a', '-b', '+B', ' c'].join('\n');
+        assert.deepStrictEqual(suggestionOriginalLines(hunk, null, 12), ['c']);
+        assert.deepStrictEqual(suggestionOriginalLines(hunk, 11, 12), ['B', 'c']);
+    });
+
+    test('applies suggestions bottom-up and keeps line endings', () => {
+        const text = 'one\r\ntwo\r\nthree\r\nfour\r\n';
+        const result = applySuggestions(text, [
+            { path: 'f.txt', startLine: 1, line: 1, replacement: 'ONE\nONE AND A HALF', original: ['one'] },
+            { path: 'f.txt', startLine: 3, line: 4, replacement: '' },
+        ]);
+        assert.strictEqual(result, 'ONE\r\nONE AND A HALF\r\ntwo\r\n');
+    });
+
+    test('refuses overlapping suggestions and changed lines', () => {
+        assert.throws(
+            () =>
+                applySuggestions('a\nb\nc', [
+                    { path: 'f', startLine: 1, line: 2, replacement: 'x' },
+                    { path: 'f', startLine: 2, line: 3, replacement: 'y' },
+                ]),
+            /overlap/,
+        );
+        assert.throws(
+            () => applySuggestions('a\nb', [{ path: 'f', startLine: 2, line: 2, replacement: 'x', original: ['old'] }]),
+            /changed since the suggestion/,
+        );
+        assert.throws(
+            () => applySuggestions('a', [{ path: 'f', startLine: 3, line: 3, replacement: 'x' }]),
+            /has no lines 3–3/,
+        );
+    });
+
+    test('groups suggestions by file', () => {
+        const edits = [
+            { path: 'a', startLine: 1, line: 1, replacement: '' },
+            { path: 'b', startLine: 1, line: 1, replacement: '' },
+            { path: 'a', startLine: 5, line: 5, replacement: '' },
+        ];
+        assert.deepStrictEqual(
+            [...groupSuggestionsByPath(edits)].map(([path, list]) => [path, list.length]),
+            [
+                ['a', 2],
+                ['b', 1],
+            ],
+        );
+    });
+});
@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import type { StashExport } from '../gitService';
+import {
+    STASH_BUNDLE_MANIFEST,
+    buildStashBundle,
+    parseStashBundle,
+    suggestBundleName,
+} from '../stashBundle';
+
+/**
+ * Unit tests for stash bundles — pure build/parse of the file set,
+ * no filesystem or git needed.
+ */
+
+function makeExport(overrides: Partial<StashExport> = {}): StashExport {
+    return {
+        subject: 'On main: fix login',
+        branch: 'main',
+        message: 'fix login',
+        baseSha: 'b'.repeat(39) + '0',
+        date: '2026-02-10T14:23:05-06:00',
+        untrackedFiles: [],
+        worktreePatch: 'diff --git a/a.ts b/a.ts\n',
+        ...overrides,
+    };
+}
+
+suite('stashBundle Unit Tests', () => {
+    test('round-trips exports through bundle files in order', () => {
+        const exports = [
+            makeExport({ indexPatch: 'diff --git a/b.ts b/b.ts\n' }),
+            makeExport({
+                message: 'WIP: notes',
+                subject: 'On dev: WIP: notes',
+                branch: 'dev',
+                untrackedFiles: ['notes.txt'],
+                untrackedPatch: 'diff --git a/notes.txt b/notes.txt\n',
+            }),
+        ];
+        const files = buildStashBundle(exports);
+
+        assert.deepStrictEqual(Object.keys(files).sort(), [
+            '01-fix-login.index.patch',
+            '01-fix-login.patch',
+            '02-wip-notes.patch',
+            '02-wip-notes.untracked.patch',
+            STASH_BUNDLE_MANIFEST,
+        ]);
+        assert.deepStrictEqual(parseStashBundle(files), exports);
+    });
+
+    test('rejects a manifest whose base SHA or date is not what an export writes', () => {
+        const tamper = (change: Record<string, unknown>) => {
+            const files = buildStashBundle([makeExport()]);
+            const manifest = JSON.parse(files[STASH_BUNDLE_MANIFEST]);
+            Object.assign(manifest.stashes[0], change);
+            files[STASH_BUNDLE_MANIFEST] = JSON.stringify(manifest);
+            return files;
+        };
+
+        for (const baseSha of ['HEAD', '$(touch pwned)', 'b'.repeat(40) + '; id', 'B'.repeat(40)]) {
+            assert.throws(() => parseStashBundle(tamper({ baseSha })), /not a commit SHA/);
+        }
+        for (const date of ['yesterday', '2026-02-10', '2026-13-45T99:99:99Z']) {
+            assert.throws(() => parseStashBundle(tamper({ date })), /not an ISO date/);
+        }
+        assert.strictEqual(
+            parseStashBundle(tamper({ date: '2026-02-10T20:23:05.123Z' }))[0].date,
+            '2026-02-10T20:23:05.123Z',
+        );
+    });
+
+    test('omits empty patches so the bundle can be attached to a gist', () => {
+        const files = buildStashBundle([makeExport({ worktreePatch: '' })]);
+        const manifest = JSON.parse(files[STASH_BUNDLE_MANIFEST]);
+
+        assert.deepStrictEqual(manifest.stashes[0].patches, {});
+        assert.ok(Object.values(files).every((content) => content.length > 0));
+        assert.strictEqual(parseStashBundle(files)[0].worktreePatch, '');
+    });
+
+    test('rejects a file set without a manifest', () => {
+        assert.throws(() => parseStashBundle({ 'a.patch': 'x' }), /stash-bundle\.json is missing/);
+    });
+
+    test('rejects a bundle with a missing patch', () => {
+        const files = buildStashBundle([makeExport()]);
+        delete files['01-fix-login.patch'];
+        assert.throws(() => parseStashBundle(files), /01-fix-login\.patch is missing/);
+    });
+
+    test('rejects bundles from a newer format version', () => {
+        const files = buildStashBundle([makeExport()]);
+        const manifest = JSON.parse(files[STASH_BUNDLE_MANIFEST]);
+        manifest.version = 99;
+        files[STASH_BUNDLE_MANIFEST] = JSON.stringify(manifest);
+        assert.throws(() => parseStashBundle(files), /newer version/);
+    });
+
+    test('suggests a folder name from the stash message or count', () => {
+        assert.strictEqual(suggestBundleName([makeExport()]), 'fix-login.stash-bundle');
+        assert.strictEqual(
+            suggestBundleName([makeExport(), makeExport()]),
+            '2-stashes.stash-bundle',
+        );
+    });
+});
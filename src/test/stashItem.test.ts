@@ -1,7 +1,9 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { StashItem, StashFileItem } from '../stashItem';
+import { StashItem, StashFileItem, RepositoryItem } from '../stashItem';
+import { GitService } from '../gitService';
 import { type StashEntry, FileStatus } from '../gitService';
+import { type StashRepository } from '../repositoryManager';
 
 /**
  * Unit tests for StashItem and StashFileItem tree item models.
@@ -12,6 +14,7 @@ function makeEntry(overrides: Partial<StashEntry> = {}): StashEntry {
     return {
         index: 0,
         name: 'stash@{0}',
+        sha: 'a'.repeat(40),
         branch: 'main',
         message: 'test stash message',
         date: new Date('2026-02-10T14:00:00Z'),
@@ -70,6 +73,12 @@ suite('StashItem Tests', () => {
         assert.strictEqual(item.id, 'stash-3');
     });
 
+    test('id is prefixed with the repository root when given', () => {
+        const item = new StashItem(makeEntry({ index: 3 }), undefined, undefined, '/work/api');
+        assert.strictEqual(item.id, '/work/api:stash-3');
+        assert.strictEqual(item.repoRoot, '/work/api');
+    });
+
     test('accessibilityInformation is set', () => {
         const item = new StashItem(makeEntry({ message: 'fix login', branch: 'main' }));
         assert.ok(item.accessibilityInformation);
@@ -113,6 +122,28 @@ suite('StashItem Tests', () => {
         assert.notStrictEqual(tooltipBefore, tooltipAfter);
         assert.ok(tooltipAfter.includes('3'));
     });
+
+    test('auto-stashes get the shield icon and say where they return', () => {
+        const item = new StashItem(makeEntry(), undefined, undefined, '/repo', [], {
+            sha: 'a'.repeat(40),
+            repoRoot: '/repo',
+            branch: 'feature/login',
+            operation: 'checkout',
+            target: 'main',
+        });
+        assert.strictEqual((item.iconPath as vscode.ThemeIcon).id, 'shield');
+        assert.ok((item.tooltip as vscode.MarkdownString).value.includes('feature/login'));
+    });
+
+    test('stale stashes are marked in description and tooltip', () => {
+        const item = new StashItem(makeEntry(), undefined, undefined, undefined, [
+            { kind: 'branchDeleted', branch: 'feature/x' },
+        ]);
+        assert.ok(String(item.description).endsWith(' · stale'));
+        assert.ok(
+            (item.tooltip as vscode.MarkdownString).value.includes('branch feature/x was deleted'),
+        );
+    });
 });
 
 suite('StashFileItem Tests', () => {
@@ -145,6 +176,13 @@ suite('StashFileItem Tests', () => {
         assert.strictEqual(item.collapsibleState, vscode.TreeItemCollapsibleState.None);
     });
 
+    test('apply risk shows in description, icon and decoration URI', () => {
+        const item = new StashFileItem('src/a.ts', 0, 'M', undefined, undefined, 'conflict');
+        assert.ok(String(item.description).includes('Would conflict'));
+        assert.strictEqual((item.iconPath as vscode.ThemeIcon).id, 'warning');
+        assert.ok(item.decorationUri.query.includes('risk=conflict'));
+    });
+
     test('icon uses diff-modified for M status', () => {
         const item = new StashFileItem('file.ts', 0, 'M');
         assert.ok(item.iconPath instanceof vscode.ThemeIcon);
@@ -200,3 +238,33 @@ suite('StashFileItem Tests', () => {
         assert.ok(item.accessibilityInformation!.label.includes('Modified'));
     });
 });
+
+suite('RepositoryItem Tests', () => {
+    function makeRepo(overrides: Partial<StashRepository> = {}): StashRepository {
+        return {
+            root: '/work/api',
+            name: 'api',
+            isSubmodule: false,
+            gitService: new GitService('/work/api'),
+            ...overrides,
+        };
+    }
+
+    test('label is the repository name, expanded by default', () => {
+        const item = new RepositoryItem(makeRepo(), 2, 'main');
+        assert.strictEqual(item.label, 'api');
+        assert.strictEqual(item.collapsibleState, vscode.TreeItemCollapsibleState.Expanded);
+        assert.strictEqual(item.contextValue, 'stashRepository');
+    });
+
+    test('description shows stash count and branch', () => {
+        assert.strictEqual(new RepositoryItem(makeRepo(), 1, 'main').description, '1 stash · on main');
+        assert.strictEqual(new RepositoryItem(makeRepo(), 3, undefined).description, '3 stashes');
+    });
+
+    test('submodules get the submodule icon', () => {
+        const item = new RepositoryItem(makeRepo({ isSubmodule: true }), 0, undefined);
+        assert.ok(item.iconPath instanceof vscode.ThemeIcon);
+        assert.strictEqual((item.iconPath as vscode.ThemeIcon).id, 'file-submodule');
+    });
+});
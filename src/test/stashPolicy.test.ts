@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+import type { GitService, StashEntry } from '../gitService';
+import {
+    type BranchState,
+    type StashAgePolicy,
+    describeStaleReason,
+    findStaleStashes,
+    isBranchGone,
+    loadBranchState,
+} from '../stashPolicy';
+
+/**
+ * Unit tests for stash age policies — pure rule evaluation, plus loading
+ * branch state from a fake GitService.
+ */
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+function makeEntry(overrides: Partial<StashEntry> = {}): StashEntry {
+    return {
+        index: 0,
+        name: 'stash@{0}',
+        sha: 'a'.repeat(40),
+        branch: 'feature/login',
+        message: 'wip',
+        date: new Date('2026-02-28T12:00:00Z'),
+        ...overrides,
+    };
+}
+
+const policy: StashAgePolicy = { maxAgeDays: 30, flagMergedBranches: true };
+
+const branches: BranchState = {
+    existing: new Set(['main', 'feature/login', 'feature/done']),
+    merged: new Set(['main', 'feature/done']),
+    defaultBranch: 'origin/main',
+};
+
+suite('stashPolicy Unit Tests', () => {
+    test('flags stashes older than the age limit', () => {
+        const old = makeEntry({ date: new Date('2026-01-15T12:00:00Z') });
+        const stale = findStaleStashes([makeEntry(), old], policy, undefined, now);
+
+        assert.strictEqual(stale.length, 1);
+        assert.strictEqual(stale[0].entry, old);
+        assert.deepStrictEqual(stale[0].reasons, [{ kind: 'age', days: 45 }]);
+    });
+
+    test('age limit 0 disables the age rule', () => {
+        const old = makeEntry({ date: new Date('2020-01-01T00:00:00Z') });
+        const stale = findStaleStashes([old], { ...policy, maxAgeDays: 0 }, undefined, now);
+        assert.deepStrictEqual(stale, []);
+    });
+
+    test('flags deleted and merged branches but not the default branch', () => {
+        const stale = findStaleStashes(
+            [
+                makeEntry({ branch: 'feature/gone' }),
+                makeEntry({ branch: 'feature/done' }),
+                makeEntry({ branch: 'main' }),
+                makeEntry({ branch: 'feature/login' }),
+            ],
+            policy,
+            branches,
+            now,
+        );
+
+        assert.deepStrictEqual(
+            stale.map((s) => s.reasons),
+            [
+                [{ kind: 'branchDeleted', branch: 'feature/gone' }],
+                [{ kind: 'branchMerged', branch: 'feature/done', into: 'origin/main' }],
+            ],
+        );
+        assert.ok(stale.every((s) => isBranchGone(s.reasons)));
+    });
+
+    test('skips the branch rule when branches could not be listed or it is off', () => {
+        const gone = makeEntry({ branch: 'feature/gone' });
+        const noBranches: BranchState = { existing: new Set(), merged: new Set() };
+
+        assert.deepStrictEqual(findStaleStashes([gone], policy, noBranches, now), []);
+        assert.deepStrictEqual(
+            findStaleStashes([gone], { ...policy, flagMergedBranches: false }, branches, now),
+            [],
+        );
+    });
+
+    test('never flags pinned stashes', () => {
+        const pinned = makeEntry({
+            branch: 'feature/gone',
+            date: new Date('2025-01-01T00:00:00Z'),
+            metadata: { tags: [], description: '', pinned: true },
+        });
+        assert.deepStrictEqual(findStaleStashes([pinned], policy, branches, now), []);
+    });
+
+    test('does not count branches without commits of their own as merged', async () => {
+        const tips: Record<string, string> = {
+            'origin/main': 'm2',
+            'refs/heads/main': 'm2',
+            'refs/heads/feature/new': 'm2',
+            'refs/heads/feature/stale-start': 'm1',
+            'refs/heads/feature/done': 'd1',
+        };
+        const starts: Record<string, string> = { 'feature/stale-start': 'm1', 'feature/done': 'm1' };
+        const git = {
+            listBranches: async () => ['main', ...Object.keys(starts), 'feature/new'],
+            getDefaultBranch: async () => 'origin/main',
+            listMergedBranches: async () => ['main', 'feature/new', ...Object.keys(starts)],
+            resolveRef: async (ref: string) => tips[ref],
+            getBranchStart: async (branch: string) => starts[branch],
+        } as unknown as GitService;
+
+        const state = await loadBranchState(git);
+
+        assert.deepStrictEqual([...state.merged], ['feature/done']);
+        assert.strictEqual(state.existing.size, 4);
+        assert.deepStrictEqual(
+            findStaleStashes([makeEntry({ branch: 'feature/new' })], policy, state, now),
+            [],
+        );
+    });
+
+    test('describes reasons for the review list', () => {
+        assert.strictEqual(describeStaleReason({ kind: 'age', days: 45 }), '45 days old');
+        assert.strictEqual(
+            describeStaleReason({ kind: 'branchMerged', branch: 'x', into: 'origin/main' }),
+            'branch x is merged into origin/main',
+        );
+    });
+});
@@ -0,0 +1,153 @@
+import * as assert from 'assert';
+import { GitService, type DiffHunk, type ExecFn, type StashEntry } from '../gitService';
+import { StashSearchIndex } from '../stashSearch';
+
+/**
+ * Unit tests for stash content search — diffs come from a mock ExecFn keyed
+ * by stash SHA, so caching can be checked by counting git calls.
+ */
+
+function diffExec(diffs: Record<string, string>): ExecFn & { calls: string[] } {
+    const calls: string[] = [];
+    const fn: ExecFn & { calls: string[] } = async (command: string) => {
+        calls.push(command);
+        const sha = Object.keys(diffs).find((s) => command.includes(s));
+        if (!sha) {
+            throw Object.assign(new Error('unknown stash'), {
+                stdout: '',
+                stderr: 'fatal: bad revision',
+                code: 128,
+            });
+        }
+        return { stdout: diffs[sha], stderr: '' };
+    };
+    fn.calls = calls;
+    return fn;
+}
+
+function makeEntry(index: number, sha: string, message = 'wip'): StashEntry {
+    return {
+        index,
+        name: `stash@{${index}}`,
+        sha,
+        branch: 'main',
+        message,
+        date: new Date('2026-02-10T14:23:05Z'),
+    };
+}
+
+const SHA_A = 'a'.repeat(40);
+const SHA_B = 'b'.repeat(40);
+
+const DIFFS = {
+    [SHA_A]: [
+        'diff --git a/src/config.ts b/src/config.ts',
+        'index 1111111..2222222 100644',
+        '--- a/src/config.ts',
+        '+++ b/src/config.ts',
+        '@@ -10,3 +10,3 @@ export function load()',
+        ' const raw = read();',
+        '-return parseConfig(raw);',
+        '+return parseConfig(raw, { strict: true });',
+        ' // parseConfig in context is not a match',
+    ].join('\n'),
+    [SHA_B]: [
+        'diff --git a/README.md b/README.md',
+        '--- a/README.md',
+        '+++ b/README.md',
+        '@@ -1,1 +1,2 @@',
+        ' # Title',
+        '+Nothing to see',
+    ].join('\n'),
+};
+
+suite('stashSearch Unit Tests', () => {
+    test('matches changed lines case-insensitively with line numbers', () => {
+        const hunk: DiffHunk = {
+            id: 'a.ts:@@',
+            filePath: 'a.ts',
+            fileHeader: '',
+            header: '@@ -5,4 +5,4 @@',
+            lines: [
+                ' ctx',
+                '-Old Value',
+                '+new value',
+                ' value in context',
+                '\\ No newline at end of file',
+            ],
+        };
+        assert.deepStrictEqual(StashSearchIndex.matchHunk(hunk, 'value'), [
+            { text: 'Old Value', kind: 'removed', line: 6, stashLine: 6 },
+            { text: 'new value', kind: 'added', line: 6, stashLine: 6 },
+        ]);
+    });
+
+    test('lists stash, file and hunk for each hit', async () => {
+        const svc = new GitService('/fake/root', undefined, diffExec(DIFFS));
+        const index = new StashSearchIndex();
+
+        const matches = await index.search(
+            svc,
+            [makeEntry(0, SHA_A, 'config work'), makeEntry(1, SHA_B)],
+            'PARSECONFIG',
+        );
+
+        assert.deepStrictEqual(
+            matches.map((m) => [m.stashName, m.filePath, m.kind, m.line]),
+            [
+                ['stash@{0}', 'src/config.ts', 'removed', 11],
+                ['stash@{0}', 'src/config.ts', 'added', 11],
+            ],
+        );
+        assert.strictEqual(matches[0].hunkHeader, '@@ -10,3 +10,3 @@ export function load()');
+        assert.strictEqual(matches[0].message, 'config work');
+    });
+
+    test('reads each stash diff once, keyed by SHA', async () => {
+        const exec = diffExec(DIFFS);
+        const svc = new GitService('/fake/root', undefined, exec);
+        const index = new StashSearchIndex();
+        const stashes = [makeEntry(0, SHA_A), makeEntry(1, SHA_B)];
+
+        await index.search(svc, stashes, 'parseConfig');
+        // Indices shift after a drop; the SHA still finds the cached diff
+        const shas = await index.matchingShas(
+            svc,
+            [makeEntry(0, SHA_B), makeEntry(1, SHA_A)],
+            'nothing',
+        );
+
+        assert.strictEqual(exec.calls.length, 2);
+        assert.deepStrictEqual([...shas], [SHA_B]);
+    });
+
+    test('evicts stashes that are gone and skips unreadable ones', async () => {
+        const svc = new GitService('/fake/root', undefined, diffExec(DIFFS));
+        const index = new StashSearchIndex();
+
+        await index.search(svc, [makeEntry(0, SHA_A), makeEntry(1, SHA_B)], 'x');
+        assert.strictEqual(index.size, 2);
+
+        const matches = await index.search(
+            svc,
+            [makeEntry(0, SHA_B), makeEntry(1, 'c'.repeat(40))],
+            'see',
+        );
+        assert.strictEqual(index.size, 1);
+        assert.deepStrictEqual(
+            matches.map((m) => m.text),
+            ['Nothing to see'],
+        );
+    });
+
+    test('stops at the result limit', async () => {
+        const svc = new GitService('/fake/root', undefined, diffExec(DIFFS));
+        const matches = await new StashSearchIndex().search(
+            svc,
+            [makeEntry(0, SHA_A)],
+            'return',
+            1,
+        );
+        assert.strictEqual(matches.length, 1);
+    });
+});
@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import { hasConflictMarkers, mergeText, unifiedDiff } from '../textDiff';
+
+/**
+ * Unit tests for the unified line diff used for Gist Note revisions and the
+ * three-way merge used when syncing offline note edits.
+ */
+
+suite('textDiff Unit Tests', () => {
+    test('is empty for texts with the same lines', () => {
+        assert.strictEqual(unifiedDiff('a\nb\n', 'a\nb\n'), '');
+        assert.strictEqual(unifiedDiff('a\nb', 'a\nb\n'), '');
+    });
+
+    test('marks a changed line with context and git line ranges', () => {
+        const diff = unifiedDiff(
+            ['# Title', '', 'one', 'two', 'three', 'four', 'five'].join('\n'),
+            ['# Title', '', 'one', 'two', 'THREE', 'four', 'five'].join('\n'),
+        );
+        assert.deepStrictEqual(diff.split('\n'), [
+            '@@ -2,6 +2,6 @@',
+            ' ',
+            ' one',
+            ' two',
+            '-three',
+            '+THREE',
+            ' four',
+            ' five',
+            '',
+        ]);
+    });
+
+    test('splits distant changes into separate hunks', () => {
+        const old = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+        const changed = [...old];
+        changed[1] = 'changed 2';
+        changed[17] = 'changed 18';
+
+        const headers = unifiedDiff(old.join('\n'), changed.join('\n'))
+            .split('\n')
+            .filter((l) => l.startsWith('@@'));
+        assert.deepStrictEqual(headers, ['@@ -1,5 +1,5 @@', '@@ -15,6 +15,6 @@']);
+    });
+
+    test('handles additions to and removals from empty texts', () => {
+        assert.strictEqual(unifiedDiff('', 'a\nb\n'), '@@ -0,0 +1,2 @@\n+a\n+b\n');
+        assert.strictEqual(unifiedDiff('a\n', ''), '@@ -1,1 +0,0 @@\n-a\n');
+    });
+
+    test('merges edits to different lines', () => {
+        const base = 'one\ntwo\nthree\nfour\nfive\n';
+        const result = mergeText(
+            base,
+            'ONE\ntwo\nthree\nfour\nfive\n',
+            'one\ntwo\nthree\nfour\nFIVE\nsix\n',
+        );
+        assert.deepStrictEqual(result, {
+            text: 'ONE\ntwo\nthree\nfour\nFIVE\nsix\n',
+            conflicts: 0,
+        });
+    });
+
+    test('takes an edit both sides made only once', () => {
+        const result = mergeText('a\nb\n', 'a\nB\n', 'a\nB\n');
+        assert.deepStrictEqual(result, { text: 'a\nB\n', conflicts: 0 });
+    });
+
+    test('marks conflicting edits of the same line', () => {
+        const result = mergeText(
+            'title\nbody\nend\n',
+            'title\nmine\nend\n',
+            'title\ntheirs\nend\n',
+            {
+                ours: 'local',
+                theirs: 'GitHub',
+            },
+        );
+        assert.strictEqual(result.conflicts, 1);
+        assert.strictEqual(
+            result.text,
+            'title\n<<<<<<< local\nmine\n=======\ntheirs\n>>>>>>> GitHub\nend\n',
+        );
+        assert.ok(hasConflictMarkers(result.text));
+        assert.ok(!hasConflictMarkers('a < b\n'));
+    });
+});
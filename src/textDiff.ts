@@ -0,0 +1,277 @@
+/**
+ * Line diff and three-way merge of texts that never touched a git working
+ * tree, like Gist Note revisions and offline edits.
+ *
+ * `unifiedDiff` prints the hunk part of `git diff` (`@@ -a,b +c,d @@` headers
+ * and ` `/`-`/`+` lines), so `GitService.parseDiffHunks` and the webview's
+ * diff view can read it. `mergeText` combines two edits of a common base the
+ * way `git merge-file` does, with conflict markers where both changed the
+ * same lines.
+ *
+ * Lines are matched with a longest-common-subsequence table after trimming
+ * the common prefix and suffix. Inputs whose changed middle is too large for
+ * the table are diffed as one replaced block.
+ */
+
+/** Largest changed region (old lines × new lines) diffed line by line. */
+const MAX_TABLE_CELLS = 4_000_000;
+
+interface Edit {
+    op: ' ' | '-' | '+';
+    text: string;
+}
+
+function splitLines(text: string): string[] {
+    if (!text) {
+        return [];
+    }
+    const lines = text.split('\n');
+    // A trailing newline ends the last line rather than starting another
+    if (lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+    return lines;
+}
+
+/** Edit script turning `a` into `b`. */
+function diffLines(a: string[], b: string[]): Edit[] {
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++;
+    }
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const head = a.slice(0, start).map((text): Edit => ({ op: ' ', text }));
+    const tail = a.slice(endA).map((text): Edit => ({ op: ' ', text }));
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+
+    const n = midA.length;
+    const m = midB.length;
+    if ((n + 1) * (m + 1) > MAX_TABLE_CELLS) {
+        return [
+            ...head,
+            ...midA.map((text): Edit => ({ op: '-', text })),
+            ...midB.map((text): Edit => ({ op: '+', text })),
+            ...tail,
+        ];
+    }
+
+    // lcs[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i * (m + 1) + j] =
+                midA[i] === midB[j]
+                    ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+        }
+    }
+
+    const middle: Edit[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && midA[i] === midB[j]) {
+            middle.push({ op: ' ', text: midA[i++] });
+            j++;
+        } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+            // Removals before additions on a tie, as git prints them
+            middle.push({ op: '-', text: midA[i++] });
+        } else {
+            middle.push({ op: '+', text: midB[j++] });
+        }
+    }
+    return [...head, ...middle, ...tail];
+}
+
+/** Hunk range as git prints it: an empty range starts at the line before. */
+function range(start: number, count: number): string {
+    return `${count === 0 ? start - 1 : start},${count}`;
+}
+
+/**
+ * Unified diff of `oldText` → `newText` with `context` unchanged lines around
+ * each change. Empty when the texts have the same lines.
+ */
+export function unifiedDiff(oldText: string, newText: string, context = 3): string {
+    const edits = diffLines(splitLines(oldText), splitLines(newText));
+    const changed = edits.flatMap((e, i) => (e.op === ' ' ? [] : [i]));
+    if (changed.length === 0) {
+        return '';
+    }
+
+    // Group changes whose context would touch or overlap into one hunk
+    const groups: [number, number][] = [];
+    for (const index of changed) {
+        const last = groups[groups.length - 1];
+        if (last && index - last[1] <= context * 2 + 1) {
+            last[1] = index;
+        } else {
+            groups.push([index, index]);
+        }
+    }
+
+    // 1-based line numbers before each edit
+    const oldLineAt: number[] = [];
+    const newLineAt: number[] = [];
+    let oldLine = 1;
+    let newLine = 1;
+    for (const edit of edits) {
+        oldLineAt.push(oldLine);
+        newLineAt.push(newLine);
+        if (edit.op !== '+') {
+            oldLine++;
+        }
+        if (edit.op !== '-') {
+            newLine++;
+        }
+    }
+
+    const out: string[] = [];
+    for (const [first, last] of groups) {
+        const from = Math.max(0, first - context);
+        const to = Math.min(edits.length - 1, last + context);
+        const hunk = edits.slice(from, to + 1);
+        const oldCount = hunk.filter((e) => e.op !== '+').length;
+        const newCount = hunk.filter((e) => e.op !== '-').length;
+        out.push(
+            `@@ -${range(oldLineAt[from], oldCount)} +${range(newLineAt[from], newCount)} @@`,
+            ...hunk.map((e) => `${e.op}${e.text}`),
+        );
+    }
+    return out.join('\n') + '\n';
+}
+
+// ─── Three-way merge ──────────────────────────────────────────────
+
+/** Conflict marker opening the local side of a conflict */
+export const CONFLICT_START = '<<<<<<<';
+
+/** Lines `start`–`end` of the base (end exclusive) replaced by `lines`. */
+interface Change {
+    start: number;
+    end: number;
+    lines: string[];
+}
+
+/** Changed regions of an edit script, in base line coordinates. */
+function changesOf(edits: Edit[]): Change[] {
+    const changes: Change[] = [];
+    let baseIndex = 0;
+    let current: Change | undefined;
+    for (const edit of edits) {
+        if (edit.op === ' ') {
+            current = undefined;
+            baseIndex++;
+            continue;
+        }
+        if (!current) {
+            current = { start: baseIndex, end: baseIndex, lines: [] };
+            changes.push(current);
+        }
+        if (edit.op === '-') {
+            baseIndex++;
+            current.end = baseIndex;
+        } else {
+            current.lines.push(edit.text);
+        }
+    }
+    return changes;
+}
+
+/** Base lines `start`–`end` with `changes` (all inside that span) applied. */
+function applyChanges(base: string[], start: number, end: number, changes: Change[]): string[] {
+    const out: string[] = [];
+    let at = start;
+    for (const change of changes) {
+        out.push(...base.slice(at, change.start), ...change.lines);
+        at = change.end;
+    }
+    out.push(...base.slice(at, end));
+    return out;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Merge `ours` and `theirs`, two edits of `base`. Changes to different lines
+ * combine; changes to the same (or adjacent) lines that differ become a
+ * conflict, marked `<<<<<<< ours` / `=======` / `>>>>>>> theirs` with the
+ * given labels.
+ */
+export function mergeText(
+    base: string,
+    ours: string,
+    theirs: string,
+    labels: { ours: string; theirs: string } = { ours: 'ours', theirs: 'theirs' },
+): { text: string; conflicts: number } {
+    const baseLines = splitLines(base);
+    const tagged = [
+        ...changesOf(diffLines(baseLines, splitLines(ours))).map((c) => ({ ...c, side: 0 })),
+        ...changesOf(diffLines(baseLines, splitLines(theirs))).map((c) => ({ ...c, side: 1 })),
+    ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+    const out: string[] = [];
+    let conflicts = 0;
+    let at = 0;
+    let i = 0;
+    while (i < tagged.length) {
+        // Cluster changes that overlap or touch
+        const cluster = [tagged[i]];
+        let end = tagged[i].end;
+        while (i + 1 < tagged.length && tagged[i + 1].start <= end) {
+            cluster.push(tagged[++i]);
+            end = Math.max(end, tagged[i].end);
+        }
+        i++;
+
+        const start = cluster[0].start;
+        out.push(...baseLines.slice(at, start));
+        const original = baseLines.slice(start, end);
+        const ourLines = applyChanges(
+            baseLines,
+            start,
+            end,
+            cluster.filter((c) => c.side === 0),
+        );
+        const theirLines = applyChanges(
+            baseLines,
+            start,
+            end,
+            cluster.filter((c) => c.side === 1),
+        );
+
+        if (sameLines(ourLines, theirLines) || sameLines(theirLines, original)) {
+            out.push(...ourLines);
+        } else if (sameLines(ourLines, original)) {
+            out.push(...theirLines);
+        } else {
+            conflicts++;
+            out.push(
+                `${CONFLICT_START} ${labels.ours}`,
+                ...ourLines,
+                '=======',
+                ...theirLines,
+                `>>>>>>> ${labels.theirs}`,
+            );
+        }
+        at = end;
+    }
+    out.push(...baseLines.slice(at));
+
+    const trailingNewline = ours.endsWith('\n') || (!ours && theirs.endsWith('\n'));
+    return { text: out.join('\n') + (out.length && trailingNewline ? '\n' : ''), conflicts };
+}
+
+/** Whether `text` still has the conflict markers `mergeText` writes. */
+export function hasConflictMarkers(text: string): boolean {
+    return text.split('\n').some((line) => line.startsWith(CONFLICT_START));
+}
@@ -0,0 +1,32 @@
+import type * as vscode from 'vscode';
+
+/**
+ * The subset of the built-in Git extension's API (`vscode.git`, API version 1)
+ * that Superprompt Forge uses. See extensions/git/src/api/git.d.ts in the
+ * VS Code repository for the full definitions.
+ */
+
+export interface Branch {
+    readonly name?: string;
+    readonly commit?: string;
+}
+
+export interface RepositoryState {
+    readonly HEAD: Branch | undefined;
+    readonly onDidChange: vscode.Event<void>;
+}
+
+export interface Repository {
+    readonly rootUri: vscode.Uri;
+    readonly state: RepositoryState;
+}
+
+export interface API {
+    readonly repositories: Repository[];
+    readonly onDidOpenRepository: vscode.Event<Repository>;
+}
+
+export interface GitExtension {
+    readonly enabled: boolean;
+    getAPI(version: 1): API;
+}
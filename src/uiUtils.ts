@@ -1,5 +1,17 @@
 import * as vscode from 'vscode';
-import { type GitService, type StashEntry } from './gitService';
+import { type GitService, type StashEntry, type DroppedStashEntry } from './gitService';
+import { GistService } from './gistService';
+import {
+    BUILTIN_NOTE_TEMPLATES,
+    type NoteTemplate,
+    type TemplateSources,
+    renderTemplate,
+    resolveTemplateVariables,
+    templatesFromGist,
+    templatesFromSettings,
+    usedVariables,
+} from './noteTemplates';
+import { extractErrorMessage, formatRelativeTime, getConfig } from './utils';
 
 /**
  * Shows a QuickPick for stash selection. Returns the selected StashEntry,
@@ -31,3 +43,116 @@ export async function pickStash(
 
     return selected?.stash;
 }
+
+/**
+ * Shows a QuickPick of dropped (unreachable) stashes. Scanning uses
+ * `git fsck`, which can take a while, so it runs behind a progress toast.
+ *
+ * @param gitService - The GitService instance to scan with
+ * @param prompt - Placeholder text for the QuickPick
+ * @returns The selected DroppedStashEntry, or undefined
+ */
+export async function pickDroppedStash(
+    gitService: GitService,
+    prompt: string,
+): Promise<DroppedStashEntry | undefined> {
+    const dropped = await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: 'Looking for dropped stashes…',
+            cancellable: false,
+        },
+        () => gitService.getDroppedStashes(),
+    );
+
+    if (dropped.length === 0) {
+        vscode.window.showInformationMessage('No dropped stashes found');
+        return undefined;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        dropped.map((s) => ({
+            label: s.message,
+            description: `${s.branch} · ${formatRelativeTime(s.date)}`,
+            detail: s.sha.slice(0, 8),
+            stash: s,
+        })),
+        { placeHolder: prompt },
+    );
+
+    return selected?.stash;
+}
+
+/**
+ * Shows a QuickPick of note templates — a blank note, the built-in templates,
+ * then those from the `notes.templates` and `notes.templateGists` settings —
+ * and fills in the chosen template's variables.
+ *
+ * @param gistService - Used to read the template gists
+ * @param sources - Where the template variables are read from
+ * @returns The note's title and content, or undefined if the user cancelled
+ */
+export async function pickNoteTemplate(
+    gistService: GistService,
+    sources: TemplateSources,
+): Promise<{ title: string; content: string } | undefined> {
+    type TemplatePick = vscode.QuickPickItem & { template?: NoteTemplate };
+    const toPick = (template: NoteTemplate): TemplatePick => ({
+        label: template.name,
+        description: template.description,
+        template,
+    });
+
+    const loadItems = async (): Promise<TemplatePick[]> => {
+        const gistTemplates = await Promise.all(
+            getConfig<string[]>('notes.templateGists', []).map(async (ref) => {
+                const id = GistService.parseGistId(ref);
+                try {
+                    if (!id) {
+                        throw new Error('not a gist URL or ID');
+                    }
+                    return templatesFromGist(id, await gistService.getGistFiles(id));
+                } catch (error: unknown) {
+                    vscode.window.showWarningMessage(
+                        `Could not load note templates from ${ref}: ${extractErrorMessage(error)}`,
+                    );
+                    return [];
+                }
+            }),
+        );
+        const userTemplates = [
+            ...templatesFromSettings(getConfig<unknown>('notes.templates', [])),
+            ...gistTemplates.flat(),
+        ];
+        return [
+            { label: '$(file) Blank note' },
+            { label: 'Built-in', kind: vscode.QuickPickItemKind.Separator },
+            ...BUILTIN_NOTE_TEMPLATES.map(toPick),
+            ...(userTemplates.length > 0
+                ? [{ label: 'Your templates', kind: vscode.QuickPickItemKind.Separator }]
+                : []),
+            ...userTemplates.map(toPick),
+        ];
+    };
+
+    const selected = await vscode.window.showQuickPick(loadItems(), {
+        placeHolder: 'Start the note from a template',
+        matchOnDescription: true,
+    });
+    if (!selected) {
+        return undefined;
+    }
+    const template = selected.template;
+    if (!template) {
+        return { title: '', content: '' };
+    }
+
+    const values = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: 'Filling in template…' },
+        () => resolveTemplateVariables(usedVariables(template.title, template.content), sources),
+    );
+    return {
+        title: renderTemplate(template.title, values).trim(),
+        content: renderTemplate(template.content, values),
+    };
+}
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { type StashAgePolicy } from './stashPolicy';
 
 /**
  * Format a date as a human-readable relative time string.
@@ -57,6 +58,16 @@ export function getConfig<T>(key: string, defaultValue: T): T {
     return vscode.workspace.getConfiguration('superprompt-forge').get<T>(key, defaultValue);
 }
 
+/**
+ * The stash age policy from the `stalePolicy.*` settings.
+ */
+export function getStashAgePolicy(): StashAgePolicy {
+    return {
+        maxAgeDays: getConfig<number>('stalePolicy.maxAgeDays', 30),
+        flagMergedBranches: getConfig<boolean>('stalePolicy.flagMergedBranches', true),
+    };
+}
+
 /**
  * Safely extract a human-readable error message from an unknown thrown value.
  * Canonical pattern: prefer `Error.message`, fall back to `String(e)`.
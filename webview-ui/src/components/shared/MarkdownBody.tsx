@@ -5,6 +5,8 @@ import taskLists from 'markdown-it-task-lists';
 import { emojiFromShortcode } from '@/emojiMap';
 import { postMessage } from '@/vscode';
 import { parseGitHubPRUrl, parseGitHubIssueUrl } from '@/lib/parseGitHubUrl';
+import { wikiLinks } from '@/lib/wikiLinks';
+import { suggestionBlocks, type SuggestionEnv } from '@/lib/suggestions';
 
 // ─── Plugin Interface ─────────────────────────────────────────────
 
@@ -96,6 +98,12 @@ function sanitizeHtml(html: string): string {
 // Enable GFM task lists
 md.use(taskLists, { enabled: true, label: true, labelAfter: true });
 
+// [[Note Title]] links to Gist Notes
+md.use(wikiLinks);
+
+// ```suggestion blocks of PR review comments, as a mini diff
+md.use(suggestionBlocks);
+
 // ─── Emoji Shortcode Rendering ────────────────────────────────────
 
 /**
@@ -166,6 +174,10 @@ interface MarkdownBodyProps {
     currentUsername?: string | null;
     /** Optional render plugins that post-process the HTML after markdown-it renders */
     renderPlugins?: MarkdownRenderPlugin[];
+    /** How to render ```suggestion blocks: the lines they replace and whether to offer actions */
+    suggestions?: SuggestionEnv;
+    /** Called with the suggestion's index when one of its action buttons is clicked */
+    onSuggestionAction?: (action: 'apply' | 'batch', index: number) => void;
 }
 
 /**
@@ -174,12 +186,16 @@ interface MarkdownBodyProps {
  * Wraps output in `.markdown-body` class for consistent styling from index.css.
  * Also converts :shortcode: emoji to Unicode characters or custom emoji images.
  */
-export const MarkdownBody: React.FC<MarkdownBodyProps> = ({ content, className = '', currentUsername, renderPlugins }) => {
-    // Stable reference for plugin keys (used in useMemo dependency)
-    const pluginKeys = renderPlugins?.map((p) => p.key).join(',') ?? '';
-
+export const MarkdownBody: React.FC<MarkdownBodyProps> = ({
+    content,
+    className = '',
+    currentUsername,
+    renderPlugins,
+    suggestions,
+    onSuggestionAction,
+}) => {
     const html = useMemo(() => {
-        let result = sanitizeHtml(md.render(content));
+        let result = sanitizeHtml(md.render(content, { ...suggestions }));
 
         // Built-in: Unicode emoji shortcodes (no store dependency)
         result = renderEmojiInHtml(result);
@@ -195,20 +211,40 @@ export const MarkdownBody: React.FC<MarkdownBodyProps> = ({ content, className =
         result = neutralizeGitHubLinks(result);
 
         return result;
-    }, [content, currentUsername, pluginKeys, renderPlugins]);
+    }, [content, currentUsername, renderPlugins, suggestions]);
 
     /**
      * Delegated click handler: intercept <a> clicks on GitHub PR/Issue URLs
-     * and navigate within SP Forge instead of opening the browser.
+     * and `[[Note Title]]` links and navigate within SP Forge instead of
+     * opening the browser, and pass on suggestion action buttons.
      *
      * GitHub links have their real URL in `data-href` (set by
      * `neutralizeGitHubLinks`) because VS Code webviews natively open
      * external `href` links in the browser before React's onClick fires.
      */
     const handleClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+        const button = (e.target as HTMLElement).closest('button[data-suggestion-action]');
+        if (button) {
+            e.preventDefault();
+            e.stopPropagation();
+            const action = button.getAttribute('data-suggestion-action');
+            if (action === 'apply' || action === 'batch') {
+                onSuggestionAction?.(action, Number(button.getAttribute('data-suggestion-index')));
+            }
+            return;
+        }
+
         const target = (e.target as HTMLElement).closest('a');
         if (!target) { return; }
 
+        const noteTitle = target.getAttribute('data-wiki-link');
+        if (noteTitle) {
+            e.preventDefault();
+            e.stopPropagation();
+            postMessage('notes.openWikiLink', { title: noteTitle });
+            return;
+        }
+
         // data-href is set by neutralizeGitHubLinks; fall back to href for
         // programmatically-created links that bypass the post-processor.
         const href = target.getAttribute('data-href') || target.getAttribute('href');
@@ -228,7 +264,7 @@ export const MarkdownBody: React.FC<MarkdownBodyProps> = ({ content, className =
             e.stopPropagation();
             postMessage('navigateToGitHubIssue', issueInfo);
         }
-    }, []);
+    }, [onSuggestionAction]);
 
     return (
         <div
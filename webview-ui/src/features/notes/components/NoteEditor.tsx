@@ -1,5 +1,5 @@
 import React, { useRef, useEffect, useCallback, useState, useMemo } from 'react';
-import { useNotesStore } from '../store';
+import { useNotesStore, type GistNoteFile } from '../store';
 import { postMessage } from '@/vscode';
 import MarkdownIt from 'markdown-it';
 import hljs from 'highlight.js';
@@ -33,11 +33,27 @@ import {
     FolderGit2,
     Unlink,
     Stamp,
+    FileText,
+    FileCode,
+    FileImage,
+    Plus,
+    Paperclip,
+    Pencil,
+    History,
+    AlertTriangle,
+    CloudUpload,
+    Folder,
+    FileSymlink,
+    ChevronDown,
+    ChevronRight,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
+import { NoteHistory } from './NoteHistory';
+import { NoteTagsBar } from './NoteTagsBar';
+import { wikiLinks, type WikiLinkEnv } from '@/lib/wikiLinks';
 
 // ─── Mermaid Initialization ───────────────────────────────────────
 
@@ -86,6 +102,59 @@ const md = new MarkdownIt({
 // Enable GFM task lists
 md.use(taskLists, { enabled: true, label: true, labelAfter: true });
 
+// [[Note Title]] links to other notes
+md.use(wikiLinks);
+
+// ─── Note Attachments ─────────────────────────────────────────────
+
+/** Render environment: data URIs of the note's images, by file name, and the note titles */
+interface RenderEnv extends WikiLinkEnv {
+    attachments: Map<string, string>;
+}
+
+/** Data URI for an image file — SVG source, or `<name>.<ext>.base64` text. */
+function imageDataUri(file: GistNoteFile): string {
+    if (/\.svg$/i.test(file.filename)) {
+        return `data:image/svg+xml;utf8,${encodeURIComponent(file.content)}`;
+    }
+    const ext = file.filename.match(/\.(\w+)\.base64$/i)?.[1].toLowerCase() ?? 'png';
+    const mime = ext === 'jpg' ? 'jpeg' : ext;
+    return `data:image/${mime};base64,${file.content.replace(/\s+/g, '')}`;
+}
+
+/** Highlight a code snippet by its file extension. */
+function highlightSnippet(file: GistNoteFile): string {
+    const ext = file.filename.split('.').pop() ?? '';
+    if (hljs.getLanguage(ext)) {
+        try {
+            return `<pre class="hljs"><code>${hljs.highlight(file.content, { language: ext }).value}</code></pre>`;
+        } catch {
+            /* fallback */
+        }
+    }
+    return `<pre class="hljs"><code>${escapeHtml(file.content)}</code></pre>`;
+}
+
+// `![diagram](diagram.png)` shows the note's own attachment
+const defaultImageRule = md.renderer.rules.image!;
+md.renderer.rules.image = (tokens, idx, options, env, self) => {
+    const src = tokens[idx].attrGet('src') ?? '';
+    let name = src;
+    try {
+        name = decodeURIComponent(src);
+    } catch {
+        /* keep as written */
+    }
+    const attachments = (env as Partial<RenderEnv>).attachments;
+    const uri = attachments?.get(name) ?? attachments?.get(`${name}.base64`);
+    if (uri) {
+        tokens[idx].attrSet('src', uri);
+    }
+    return defaultImageRule(tokens, idx, options, env, self);
+};
+
+const FILE_ICONS = { markdown: FileText, code: FileCode, image: FileImage } as const;
+
 // ─── Component ────────────────────────────────────────────────────
 
 export const NoteEditor: React.FC<{ onClose?: () => void }> = ({ onClose }) => {
@@ -105,6 +174,18 @@ export const NoteEditor: React.FC<{ onClose?: () => void }> = ({ onClose }) => {
     const setPreviewMode = useNotesStore((s) => s.setPreviewMode);
     const setLoading = useNotesStore((s) => s.setLoading);
     const currentRepo = useNotesStore((s) => s.currentRepo);
+    const activeFile = useNotesStore((s) => s.activeFile);
+    const selectFile = useNotesStore((s) => s.selectFile);
+    const historyOpen = useNotesStore((s) => s.historyOpen);
+    const setHistoryOpen = useNotesStore((s) => s.setHistoryOpen);
+    const selectNote = useNotesStore((s) => s.selectNote);
+    const backlinks = useNotesStore((s) => s.backlinks);
+    const [backlinksOpen, setBacklinksOpen] = useState(true);
+
+    // The open file; undefined while the main page is open
+    const activeEntry =
+        activeFile !== null ? note?.files.find((f) => f.filename === activeFile) : undefined;
+    const activeKind = activeEntry?.kind ?? 'markdown';
 
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -133,12 +214,30 @@ export const NoteEditor: React.FC<{ onClose?: () => void }> = ({ onClose }) => {
 
     const triggerSave = useCallback(() => {
         if (!note || !isDirty) {return;}
-        postMessage('notes.save', {
+        if (activeFile === null) {
+            postMessage('notes.save', {
+                noteId: note.id,
+                title: editingTitle,
+                content: editingContent,
+                previousTitle: note.title,
+            });
+            return;
+        }
+        postMessage('notes.saveFile', {
             noteId: note.id,
-            title: editingTitle,
+            filename: activeFile,
             content: editingContent,
         });
-    }, [note, isDirty, editingTitle, editingContent]);
+        // A title edit renames the main page, which is saved on its own
+        if (editingTitle !== note.title) {
+            postMessage('notes.save', {
+                noteId: note.id,
+                title: editingTitle,
+                content: note.content,
+                previousTitle: note.title,
+            });
+        }
+    }, [note, isDirty, activeFile, editingTitle, editingContent]);
 
     const resetAutosave = useCallback(() => {
         // Clear existing timers
@@ -301,12 +400,82 @@ export const NoteEditor: React.FC<{ onClose?: () => void }> = ({ onClose }) => {
         triggerSave();
     }, [triggerSave]);
 
+    // ─── File Switching ───────────────────────────────────────────
+
+    /** Open another file of the note, saving the current one first. */
+    const handleSelectFile = useCallback(
+        (filename: string | null) => {
+            if (autosaveTimerRef.current) {clearTimeout(autosaveTimerRef.current);}
+            if (countdownIntervalRef.current) {clearInterval(countdownIntervalRef.current);}
+            setAutosaveCountdown(null);
+            triggerSave();
+            selectFile(filename);
+        },
+        [triggerSave, selectFile],
+    );
+
     // ─── Rendered Markdown ────────────────────────────────────────
 
     const renderedHtml = useMemo(() => {
-        if (!previewMode) {return '';}
-        return md.render(editingContent);
-    }, [previewMode, editingContent]);
+        if (!previewMode && activeKind !== 'image') {return '';}
+        if (activeEntry && activeKind === 'image') {
+            const uri = imageDataUri({ ...activeEntry, content: editingContent });
+            return `<img src="${escapeHtml(uri)}" alt="${escapeHtml(activeEntry.filename)}" />`;
+        }
+        if (activeEntry && activeKind === 'code') {
+            return highlightSnippet({ ...activeEntry, content: editingContent });
+        }
+        // Markdown images may point at the note's own attachments
+        const env: RenderEnv = {
+            attachments: new Map(
+                (note?.files ?? [])
+                    .filter((f) => f.kind === 'image')
+                    .map((f) => [f.filename, imageDataUri(f)]),
+            ),
+            wikiTitles: new Set(allNotes.map((n) => n.title.trim().toLowerCase())),
+        };
+        return md.render(editingContent, env);
+    }, [previewMode, editingContent, activeEntry, activeKind, note?.files, allNotes]);
+
+    // ─── Links Between Notes ──────────────────────────────────────
+
+    /** Open another note, letting the extension ask about unsaved edits first. */
+    const openNote = useCallback(
+        (id: string) => {
+            if (isDirty) {
+                postMessage('notes.confirmDirtySwitch', { targetNoteId: id });
+            } else {
+                selectNote(id);
+            }
+        },
+        [isDirty, selectNote],
+    );
+
+    /** `[[Title]]` in the preview: open that note, or let the extension offer to create it. */
+    const handlePreviewClick = useCallback(
+        (e: React.MouseEvent<HTMLDivElement>) => {
+            const link = (e.target as HTMLElement).closest('a[data-wiki-link]');
+            if (!link) {return;}
+            e.preventDefault();
+            const title = link.getAttribute('data-wiki-link') ?? '';
+            const target = allNotes.find(
+                (n) => n.title.trim().toLowerCase() === title.toLowerCase(),
+            );
+            if (target) {
+                openNote(target.id);
+            } else {
+                postMessage('notes.openWikiLink', { title });
+            }
+        },
+        [allNotes, openNote],
+    );
+
+    // Notes linking here — reloaded when the note is opened or renamed
+    useEffect(() => {
+        if (note) {
+            postMessage('notes.loadBacklinks', { noteId: note.id, title: note.title });
+        }
+    }, [note?.id, note?.title]); // eslint-disable-line react-hooks/exhaustive-deps -- only on open or rename
 
     // ─── Mermaid Diagram Rendering ────────────────────────────────
 
@@ -419,6 +588,8 @@ export const NoteEditor: React.FC<{ onClose?: () => void }> = ({ onClose }) => {
                             size="sm"
                             className="h-auto px-2 py-0.5 text-[11px] rounded-none"
                             onClick={() => setPreviewMode(false)}
+                            disabled={activeKind === 'image'}
+                            title={activeKind === 'image' ? 'Images are not editable' : undefined}
                         >
                             Edit
                         </Button>
@@ -518,6 +689,17 @@ export const NoteEditor: React.FC<{ onClose?: () => void }> = ({ onClose }) => {
                         </Button>
                     )}
 
+                    {/* Revision history */}
+                    <Button
+                        variant={historyOpen ? 'default' : 'ghost'}
+                        size="icon-xs"
+                        className={historyOpen ? '' : 'opacity-50 hover:opacity-100'}
+                        onClick={() => setHistoryOpen(!historyOpen)}
+                        title={historyOpen ? 'Back to the note' : 'Revision history'}
+                    >
+                        <History size={12} />
+                    </Button>
+
                     {/* Copy link */}
                     <Button
                         variant="ghost"
@@ -540,10 +722,60 @@ export const NoteEditor: React.FC<{ onClose?: () => void }> = ({ onClose }) => {
                         <Trash2 size={12} />
                     </Button>
                 </div>
+
+                <NoteTagsBar key={note.id} note={note} />
+
+                {/* Files and folders the note is linked to — openable in this workspace's repo */}
+                {note.linkedRepo && note.linkedPaths.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1 text-[11px]">
+                        {note.linkedPaths.map((linkPath) => (
+                            <span
+                                key={linkPath}
+                                className="inline-flex items-center rounded border border-border/60"
+                            >
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-auto px-1 py-0 text-[11px] gap-1 font-mono"
+                                    disabled={note.linkedRepo !== currentRepo}
+                                    onClick={() =>
+                                        postMessage('notes.openLinkedPath', { path: linkPath })
+                                    }
+                                    title={
+                                        note.linkedRepo === currentRepo
+                                            ? `Open ${linkPath}`
+                                            : `${linkPath} in ${note.linkedRepo}`
+                                    }
+                                >
+                                    {linkPath.endsWith('/') ? (
+                                        <Folder size={10} />
+                                    ) : (
+                                        <FileSymlink size={10} />
+                                    )}
+                                    {linkPath}
+                                </Button>
+                                <Button
+                                    variant="ghost"
+                                    size="icon-xs"
+                                    className="opacity-50 hover:opacity-100"
+                                    onClick={() =>
+                                        postMessage('notes.unlinkPath', {
+                                            noteId: note.id,
+                                            path: linkPath,
+                                        })
+                                    }
+                                    title={`Unlink from ${linkPath}`}
+                                >
+                                    <X size={10} />
+                                </Button>
+                            </span>
+                        ))}
+                    </div>
+                )}
             </div>
 
-            {/* Formatting toolbar — edit mode only */}
-            {!previewMode && (
+            {/* Formatting toolbar — edit mode, Markdown files only */}
+            {!previewMode && !historyOpen && activeKind === 'markdown' && (
                 <div className="px-3 py-1 border-b border-border shrink-0 flex items-center gap-0.5 flex-wrap">
                     <Button
                         variant="ghost"
@@ -701,27 +933,188 @@ export const NoteEditor: React.FC<{ onClose?: () => void }> = ({ onClose }) => {
                 </div>
             )}
 
-            {/* Body */}
-            <div className="flex-1 overflow-auto">
-                {previewMode ? (
-                    <div
-                        ref={previewContainerRef}
-                        className="markdown-body px-4 py-3"
-                        dangerouslySetInnerHTML={{ __html: renderedHtml }}
-                    />
-                ) : (
-                    <Textarea
-                        ref={textareaRef}
-                        value={editingContent}
-                        onChange={(e) => setEditingContent(e.target.value)}
-                        onKeyDown={handleTextareaKeyDown}
-                        className="w-full h-full bg-transparent text-fg font-mono text-[12px] leading-[20px] px-4 py-3 border-none shadow-none focus-visible:ring-0 resize-none rounded-none"
-                        placeholder="Write your note in Markdown…"
-                        spellCheck={false}
-                    />
-                )}
+            {/* Sync state of local edits */}
+            {note.syncState === 'conflict' ? (
+                <div className="flex items-center gap-2 px-3 py-1.5 border-b border-border bg-warning/10 text-[11px] shrink-0">
+                    <AlertTriangle size={12} className="text-warning shrink-0" />
+                    <span>
+                        This note was also changed on GitHub. Keep the right lines between the
+                        conflict markers, remove the markers and save to sync.
+                    </span>
+                </div>
+            ) : note.syncState === 'queued' ? (
+                <div className="flex items-center gap-2 px-3 py-1 border-b border-border text-[11px] opacity-70 shrink-0">
+                    <CloudUpload size={12} className="shrink-0" />
+                    <span>Saved locally — syncs to GitHub when it is reachable</span>
+                </div>
+            ) : null}
+
+            {/* Body: file sidebar + open file */}
+            <div className="flex-1 flex min-h-0">
+                <div
+                    className="w-36 shrink-0 border-r border-border flex flex-col overflow-auto text-[11px]"
+                    role="list"
+                    aria-label="Note files"
+                >
+                    <div className="flex items-center gap-1 px-2 py-1 opacity-60">
+                        <span className="flex-1 uppercase tracking-wide text-[10px]">Files</span>
+                        <Button
+                            variant="ghost"
+                            size="icon-xs"
+                            onClick={() => postMessage('notes.addFile', { noteId: note.id })}
+                            title="Add a page or snippet"
+                        >
+                            <Plus size={12} />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon-xs"
+                            onClick={() => postMessage('notes.attachFile', { noteId: note.id })}
+                            title="Attach a file or image"
+                        >
+                            <Paperclip size={12} />
+                        </Button>
+                    </div>
+                    {note.files.map((file) => {
+                        const isMain = file.filename === note.mainFile;
+                        const target = isMain ? null : file.filename;
+                        const Icon = FILE_ICONS[file.kind];
+                        return (
+                            <div
+                                key={file.filename}
+                                role="listitem"
+                                tabIndex={0}
+                                className={`group flex items-center gap-1 px-2 py-0.5 cursor-pointer hover:bg-hover ${
+                                    activeFile === target ? 'bg-hover font-medium' : 'opacity-80'
+                                }`}
+                                onClick={() => handleSelectFile(target)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') {
+                                        handleSelectFile(target);
+                                    }
+                                }}
+                                title={isMain ? `${file.filename} — main page` : file.filename}
+                            >
+                                <Icon size={12} className="shrink-0 opacity-70" />
+                                <span className="flex-1 truncate">{file.filename}</span>
+                                {!isMain && (
+                                    <span className="hidden group-hover:flex items-center">
+                                        <Button
+                                            variant="ghost"
+                                            size="icon-xs"
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                postMessage('notes.renameFile', {
+                                                    noteId: note.id,
+                                                    filename: file.filename,
+                                                });
+                                            }}
+                                            title="Rename"
+                                        >
+                                            <Pencil size={10} />
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon-xs"
+                                            className="text-danger"
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                postMessage('notes.deleteFile', {
+                                                    noteId: note.id,
+                                                    filename: file.filename,
+                                                });
+                                            }}
+                                            title="Remove from note"
+                                        >
+                                            <Trash2 size={10} />
+                                        </Button>
+                                    </span>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+                <div className="flex-1 overflow-auto">
+                    {historyOpen ? (
+                        <NoteHistory noteId={note.id} />
+                    ) : previewMode || activeKind === 'image' ? (
+                        <div
+                            ref={previewContainerRef}
+                            className="markdown-body px-4 py-3"
+                            dangerouslySetInnerHTML={{ __html: renderedHtml }}
+                            onClick={handlePreviewClick}
+                        />
+                    ) : (
+                        <Textarea
+                            ref={textareaRef}
+                            value={editingContent}
+                            onChange={(e) => setEditingContent(e.target.value)}
+                            onKeyDown={handleTextareaKeyDown}
+                            className="w-full h-full bg-transparent text-fg font-mono text-[12px] leading-[20px] px-4 py-3 border-none shadow-none focus-visible:ring-0 resize-none rounded-none"
+                            placeholder={
+                                activeKind === 'code'
+                                    ? `Write ${activeFile}…`
+                                    : 'Write your note in Markdown…'
+                            }
+                            spellCheck={false}
+                        />
+                    )}
+                </div>
             </div>
 
+            {/* Linked from: notes linking here with [[Title]] */}
+            {!historyOpen && backlinks !== null && (
+                <div className="border-t border-border shrink-0 text-[11px] max-h-40 flex flex-col">
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-auto justify-start gap-1 px-3 py-1 rounded-none text-[11px] opacity-60 hover:opacity-100"
+                        onClick={() => setBacklinksOpen(!backlinksOpen)}
+                    >
+                        {backlinksOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                        <span className="uppercase tracking-wide text-[10px]">
+                            Linked from ({backlinks.length})
+                        </span>
+                    </Button>
+                    {backlinksOpen && (
+                        <div className="overflow-auto pb-1" role="list" aria-label="Linked from">
+                            {backlinks.length === 0 ? (
+                                <div className="px-3 py-0.5 opacity-40">
+                                    No notes link here yet — link to this note with{' '}
+                                    <code>{`[[${note.title}]]`}</code>
+                                </div>
+                            ) : (
+                                backlinks.map((link) => (
+                                    <div
+                                        key={link.id}
+                                        role="listitem"
+                                        tabIndex={0}
+                                        className="px-3 py-0.5 cursor-pointer hover:bg-hover"
+                                        onClick={() => openNote(link.id)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') {
+                                                openNote(link.id);
+                                            }
+                                        }}
+                                        title={`Open "${link.title}"`}
+                                    >
+                                        <div className="flex items-center gap-1">
+                                            <StickyNote size={11} className="shrink-0 opacity-70" />
+                                            <span className="truncate font-medium">
+                                                {link.title}
+                                            </span>
+                                        </div>
+                                        <div className="truncate opacity-50 pl-4">
+                                            {link.excerpt}
+                                        </div>
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Footer */}
             <div className="px-3 py-1 border-t border-border text-[10px] opacity-30 flex items-center gap-3 shrink-0">
                 <span>Last saved: {lastSavedTime}</span>
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { useNotesStore } from '../store';
+import { postMessage } from '@/vscode';
+import { formatTimeAgo } from '@/lib/formatTime';
+import { DiffView } from '@stashes/components/DiffView';
+import { History, RotateCcw, GitCompareArrows } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+/**
+ * Revision history of a note's gist, shown in place of the editor body.
+ * Picking a revision diffs it against the one before it, or against the
+ * revision marked as base; any revision but the latest can be restored,
+ * which saves it as a new revision.
+ */
+export const NoteHistory: React.FC<{ noteId: string }> = ({ noteId }) => {
+    const revisions = useNotesStore((s) => s.revisions);
+    const revisionDiff = useNotesStore((s) => s.revisionDiff);
+    const setRevisionDiff = useNotesStore((s) => s.setRevisionDiff);
+    const [selected, setSelected] = useState<string | null>(null);
+    const [base, setBase] = useState<string | null>(null);
+
+    useEffect(() => {
+        postMessage('notes.listRevisions', { noteId });
+    }, [noteId]);
+
+    // The base defaults to the revision just before the selected one
+    const selectedIndex = revisions?.findIndex((r) => r.version === selected) ?? -1;
+    const from = base ?? revisions?.[selectedIndex + 1]?.version ?? null;
+
+    useEffect(() => {
+        if (!selected || !from || selected === from) {
+            setRevisionDiff(null);
+            return;
+        }
+        // Older revision on the left, whichever way round they were picked
+        const fromIndex = revisions?.findIndex((r) => r.version === from) ?? -1;
+        const [older, newer] = fromIndex > selectedIndex ? [from, selected] : [selected, from];
+        setRevisionDiff(null);
+        postMessage('notes.diffRevisions', { noteId, from: older, to: newer });
+    }, [noteId, selected, from, selectedIndex, revisions, setRevisionDiff]);
+
+    if (revisions === null) {
+        return (
+            <div className="text-[11px] opacity-50 px-4 py-3 animate-pulse">Loading revisions…</div>
+        );
+    }
+
+    return (
+        <div className="flex flex-col">
+            <div className="flex items-center gap-2 px-4 py-2 text-[11px] opacity-60">
+                <History size={12} />
+                <span className="flex-1">
+                    {revisions.length} revision{revisions.length === 1 ? '' : 's'}
+                </span>
+                {base && (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-auto px-1 py-0 text-[11px]"
+                        onClick={() => setBase(null)}
+                    >
+                        Clear base
+                    </Button>
+                )}
+            </div>
+
+            <div role="list" aria-label="Note revisions" className="border-y border-border/40">
+                {revisions.map((revision, i) => (
+                    <div
+                        key={revision.version}
+                        role="listitem"
+                        tabIndex={0}
+                        className={`group flex items-center gap-2 px-4 py-1 text-[11px] cursor-pointer hover:bg-hover ${
+                            revision.version === selected ? 'bg-hover' : ''
+                        }`}
+                        onClick={() => setSelected(revision.version)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                                setSelected(revision.version);
+                            }
+                        }}
+                        title={revision.version}
+                    >
+                        <span className="font-mono opacity-50">{revision.version.slice(0, 7)}</span>
+                        <span className="truncate">{revision.author ?? 'unknown'}</span>
+                        <span className="opacity-50">{formatTimeAgo(revision.committedAt)}</span>
+                        <span className="text-added">+{revision.additions}</span>
+                        <span className="text-deleted">−{revision.deletions}</span>
+                        {i === 0 && <span className="opacity-50">latest</span>}
+                        {revision.version === from && selected && (
+                            <span className="opacity-50">base</span>
+                        )}
+                        <span className="flex-1" />
+                        <span className="hidden group-hover:flex items-center">
+                            <Button
+                                variant="ghost"
+                                size="icon-xs"
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    setBase(revision.version);
+                                }}
+                                title="Compare the selected revision with this one"
+                            >
+                                <GitCompareArrows size={12} />
+                            </Button>
+                            {i > 0 && (
+                                <Button
+                                    variant="ghost"
+                                    size="icon-xs"
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        postMessage('notes.restoreRevision', {
+                                            noteId,
+                                            version: revision.version,
+                                        });
+                                    }}
+                                    title="Restore this revision"
+                                >
+                                    <RotateCcw size={12} />
+                                </Button>
+                            )}
+                        </span>
+                    </div>
+                ))}
+            </div>
+
+            {selected && !from && (
+                <div className="text-[11px] opacity-50 px-4 py-2">
+                    First revision — pick a base to compare with
+                </div>
+            )}
+            {revisionDiff && (
+                <div className="flex flex-col gap-2 py-2">
+                    {revisionDiff.files.length === 0 && (
+                        <div className="text-[11px] opacity-50 px-4">No file changes</div>
+                    )}
+                    {revisionDiff.files.map((file) => (
+                        <div key={file.filename}>
+                            <div className="px-4 py-1 text-[11px] font-medium">
+                                {file.filename}{' '}
+                                <span className="opacity-50 font-normal">{file.status}</span>
+                            </div>
+                            {file.diff ? (
+                                <DiffView diff={file.diff} />
+                            ) : (
+                                <div className="text-[11px] opacity-40 px-4 italic">
+                                    No text diff for this file
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { type GistNoteData } from '../store';
+import { postMessage } from '@/vscode';
+import { normalizeFolder, normalizeTags } from '@/lib/noteSearch';
+import { Folder, Plus, Tag, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface NoteTagsBarProps {
+    note: GistNoteData;
+}
+
+/** Folder and tags of the selected note, editable in place. */
+export const NoteTagsBar: React.FC<NoteTagsBarProps> = ({ note }) => {
+    const [editing, setEditing] = useState<'tag' | 'folder' | null>(null);
+    const [value, setValue] = useState('');
+
+    const startEditing = (what: 'tag' | 'folder') => {
+        setEditing(what);
+        setValue(what === 'folder' ? (note.folder ?? '') : '');
+    };
+
+    const commit = () => {
+        if (editing === 'tag') {
+            const tags = normalizeTags([...note.tags, ...value.split(',')]);
+            if (tags.length !== note.tags.length) {
+                postMessage('notes.setTags', { noteId: note.id, tags });
+            }
+        } else if (editing === 'folder') {
+            const folder = normalizeFolder(value);
+            if (folder !== note.folder) {
+                postMessage('notes.moveToFolder', { noteId: note.id, folder });
+            }
+        }
+        setEditing(null);
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-1 text-[11px]">
+            {editing === 'folder' ? (
+                <Input
+                    autoFocus
+                    type="text"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') {commit();}
+                        if (e.key === 'Escape') {setEditing(null);}
+                    }}
+                    onBlur={commit}
+                    placeholder="Folder, e.g. Work/Incidents — empty for none"
+                    className="h-5 w-56 text-[11px]"
+                />
+            ) : (
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-auto px-1 py-0 text-[11px] gap-1 opacity-60 hover:opacity-100"
+                    onClick={() => startEditing('folder')}
+                    title="Move to folder"
+                >
+                    <Folder size={10} />
+                    {note.folder ?? 'No folder'}
+                </Button>
+            )}
+
+            {note.tags.map((tag) => (
+                <span
+                    key={tag}
+                    className="inline-flex items-center rounded border border-border/60 pl-1"
+                >
+                    <Tag size={9} className="opacity-60" />
+                    <span className="px-0.5">{tag}</span>
+                    <Button
+                        variant="ghost"
+                        size="icon-xs"
+                        className="opacity-50 hover:opacity-100"
+                        onClick={() =>
+                            postMessage('notes.setTags', {
+                                noteId: note.id,
+                                tags: note.tags.filter((t) => t !== tag),
+                            })
+                        }
+                        title={`Remove #${tag}`}
+                    >
+                        <X size={10} />
+                    </Button>
+                </span>
+            ))}
+
+            {editing === 'tag' ? (
+                <Input
+                    autoFocus
+                    type="text"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') {commit();}
+                        if (e.key === 'Escape') {setEditing(null);}
+                    }}
+                    onBlur={commit}
+                    placeholder="Tags, comma-separated"
+                    className="h-5 w-40 text-[11px]"
+                />
+            ) : (
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-auto px-1 py-0 text-[11px] gap-1 opacity-50 hover:opacity-100"
+                    onClick={() => startEditing('tag')}
+                    title="Add tags"
+                >
+                    <Plus size={10} />
+                    Tag
+                </Button>
+            )}
+        </div>
+    );
+};
@@ -2,11 +2,18 @@ import React, { useRef, useCallback, useState, useMemo } from 'react';
 import { useNotesStore, type GistNoteData } from '../store';
 import { postMessage } from '@/vscode';
 import { formatRelativeTimeCompact } from '@/lib/formatTime';
-import { Lock, Globe, StickyNote, Plus, X, ShieldCheck, FolderGit2, Library, AlertCircle, RefreshCw } from 'lucide-react';
+import { Lock, Globe, StickyNote, Plus, X, ShieldCheck, FolderGit2, Library, AlertCircle, RefreshCw, CloudOff, CloudUpload, AlertTriangle, LayoutTemplate, Folder, ChevronDown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { useRovingTabIndex } from '@/hooks/useRovingTabIndex';
 
 /** Skeleton card shown while notes are loading */
@@ -28,9 +35,16 @@ export const NotesList: React.FC = () => {
     const allNotes = useNotesStore((s) => s.notes);
     const filteredNotesFn = useNotesStore((s) => s.filteredNotes);
     const filterMode = useNotesStore((s) => s.filterMode);
+    const folderFilter = useNotesStore((s) => s.folderFilter);
+    const setFolderFilter = useNotesStore((s) => s.setFolderFilter);
+    const foldersFn = useNotesStore((s) => s.folders);
     const currentRepo = useNotesStore((s) => s.currentRepo);
+    const offline = useNotesStore((s) => s.offline);
+    const pendingSync = useNotesStore((s) => s.pendingSync);
     // eslint-disable-next-line react-hooks/exhaustive-deps -- extra deps trigger recompute of Zustand derived selector
-    const notes = useMemo(() => filteredNotesFn(), [filteredNotesFn, allNotes, searchQuery, filterMode, currentRepo]);
+    const notes = useMemo(() => filteredNotesFn(), [filteredNotesFn, allNotes, searchQuery, filterMode, folderFilter, currentRepo]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- allNotes triggers recompute of Zustand derived selector
+    const folders = useMemo(() => foldersFn(), [foldersFn, allNotes]);
     const selectedNoteId = useNotesStore((s) => s.selectedNoteId);
     const selectNote = useNotesStore((s) => s.selectNote);
     const isDirty = useNotesStore((s) => s.isDirty);
@@ -67,6 +81,30 @@ export const NotesList: React.FC = () => {
         setNewNoteTitle('');
     }, [newNoteTitle, newNotePublic]);
 
+    const handleCreateFromTemplate = useCallback(() => {
+        // The extension shows the template picker; an empty title uses the template's
+        postMessage('notes.createFromTemplate', {
+            title: newNoteTitle.trim(),
+            isPublic: newNotePublic,
+        });
+        setCreatingNote(false);
+        setNewNoteTitle('');
+    }, [newNoteTitle, newNotePublic]);
+
+    /** Narrow the search to a tag, or drop that tag filter again. */
+    const toggleTagFilter = useCallback(
+        (tag: string) => {
+            const token = `#${tag}`;
+            const words = searchQuery.split(/\s+/).filter(Boolean);
+            setSearchQuery(
+                words.includes(token)
+                    ? words.filter((w) => w !== token).join(' ')
+                    : [...words, token].join(' '),
+            );
+        },
+        [searchQuery, setSearchQuery],
+    );
+
     const handleSearchKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === 'Escape') {
             setSearchQuery('');
@@ -114,7 +152,8 @@ export const NotesList: React.FC = () => {
                     <Input
                         ref={searchRef}
                         type="text"
-                        placeholder="Search notes…"
+                        placeholder="Search notes… #tag is:public in:Folder after:7d"
+                        title="Ranked full-text search. Filters: #tag, is:public / is:secret, in:Folder, after: / before: a date (2026-01-31) or an age (7d, 2w, 3m), &quot;exact phrase&quot;"
                         value={searchQuery}
                         onChange={(e) => setSearchQuery(e.target.value)}
                         onKeyDown={(e) => { handleSearchKeyDown(e); rovingSearchKeyDown(e); }}
@@ -156,6 +195,40 @@ export const NotesList: React.FC = () => {
                             {currentRepo}
                         </span>
                     )}
+                    {folders.length > 0 && (
+                        <DropdownMenu>
+                            <DropdownMenuTrigger
+                                render={
+                                    <Button
+                                        variant={folderFilter ? 'default' : 'ghost'}
+                                        size="sm"
+                                        className="h-auto px-2 py-0.5 text-[11px] gap-1 ml-auto max-w-32"
+                                        title="Show the notes of a folder"
+                                    />
+                                }
+                            >
+                                <Folder size={11} />
+                                <span className="truncate">{folderFilter ?? 'All folders'}</span>
+                                <ChevronDown size={10} />
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                                <DropdownMenuItem onClick={() => setFolderFilter(null)}>
+                                    All folders
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                {folders.map((folder) => (
+                                    <DropdownMenuItem
+                                        key={folder}
+                                        onClick={() => setFolderFilter(folder)}
+                                        style={{ paddingLeft: `${0.5 + folder.split('/').length - 1}rem` }}
+                                    >
+                                        <Folder size={12} />
+                                        {folder.slice(folder.lastIndexOf('/') + 1)}
+                                    </DropdownMenuItem>
+                                ))}
+                            </DropdownMenuContent>
+                        </DropdownMenu>
+                    )}
                 </div>
 
                 {/* Inline create form */}
@@ -208,11 +281,48 @@ export const NotesList: React.FC = () => {
                                 <Globe size={11} />
                                 Public
                             </Button>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-auto px-2 py-0.5 text-[11px] gap-1 ml-auto"
+                                onClick={handleCreateFromTemplate}
+                                title="Create the note from a template"
+                            >
+                                <LayoutTemplate size={11} />
+                                Template…
+                            </Button>
                         </div>
                     </div>
                 )}
             </div>
 
+            {/* Offline / unsynced edits */}
+            {(offline || pendingSync > 0) && (
+                <div className="flex items-center gap-1.5 px-3 py-1 border-b border-border text-[11px] shrink-0">
+                    {offline ? (
+                        <CloudOff size={12} className="opacity-70" />
+                    ) : (
+                        <CloudUpload size={12} className="opacity-70" />
+                    )}
+                    <span className="flex-1 opacity-70 truncate">
+                        {offline
+                            ? 'Offline — showing cached notes'
+                            : 'Local edits not yet on GitHub'}
+                        {pendingSync > 0 && ` · ${pendingSync} to sync`}
+                    </span>
+                    {pendingSync > 0 && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-auto px-1.5 py-0 text-[11px] gap-1"
+                            onClick={() => postMessage('notes.sync')}
+                        >
+                            <RefreshCw size={11} /> Sync
+                        </Button>
+                    )}
+                </div>
+            )}
+
             {/* Note list */}
             <div ref={notesListRef} className="flex-1 overflow-y-auto px-3 py-2 space-y-1.5" {...containerProps} aria-label="Notes list">
                 {error ? (
@@ -240,6 +350,8 @@ export const NotesList: React.FC = () => {
                         <span className="text-[12px]">
                             {searchQuery
                                 ? 'No notes match your search'
+                                : folderFilter
+                                    ? `No notes in ${folderFilter}`
                                 : filterMode === 'workspace' && allNotes.length > 0
                                     ? `No notes linked to this workspace (${allNotes.length} total)`
                                     : 'No notes yet — create one to get started'}
@@ -282,15 +394,56 @@ export const NotesList: React.FC = () => {
                                         <div className="text-[11px] opacity-50 truncate mt-0.5">
                                             {snippet || 'Empty note'}
                                         </div>
-                                        {filterMode === 'all' && note.linkedRepo && (
-                                            <Badge variant="outline" className="mt-1 text-[9px] px-1 py-0 h-4 gap-0.5">
-                                                <FolderGit2 size={9} />
-                                                {note.linkedRepo}
-                                            </Badge>
+                                        {((filterMode === 'all' && note.linkedRepo) ||
+                                            (note.folder && note.folder !== folderFilter) ||
+                                            note.tags.length > 0) && (
+                                            <div className="flex flex-wrap items-center gap-1 mt-1">
+                                                {filterMode === 'all' && note.linkedRepo && (
+                                                    <Badge variant="outline" className="text-[9px] px-1 py-0 h-4 gap-0.5">
+                                                        <FolderGit2 size={9} />
+                                                        {note.linkedRepo}
+                                                    </Badge>
+                                                )}
+                                                {note.folder && note.folder !== folderFilter && (
+                                                    <Badge variant="outline" className="text-[9px] px-1 py-0 h-4 gap-0.5">
+                                                        <Folder size={9} />
+                                                        {note.folder}
+                                                    </Badge>
+                                                )}
+                                                {note.tags.map((tag) => (
+                                                    <Badge
+                                                        key={tag}
+                                                        variant="secondary"
+                                                        className="text-[9px] px-1 py-0 h-4 cursor-pointer"
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            toggleTagFilter(tag);
+                                                        }}
+                                                        title={`Filter by #${tag}`}
+                                                    >
+                                                        #{tag}
+                                                    </Badge>
+                                                ))}
+                                            </div>
                                         )}
                                     </div>
                                     <div className="flex flex-col items-end gap-0.5 shrink-0">
                                         <span className="text-[10px] opacity-40">{timeAgo}</span>
+                                        {note.syncState === 'conflict' ? (
+                                            <span
+                                                className="text-warning"
+                                                title="Conflicts with GitHub — resolve and save"
+                                            >
+                                                <AlertTriangle size={12} />
+                                            </span>
+                                        ) : note.syncState === 'queued' ? (
+                                            <span
+                                                className="opacity-60"
+                                                title="Saved locally — waiting to sync"
+                                            >
+                                                <CloudUpload size={12} />
+                                            </span>
+                                        ) : null}
                                         <span
                                             className="text-[10px]"
                                             title={note.isPublic ? 'Public' : 'Secret'}
@@ -1,7 +1,14 @@
 /**
  * useNotesMessages — dispatches extension→webview notes messages to the store.
  */
-import { useNotesStore, type GistNoteData } from './store';
+import {
+    useNotesStore,
+    type GistNoteData,
+    type GistNoteFile,
+    type NoteBacklinkData,
+    type NoteRevisionData,
+    type NoteRevisionDiff,
+} from './store';
 import { useAppStore } from '@/appStore';
 
 type Msg = { type: string; [key: string]: unknown };
@@ -27,6 +34,10 @@ export function handleNotesMessage(msg: Msg): boolean {
             s.updateNoteInList(ncNoteId, {
                 content: ncContent,
                 ...(ncTitle !== undefined ? { title: ncTitle } : {}),
+                ...(msg.files
+                    ? { mainFile: msg.mainFile as string, files: msg.files as GistNoteFile[] }
+                    : {}),
+                syncState: msg.syncState as GistNoteData['syncState'],
             });
             if (s.selectedNoteId === ncNoteId) {
                 s.loadNoteContent(ncContent, ncTitle);
@@ -35,15 +46,54 @@ export function handleNotesMessage(msg: Msg): boolean {
         }
         case 'noteSaved':
             s.setSaving(false);
-            s.setDirty(false);
+            // Another file's edits may be open by now; its own save clears them
+            if (s.activeFile === null) {
+                s.setDirty(false);
+            }
             if (msg.noteId) {
                 s.updateNoteInList(msg.noteId as string, {
                     ...(msg.title !== undefined ? { title: msg.title as string } : {}),
                     ...(msg.content !== undefined ? { content: msg.content as string } : {}),
                     ...(msg.updatedAt ? { updatedAt: msg.updatedAt as string } : {}),
+                    ...(msg.files
+                        ? { mainFile: msg.mainFile as string, files: msg.files as GistNoteFile[] }
+                        : {}),
+                    syncState: msg.syncState as GistNoteData['syncState'],
                 });
             }
             return true;
+        case 'noteFilesChanged': {
+            const renamed =
+                msg.renamedFrom && msg.renamedTo
+                    ? { from: msg.renamedFrom as string, to: msg.renamedTo as string }
+                    : undefined;
+            s.setNoteFiles(
+                msg.noteId as string,
+                msg.mainFile as string,
+                msg.files as GistNoteFile[],
+                msg.updatedAt as string,
+                renamed,
+            );
+            if (msg.savedFile) {
+                s.setSaving(false);
+                s.updateNoteInList(msg.noteId as string, {
+                    syncState: msg.syncState as GistNoteData['syncState'],
+                });
+                if (s.activeFile === msg.savedFile) {
+                    s.setDirty(false);
+                    if (msg.syncState === 'conflict') {
+                        // Show the merge result, conflict markers and all
+                        const files = msg.files as GistNoteFile[];
+                        const merged = files.find((f) => f.filename === msg.savedFile);
+                        s.loadFileContent(merged?.content ?? '');
+                    }
+                }
+            }
+            return true;
+        }
+        case 'notesSyncStatus':
+            s.setSyncStatus(msg.offline as boolean, msg.pending as number);
+            return true;
         case 'noteCreated': {
             const newNote = msg.note as GistNoteData;
             s.addNoteToList(newNote);
@@ -97,6 +147,13 @@ export function handleNotesMessage(msg: Msg): boolean {
         case 'noteLinked':
             s.updateNoteInList(msg.noteId as string, {
                 linkedRepo: (msg.linkedRepo as string) ?? null,
+                linkedPaths: (msg.linkedPaths as string[]) ?? [],
+            });
+            return true;
+        case 'noteMetaChanged':
+            s.updateNoteInList(msg.noteId as string, {
+                tags: (msg.tags as string[]) ?? [],
+                folder: (msg.folder as string | null) ?? null,
             });
             return true;
         case 'noteMigrated': {
@@ -104,6 +161,35 @@ export function handleNotesMessage(msg: Msg): boolean {
             s.updateNoteInList(migratedNote.id, migratedNote);
             return true;
         }
+
+        // ─── Links between notes ───
+        case 'noteBacklinks':
+            s.setBacklinks(msg.noteId as string, msg.backlinks as NoteBacklinkData[]);
+            return true;
+
+        // ─── Revision history ───
+        case 'noteRevisions':
+            s.setRevisions(msg.noteId as string, msg.revisions as NoteRevisionData[]);
+            return true;
+        case 'noteRevisionDiff':
+            if (msg.noteId === s.selectedNoteId) {
+                s.setRevisionDiff({
+                    from: msg.from as string,
+                    to: msg.to as string,
+                    files: msg.files as NoteRevisionDiff['files'],
+                });
+            }
+            return true;
+        case 'noteRestored': {
+            const restored = msg.note as GistNoteData;
+            s.setSaving(false);
+            s.updateNoteInList(restored.id, restored);
+            if (s.selectedNoteId === restored.id) {
+                s.loadNoteContent(restored.content, restored.title);
+                s.setRevisionDiff(null);
+            }
+            return true;
+        }
         case 'tabSize':
             s.setTabSize(msg.tabSize as number);
             return true;
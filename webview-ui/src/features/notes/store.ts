@@ -1,4 +1,12 @@
 import { create } from 'zustand';
+import { NoteSearchIndex, inFolder, isEmptyQuery, parseNoteQuery } from '@/lib/noteSearch';
+
+/** One file of a note — Markdown page, image, or code snippet */
+export interface GistNoteFile {
+    filename: string;
+    content: string;
+    kind: 'markdown' | 'image' | 'code';
+}
 
 /** Lightweight note data shape received from the extension */
 export interface GistNoteData {
@@ -10,16 +18,64 @@ export interface GistNoteData {
     updatedAt: string;
     htmlUrl: string;
     linkedRepo: string | null;
+    /** Repo-relative files and folders (ending in "/") of `linkedRepo` the note is about */
+    linkedPaths: string[];
+    /** Sorted, without "#" */
+    tags: string[];
+    /** Virtual folder path ("Work/Incidents"); null at the top level */
+    folder: string | null;
     hasSpfMarker: boolean;
+    /** Filename of the main page, whose body is `content` */
+    mainFile: string;
+    /** Every file of the note, main page first (contents empty until loaded) */
+    files: GistNoteFile[];
+    /** Local edits not yet on GitHub: waiting for a connection, or for conflicts to be resolved */
+    syncState?: 'queued' | 'conflict';
+}
+
+/** One revision of a note's gist */
+export interface NoteRevisionData {
+    version: string;
+    committedAt: string;
+    author: string | null;
+    additions: number;
+    deletions: number;
+}
+
+/** How one file differs between two revisions */
+export interface NoteFileDiffData {
+    filename: string;
+    status: 'added' | 'removed' | 'modified';
+    /** Unified diff hunks; empty for images */
+    diff: string;
+}
+
+export interface NoteRevisionDiff {
+    from: string;
+    to: string;
+    files: NoteFileDiffData[];
+}
+
+/** A note linking to the selected one with `[[Title]]` */
+export interface NoteBacklinkData {
+    id: string;
+    title: string;
+    /** The line holding the link */
+    excerpt: string;
 }
 
 export type NotesFilterMode = 'all' | 'workspace';
 
+/** Ranks `filteredNotes` while searching; re-indexes only notes that changed */
+const searchIndex = new NoteSearchIndex<GistNoteData>();
+
 interface NotesStore {
     notes: GistNoteData[];
     selectedNoteId: string | null;
     editingContent: string;
     editingTitle: string;
+    /** File of the selected note open in the editor; null for the main page */
+    activeFile: string | null;
     isLoading: boolean;
     isSaving: boolean;
     isDirty: boolean;
@@ -28,15 +84,41 @@ interface NotesStore {
     searchQuery: string;
     previewMode: boolean;
     filterMode: NotesFilterMode;
+    /** Folder the list shows, with its subfolders; null for every note */
+    folderFilter: string | null;
     currentRepo: string | null;
     error: string | null;
     tabSize: number;
+    /** Revision history shown in place of the editor body */
+    historyOpen: boolean;
+    /** Revisions of the selected note, newest first; null until loaded */
+    revisions: NoteRevisionData[] | null;
+    revisionDiff: NoteRevisionDiff | null;
+    /** Whether GitHub was unreachable at the last request (notes come from the cache) */
+    offline: boolean;
+    /** Notes with edits waiting to sync */
+    pendingSync: number;
+    /** Notes linking to the selected one; null until loaded */
+    backlinks: NoteBacklinkData[] | null;
 
     // Actions
     setNotes: (notes: GistNoteData[]) => void;
     setError: (error: string | null) => void;
     selectNote: (id: string) => void;
     clearSelection: () => void;
+    /**
+     * Open another file of the selected note (null for the main page). Unsaved
+     * edits are kept in the note's local copy; the caller saves them first.
+     */
+    selectFile: (filename: string | null) => void;
+    /** Replace a note's file list after the extension changed it; `renamed` follows an open file */
+    setNoteFiles: (
+        noteId: string,
+        mainFile: string,
+        files: GistNoteFile[],
+        updatedAt: string,
+        renamed?: { from: string; to: string },
+    ) => void;
     setEditingContent: (content: string) => void;
     setEditingTitle: (title: string) => void;
     setLoading: (loading: boolean) => void;
@@ -46,11 +128,22 @@ interface NotesStore {
     setSearchQuery: (query: string) => void;
     setPreviewMode: (preview: boolean) => void;
     setFilterMode: (mode: NotesFilterMode) => void;
+    setFolderFilter: (folder: string | null) => void;
     setCurrentRepo: (repo: string | null) => void;
     setTabSize: (size: number) => void;
-    /** Atomically set editor content/title without marking dirty (used when loading from extension) */
+    setHistoryOpen: (open: boolean) => void;
+    setRevisions: (noteId: string, revisions: NoteRevisionData[]) => void;
+    setRevisionDiff: (diff: NoteRevisionDiff | null) => void;
+    setSyncStatus: (offline: boolean, pendingSync: number) => void;
+    setBacklinks: (noteId: string, backlinks: NoteBacklinkData[]) => void;
+    /** Atomically set editor content/title of the main page without marking dirty (used when loading from extension) */
     loadNoteContent: (content: string, title?: string) => void;
+    /** Replace the open file's editor content without marking dirty (e.g. after a sync merged it) */
+    loadFileContent: (content: string) => void;
+    /** Notes of the workspace filter and folder; while searching, only the matches, best first */
     filteredNotes: () => GistNoteData[];
+    /** Folder paths in use, with every parent folder, sorted */
+    folders: () => string[];
     selectedNote: () => GistNoteData | undefined;
     updateNoteInList: (noteId: string, updates: Partial<GistNoteData>) => void;
     removeNoteFromList: (noteId: string) => void;
@@ -62,6 +155,7 @@ export const useNotesStore = create<NotesStore>((set, get) => ({
     selectedNoteId: null,
     editingContent: '',
     editingTitle: '',
+    activeFile: null,
     isLoading: false,
     isSaving: false,
     isDirty: false,
@@ -70,9 +164,16 @@ export const useNotesStore = create<NotesStore>((set, get) => ({
     searchQuery: '',
     previewMode: true,
     filterMode: 'all',
+    folderFilter: null,
     currentRepo: null,
     error: null,
     tabSize: 4,
+    historyOpen: false,
+    revisions: null,
+    revisionDiff: null,
+    offline: false,
+    pendingSync: 0,
+    backlinks: null,
 
     setNotes: (notes) => {
         const { selectedNoteId } = get();
@@ -87,6 +188,7 @@ export const useNotesStore = create<NotesStore>((set, get) => ({
                       selectedNoteId: null,
                       editingContent: '',
                       editingTitle: '',
+                      activeFile: null,
                       isDirty: false,
                   }),
         });
@@ -104,8 +206,13 @@ export const useNotesStore = create<NotesStore>((set, get) => ({
             selectedNoteId: id,
             editingContent: note.content,
             editingTitle: note.title,
+            activeFile: null,
             isDirty: false,
             previewMode: true,
+            historyOpen: false,
+            revisions: null,
+            revisionDiff: null,
+            backlinks: null,
         });
     },
 
@@ -114,8 +221,62 @@ export const useNotesStore = create<NotesStore>((set, get) => ({
             selectedNoteId: null,
             editingContent: '',
             editingTitle: '',
+            activeFile: null,
             isDirty: false,
             previewMode: true,
+            historyOpen: false,
+            revisions: null,
+            revisionDiff: null,
+            backlinks: null,
+        }),
+
+    selectFile: (filename) => {
+        const { activeFile, editingContent, isDirty } = get();
+        const note = get().selectedNote();
+        if (!note || filename === activeFile) {return;}
+        // Keep the draft of the file being left, so switching back shows it
+        const current = activeFile ?? note.mainFile;
+        const files = note.files.map((f) =>
+            isDirty && f.filename === current ? { ...f, content: editingContent } : f,
+        );
+        const updated = {
+            ...note,
+            files,
+            ...(isDirty && activeFile === null ? { content: editingContent } : {}),
+        };
+        const target = filename === note.mainFile ? null : filename;
+        set((state) => ({
+            notes: state.notes.map((n) => (n.id === note.id ? updated : n)),
+            activeFile: target,
+            editingContent:
+                target === null
+                    ? updated.content
+                    : (files.find((f) => f.filename === target)?.content ?? ''),
+            isDirty: false,
+        }));
+    },
+
+    setNoteFiles: (noteId, mainFile, files, updatedAt, renamed) =>
+        set((state) => {
+            const notes = state.notes.map((n) =>
+                n.id === noteId ? { ...n, mainFile, files, updatedAt } : n,
+            );
+            if (state.selectedNoteId !== noteId || state.activeFile === null) {
+                return { notes };
+            }
+            if (renamed && state.activeFile === renamed.from) {
+                return { notes, activeFile: renamed.to };
+            }
+            if (files.some((f) => f.filename === state.activeFile)) {
+                return { notes };
+            }
+            // The open file was removed — fall back to the main page
+            return {
+                notes,
+                activeFile: null,
+                editingContent: notes.find((n) => n.id === noteId)?.content ?? '',
+                isDirty: false,
+            };
         }),
 
     setEditingContent: (content) => set({ editingContent: content, isDirty: true }),
@@ -128,19 +289,38 @@ export const useNotesStore = create<NotesStore>((set, get) => ({
     setSearchQuery: (searchQuery) => set({ searchQuery }),
     setPreviewMode: (previewMode) => set({ previewMode }),
     setFilterMode: (filterMode) => set({ filterMode }),
+    setFolderFilter: (folderFilter) => set({ folderFilter }),
     setCurrentRepo: (currentRepo) => set({ currentRepo }),
     setTabSize: (tabSize) => set({ tabSize }),
+    setHistoryOpen: (historyOpen) =>
+        set(historyOpen ? { historyOpen } : { historyOpen, revisions: null, revisionDiff: null }),
+    setRevisions: (noteId, revisions) => {
+        // Drop late answers for a note that is no longer selected
+        if (get().selectedNoteId === noteId) {
+            set({ revisions });
+        }
+    },
+    setRevisionDiff: (revisionDiff) => set({ revisionDiff }),
+    setSyncStatus: (offline, pendingSync) => set({ offline, pendingSync }),
+    setBacklinks: (noteId, backlinks) => {
+        if (get().selectedNoteId === noteId) {
+            set({ backlinks });
+        }
+    },
 
     loadNoteContent: (content, title) =>
         set({
+            activeFile: null,
             editingContent: content,
             ...(title !== undefined ? { editingTitle: title } : {}),
             isLoading: false,
             isDirty: false,
         }),
 
+    loadFileContent: (content) => set({ editingContent: content, isDirty: false }),
+
     filteredNotes: () => {
-        const { notes, searchQuery, filterMode, currentRepo } = get();
+        const { notes, searchQuery, filterMode, folderFilter, currentRepo } = get();
         let filtered = notes;
 
         // Apply workspace filter
@@ -148,17 +328,34 @@ export const useNotesStore = create<NotesStore>((set, get) => ({
             filtered = filtered.filter((n) => n.linkedRepo === currentRepo);
         }
 
-        // Apply search filter
-        if (searchQuery.trim()) {
-            const q = searchQuery.toLowerCase();
-            filtered = filtered.filter(
-                (n) => n.title.toLowerCase().includes(q) || n.content.toLowerCase().includes(q),
-            );
+        // Apply folder filter
+        if (folderFilter) {
+            filtered = filtered.filter((n) => inFolder(n.folder, folderFilter));
+        }
+
+        // Apply search: ranked, best match first
+        const query = parseNoteQuery(searchQuery);
+        if (!isEmptyQuery(query)) {
+            searchIndex.update(notes);
+            const visible = new Set(filtered.map((n) => n.id));
+            return searchIndex
+                .search(query)
+                .map((r) => r.note)
+                .filter((n) => visible.has(n.id));
         }
 
         return filtered;
     },
 
+    folders: () => {
+        const folders = new Set<string>();
+        for (const { folder } of get().notes) {
+            const segments = folder?.split('/') ?? [];
+            segments.forEach((_, i) => folders.add(segments.slice(0, i + 1).join('/')));
+        }
+        return [...folders].sort((a, b) => a.localeCompare(b));
+    },
+
     selectedNote: () => {
         const { notes, selectedNoteId } = get();
         if (!selectedNoteId) {return undefined;}
@@ -180,6 +377,7 @@ export const useNotesStore = create<NotesStore>((set, get) => ({
                           selectedNoteId: null,
                           editingContent: '',
                           editingTitle: '',
+                          activeFile: null,
                           isDirty: false,
                       }
                     : {}),
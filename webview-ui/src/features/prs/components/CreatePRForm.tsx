@@ -1,5 +1,6 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { usePRStore } from '../store';
+import { useAppStore } from '@/appStore';
 import { postMessage } from '@/vscode';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,6 +17,7 @@ import {
     AlertCircle,
     ChevronDown,
     Settings2,
+    Layers,
 } from 'lucide-react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 
@@ -33,11 +35,14 @@ export const CreatePRForm: React.FC<CreatePRFormProps> = ({ onBack }) => {
     const summaryError = usePRStore((s) => s.summaryError);
     const prSummarySystemPrompt = usePRStore((s) => s.prSummarySystemPrompt);
     const setPRSummarySystemPrompt = usePRStore((s) => s.setPRSummarySystemPrompt);
+    const createPRBase = usePRStore((s) => s.createPRBase);
+    const selectedPR = usePRStore((s) => s.selectedPRDetail ?? s.selectedPR());
+    const currentRepo = useAppStore((s) => s.currentRepo);
 
     const [title, setTitle] = useState('');
     const [body, setBody] = useState('');
     const [headBranch, setHeadBranch] = useState(currentBranch ?? '');
-    const [baseBranch, setBaseBranch] = useState('');
+    const [baseBranch, setBaseBranch] = useState(createPRBase ?? '');
     const [isDraft, setIsDraft] = useState(false);
     const [showPromptEditor, setShowPromptEditor] = useState(false);
     const [headOpen, setHeadOpen] = useState(false);
@@ -121,6 +126,17 @@ export const CreatePRForm: React.FC<CreatePRFormProps> = ({ onBack }) => {
             (baseFilter === '' || b.toLowerCase().includes(baseFilter.toLowerCase())),
     );
 
+    // The open PR being viewed can be stacked on — unless its branch is in a fork
+    const stackTarget =
+        selectedPR &&
+        selectedPR.state === 'open' &&
+        currentRepo &&
+        selectedPR.headRepo?.toLowerCase() === `${currentRepo.owner}/${currentRepo.repo}`.toLowerCase() &&
+        selectedPR.branch !== baseBranch &&
+        selectedPR.branch !== headBranch
+            ? selectedPR
+            : null;
+
     const canCreate = title.trim() && headBranch && baseBranch && headBranch !== baseBranch;
 
     return (
@@ -270,6 +286,18 @@ export const CreatePRForm: React.FC<CreatePRFormProps> = ({ onBack }) => {
                                 </div>
                             )}
                         </div>
+                        {stackTarget && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="self-start h-auto px-1.5 py-0.5 text-[10px] gap-1"
+                                onClick={() => setBaseBranch(stackTarget.branch)}
+                                title={`Base this PR on the head of #${stackTarget.number}, so it merges after it`}
+                            >
+                                <Layers size={10} />
+                                Stack on #{stackTarget.number} ({stackTarget.branch})
+                            </Button>
+                        )}
                     </div>
                 </div>
 
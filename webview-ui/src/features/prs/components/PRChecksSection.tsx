@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { usePRStore, type PRCheckData, type PRCheckState } from '../store';
+import { postMessage } from '@/vscode';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+    CheckCircle2,
+    XCircle,
+    Loader2,
+    MinusCircle,
+    CircleSlash,
+    ChevronDown,
+    ChevronRight,
+    ExternalLink,
+    RefreshCw,
+    FileText,
+} from 'lucide-react';
+
+/** How often running checks are re-fetched while the PR is open */
+const POLL_MS = 30_000;
+
+export const checkStateConfig: Record<PRCheckState, { label: string; color: string }> = {
+    success: { label: 'Passing', color: 'text-green-400' },
+    failure: { label: 'Failing', color: 'text-red-400' },
+    pending: { label: 'Running', color: 'text-yellow-400' },
+    neutral: { label: 'Neutral', color: 'text-fg/40' },
+    skipped: { label: 'Skipped', color: 'text-fg/30' },
+};
+
+export function CheckStateIcon({ state, size = 12 }: { state: PRCheckState; size?: number }) {
+    const className = checkStateConfig[state].color;
+    switch (state) {
+        case 'success':
+            return <CheckCircle2 size={size} className={className} />;
+        case 'failure':
+            return <XCircle size={size} className={className} />;
+        case 'pending':
+            return <Loader2 size={size} className={`${className} animate-spin`} />;
+        case 'neutral':
+            return <MinusCircle size={size} className={className} />;
+        case 'skipped':
+            return <CircleSlash size={size} className={className} />;
+    }
+}
+
+function formatDuration(check: PRCheckData): string | null {
+    if (!check.startedAt) {return null;}
+    const end = check.completedAt ? new Date(check.completedAt).getTime() : Date.now();
+    const secs = Math.max(0, Math.round((end - new Date(check.startedAt).getTime()) / 1000));
+    if (secs < 60) {return `${secs}s`;}
+    const mins = Math.floor(secs / 60);
+    if (mins < 60) {return `${mins}m ${secs % 60}s`;}
+    return `${Math.floor(mins / 60)}h ${mins % 60}m`;
+}
+
+const CheckRow: React.FC<{ check: PRCheckData }> = ({ check }) => {
+    const log = usePRStore((s) => s.checkLogs[check.id]);
+    const setCheckLog = usePRStore((s) => s.setCheckLog);
+    const [showLog, setShowLog] = useState(false);
+
+    const canShowLog = check.state === 'failure' && check.kind === 'check-run';
+    const duration = formatDuration(check);
+
+    const toggleLog = () => {
+        if (!showLog && !log) {
+            setCheckLog(check.id, { isLoading: true });
+            postMessage('prs.getCheckLog', { checkId: check.id });
+        }
+        setShowLog(!showLog);
+    };
+
+    return (
+        <div className="border-b border-border/50 last:border-b-0">
+            <div className="flex items-center gap-1.5 px-2 py-1 text-[11px]">
+                <CheckStateIcon state={check.state} />
+                <span className="font-medium truncate">{check.name}</span>
+                {check.isRequired && (
+                    <Badge variant="outline" className="text-[8px] px-1 py-0 border-fg/15 text-fg/50 shrink-0">
+                        Required
+                    </Badge>
+                )}
+                <span className="text-[10px] text-fg/40 truncate">
+                    {check.description || (check.state === 'pending' ? check.conclusion.replace('_', ' ') : '')}
+                </span>
+                <div className="flex-1" />
+                {duration && (
+                    <span className="text-[10px] text-fg/30 shrink-0" title={check.app || undefined}>
+                        {duration}
+                    </span>
+                )}
+                {canShowLog && (
+                    <Button
+                        variant="ghost"
+                        size="icon-xs"
+                        className="text-fg/40 hover:text-fg"
+                        onClick={toggleLog}
+                        title={showLog ? 'Hide log excerpt' : 'Show log excerpt'}
+                    >
+                        <FileText size={11} />
+                    </Button>
+                )}
+                {check.detailsUrl && (
+                    <Button
+                        variant="ghost"
+                        size="icon-xs"
+                        className="text-fg/40 hover:text-fg"
+                        onClick={() => postMessage('openExternal', { url: check.detailsUrl })}
+                        title="Open details on GitHub"
+                    >
+                        <ExternalLink size={11} />
+                    </Button>
+                )}
+            </div>
+            {showLog && (
+                <div className="px-2 pb-2">
+                    {!log || log.isLoading ? (
+                        <div className="flex items-center gap-1 text-[10px] text-fg/40">
+                            <Loader2 size={10} className="animate-spin" /> Loading log…
+                        </div>
+                    ) : log.error ? (
+                        <div className="text-[10px] text-red-400">{log.error}</div>
+                    ) : log.excerpt ? (
+                        <pre className="text-[10px] leading-snug font-mono bg-card border border-border rounded p-2 overflow-x-auto max-h-64 whitespace-pre">
+                            {log.excerpt}
+                        </pre>
+                    ) : (
+                        <div className="text-[10px] text-fg/40 italic">The check reported no output.</div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface PRChecksSectionProps {
+    prNumber: number;
+    headSha: string;
+    baseBranch: string;
+}
+
+/** CI checks of the head commit — a rollup line that expands into each job. */
+export const PRChecksSection: React.FC<PRChecksSectionProps> = ({ prNumber, headSha, baseBranch }) => {
+    const checks = usePRStore((s) => s.checks);
+    const rollup = usePRStore((s) => s.checksRollup);
+    const missingRequired = usePRStore((s) => s.missingRequiredChecks);
+    const isLoading = usePRStore((s) => s.isChecksLoading);
+    const error = usePRStore((s) => s.checksError);
+    const [open, setOpen] = useState(false);
+
+    const hasPending = (rollup?.pending ?? 0) > 0;
+
+    useEffect(() => {
+        postMessage('prs.getChecks', { prNumber, ref: headSha, baseBranch });
+    }, [prNumber, headSha, baseBranch]);
+
+    // Keep polling while any check is still running
+    useEffect(() => {
+        if (!hasPending) {return;}
+        const timer = setInterval(() => {
+            postMessage('prs.getChecks', { prNumber, ref: headSha, baseBranch });
+        }, POLL_MS);
+        return () => clearInterval(timer);
+    }, [hasPending, prNumber, headSha, baseBranch]);
+
+    if (!rollup) {
+        if (error) {
+            return <div className="mt-2 text-[10px] text-red-400">Checks unavailable: {error}</div>;
+        }
+        return isLoading ? (
+            <div className="mt-2 flex items-center gap-1 text-[10px] text-fg/40">
+                <Loader2 size={10} className="animate-spin" /> Loading checks…
+            </div>
+        ) : null;
+    }
+    if (rollup.total === 0) {
+        return null;
+    }
+
+    const parts = [
+        rollup.failed > 0 && `${rollup.failed} failing`,
+        rollup.pending > 0 && `${rollup.pending} running`,
+        rollup.passed > 0 && `${rollup.passed} passed`,
+        rollup.skipped > 0 && `${rollup.skipped} skipped`,
+    ].filter(Boolean);
+
+    return (
+        <Collapsible open={open} onOpenChange={setOpen} className="mt-2">
+            <div className="flex items-center gap-1">
+                <CollapsibleTrigger className="flex items-center gap-1.5 text-[11px] cursor-pointer hover:text-fg">
+                    {open ? <ChevronDown size={11} /> : <ChevronRight size={11} />}
+                    <CheckStateIcon state={rollup.state} />
+                    <span className={checkStateConfig[rollup.state].color}>
+                        {rollup.state === 'success'
+                            ? 'All checks passed'
+                            : rollup.state === 'failure'
+                              ? 'Some checks failed'
+                              : rollup.state === 'pending'
+                                ? 'Checks running'
+                                : 'Checks finished'}
+                    </span>
+                    <span className="text-[10px] text-fg/40">{parts.join(' · ')}</span>
+                </CollapsibleTrigger>
+                <Button
+                    variant="ghost"
+                    size="icon-xs"
+                    className="text-fg/30 hover:text-fg"
+                    onClick={() => postMessage('prs.getChecks', { prNumber, ref: headSha, baseBranch })}
+                    disabled={isLoading}
+                    title="Refresh checks"
+                >
+                    <RefreshCw size={10} className={isLoading ? 'animate-spin' : ''} />
+                </Button>
+            </div>
+            <CollapsibleContent>
+                <div className="mt-1 border border-border rounded">
+                    {checks.map((check) => (
+                        <CheckRow key={`${check.kind}-${check.id}`} check={check} />
+                    ))}
+                    {missingRequired.length > 0 && (
+                        <div className="px-2 py-1 text-[10px] text-fg/40">
+                            Expected — waiting for required check{missingRequired.length !== 1 ? 's' : ''} to
+                            report: {missingRequired.join(', ')}
+                        </div>
+                    )}
+                </div>
+            </CollapsibleContent>
+        </Collapsible>
+    );
+};
@@ -1,6 +1,8 @@
 import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import { usePRStore, type PRCommentData, type CommentResolvedFilter, type CommentGroup, type ReviewThread, type PRDetailTab } from '../store';
+import { usePRStore, type PullRequestData, type PRCommentData, type CommentResolvedFilter, type CommentGroup, type ReviewThread, type PRDetailTab } from '../store';
+import { useAppStore } from '@/appStore';
 import { postMessage } from '@/vscode';
+import { findStack } from '@/lib/prStacks';
 import {
     GitPullRequest,
     GitMerge,
@@ -31,6 +33,10 @@ import {
     Settings2,
     ShieldCheck,
     RefreshCw,
+    Download,
+    Undo2,
+    Layers,
+    GitPullRequestCreate,
 } from 'lucide-react';
 import { MarkdownBody } from '@/components/shared/MarkdownBody';
 import { Button } from '@/components/ui/button';
@@ -49,10 +55,14 @@ import { PRFileDiff } from './PRFileDiff';
 import { PRReviewForm } from './PRReviewForm';
 import { PRReviewStatus } from './PRReviewStatus';
 import { PRMergeButton } from './PRMergeButton';
+import { PRChecksSection } from './PRChecksSection';
 import { PRFilesSummary, PRFilesSummaryPane } from './PRFilesSummary';
 import { CopyMarkdownButton } from '@/components/shared/CopyMarkdownButton';
 import { ScrollArea } from '@/components/ui/scroll-area';
 
+/** Quiet time before a review draft edit is saved */
+const DRAFT_SAVE_MS = 500;
+
 function formatDate(iso: string): string {
     return new Date(iso).toLocaleString();
 }
@@ -742,6 +752,96 @@ const ReviewerSection: React.FC<{ prNumber: number; prAuthor: string }> = ({ prN
     );
 };
 
+/** The stack an open PR belongs to, as a chain from its base branch, with restack and stack-on actions */
+const StackSection: React.FC<{ pr: PullRequestData }> = ({ pr }) => {
+    const prs = usePRStore((s) => s.prs);
+    const selectPR = usePRStore((s) => s.selectPR);
+    const setShowCreatePR = usePRStore((s) => s.setShowCreatePR);
+    const isRestacking = usePRStore((s) => s.isRestacking);
+    const stackError = usePRStore((s) => s.stackError);
+    const currentRepo = useAppStore((s) => s.currentRepo);
+
+    const repoFullName = currentRepo ? `${currentRepo.owner}/${currentRepo.repo}` : null;
+    const stack = useMemo(
+        () => (repoFullName ? findStack(prs, pr.number, repoFullName) : []),
+        [prs, pr.number, repoFullName],
+    );
+
+    const handleSelect = useCallback(
+        (prNumber: number) => {
+            selectPR(prNumber);
+            postMessage('prs.getComments', { prNumber });
+        },
+        [selectPR],
+    );
+
+    // A fork's branch can't be stacked on or pushed to
+    if (!repoFullName || pr.headRepo?.toLowerCase() !== repoFullName.toLowerCase()) {
+        return null;
+    }
+
+    return (
+        <div className="mt-2">
+            <div className="flex items-center gap-1 flex-wrap text-[10px]">
+                <span className="text-fg/40 flex items-center gap-1">
+                    <Layers size={10} />
+                    Stack:
+                </span>
+                {stack.length > 0 ? (
+                    <>
+                        <span className="text-fg/40">{stack[0].baseBranch}</span>
+                        {stack.map((p) => (
+                            <React.Fragment key={p.number}>
+                                <span className="text-fg/20">←</span>
+                                {p.number === pr.number ? (
+                                    <span className="font-medium" title={p.branch}>#{p.number}</span>
+                                ) : (
+                                    <Button
+                                        variant="link"
+                                        size="sm"
+                                        className="h-auto p-0 text-[10px]"
+                                        onClick={() => handleSelect(p.number)}
+                                        title={`${p.title} (${p.branch})`}
+                                    >
+                                        #{p.number}
+                                    </Button>
+                                )}
+                            </React.Fragment>
+                        ))}
+                    </>
+                ) : (
+                    <span className="text-fg/20">None</span>
+                )}
+                <div className="flex-1" />
+                {stack.length > 0 && (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-auto px-1.5 py-0.5 text-[10px] gap-1"
+                        onClick={() => postMessage('prs.restack', { prNumber: pr.number })}
+                        disabled={isRestacking}
+                        title="Rebase each branch of the stack on its parent and force-push it"
+                    >
+                        {isRestacking ? <Loader2 size={10} className="animate-spin" /> : <RefreshCw size={10} />}
+                        Restack
+                    </Button>
+                )}
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-auto px-1.5 py-0.5 text-[10px] gap-1"
+                    onClick={() => setShowCreatePR(true, pr.branch)}
+                    title={`Create a pull request based on ${pr.branch}`}
+                >
+                    <GitPullRequestCreate size={10} />
+                    New stacked PR
+                </Button>
+            </div>
+            {stackError && <p className="text-[10px] text-red-400 mt-1">{stackError}</p>}
+        </div>
+    );
+};
+
 /** Comment filter bar */
 const CommentFilterBar: React.FC<{ totalComments: number; filteredCount: number }> = ({ totalComments, filteredCount }) => {
     const groupByUser = usePRStore((s) => s.commentGroupByUser);
@@ -891,6 +991,37 @@ export const PRDetail: React.FC<PRDetailProps> = ({ onClose }) => {
         setFilesFetched(false);
     }, [selectedPRNumber]);
 
+    // Restore the review draft of this PR, then keep it saved as it changes
+    const reviewDraftBody = usePRStore((s) => s.reviewDraftBody);
+    const reviewDraftSource = usePRStore((s) => s.reviewDraftSource);
+    const unsavedDraftRef = useRef<{ prNumber: number; body: string; comments: typeof pendingComments } | null>(null);
+
+    useEffect(() => {
+        if (selectedPRNumber !== null) {
+            postMessage('prs.getReviewDraft', { prNumber: selectedPRNumber });
+        }
+    }, [selectedPRNumber]);
+
+    useEffect(() => {
+        if (selectedPRNumber === null || reviewDraftSource === null) {return;}
+        unsavedDraftRef.current = { prNumber: selectedPRNumber, body: reviewDraftBody, comments: pendingComments };
+        const timer = setTimeout(() => {
+            postMessage('prs.saveReviewDraft', { ...unsavedDraftRef.current });
+            unsavedDraftRef.current = null;
+        }, DRAFT_SAVE_MS);
+        return () => clearTimeout(timer);
+    }, [selectedPRNumber, reviewDraftSource, reviewDraftBody, pendingComments]);
+
+    // Don't drop the last keystrokes when switching PRs
+    useEffect(() => {
+        return () => {
+            if (unsavedDraftRef.current) {
+                postMessage('prs.saveReviewDraft', { ...unsavedDraftRef.current });
+                unsavedDraftRef.current = null;
+            }
+        };
+    }, [selectedPRNumber]);
+
     const selectedPR = useMemo(() => {
         if (selectedPRNumber === null) {return undefined;}
         return prs.find((pr) => pr.number === selectedPRNumber);
@@ -980,6 +1111,15 @@ export const PRDetail: React.FC<PRDetailProps> = ({ onClose }) => {
         }
     }, [pr]);
 
+    const checkout = usePRStore((s) => s.checkout);
+    const isCheckedOut = !!pr && checkout?.prNumber === pr.number;
+
+    const handleCheckout = useCallback(() => {
+        if (pr) {
+            postMessage('prs.checkout', { prNumber: pr.number });
+        }
+    }, [pr]);
+
     const handleCopyAll = useCallback(() => {
         if (filteredComments.length === 0) {return;}
 
@@ -1066,6 +1206,12 @@ export const PRDetail: React.FC<PRDetailProps> = ({ onClose }) => {
                                 <Clock size={10} />
                                 {formatRelative(pr.updatedAt)}
                             </span>
+                            {isCheckedOut && (
+                                <span className="flex items-center gap-1 text-accent">
+                                    <Download size={10} />
+                                    Checked out as {checkout.branch}
+                                </span>
+                            )}
                             {selectedPRDetail && (
                                 <span className="flex items-center gap-1">
                                     <FileDiff size={10} />
@@ -1077,6 +1223,29 @@ export const PRDetail: React.FC<PRDetailProps> = ({ onClose }) => {
                         </div>
                     </div>
                     <div className="flex items-center gap-1 shrink-0">
+                        {isCheckedOut ? (
+                            <Button
+                                variant="ghost"
+                                size="icon-xs"
+                                className="text-fg/40 hover:text-fg"
+                                onClick={() => postMessage('prs.returnFromCheckout')}
+                                title={`Return to ${checkout.previousBranch}`}
+                            >
+                                <Undo2 size={13} />
+                            </Button>
+                        ) : (
+                            pr.state === 'open' && (
+                                <Button
+                                    variant="ghost"
+                                    size="icon-xs"
+                                    className="text-fg/40 hover:text-fg"
+                                    onClick={handleCheckout}
+                                    title="Check out locally"
+                                >
+                                    <Download size={13} />
+                                </Button>
+                            )
+                        )}
                         <Button
                             variant="ghost"
                             size="icon-xs"
@@ -1123,12 +1292,24 @@ export const PRDetail: React.FC<PRDetailProps> = ({ onClose }) => {
                     <ReviewerSection prNumber={pr.number} prAuthor={pr.author} />
                 )}
 
+                {/* Stacked PRs (open PRs only) */}
+                {pr.state === 'open' && <StackSection pr={pr} />}
+
                 {/* Review status bar */}
                 {reviews.length > 0 && (
                     <div className="mt-2">
                         <PRReviewStatus />
                     </div>
                 )}
+
+                {/* CI checks of the head commit */}
+                {selectedPRDetail && (
+                    <PRChecksSection
+                        prNumber={selectedPRDetail.number}
+                        headSha={selectedPRDetail.headSha}
+                        baseBranch={selectedPRDetail.baseBranch}
+                    />
+                )}
             </div>
 
             {/* Tabbed content: Conversation / Files Changed */}
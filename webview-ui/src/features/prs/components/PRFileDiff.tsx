@@ -4,6 +4,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { cn } from '@/lib/utils';
+import { suggestionFence } from '@/lib/suggestions';
 import {
     File,
     Plus,
@@ -11,6 +12,7 @@ import {
     Send,
     MessageSquare,
     ArrowRight,
+    FilePen,
 } from 'lucide-react';
 
 /** Status badge config */
@@ -79,15 +81,25 @@ function parseDiff(raw: string): DiffLine[] {
     return result;
 }
 
-/** Inline comment form that appears below a diff line */
+/** Lines selected for a comment: one side of the diff, `start` to `end` */
+interface LineSelection {
+    side: 'LEFT' | 'RIGHT';
+    start: number;
+    end: number;
+}
+
+/** Inline comment form that appears below the selected diff lines */
 const InlineCommentForm: React.FC<{
     filePath: string;
-    line: number;
+    selection: LineSelection;
+    /** Content of the selected lines, when a change can be suggested for them */
+    suggestionLines?: string[];
     onSubmit: (comment: PendingInlineComment) => void;
     onCancel: () => void;
-}> = ({ filePath, line, onSubmit, onCancel }) => {
+}> = ({ filePath, selection, suggestionLines, onSubmit, onCancel }) => {
     const [body, setBody] = useState('');
     const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const { side, start, end } = selection;
 
     React.useEffect(() => {
         textareaRef.current?.focus();
@@ -95,9 +107,22 @@ const InlineCommentForm: React.FC<{
 
     const handleSubmit = useCallback(() => {
         if (!body.trim()) { return; }
-        onSubmit({ path: filePath, line, body: body.trim() });
+        onSubmit({
+            path: filePath,
+            line: end,
+            ...(start < end ? { startLine: start } : {}),
+            side,
+            body: body.trim(),
+        });
         setBody('');
-    }, [body, filePath, line, onSubmit]);
+    }, [body, filePath, start, end, side, onSubmit]);
+
+    const handleSuggest = useCallback(() => {
+        if (!suggestionLines) { return; }
+        const fence = suggestionFence(suggestionLines);
+        setBody((prev) => (prev.trim() ? `${prev.trimEnd()}\n${fence}` : fence));
+        textareaRef.current?.focus();
+    }, [suggestionLines]);
 
     const handleKeyDown = useCallback(
         (e: React.KeyboardEvent) => {
@@ -116,7 +141,10 @@ const InlineCommentForm: React.FC<{
         <div className="border border-accent/30 rounded mx-2 my-1 bg-card">
             <div className="flex items-center gap-1.5 px-2 py-1 border-b border-border text-[10px] text-fg/40">
                 <MessageSquare size={10} />
-                <span>Comment on line {line}</span>
+                <span>
+                    {start < end ? `Comment on lines ${start}–${end}` : `Comment on line ${end}`}
+                    {side === 'LEFT' && ' (deleted)'}
+                </span>
                 <span className="font-mono truncate">{filePath}</span>
             </div>
             <div className="p-2">
@@ -139,6 +167,18 @@ const InlineCommentForm: React.FC<{
                         <Send size={10} />
                         Add comment
                     </Button>
+                    {suggestionLines && (
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-6 text-[10px] gap-1"
+                            onClick={handleSuggest}
+                            title="Insert a suggestion block with the selected lines to edit"
+                        >
+                            <FilePen size={10} />
+                            Suggest change
+                        </Button>
+                    )}
                     <Button
                         variant="ghost"
                         size="sm"
@@ -187,8 +227,8 @@ export const PRFileDiff: React.FC = () => {
     const addPendingComment = usePRStore((s) => s.addPendingComment);
     const removePendingComment = usePRStore((s) => s.removePendingComment);
 
-    // Track which line has the inline comment form open
-    const [commentLine, setCommentLine] = useState<number | null>(null);
+    // Lines the inline comment form is open for; shift-click extends the range
+    const [selection, setSelection] = useState<LineSelection | null>(null);
 
     const file = useMemo(
         () => prFiles.find((f) => f.filename === selectedFilePath),
@@ -222,11 +262,43 @@ export const PRFileDiff: React.FC = () => {
     const handleAddComment = useCallback(
         (comment: PendingInlineComment) => {
             addPendingComment(comment);
-            setCommentLine(null);
+            setSelection(null);
         },
         [addPendingComment],
     );
 
+    const handleGutterClick = useCallback(
+        (side: 'LEFT' | 'RIGHT', lineNo: number, extend: boolean) => {
+            setSelection((prev) => {
+                if (extend && prev && prev.side === side) {
+                    return {
+                        side,
+                        start: Math.min(prev.start, lineNo),
+                        end: Math.max(prev.end, lineNo),
+                    };
+                }
+                const isSame = prev?.side === side && prev.start === lineNo && prev.end === lineNo;
+                return isSame ? null : { side, start: lineNo, end: lineNo };
+            });
+        },
+        [],
+    );
+
+    // A suggestion replaces new-side lines, so it needs all of them in the diff
+    const suggestionLines = useMemo(() => {
+        if (!selection || selection.side !== 'RIGHT') { return undefined; }
+        const lines = diffLines.filter(
+            (l) =>
+                l.type !== 'del' &&
+                l.newLineNo !== undefined &&
+                l.newLineNo >= selection.start &&
+                l.newLineNo <= selection.end,
+        );
+        return lines.length === selection.end - selection.start + 1
+            ? lines.map((l) => l.content)
+            : undefined;
+    }, [selection, diffLines]);
+
     if (!file) {
         return (
             <div className="h-full flex items-center justify-center text-fg/30 text-[11px]">
@@ -295,6 +367,14 @@ export const PRFileDiff: React.FC = () => {
                             // The effective line number for inline comments
                             const lineNo = line.newLineNo ?? line.oldLineNo;
                             const hasComments = lineNo !== undefined && commentLineMap.has(lineNo);
+                            // Deleted lines are commented on the old (LEFT) side
+                            const side = line.type === 'del' ? 'LEFT' : 'RIGHT';
+                            const isSelected =
+                                selection !== null &&
+                                lineNo !== undefined &&
+                                selection.side === side &&
+                                lineNo >= selection.start &&
+                                lineNo <= selection.end;
 
                             if (line.type === 'hunk') {
                                 return (
@@ -340,15 +420,19 @@ export const PRFileDiff: React.FC = () => {
 
                             return (
                                 <React.Fragment key={i}>
-                                    <div className={`group/line flex ${bgClass}`}>
-                                        {/* Comment gutter button */}
+                                    <div
+                                        className={cn(
+                                            'group/line flex',
+                                            isSelected ? 'bg-accent/15' : bgClass,
+                                        )}
+                                    >
+                                        {/* Comment gutter button — shift-click selects a range */}
                                         <span
                                             className="w-4 shrink-0 flex items-center justify-center cursor-pointer"
-                                            onClick={() => {
+                                            title="Comment on this line (shift-click to select a range)"
+                                            onClick={(e) => {
                                                 if (lineNo !== undefined) {
-                                                    setCommentLine(
-                                                        commentLine === lineNo ? null : lineNo,
-                                                    );
+                                                    handleGutterClick(side, lineNo, e.shiftKey);
                                                 }
                                             }}
                                         >
@@ -389,14 +473,17 @@ export const PRFileDiff: React.FC = () => {
                                     </div>
 
                                     {/* Inline comment form */}
-                                    {commentLine === lineNo && lineNo !== undefined && (
-                                        <InlineCommentForm
-                                            filePath={file.filename}
-                                            line={lineNo}
-                                            onSubmit={handleAddComment}
-                                            onCancel={() => setCommentLine(null)}
-                                        />
-                                    )}
+                                    {selection !== null &&
+                                        selection.side === side &&
+                                        selection.end === lineNo && (
+                                            <InlineCommentForm
+                                                filePath={file.filename}
+                                                selection={selection}
+                                                suggestionLines={suggestionLines}
+                                                onSubmit={handleAddComment}
+                                                onCancel={() => setSelection(null)}
+                                            />
+                                        )}
 
                                     {/* Pending comments on this line */}
                                     {lineNo !== undefined &&
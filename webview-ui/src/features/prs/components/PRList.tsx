@@ -1,12 +1,15 @@
 import React, { useCallback, useMemo, useRef } from 'react';
 import { usePRStore, type PRStateFilter, type PRAuthorFilter } from '../store';
 import { useNotesStore } from '@notes/store';
+import { useAppStore } from '@/appStore';
 import { postMessage } from '@/vscode';
+import { orderByStack, stackParents } from '@/lib/prStacks';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { ErrorState } from '@/components/shared/ErrorState';
 import { useRovingTabIndex } from '@/hooks/useRovingTabIndex';
+import { CheckStateIcon, checkStateConfig } from './PRChecksSection';
 import {
     GitPullRequest,
     GitMerge,
@@ -14,6 +17,7 @@ import {
     Search,
     RefreshCw,
     Plus,
+    CornerDownRight,
 } from 'lucide-react';
 
 const stateFilters: { key: PRStateFilter; label: string }[] = [
@@ -83,6 +87,7 @@ export const PRList: React.FC = () => {
     const setSearchQuery = usePRStore((s) => s.setSearchQuery);
     const setShowCreatePR = usePRStore((s) => s.setShowCreatePR);
     const isAuthenticated = useNotesStore((s) => s.isAuthenticated);
+    const currentRepo = useAppStore((s) => s.currentRepo);
 
     const prs = useMemo(() => {
         const q = searchQuery.trim().toLowerCase();
@@ -95,6 +100,16 @@ export const PRList: React.FC = () => {
         );
     }, [allPRs, searchQuery]);
 
+    // Stacked PRs follow their parent, indented by their depth in the stack
+    const parents = useMemo(
+        () =>
+            currentRepo
+                ? stackParents(allPRs, `${currentRepo.owner}/${currentRepo.repo}`)
+                : new Map<number, (typeof allPRs)[number]>(),
+        [allPRs, currentRepo],
+    );
+    const rows = useMemo(() => orderByStack(prs, allPRs, parents), [prs, allPRs, parents]);
+
     const handleFilterChange = useCallback(
         (filter: PRStateFilter) => {
             setStateFilter(filter);
@@ -127,13 +142,13 @@ export const PRList: React.FC = () => {
     const searchRef = useRef<HTMLInputElement>(null);
     const onPRSelect = useCallback(
         (index: number) => {
-            const pr = prs[index];
-            if (pr) {handleSelectPR(pr.number);}
+            const row = rows[index];
+            if (row) {handleSelectPR(row.pr.number);}
         },
-        [prs, handleSelectPR],
+        [rows, handleSelectPR],
     );
     const { listRef, containerProps, getItemProps, handleSearchKeyDown: rovingSearchKeyDown } =
-        useRovingTabIndex({ itemCount: prs.length, onSelect: onPRSelect, searchRef });
+        useRovingTabIndex({ itemCount: rows.length, onSelect: onPRSelect, searchRef });
 
     // Not authenticated
     if (!isAuthenticated) {
@@ -255,8 +270,9 @@ export const PRList: React.FC = () => {
                         </p>
                     </div>
                 ) : (
-                    prs.map((pr, i) => {
+                    rows.map(({ pr, depth }, i) => {
                         const isSelected = selectedPRNumber === pr.number;
+                        const parent = parents.get(pr.number);
                         return (
                             <Button
                                 key={pr.number}
@@ -266,10 +282,14 @@ export const PRList: React.FC = () => {
                                         ? 'bg-accent/10 border-l-2 border-l-accent'
                                         : 'border-l-2 border-l-transparent'
                                 }`}
+                                style={depth > 0 ? { paddingLeft: 12 + depth * 14 } : undefined}
                                 onClick={() => handleSelectPR(pr.number)}
                                 {...getItemProps(i)}
                             >
                                 <div className="flex items-start gap-2">
+                                    {depth > 0 && (
+                                        <CornerDownRight size={12} className="mt-0.5 shrink-0 text-fg/30" />
+                                    )}
                                     <div className="mt-0.5 shrink-0">
                                         <StateIcon state={pr.state} isDraft={pr.isDraft} />
                                     </div>
@@ -288,8 +308,11 @@ export const PRList: React.FC = () => {
                                             )}
                                         </div>
                                         <div className="flex items-center gap-2 mt-0.5 text-[10px] text-fg/40">
-                                            <span className="truncate">
-                                                {pr.branch} → {pr.baseBranch}
+                                            <span
+                                                className="truncate"
+                                                title={parent ? `Stacked on #${parent.number}` : undefined}
+                                            >
+                                                {pr.branch} → {parent ? `#${parent.number}` : pr.baseBranch}
                                             </span>
                                             <span>·</span>
                                             <span className="shrink-0">
@@ -316,6 +339,11 @@ export const PRList: React.FC = () => {
                                         )}
                                     </div>
                                     <div className="shrink-0 flex items-center gap-1 text-[10px] text-fg/30">
+                                        {pr.checkState && (
+                                            <span title={`Checks: ${checkStateConfig[pr.checkState].label.toLowerCase()}`}>
+                                                <CheckStateIcon state={pr.checkState} size={11} />
+                                            </span>
+                                        )}
                                         {pr.commentsCount > 0 && (
                                             <span title={`${pr.commentsCount} comments`}>
                                                 💬 {pr.commentsCount}
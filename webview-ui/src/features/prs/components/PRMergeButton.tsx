@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { usePRStore, type PRMergeMethod } from '../store';
 import { postMessage } from '@/vscode';
 import { Button } from '@/components/ui/button';
@@ -62,6 +62,33 @@ export const PRMergeButton: React.FC<PRMergeButtonProps> = ({
 }) => {
     const isMerging = usePRStore((s) => s.isMerging);
     const mergeError = usePRStore((s) => s.mergeError);
+    const checks = usePRStore((s) => s.checks);
+    const missingRequired = usePRStore((s) => s.missingRequiredChecks);
+    // Until the head commit's checks are in, the gate can't be judged
+    const isChecksLoading = usePRStore(
+        (s) => s.isChecksLoading || (!s.checksRollup && !s.checksError),
+    );
+
+    // Required checks gate the merge — those not reported yet count as running;
+    // other failing checks only warn
+    const { blockedReason, failingOptional } = useMemo(() => {
+        const required = checks.filter((c) => c.isRequired);
+        const failing = required.filter((c) => c.state === 'failure').map((c) => c.name);
+        const running = [
+            ...required.filter((c) => c.state === 'pending').map((c) => c.name),
+            ...missingRequired,
+        ];
+        return {
+            blockedReason: isChecksLoading
+                ? 'Loading checks…'
+                : failing.length > 0
+                  ? `Required check${failing.length !== 1 ? 's' : ''} failing: ${failing.join(', ')}`
+                  : running.length > 0
+                    ? `Waiting for required check${running.length !== 1 ? 's' : ''}: ${running.join(', ')}`
+                    : null,
+            failingOptional: checks.filter((c) => !c.isRequired && c.state === 'failure'),
+        };
+    }, [checks, missingRequired, isChecksLoading]);
 
     const [method, setMethod] = useState<PRMergeMethod>('merge');
     const [showConfirm, setShowConfirm] = useState(false);
@@ -87,7 +114,8 @@ export const PRMergeButton: React.FC<PRMergeButtonProps> = ({
                     size="sm"
                     className="h-7 gap-1 text-[11px] rounded-r-none bg-green-600 hover:bg-green-700 text-white"
                     onClick={() => setShowConfirm(true)}
-                    disabled={isMerging}
+                    disabled={isMerging || !!blockedReason}
+                    title={blockedReason ?? undefined}
                 >
                     {isMerging ? (
                         <Loader2 size={12} className="animate-spin" />
@@ -138,6 +166,13 @@ export const PRMergeButton: React.FC<PRMergeButtonProps> = ({
                 </DropdownMenu>
             </div>
 
+            {/* Required checks not passed yet */}
+            {blockedReason && (
+                <div className="text-[10px] text-yellow-400 mt-1">
+                    {blockedReason}
+                </div>
+            )}
+
             {/* Merge error */}
             {mergeError && (
                 <div className="text-[10px] text-red-400 mt-1">
@@ -154,6 +189,12 @@ export const PRMergeButton: React.FC<PRMergeButtonProps> = ({
                             This will {method === 'squash' ? 'squash and merge' : method === 'rebase' ? 'rebase and merge' : 'merge'}{' '}
                             <span className="font-mono font-medium">{headBranch}</span> into{' '}
                             <span className="font-mono font-medium">{baseBranch}</span>.
+                            {failingOptional.length > 0 && (
+                                <span className="block mt-2 text-yellow-400">
+                                    {failingOptional.length} check{failingOptional.length !== 1 ? 's' : ''} failed:{' '}
+                                    {failingOptional.map((c) => c.name).join(', ')}.
+                                </span>
+                            )}
                         </AlertDialogDescription>
                     </AlertDialogHeader>
                     <AlertDialogFooter>
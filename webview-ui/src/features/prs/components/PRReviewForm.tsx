@@ -53,12 +53,13 @@ interface PRReviewFormProps {
 
 export const PRReviewForm: React.FC<PRReviewFormProps> = ({ open, onOpenChange, prNumber }) => {
     const pendingComments = usePRStore((s) => s.pendingReviewComments);
-    const clearPendingComments = usePRStore((s) => s.clearPendingComments);
+    const body = usePRStore((s) => s.reviewDraftBody);
+    const setBody = usePRStore((s) => s.setReviewDraftBody);
+    const draftSource = usePRStore((s) => s.reviewDraftSource);
     const isSubmitting = usePRStore((s) => s.isSubmittingReview);
     const reviewError = usePRStore((s) => s.reviewError);
 
     const [event, setEvent] = useState<PRReviewEvent>('COMMENT');
-    const [body, setBody] = useState('');
 
     const handleSubmit = useCallback(() => {
         postMessage('prs.submitReview', {
@@ -67,12 +68,17 @@ export const PRReviewForm: React.FC<PRReviewFormProps> = ({ open, onOpenChange,
             body: body.trim() || undefined,
             comments: pendingComments.length > 0 ? pendingComments : undefined,
         });
-        // Clear pending after submission attempt
-        clearPendingComments();
-        setBody('');
+        // The draft is cleared once GitHub accepts the review, so a failure keeps it
         setEvent('COMMENT');
         onOpenChange(false);
-    }, [prNumber, event, body, pendingComments, clearPendingComments, onOpenChange]);
+    }, [prNumber, event, body, pendingComments, onOpenChange]);
+
+    const handleDiscard = useCallback(() => {
+        postMessage('prs.discardReviewDraft', { prNumber });
+        onOpenChange(false);
+    }, [prNumber, onOpenChange]);
+
+    const hasDraft = !!body.trim() || pendingComments.length > 0 || draftSource === 'github';
 
     return (
         <Dialog open={open} onOpenChange={onOpenChange}>
@@ -145,8 +151,13 @@ export const PRReviewForm: React.FC<PRReviewFormProps> = ({ open, onOpenChange,
                         <Badge
                             variant="outline"
                             className="ml-auto text-[9px] px-1.5 py-0 border-yellow-400/30 text-yellow-400 bg-yellow-400/10"
+                            title={
+                                draftSource === 'github'
+                                    ? 'Part of your pending review on GitHub'
+                                    : 'Saved as a draft in this workspace'
+                            }
                         >
-                            Pending
+                            {draftSource === 'github' ? 'Pending on GitHub' : 'Pending'}
                         </Badge>
                     </div>
                 )}
@@ -159,6 +170,22 @@ export const PRReviewForm: React.FC<PRReviewFormProps> = ({ open, onOpenChange,
                 )}
 
                 <DialogFooter>
+                    {hasDraft && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="mr-auto text-fg/50 hover:text-red-400"
+                            onClick={handleDiscard}
+                            disabled={isSubmitting}
+                            title={
+                                draftSource === 'github'
+                                    ? 'Delete the pending review and its comments on GitHub'
+                                    : 'Delete the draft body and inline comments'
+                            }
+                        >
+                            Discard draft
+                        </Button>
+                    )}
                     <Button
                         variant="outline"
                         size="sm"
@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useRef, useMemo } from 'react';
-import { usePRStore, type PRCommentData } from '../store';
+import { usePRStore, type BatchedSuggestion, type PRCommentData } from '../store';
 import { postMessage } from '@/vscode';
+import { parseSuggestions, suggestionOriginalLines, type SuggestionEnv } from '@/lib/suggestions';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
@@ -12,6 +13,8 @@ import {
     CheckCircle2,
     Circle,
     MessageSquare,
+    GitCommitHorizontal,
+    Loader2,
 } from 'lucide-react';
 
 function formatDate(iso: string): string {
@@ -56,30 +59,67 @@ const DiffHunk: React.FC<{ hunk: string }> = ({ hunk }) => {
     );
 };
 
+interface ThreadMessageProps {
+    comment: PRCommentData;
+    /** Lines the thread's suggestions replace */
+    suggestionOriginal?: string[];
+    /** Whether suggestions in this comment can be applied */
+    canApplySuggestions: boolean;
+    /** Indices of this comment's suggestions in the batch */
+    batchedIndices: number[];
+    onSuggestionAction: (comment: PRCommentData, action: 'apply' | 'batch', index: number) => void;
+}
+
 /** A single message bubble within the thread panel */
-const ThreadMessage: React.FC<{ comment: PRCommentData }> = ({ comment }) => (
-    <div className="px-3 py-2 hover:bg-fg/[0.02]">
-        <div className="flex items-center gap-2 mb-1">
-            {comment.authorAvatarUrl && (
-                <img
-                    src={comment.authorAvatarUrl}
-                    alt={comment.author}
-                    className="w-5 h-5 rounded-full shrink-0"
+const ThreadMessage: React.FC<ThreadMessageProps> = ({
+    comment,
+    suggestionOriginal,
+    canApplySuggestions,
+    batchedIndices,
+    onSuggestionAction,
+}) => {
+    const batchedKey = batchedIndices.join(',');
+    const suggestions = useMemo<SuggestionEnv>(
+        () => ({
+            suggestionOriginal,
+            suggestionActions: canApplySuggestions,
+            suggestionBatched: batchedKey ? batchedKey.split(',').map(Number) : [],
+        }),
+        [suggestionOriginal, canApplySuggestions, batchedKey],
+    );
+    const handleSuggestionAction = useCallback(
+        (action: 'apply' | 'batch', index: number) => onSuggestionAction(comment, action, index),
+        [comment, onSuggestionAction],
+    );
+
+    return (
+        <div className="px-3 py-2 hover:bg-fg/[0.02]">
+            <div className="flex items-center gap-2 mb-1">
+                {comment.authorAvatarUrl && (
+                    <img
+                        src={comment.authorAvatarUrl}
+                        alt={comment.author}
+                        className="w-5 h-5 rounded-full shrink-0"
+                    />
+                )}
+                <span className="text-[11px] font-medium">{comment.author}</span>
+                <span
+                    className="text-[10px] text-fg/30"
+                    title={formatDate(comment.createdAt)}
+                >
+                    {formatRelative(comment.createdAt)}
+                </span>
+            </div>
+            <div className="pl-7">
+                <MarkdownBody
+                    content={comment.body}
+                    suggestions={suggestions}
+                    onSuggestionAction={handleSuggestionAction}
                 />
-            )}
-            <span className="text-[11px] font-medium">{comment.author}</span>
-            <span
-                className="text-[10px] text-fg/30"
-                title={formatDate(comment.createdAt)}
-            >
-                {formatRelative(comment.createdAt)}
-            </span>
-        </div>
-        <div className="pl-7">
-            <MarkdownBody content={comment.body} />
+            </div>
         </div>
-    </div>
-);
+    );
+};
 
 export const PRThreadPanel: React.FC = () => {
     const activeThreadFn = usePRStore((s) => s.activeThread);
@@ -90,6 +130,14 @@ export const PRThreadPanel: React.FC = () => {
     const closeThread = usePRStore((s) => s.closeThread);
     const selectedPRNumber = usePRStore((s) => s.selectedPRNumber);
     const isCommentSaving = usePRStore((s) => s.isCommentSaving);
+    const prState = usePRStore(
+        (s) => (s.selectedPRDetail ?? s.prs.find((pr) => pr.number === s.selectedPRNumber))?.state,
+    );
+    const suggestionBatch = usePRStore((s) => s.suggestionBatch);
+    const isApplyingSuggestions = usePRStore((s) => s.isApplyingSuggestions);
+    const suggestionError = usePRStore((s) => s.suggestionError);
+    const toggleBatchedSuggestion = usePRStore((s) => s.toggleBatchedSuggestion);
+    const clearSuggestionBatch = usePRStore((s) => s.clearSuggestionBatch);
 
     const [replyText, setReplyText] = useState('');
     const replyRef = useRef<HTMLTextAreaElement>(null);
@@ -126,7 +174,54 @@ export const PRThreadPanel: React.FC = () => {
         }
     }, [activeThread]);
 
-    if (!activeThread) {
+    // Suggestions, in the root comment or a reply, replace the lines the thread is on
+    const rootComment = activeThread?.rootComment;
+    const suggestionOriginal = useMemo(
+        () =>
+            rootComment?.diffHunk && rootComment.line != null
+                ? suggestionOriginalLines(rootComment.diffHunk, rootComment.startLine, rootComment.line)
+                : undefined,
+        [rootComment],
+    );
+    const canApplySuggestions =
+        prState === 'open' && !isApplyingSuggestions && !!rootComment?.path && rootComment.line != null;
+
+    const applySuggestions = useCallback(
+        (suggestions: BatchedSuggestion[]) => {
+            if (selectedPRNumber === null || suggestions.length === 0) {return;}
+            postMessage('prs.applySuggestions', {
+                prNumber: selectedPRNumber,
+                suggestions: suggestions.map(({ index: _index, ...edit }) => edit),
+            });
+        },
+        [selectedPRNumber],
+    );
+
+    const handleSuggestionAction = useCallback(
+        (comment: PRCommentData, action: 'apply' | 'batch', index: number) => {
+            if (!activeThread || !rootComment?.path || rootComment.line == null) {return;}
+            const replacement = parseSuggestions(comment.body)[index];
+            if (replacement === undefined) {return;}
+            const suggestion: BatchedSuggestion = {
+                path: rootComment.path,
+                startLine: rootComment.startLine ?? rootComment.line,
+                line: rootComment.line,
+                replacement,
+                original: suggestionOriginal,
+                commentId: comment.id,
+                threadId: activeThread.threadId,
+                index,
+            };
+            if (action === 'apply') {
+                applySuggestions([suggestion]);
+            } else {
+                toggleBatchedSuggestion(suggestion);
+            }
+        },
+        [activeThread, rootComment, suggestionOriginal, applySuggestions, toggleBatchedSuggestion],
+    );
+
+    if (!activeThread || !rootComment) {
         return (
             <div className="h-full flex items-center justify-center text-fg/30 text-[11px]">
                 <MessageSquare size={20} className="mr-2" />
@@ -135,7 +230,14 @@ export const PRThreadPanel: React.FC = () => {
         );
     }
 
-    const { rootComment, replies, isResolved, resolvedBy, path, line } = activeThread;
+    const { replies, isResolved, resolvedBy, path, line } = activeThread;
+    const messageProps = (comment: PRCommentData) => ({
+        comment,
+        suggestionOriginal,
+        canApplySuggestions,
+        batchedIndices: suggestionBatch.filter((s) => s.commentId === comment.id).map((s) => s.index),
+        onSuggestionAction: handleSuggestionAction,
+    });
     const replyCount = replies.length;
 
     return (
@@ -203,7 +305,7 @@ export const PRThreadPanel: React.FC = () => {
             {/* Messages */}
             <div className="flex-1 overflow-y-auto">
                 {/* Root comment */}
-                <ThreadMessage comment={rootComment} />
+                <ThreadMessage {...messageProps(rootComment)} />
 
                 {/* Separator */}
                 {replyCount > 0 && (
@@ -218,10 +320,53 @@ export const PRThreadPanel: React.FC = () => {
 
                 {/* Replies */}
                 {replies.map((reply) => (
-                    <ThreadMessage key={reply.id} comment={reply} />
+                    <ThreadMessage key={reply.id} {...messageProps(reply)} />
                 ))}
             </div>
 
+            {/* Suggestion batch — may span several threads */}
+            {(suggestionBatch.length > 0 || suggestionError) && (
+                <div className="shrink-0 border-t border-border px-3 py-2 flex items-center gap-2 text-[11px]">
+                    {suggestionBatch.length > 0 && (
+                        <>
+                            <span className="text-fg/60">
+                                {suggestionBatch.length}{' '}
+                                {suggestionBatch.length === 1 ? 'suggestion' : 'suggestions'} in batch
+                            </span>
+                            <div className="flex-1" />
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 text-[11px]"
+                                onClick={clearSuggestionBatch}
+                                disabled={isApplyingSuggestions}
+                            >
+                                Clear
+                            </Button>
+                            <Button
+                                size="sm"
+                                className="h-6 text-[11px] gap-1"
+                                onClick={() => applySuggestions(suggestionBatch)}
+                                disabled={isApplyingSuggestions || prState !== 'open'}
+                                title="Commit every suggestion in the batch at once"
+                            >
+                                {isApplyingSuggestions ? (
+                                    <Loader2 size={11} className="animate-spin" />
+                                ) : (
+                                    <GitCommitHorizontal size={11} />
+                                )}
+                                Commit batch
+                            </Button>
+                        </>
+                    )}
+                    {suggestionError && (
+                        <span className="text-red-400 truncate" title={suggestionError}>
+                            {suggestionError}
+                        </span>
+                    )}
+                </div>
+            )}
+
             {/* Reply composer */}
             <div className="shrink-0 border-t border-border p-3">
                 <div className="flex gap-2">
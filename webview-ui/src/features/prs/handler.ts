@@ -1,7 +1,7 @@
 /**
  * usePRMessages — dispatches extension→webview PR messages to the store.
  */
-import { usePRStore, type PullRequestData, type PRCommentData, type PRFileData, type PRReviewData } from './store';
+import { usePRStore, type PullRequestData, type PRCommentData, type PRFileData, type PRReviewData, type PRCheckData, type PRCheckRollup, type PRCheckoutState, type PendingInlineComment, type PRReviewDraftSource } from './store';
 import { useAppStore } from '@/appStore';
 import { postMessage } from '@/vscode';
 
@@ -158,10 +158,75 @@ export function handlePRMessage(msg: Msg): boolean {
         case 'prReviewSubmitted':
             s.addReview(msg.review as PRReviewData);
             return true;
+        case 'prReviewDraft':
+            if (msg.prNumber === s.selectedPRNumber) {
+                s.setReviewDraft(
+                    msg.body as string,
+                    msg.comments as PendingInlineComment[],
+                    msg.source as PRReviewDraftSource,
+                );
+            }
+            return true;
         case 'prReviewError':
             s.setReviewError(msg.message as string);
             return true;
 
+        // ─── CI checks ───
+        case 'prChecksLoading':
+            s.setChecksLoading(true);
+            return true;
+        case 'prChecks':
+            // Ignore answers for a PR or head commit no longer shown
+            if (
+                msg.prNumber === s.selectedPRNumber &&
+                (!s.selectedPRDetail || msg.ref === s.selectedPRDetail.headSha)
+            ) {
+                s.setChecks(
+                    msg.prNumber as number,
+                    msg.checks as PRCheckData[],
+                    msg.rollup as PRCheckRollup,
+                    (msg.missingRequired as string[] | undefined) ?? [],
+                );
+            }
+            return true;
+        case 'prChecksError':
+            s.setChecksError(msg.message as string);
+            return true;
+        case 'prCheckLog':
+            s.setCheckLog(msg.checkId as number, {
+                isLoading: false,
+                excerpt: msg.excerpt as string | undefined,
+                error: msg.error as string | undefined,
+            });
+            return true;
+
+        // ─── Local checkout ───
+        case 'prCheckoutState':
+            s.setCheckout(msg.checkout as PRCheckoutState | null);
+            return true;
+
+        // ─── Suggested changes ───
+        case 'prSuggestionsApplying':
+            s.setApplyingSuggestions(true);
+            return true;
+        case 'prSuggestionsApplied':
+            s.setSuggestionsApplied(msg.commentIds as number[]);
+            return true;
+        case 'prSuggestionsError':
+            s.setSuggestionError(msg.message as string);
+            return true;
+
+        // ─── Stacked PRs ───
+        case 'prStackRestacking':
+            s.setRestacking(true);
+            return true;
+        case 'prStackRestacked':
+            s.setRestacking(false);
+            return true;
+        case 'prStackError':
+            s.setStackError(msg.message as string);
+            return true;
+
         // ─── PR merge ───
         case 'prMerging':
             s.setMerging(true);
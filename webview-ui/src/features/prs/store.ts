@@ -11,6 +11,9 @@ export interface PullRequestData {
     authorAvatarUrl: string;
     branch: string;
     baseBranch: string;
+    headSha: string;
+    /** `owner/name` of the repository the head branch lives in; null if it was deleted */
+    headRepo: string | null;
     createdAt: string;
     updatedAt: string;
     mergedAt: string | null;
@@ -23,6 +26,8 @@ export interface PullRequestData {
     isDraft: boolean;
     requestedReviewers: { login: string; avatarUrl: string }[];
     assignees: { login: string; avatarUrl: string }[];
+    /** Overall CI state of the head commit (open PRs with checks only) */
+    checkState?: PRCheckState;
 }
 
 export interface PRCommentData {
@@ -37,6 +42,8 @@ export interface PRCommentData {
     isReviewComment: boolean;
     path?: string;
     line?: number | null;
+    /** First line of a multi-line comment */
+    startLine?: number | null;
     diffHunk?: string;
     /** Threading: the review comment this is a reply to (review comments only) */
     inReplyToId?: number;
@@ -81,14 +88,87 @@ export type PRReviewEvent = 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT';
 /** Merge method options. */
 export type PRMergeMethod = 'merge' | 'squash' | 'rebase';
 
+/** State of one CI check, or of all checks of a commit. */
+export type PRCheckState = 'success' | 'failure' | 'pending' | 'neutral' | 'skipped';
+
+/** A check run or commit status on the head commit of a pull request. */
+export interface PRCheckData {
+    id: number;
+    kind: 'check-run' | 'status';
+    name: string;
+    /** The app or service that reported it, e.g. "GitHub Actions" */
+    app: string;
+    state: PRCheckState;
+    /** GitHub's own conclusion or status, e.g. "timed_out" */
+    conclusion: string;
+    description: string;
+    detailsUrl: string | null;
+    startedAt: string | null;
+    completedAt: string | null;
+    /** Whether branch protection requires this check */
+    isRequired: boolean;
+}
+
+/** Counts of checks by state and their overall state. */
+export interface PRCheckRollup {
+    state: PRCheckState;
+    total: number;
+    passed: number;
+    failed: number;
+    pending: number;
+    skipped: number;
+}
+
+/** The failure log excerpt of a check, once requested. */
+export interface PRCheckLog {
+    isLoading: boolean;
+    excerpt?: string;
+    error?: string;
+}
+
+/** The pull request checked out locally, if any. */
+export interface PRCheckoutState {
+    prNumber: number;
+    title: string;
+    /** Local branch holding the PR head */
+    branch: string;
+    /** Branch the user returns to */
+    previousBranch: string;
+}
+
 /** An inline comment to include when submitting a review. */
 export interface PendingInlineComment {
     path: string;
     line: number;
+    /** First line, for a comment spanning several lines */
+    startLine?: number;
     side?: 'LEFT' | 'RIGHT';
     body: string;
+    /** Review comment ID, once the comment is on GitHub's pending review */
+    id?: number;
+}
+
+/** A suggested change to apply, as the extension expects it. */
+export interface SuggestionEdit {
+    path: string;
+    startLine: number;
+    line: number;
+    replacement: string;
+    /** The lines as the reviewer saw them */
+    original?: string[];
+    commentId?: number;
+    threadId?: string;
+}
+
+/** A suggestion in the batch — block `index` of review comment `commentId`. */
+export interface BatchedSuggestion extends SuggestionEdit {
+    commentId: number;
+    index: number;
 }
 
+/** Where a restored review draft came from. */
+export type PRReviewDraftSource = 'local' | 'github';
+
 /** The active sub-tab in the PR detail view. */
 export type PRDetailTab = 'conversation' | 'files';
 
@@ -139,6 +219,8 @@ interface PRStore {
     // Create PR state
     isCreatingPR: boolean;
     showCreatePR: boolean;
+    /** Base branch the create form starts with — a PR head when stacking */
+    createPRBase: string | null;
     branches: string[];
     currentBranch: string | null;
     isGeneratingSummary: boolean;
@@ -158,12 +240,37 @@ interface PRStore {
     selectedFilePath: string | null;
     reviews: PRReviewData[];
     pendingReviewComments: PendingInlineComment[];
+    /** Overall body of the review being written */
+    reviewDraftBody: string;
+    /** Set once the stored draft of the selected PR has been restored */
+    reviewDraftSource: PRReviewDraftSource | null;
     isSubmittingReview: boolean;
     reviewError: string | null;
     isMerging: boolean;
     mergeError: string | null;
     detailTab: PRDetailTab;
 
+    // CI checks state (head commit of the selected PR)
+    checks: PRCheckData[];
+    checksRollup: PRCheckRollup | null;
+    /** Required checks that have not reported on the head commit yet */
+    missingRequiredChecks: string[];
+    isChecksLoading: boolean;
+    checksError: string | null;
+    checkLogs: Record<number, PRCheckLog>;
+
+    // Local checkout state
+    checkout: PRCheckoutState | null;
+
+    // Suggested changes state
+    suggestionBatch: BatchedSuggestion[];
+    isApplyingSuggestions: boolean;
+    suggestionError: string | null;
+
+    // Stacked PRs state
+    isRestacking: boolean;
+    stackError: string | null;
+
     // File change AI summary state
     filesSummary: string | null;
     isFilesSummaryLoading: boolean;
@@ -209,7 +316,7 @@ interface PRStore {
     closeThread: () => void;
 
     // Create PR actions
-    setShowCreatePR: (show: boolean) => void;
+    setShowCreatePR: (show: boolean, base?: string) => void;
     setBranches: (branches: string[], currentBranch: string | null) => void;
     setCreatingPR: (creating: boolean) => void;
     setGeneratingSummary: (generating: boolean) => void;
@@ -234,10 +341,38 @@ interface PRStore {
     addPendingComment: (comment: PendingInlineComment) => void;
     removePendingComment: (index: number) => void;
     clearPendingComments: () => void;
+    setReviewDraftBody: (body: string) => void;
+    setReviewDraft: (body: string, comments: PendingInlineComment[], source: PRReviewDraftSource) => void;
     setMerging: (merging: boolean) => void;
     setMergeError: (error: string | null) => void;
     setDetailTab: (tab: PRDetailTab) => void;
 
+    // CI checks actions
+    setChecks: (
+        prNumber: number,
+        checks: PRCheckData[],
+        rollup: PRCheckRollup,
+        missingRequired: string[],
+    ) => void;
+    setChecksLoading: (loading: boolean) => void;
+    setChecksError: (error: string | null) => void;
+    setCheckLog: (checkId: number, log: PRCheckLog) => void;
+
+    // Local checkout actions
+    setCheckout: (checkout: PRCheckoutState | null) => void;
+
+    // Suggested changes actions
+    toggleBatchedSuggestion: (suggestion: BatchedSuggestion) => void;
+    clearSuggestionBatch: () => void;
+    setApplyingSuggestions: (applying: boolean) => void;
+    setSuggestionError: (error: string | null) => void;
+    /** Drop the applied suggestions' comments from the batch */
+    setSuggestionsApplied: (commentIds: number[]) => void;
+
+    // Stacked PRs actions
+    setRestacking: (restacking: boolean) => void;
+    setStackError: (error: string | null) => void;
+
     // File change AI summary actions
     setFilesSummaryLoading: (loading: boolean) => void;
     setFilesSummary: (summary: string | null) => void;
@@ -289,6 +424,7 @@ export const usePRStore = create<PRStore>((set, get) => ({
     // Create PR state
     isCreatingPR: false,
     showCreatePR: false,
+    createPRBase: null,
     branches: [],
     currentBranch: null,
     createError: null,
@@ -310,12 +446,34 @@ export const usePRStore = create<PRStore>((set, get) => ({
     selectedFilePath: null,
     reviews: [],
     pendingReviewComments: [],
+    reviewDraftBody: '',
+    reviewDraftSource: null,
     isSubmittingReview: false,
     reviewError: null,
     isMerging: false,
     mergeError: null,
     detailTab: 'conversation',
 
+    // CI checks state
+    checks: [],
+    checksRollup: null,
+    missingRequiredChecks: [],
+    isChecksLoading: false,
+    checksError: null,
+    checkLogs: {},
+
+    // Local checkout state
+    checkout: null,
+
+    // Suggested changes state
+    suggestionBatch: [],
+    isApplyingSuggestions: false,
+    suggestionError: null,
+
+    // Stacked PRs state
+    isRestacking: false,
+    stackError: null,
+
     // File change AI summary state
     filesSummary: null,
     isFilesSummaryLoading: false,
@@ -360,6 +518,17 @@ export const usePRStore = create<PRStore>((set, get) => ({
             filesError: null,
             selectedFilePath: null,
             isCommentsLoading: true,
+            pendingReviewComments: [],
+            reviewDraftBody: '',
+            reviewDraftSource: null,
+            checks: [],
+            checksRollup: null,
+            missingRequiredChecks: [],
+            checksError: null,
+            checkLogs: {},
+            suggestionBatch: [],
+            suggestionError: null,
+            stackError: null,
         });
     },
 
@@ -377,11 +546,23 @@ export const usePRStore = create<PRStore>((set, get) => ({
             selectedFilePath: null,
             reviews: [],
             pendingReviewComments: [],
+            reviewDraftBody: '',
+            reviewDraftSource: null,
             isSubmittingReview: false,
             reviewError: null,
             isMerging: false,
             mergeError: null,
             detailTab: 'conversation',
+            checks: [],
+            checksRollup: null,
+            missingRequiredChecks: [],
+            isChecksLoading: false,
+            checksError: null,
+            checkLogs: {},
+            suggestionBatch: [],
+            isApplyingSuggestions: false,
+            suggestionError: null,
+            stackError: null,
             filesSummary: null,
             isFilesSummaryLoading: false,
             filesSummaryError: null,
@@ -462,7 +643,7 @@ export const usePRStore = create<PRStore>((set, get) => ({
     closeThread: () => set({ activeThreadId: null }),
 
     // ─── Create PR actions ───
-    setShowCreatePR: (show) => set({ showCreatePR: show, createError: null }),
+    setShowCreatePR: (show, base) => set({ showCreatePR: show, createPRBase: base ?? null, createError: null }),
     setBranches: (branches, currentBranch) => set({ branches, currentBranch }),
     setCreatingPR: (creating) => set({ isCreatingPR: creating }),
     setGeneratingSummary: (generating) => set({ isGeneratingSummary: generating }),
@@ -481,16 +662,72 @@ export const usePRStore = create<PRStore>((set, get) => ({
     setFilesError: (error) => set({ filesError: error, isFilesLoading: false }),
     selectFile: (filePath) => set({ selectedFilePath: filePath }),
     setReviews: (reviews) => set({ reviews }),
-    addReview: (review) => set((state) => ({ reviews: [...state.reviews, review], isSubmittingReview: false, reviewError: null, pendingReviewComments: [] })),
+    addReview: (review) => set((state) => ({ reviews: [...state.reviews, review], isSubmittingReview: false, reviewError: null, pendingReviewComments: [], reviewDraftBody: '' })),
     setSubmittingReview: (submitting) => set({ isSubmittingReview: submitting }),
     setReviewError: (error) => set({ reviewError: error, isSubmittingReview: false }),
     addPendingComment: (comment) => set((state) => ({ pendingReviewComments: [...state.pendingReviewComments, comment] })),
     removePendingComment: (index) => set((state) => ({ pendingReviewComments: state.pendingReviewComments.filter((_, i) => i !== index) })),
     clearPendingComments: () => set({ pendingReviewComments: [] }),
+    setReviewDraftBody: (body) => set({ reviewDraftBody: body }),
+    setReviewDraft: (body, comments, source) =>
+        set({ reviewDraftBody: body, pendingReviewComments: comments, reviewDraftSource: source }),
     setMerging: (merging) => set({ isMerging: merging }),
     setMergeError: (error) => set({ mergeError: error, isMerging: false }),
     setDetailTab: (tab) => set({ detailTab: tab }),
 
+    // CI checks actions — keep the list's CI badge in step with the detail.
+    // A late answer for a PR no longer selected is dropped.
+    setChecks: (prNumber, checks, rollup, missingRequired) =>
+        set((state) =>
+            prNumber !== state.selectedPRNumber
+                ? {}
+                : {
+                      checks,
+                      checksRollup: rollup,
+                      missingRequiredChecks: missingRequired,
+                      isChecksLoading: false,
+                      checksError: null,
+                      prs: state.prs.map((pr) =>
+                          pr.number === prNumber && rollup.total > 0
+                              ? { ...pr, checkState: rollup.state }
+                              : pr,
+                      ),
+                  },
+        ),
+    setChecksLoading: (loading) => set({ isChecksLoading: loading }),
+    setChecksError: (error) => set({ checksError: error, isChecksLoading: false }),
+    setCheckLog: (checkId, log) =>
+        set((state) => ({ checkLogs: { ...state.checkLogs, [checkId]: log } })),
+
+    // Local checkout actions
+    setCheckout: (checkout) => set({ checkout }),
+
+    // Suggested changes actions
+    toggleBatchedSuggestion: (suggestion) =>
+        set((state) => {
+            const isSame = (s: BatchedSuggestion) =>
+                s.commentId === suggestion.commentId && s.index === suggestion.index;
+            return {
+                suggestionBatch: state.suggestionBatch.some(isSame)
+                    ? state.suggestionBatch.filter((s) => !isSame(s))
+                    : [...state.suggestionBatch, suggestion],
+                suggestionError: null,
+            };
+        }),
+    clearSuggestionBatch: () => set({ suggestionBatch: [], suggestionError: null }),
+    setApplyingSuggestions: (applying) => set({ isApplyingSuggestions: applying, suggestionError: null }),
+    setSuggestionError: (error) => set({ suggestionError: error, isApplyingSuggestions: false }),
+    setSuggestionsApplied: (commentIds) =>
+        set((state) => ({
+            suggestionBatch: state.suggestionBatch.filter((s) => !commentIds.includes(s.commentId)),
+            isApplyingSuggestions: false,
+            suggestionError: null,
+        })),
+
+    // Stacked PRs actions
+    setRestacking: (restacking) => set({ isRestacking: restacking, stackError: null }),
+    setStackError: (error) => set({ stackError: error, isRestacking: false }),
+
     // File change AI summary actions — auto-open pane on result
     setFilesSummaryLoading: (loading) => set({ isFilesSummaryLoading: loading, filesSummaryError: null }),
     setFilesSummary: (summary) => set({ filesSummary: summary, isFilesSummaryLoading: false, filesSummaryError: null, filesSummaryPaneOpen: !!summary }),
@@ -686,6 +686,7 @@ export const SettingsTab: React.FC = () => {
                             <Kbd>a</Kbd><span className="text-fg/70">Apply stash</span>
                             <Kbd>p</Kbd><span className="text-fg/70">Pop stash</span>
                             <Kbd>d</Kbd><span className="text-fg/70">Drop stash</span>
+                            <Kbd>b</Kbd><span className="text-fg/70">Create branch from stash</span>
                         </div>
                     </div>
                 </SectionCard>
@@ -0,0 +1,115 @@
+import React from 'react';
+import { useStashStore } from '../store';
+import { postMessage } from '@/vscode';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, CheckCircle2, GitMerge, RefreshCw } from 'lucide-react';
+
+/**
+ * Conflict assistant — shown above the stash list after an apply/pop
+ * conflicts. Lists conflicted files with per-file resolution and, once
+ * everything is resolved after a pop, offers to drop the kept stash.
+ */
+export const ConflictPanel: React.FC = () => {
+    const conflict = useStashStore((s) => s.conflict);
+    if (!conflict) {
+        return null;
+    }
+
+    const resolved = conflict.files.length === 0;
+    const verb = conflict.operation === 'pop' ? 'popping' : 'applying';
+
+    return (
+        <div
+            className={`rounded-md border bg-card p-3 flex flex-col gap-2 ${
+                resolved ? 'border-success' : 'border-warning'
+            }`}
+            role="region"
+            aria-label="Stash conflicts"
+        >
+            <div className="flex items-center gap-2 text-[12px] font-semibold">
+                {resolved ? (
+                    <CheckCircle2 size={14} className="text-success shrink-0" />
+                ) : (
+                    <AlertTriangle size={14} className="text-warning shrink-0" />
+                )}
+                <span className="flex-1">
+                    {resolved
+                        ? `All conflicts from ${verb} ${conflict.stashName} resolved`
+                        : `${conflict.files.length} conflicted file${conflict.files.length !== 1 ? 's' : ''} from ${verb} ${conflict.stashName}`}
+                </span>
+                <Button
+                    variant="ghost"
+                    size="icon-xs"
+                    onClick={() => postMessage('getConflicts')}
+                    title="Re-check conflicts"
+                >
+                    <RefreshCw size={12} />
+                </Button>
+            </div>
+
+            {conflict.files.map((filePath) => {
+                const parts = filePath.split('/');
+                const name = parts.pop() ?? filePath;
+                const dir = parts.join('/');
+                return (
+                    <div
+                        key={filePath}
+                        className="flex flex-wrap items-center gap-1.5 px-1.5 py-1 rounded hover:bg-hover text-[12px]"
+                    >
+                        <span className="flex-1 min-w-0 truncate font-mono">
+                            <span className="font-medium text-fg">{name}</span>
+                            {dir && <span className="opacity-40 text-[11px] ml-1.5">{dir}</span>}
+                        </span>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-auto px-1.5 py-0.5 text-[11px] gap-1"
+                            onClick={() => postMessage('openConflictInMergeEditor', { filePath })}
+                            title="Open in the 3-way merge editor"
+                        >
+                            <GitMerge size={12} /> Merge
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-auto px-1.5 py-0.5 text-[11px]"
+                            onClick={() => postMessage('resolveConflict', { filePath, side: 'stash' })}
+                            title="Check out the stash version of this file"
+                        >
+                            Use Stash
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-auto px-1.5 py-0.5 text-[11px]"
+                            onClick={() => postMessage('resolveConflict', { filePath, side: 'ours' })}
+                            title="Keep the working tree version of this file"
+                        >
+                            Keep Ours
+                        </Button>
+                    </div>
+                );
+            })}
+
+            <div className="flex items-center gap-1.5 justify-end">
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-auto text-[11px] px-2 py-0.5"
+                    onClick={() => postMessage('dismissConflicts')}
+                >
+                    {resolved ? 'Keep Stash' : 'Dismiss'}
+                </Button>
+                {resolved && conflict.operation === 'pop' && (
+                    <Button
+                        size="sm"
+                        className="h-auto text-[11px] px-3 py-0.5"
+                        onClick={() => postMessage('dropConflictStash')}
+                    >
+                        Drop {conflict.stashName}
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+};
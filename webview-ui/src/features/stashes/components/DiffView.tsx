@@ -1,4 +1,5 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
+import type { DiffHighlight } from '../store';
 
 interface DiffLine {
     type: 'add' | 'del' | 'context' | 'hunk' | 'header';
@@ -58,8 +59,23 @@ function parseDiff(raw: string): DiffLine[] {
     return result;
 }
 
-export const DiffView: React.FC<{ diff: string }> = ({ diff }) => {
+function isHighlighted(line: DiffLine, highlight: Pick<DiffHighlight, 'kind' | 'line'>): boolean {
+    return highlight.kind === 'removed'
+        ? line.type === 'del' && line.oldLineNo === highlight.line
+        : line.type === 'add' && line.newLineNo === highlight.line;
+}
+
+export const DiffView: React.FC<{
+    diff: string;
+    /** A line to scroll into view and mark, e.g. a content search hit */
+    highlight?: Pick<DiffHighlight, 'kind' | 'line'>;
+}> = ({ diff, highlight }) => {
     const lines = useMemo(() => parseDiff(diff), [diff]);
+    const highlightRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        highlightRef.current?.scrollIntoView({ block: 'center' });
+    }, [lines, highlight]);
 
     if (lines.length === 0) {
         return (
@@ -112,8 +128,14 @@ export const DiffView: React.FC<{ diff: string }> = ({ diff }) => {
                         ? String(line.newLineNo).padStart(gutterWidth)
                         : ' '.repeat(gutterWidth);
 
+                const marked = highlight !== undefined && isHighlighted(line, highlight);
+
                 return (
-                    <div key={i} className={`flex ${bgClass}`}>
+                    <div
+                        key={i}
+                        ref={marked ? highlightRef : undefined}
+                        className={`flex ${marked ? 'bg-warning/20 ring-1 ring-inset ring-warning' : bgClass}`}
+                    >
                         <span
                             className="opacity-30 select-none pr-1 pl-2 text-right shrink-0"
                             style={{ minWidth: `${gutterWidth + 1}ch` }}
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { useStashStore } from '../store';
+import { postMessage } from '@/vscode';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronRight, History, RefreshCw, Undo2 } from 'lucide-react';
+
+/**
+ * "Recently dropped" section below the stash list — unreachable stash commits
+ * that git has not garbage-collected yet, each restorable to the stash list.
+ * Scanning runs `git fsck`, so it only happens when the section is expanded.
+ */
+export const DroppedStashes: React.FC = () => {
+    const dropped = useStashStore((s) => s.droppedStashes);
+    const stashCount = useStashStore((s) => s.stashes.length);
+    const [expanded, setExpanded] = useState(false);
+
+    const scan = () => {
+        useStashStore.getState().setDroppedStashes(null);
+        postMessage('getDroppedStashes');
+    };
+
+    // A drop, clear or restore changes what is recoverable — rescan while open
+    useEffect(() => {
+        if (expanded) {
+            scan();
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps -- only rescan on list changes
+    }, [stashCount]);
+
+    const toggle = () => {
+        if (!expanded && dropped === null) {
+            scan();
+        }
+        setExpanded(!expanded);
+    };
+
+    return (
+        <div
+            className="mt-2 border-t border-border pt-1.5"
+            role="region"
+            aria-label="Recently dropped stashes"
+        >
+            <div className="flex items-center gap-1">
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-auto flex-1 justify-start gap-1.5 px-1 py-0.5 text-[11px] opacity-70"
+                    onClick={toggle}
+                    aria-expanded={expanded}
+                >
+                    {expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                    <History size={12} />
+                    Recently Dropped
+                    {dropped && dropped.length > 0 && (
+                        <span className="opacity-60">({dropped.length})</span>
+                    )}
+                </Button>
+                {expanded && (
+                    <Button variant="ghost" size="icon-xs" onClick={scan} title="Scan again">
+                        <RefreshCw size={12} />
+                    </Button>
+                )}
+            </div>
+
+            {expanded && (
+                <div className="flex flex-col gap-0.5 pt-1">
+                    {dropped === null && (
+                        <div className="text-[11px] opacity-50 px-1 py-1">
+                            Looking for dropped stashes…
+                        </div>
+                    )}
+                    {dropped?.length === 0 && (
+                        <div className="text-[11px] opacity-50 px-1 py-1">
+                            No dropped stashes found
+                        </div>
+                    )}
+                    {dropped?.map((entry) => (
+                        <div
+                            key={entry.sha}
+                            className="flex items-center gap-2 px-1.5 py-1 rounded hover:bg-hover text-[12px]"
+                        >
+                            <div className="flex-1 min-w-0">
+                                <div className="truncate opacity-80">{entry.message}</div>
+                                <div className="truncate text-[11px] opacity-50">
+                                    {entry.branch} · {entry.relativeDate} ·{' '}
+                                    <span className="font-mono">{entry.sha.slice(0, 8)}</span>
+                                </div>
+                            </div>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-auto px-1.5 py-0.5 text-[11px] gap-1"
+                                onClick={() =>
+                                    postMessage('restoreDroppedStash', {
+                                        sha: entry.sha,
+                                        subject: entry.subject,
+                                    })
+                                }
+                                title="Restore to the stash list as stash@{0}"
+                            >
+                                <Undo2 size={12} /> Restore
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -2,7 +2,18 @@ import React from 'react';
 import { useStashStore, type StashData } from '../store';
 import { postMessage } from '@/vscode';
 import { StashFiles } from './StashFiles';
-import { Check, ArrowUp, X, ChevronRight, GitBranch, Clock } from 'lucide-react';
+import {
+    Check,
+    ArrowUp,
+    X,
+    ChevronRight,
+    GitBranch,
+    GitBranchPlus,
+    Clock,
+    Pin,
+    PinOff,
+    Tags,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 
@@ -15,6 +26,7 @@ export const StashCard: React.FC<{
     const toggleExpanded = useStashStore((s) => s.toggleExpanded);
     const selectStash = useStashStore((s) => s.selectStash);
     const selectedStashIndex = useStashStore((s) => s.selectedStashIndex);
+    const setSearchQuery = useStashStore((s) => s.setSearchQuery);
     const isExpanded = expandedIndices.has(stash.index);
     const isSelected = selectedStashIndex === stash.index;
     const isWip = stash.message.toLowerCase().startsWith('wip');
@@ -31,15 +43,19 @@ export const StashCard: React.FC<{
                 break;
             case 'a':
                 e.preventDefault();
-                postMessage('apply', { index: stash.index });
+                postMessage('apply', { index: stash.index, sha: stash.sha });
                 break;
             case 'p':
                 e.preventDefault();
-                postMessage('pop', { index: stash.index });
+                postMessage('pop', { index: stash.index, sha: stash.sha });
                 break;
             case 'd':
                 e.preventDefault();
-                postMessage('drop', { index: stash.index });
+                postMessage('drop', { index: stash.index, sha: stash.sha });
+                break;
+            case 'b':
+                e.preventDefault();
+                postMessage('branchFromStash', { index: stash.index, sha: stash.sha });
                 break;
         }
     };
@@ -77,9 +93,20 @@ export const StashCard: React.FC<{
 
                 {/* Info */}
                 <div className="flex-1 min-w-0 self-center">
-                    <div className="font-semibold text-[13px] leading-[18px] truncate">
-                        {stash.message || '(no message)'}
+                    <div className="flex items-center gap-1 font-semibold text-[13px] leading-[18px]">
+                        {stash.pinned && (
+                            <Pin size={11} className="shrink-0 text-accent" aria-label="Pinned" />
+                        )}
+                        <span className="truncate">{stash.message || '(no message)'}</span>
                     </div>
+                    {stash.description && (
+                        <div
+                            className="text-[11px] leading-[16px] opacity-70 truncate"
+                            title={stash.description}
+                        >
+                            {stash.description}
+                        </div>
+                    )}
                     <div className="flex flex-wrap items-center gap-2 mt-1 text-[11px] leading-[16px] opacity-75">
                         <span className="opacity-60">{stash.name}</span>
                         <Badge variant="secondary" className="gap-1 px-1.5 py-0.5 text-[10px]">
@@ -89,6 +116,20 @@ export const StashCard: React.FC<{
                             <Clock size={10} /> {stash.relativeDate}
                         </span>
                         {stash.stats && <StashStats stats={stash.stats} />}
+                        {stash.tags.map((tag) => (
+                            <Badge
+                                key={tag}
+                                variant="outline"
+                                className="px-1.5 py-0.5 text-[10px] cursor-pointer hover:border-accent"
+                                title={`Show stashes tagged #${tag}`}
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    setSearchQuery(`#${tag}`);
+                                }}
+                            >
+                                #{tag}
+                            </Badge>
+                        ))}
                     </div>
                 </div>
 
@@ -98,19 +139,51 @@ export const StashCard: React.FC<{
                         label="Apply"
                         icon={<Check size={12} />}
                         className="hover:text-success"
-                        onClick={() => postMessage('apply', { index: stash.index })}
+                        onClick={() => postMessage('apply', { index: stash.index, sha: stash.sha })}
                     />
                     <ActionButton
                         label="Pop"
                         icon={<ArrowUp size={12} />}
-                        onClick={() => postMessage('pop', { index: stash.index })}
+                        onClick={() => postMessage('pop', { index: stash.index, sha: stash.sha })}
+                    />
+                    <ActionButton
+                        label="Branch"
+                        icon={<GitBranchPlus size={12} />}
+                        onClick={() =>
+                            postMessage('branchFromStash', { index: stash.index, sha: stash.sha })
+                        }
                     />
                     <ActionButton
                         label="Drop"
                         icon={<X size={12} />}
                         className="hover:text-danger"
-                        onClick={() => postMessage('drop', { index: stash.index })}
+                        onClick={() => postMessage('drop', { index: stash.index, sha: stash.sha })}
                     />
+                    <Button
+                        variant="ghost"
+                        size="icon-xs"
+                        title={stash.pinned ? 'Unpin' : 'Pin to top'}
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            postMessage('togglePinStash', { index: stash.index, sha: stash.sha });
+                        }}
+                    >
+                        {stash.pinned ? <PinOff size={12} /> : <Pin size={12} />}
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        size="icon-xs"
+                        title="Edit tags & description"
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            postMessage('editStashMetadata', {
+                                index: stash.index,
+                                sha: stash.sha,
+                            });
+                        }}
+                    >
+                        <Tags size={12} />
+                    </Button>
                 </div>
 
                 {/* Chevron — toggles inline expand */}
@@ -130,7 +203,7 @@ export const StashCard: React.FC<{
 
             {/* File list */}
             {isExpanded && stash.files.length > 0 && (
-                <StashFiles files={stash.files} stashIndex={stash.index} />
+                <StashFiles files={stash.files} stashIndex={stash.index} stashSha={stash.sha} />
             )}
         </div>
     );
@@ -0,0 +1,135 @@
+import React, { useEffect, useMemo } from 'react';
+import { useStashStore, type StashContentMatchData } from '../store';
+import { postMessage } from '@/vscode';
+import { SearchCode } from 'lucide-react';
+
+/** Wrap each occurrence of `query` in `text` in a highlight. */
+function highlight(text: string, query: string): React.ReactNode[] {
+    const parts: React.ReactNode[] = [];
+    const lower = text.toLowerCase();
+    const needle = query.toLowerCase();
+    let from = 0;
+    let at = lower.indexOf(needle);
+    while (at !== -1) {
+        parts.push(text.slice(from, at));
+        parts.push(
+            <mark key={at} className="bg-warning/30 text-fg rounded-sm">
+                {text.slice(at, at + needle.length)}
+            </mark>,
+        );
+        from = at + needle.length;
+        at = lower.indexOf(needle, from);
+    }
+    parts.push(text.slice(from));
+    return parts;
+}
+
+/**
+ * Content search results in place of the stash list — every changed line
+ * that contains the query, grouped by stash. Picking a line opens the stash
+ * in the detail pane with that file expanded and the line highlighted.
+ */
+export const StashContentResults: React.FC<{ query: string }> = ({ query }) => {
+    const results = useStashStore((s) => s.contentResults);
+    const stashes = useStashStore((s) => s.stashes);
+
+    // Debounced: the extension reads each stash diff once, then searches its cache
+    useEffect(() => {
+        useStashStore.getState().setContentResults(null);
+        const timer = setTimeout(() => postMessage('searchStashContents', { query }), 300);
+        return () => clearTimeout(timer);
+    }, [query, stashes]);
+
+    const groups = useMemo(() => {
+        const bySha = new Map<string, StashContentMatchData[]>();
+        for (const match of results ?? []) {
+            bySha.set(match.sha, [...(bySha.get(match.sha) ?? []), match]);
+        }
+        return [...bySha.values()];
+    }, [results]);
+
+    const open = (match: StashContentMatchData) => {
+        const store = useStashStore.getState();
+        store.openContentMatch(match);
+        const stash = store.selectedStash();
+        if (!stash) {
+            return;
+        }
+        // The detail pane only fetches on selection, so the file may have been expanded too late
+        const key = `${stash.index}:${match.filePath}`;
+        const { fileDiffs, fileDiffLoading } = useStashStore.getState();
+        if (!fileDiffs.has(key) && !fileDiffLoading.has(key)) {
+            store.setFileDiffLoading(key, true);
+            postMessage('getFileDiff', {
+                index: stash.index,
+                sha: stash.sha,
+                filePath: match.filePath,
+                base: 'parent',
+            });
+        }
+    };
+
+    if (results === null) {
+        return (
+            <div className="text-[11px] opacity-50 px-1 py-1 animate-pulse">
+                Searching stashed changes…
+            </div>
+        );
+    }
+
+    if (results.length === 0) {
+        return (
+            <div className="flex flex-col items-center justify-center h-32 gap-2 opacity-50 text-[12px]">
+                <SearchCode size={24} className="opacity-60" />
+                <span>No stashed changes contain &quot;{query}&quot;</span>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex flex-col gap-2" role="list" aria-label="Stash content matches">
+            {groups.map((matches) => (
+                <div key={matches[0].sha} className="rounded-md border border-border bg-card">
+                    <div className="flex items-center gap-2 px-2 py-1 border-b border-border/40 text-[11px]">
+                        <span className="opacity-60 shrink-0">{matches[0].stashName}</span>
+                        <span className="truncate font-medium">
+                            {matches[0].message || '(no message)'}
+                        </span>
+                    </div>
+                    {matches.map((match) => (
+                        <div
+                            key={`${match.filePath}:${match.kind}:${match.line}`}
+                            role="listitem"
+                            tabIndex={0}
+                            className="px-2 py-1 cursor-pointer hover:bg-hover text-[11px]"
+                            onClick={() => open(match)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                    open(match);
+                                }
+                            }}
+                            title={match.hunkHeader}
+                        >
+                            <div className="truncate font-mono opacity-60">
+                                {match.filePath}:{match.line}
+                            </div>
+                            <div
+                                className={`truncate font-mono whitespace-pre ${
+                                    match.kind === 'added' ? 'text-added' : 'text-deleted'
+                                }`}
+                            >
+                                {match.kind === 'added' ? '+' : '-'}{' '}
+                                {highlight(match.text.trim(), query)}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ))}
+            {results.length >= 200 && (
+                <div className="text-[11px] opacity-50 px-1">
+                    Showing the first 200 matches — refine the search to see more
+                </div>
+            )}
+        </div>
+    );
+};
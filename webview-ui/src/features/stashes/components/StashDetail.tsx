@@ -1,5 +1,5 @@
-import React, { useCallback, useMemo } from 'react';
-import { useStashStore, type StashFileData } from '../store';
+import React, { useCallback, useEffect, useMemo } from 'react';
+import { useStashStore, type StashDiffBase, type StashFileData } from '../store';
 import { postMessage } from '@/vscode';
 import { DiffView } from './DiffView';
 import { Button } from '@/components/ui/button';
@@ -14,6 +14,13 @@ import {
     Clock,
     ExternalLink,
     Archive,
+    GitBranchPlus,
+    Pin,
+    PinOff,
+    Tags,
+    Download,
+    Share2,
+    AlertTriangle,
 } from 'lucide-react';
 
 const statusConfig: Record<string, { label: string; color: string; fullLabel: string }> = {
@@ -24,6 +31,12 @@ const statusConfig: Record<string, { label: string; color: string; fullLabel: st
     C: { label: 'C', color: 'text-added', fullLabel: 'Copied' },
 };
 
+const diffBases: { base: StashDiffBase; label: string; title: string }[] = [
+    { base: 'parent', label: 'Parent', title: 'What the stash changed when it was made' },
+    { base: 'head', label: 'HEAD', title: 'What applying would change in the current commit' },
+    { base: 'working', label: 'Working', title: 'What applying would change in your files now' },
+];
+
 export const StashDetail: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     const selectedStashFn = useStashStore((s) => s.selectedStash);
     const stashes = useStashStore((s) => s.stashes);
@@ -35,6 +48,35 @@ export const StashDetail: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     const expandedDetailFiles = useStashStore((s) => s.expandedDetailFiles);
     const toggleDetailFile = useStashStore((s) => s.toggleDetailFile);
     const setFileDiffLoading = useStashStore((s) => s.setFileDiffLoading);
+    const diffBase = useStashStore((s) => s.diffBase);
+    const setDiffBase = useStashStore((s) => s.setDiffBase);
+    const applyRisks = useStashStore((s) => s.applyRisks);
+    const diffHighlight = useStashStore((s) => s.diffHighlight);
+
+    // Off the parent base, check what would not apply cleanly and re-fetch open diffs
+    useEffect(() => {
+        if (!stash) {return;}
+        if (diffBase !== 'parent') {
+            postMessage('getStashApplyRisks', { index: stash.index, sha: stash.sha });
+        }
+        const {
+            expandedDetailFiles: expanded,
+            fileDiffs: diffs,
+            fileDiffLoading: loading,
+        } = useStashStore.getState();
+        for (const file of stash.files) {
+            const key = `${stash.index}:${file.path}`;
+            if (expanded.has(key) && !diffs.has(key) && !loading.has(key)) {
+                setFileDiffLoading(key, true);
+                postMessage('getFileDiff', {
+                    index: stash.index,
+                    sha: stash.sha,
+                    filePath: file.path,
+                    base: diffBase,
+                });
+            }
+        }
+    }, [stash, diffBase, setFileDiffLoading]);
 
     const handleToggleFile = useCallback(
         (file: StashFileData) => {
@@ -45,18 +87,28 @@ export const StashDetail: React.FC<{ onClose: () => void }> = ({ onClose }) => {
             // Lazy-fetch the diff if not already loaded
             if (!fileDiffs.has(key) && !fileDiffLoading.has(key)) {
                 setFileDiffLoading(key, true);
-                postMessage('getFileDiff', { index: stash.index, filePath: file.path });
+                postMessage('getFileDiff', {
+                    index: stash.index,
+                    sha: stash.sha,
+                    filePath: file.path,
+                    base: diffBase,
+                });
             }
         },
-        [stash, fileDiffs, fileDiffLoading, toggleDetailFile, setFileDiffLoading],
+        [stash, diffBase, fileDiffs, fileDiffLoading, toggleDetailFile, setFileDiffLoading],
     );
 
     const handleOpenNativeDiff = useCallback(
         (file: StashFileData) => {
             if (!stash) {return;}
-            postMessage('showFile', { index: stash.index, filePath: file.path });
+            postMessage('showFile', {
+                index: stash.index,
+                sha: stash.sha,
+                filePath: file.path,
+                base: diffBase,
+            });
         },
-        [stash],
+        [stash, diffBase],
     );
 
     const handleKeyDown = useCallback(
@@ -88,6 +140,10 @@ export const StashDetail: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     // Build a lookup of numstat by path
     const numstatMap = new Map((stash.numstat ?? []).map((n) => [n.path, n]));
 
+    const riskValues = [...(applyRisks?.values() ?? [])];
+    const conflictCount = riskValues.filter((r) => r === 'conflict').length;
+    const localCount = riskValues.length - conflictCount;
+
     return (
         <div
             className="flex flex-col h-full overflow-clip"
@@ -104,6 +160,9 @@ export const StashDetail: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                                     isWip ? 'bg-warning' : 'bg-accent'
                                 }`}
                             />
+                            {stash.pinned && (
+                                <Pin size={13} className="shrink-0 text-accent" aria-label="Pinned" />
+                            )}
                             <h2 className="text-[15px] font-semibold leading-tight truncate">
                                 {stash.message || '(no message)'}
                             </h2>
@@ -116,7 +175,17 @@ export const StashDetail: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                             <span className="inline-flex items-center gap-0.5" title={fullDate}>
                                 <Clock size={10} /> {stash.relativeDate}
                             </span>
+                            {stash.tags.map((tag) => (
+                                <Badge key={tag} variant="outline" className="px-1.5 py-0.5 text-[10px]">
+                                    #{tag}
+                                </Badge>
+                            ))}
                         </div>
+                        {stash.description && (
+                            <p className="ml-3.5 mt-1.5 text-[12px] opacity-80 whitespace-pre-wrap">
+                                {stash.description}
+                            </p>
+                        )}
                     </div>
                     <Button
                         variant="ghost"
@@ -152,18 +221,53 @@ export const StashDetail: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                     label="Apply"
                     icon={<Check size={12} />}
                     className="hover:text-success"
-                    onClick={() => postMessage('apply', { index: stash.index })}
+                    onClick={() => postMessage('apply', { index: stash.index, sha: stash.sha })}
                 />
                 <ActionButton
                     label="Pop"
                     icon={<ArrowUp size={12} />}
-                    onClick={() => postMessage('pop', { index: stash.index })}
+                    onClick={() => postMessage('pop', { index: stash.index, sha: stash.sha })}
                 />
                 <ActionButton
                     label="Drop"
                     icon={<X size={12} />}
                     className="hover:text-danger"
-                    onClick={() => postMessage('drop', { index: stash.index })}
+                    onClick={() => postMessage('drop', { index: stash.index, sha: stash.sha })}
+                />
+                <ActionButton
+                    label="Branch"
+                    icon={<GitBranchPlus size={12} />}
+                    onClick={() =>
+                        postMessage('branchFromStash', { index: stash.index, sha: stash.sha })
+                    }
+                />
+                <ActionButton
+                    label={stash.pinned ? 'Unpin' : 'Pin'}
+                    icon={stash.pinned ? <PinOff size={12} /> : <Pin size={12} />}
+                    onClick={() =>
+                        postMessage('togglePinStash', { index: stash.index, sha: stash.sha })
+                    }
+                />
+                <ActionButton
+                    label="Tags"
+                    icon={<Tags size={12} />}
+                    onClick={() =>
+                        postMessage('editStashMetadata', { index: stash.index, sha: stash.sha })
+                    }
+                />
+                <ActionButton
+                    label="Export"
+                    icon={<Download size={12} />}
+                    onClick={() =>
+                        postMessage('exportStash', { index: stash.index, sha: stash.sha })
+                    }
+                />
+                <ActionButton
+                    label="Gist"
+                    icon={<Share2 size={12} />}
+                    onClick={() =>
+                        postMessage('sendStashToGist', { index: stash.index, sha: stash.sha })
+                    }
                 />
             </div>
 
@@ -171,9 +275,51 @@ export const StashDetail: React.FC<{ onClose: () => void }> = ({ onClose }) => {
 
             {/* File list with expandable diffs */}
             <div className="flex-1 overflow-y-auto">
-                <div className="px-4 py-2 text-[11px] font-semibold opacity-50 uppercase tracking-wider shrink-0">
-                    Changed Files
+                <div className="px-4 py-2 flex items-center gap-2 shrink-0">
+                    <span className="text-[11px] font-semibold opacity-50 uppercase tracking-wider">
+                        Changed Files
+                    </span>
+                    <div
+                        className="ml-auto flex items-center rounded border border-border overflow-hidden"
+                        role="radiogroup"
+                        aria-label="Compare stash against"
+                    >
+                        {diffBases.map(({ base, label, title }) => (
+                            <button
+                                key={base}
+                                role="radio"
+                                aria-checked={diffBase === base}
+                                title={title}
+                                className={`px-2 py-0.5 text-[10px] ${
+                                    diffBase === base
+                                        ? 'bg-accent/15 text-fg font-semibold'
+                                        : 'text-fg/60 hover:text-fg hover:bg-hover'
+                                }`}
+                                onClick={() => setDiffBase(base)}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
                 </div>
+                {diffBase !== 'parent' && applyRisks && (
+                    <div
+                        className={`px-4 pb-2 flex items-center gap-1.5 text-[11px] ${
+                            riskValues.length > 0 ? 'text-warning' : 'opacity-50'
+                        }`}
+                    >
+                        {riskValues.length > 0 && <AlertTriangle size={12} />}
+                        {riskValues.length === 0
+                            ? 'Applies cleanly onto the current code'
+                            : [
+                                  conflictCount > 0 &&
+                                      `${conflictCount} file${conflictCount !== 1 ? 's' : ''} would conflict`,
+                                  localCount > 0 && `${localCount} blocked by local changes`,
+                              ]
+                                  .filter(Boolean)
+                                  .join(' · ')}
+                    </div>
+                )}
                 {stash.files.map((file) => {
                     const key = `${stash.index}:${file.path}`;
                     const isExpanded = expandedDetailFiles.has(key);
@@ -188,6 +334,7 @@ export const StashDetail: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                     const name = parts.pop() ?? file.path;
                     const dir = parts.join('/');
                     const ns = numstatMap.get(file.path);
+                    const risk = applyRisks?.get(file.path);
 
                     return (
                         <div key={file.path} className="border-b border-border/40">
@@ -215,6 +362,19 @@ export const StashDetail: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                                 {dir && (
                                     <span className="opacity-30 text-[11px] font-mono">{dir}</span>
                                 )}
+                                {risk && (
+                                    <span
+                                        className="inline-flex items-center gap-0.5 text-[10px] text-warning shrink-0"
+                                        title={
+                                            risk === 'conflict'
+                                                ? 'Conflicts with changes made since the stash'
+                                                : 'Has uncommitted changes — apply would refuse to overwrite them'
+                                        }
+                                    >
+                                        <AlertTriangle size={11} />
+                                        {risk === 'conflict' ? 'conflict' : 'local changes'}
+                                    </span>
+                                )}
 
                                 {/* Per-file numstat */}
                                 {ns && (
@@ -251,7 +411,14 @@ export const StashDetail: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                                             Loading diff…
                                         </div>
                                     ) : diff !== undefined ? (
-                                        <DiffView diff={diff} />
+                                        <DiffView
+                                            diff={diff}
+                                            highlight={
+                                                diffHighlight?.key === key
+                                                    ? diffHighlight
+                                                    : undefined
+                                            }
+                                        />
                                     ) : null}
                                 </div>
                             )}
@@ -13,7 +13,8 @@ const statusConfig: Record<string, { label: string; color: string }> = {
 export const StashFiles: React.FC<{
     files: StashFileData[];
     stashIndex: number;
-}> = ({ files, stashIndex }) => (
+    stashSha: string;
+}> = ({ files, stashIndex, stashSha }) => (
     <div className="border-t border-border px-3 py-2 pl-6">
         {files.map((file) => {
             const cfg = statusConfig[file.status] ?? { label: '?', color: 'opacity-50' };
@@ -26,7 +27,11 @@ export const StashFiles: React.FC<{
                     key={file.path}
                     className="flex items-center gap-1.5 px-1.5 py-1 rounded cursor-pointer hover:bg-hover text-[12px] font-mono"
                     onClick={() =>
-                        postMessage('showFile', { index: stashIndex, filePath: file.path })
+                        postMessage('showFile', {
+                            index: stashIndex,
+                            sha: stashSha,
+                            filePath: file.path,
+                        })
                     }
                 >
                     <span
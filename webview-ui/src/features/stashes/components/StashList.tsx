@@ -1,8 +1,12 @@
 import React, { useRef, useCallback, useState, useEffect, useMemo } from 'react';
 import { useStashStore } from '../store';
 import { StashCard } from './StashCard';
+import { WorkingChangesPicker, type WorkingSelection } from './WorkingChangesPicker';
+import { ConflictPanel } from './ConflictPanel';
+import { DroppedStashes } from './DroppedStashes';
+import { StashContentResults } from './StashContentResults';
 import { postMessage } from '@/vscode';
-import { Archive, Plus, RefreshCw } from 'lucide-react';
+import { Archive, Plus, RefreshCw, SearchCode, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -25,14 +29,50 @@ const SkeletonCard: React.FC = () => (
 const CreateStashForm: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     const [message, setMessage] = useState('');
     const [mode, setMode] = useState<'all' | 'staged' | 'untracked'>('all');
+    // Partial stash: null = stash by mode, otherwise only the picked files/hunks
+    const [selection, setSelection] = useState<WorkingSelection | null>(null);
+    const workingChanges = useStashStore((s) => s.workingChanges);
     const inputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         inputRef.current?.focus();
     }, []);
 
+    const togglePicker = () => {
+        if (selection) {
+            setSelection(null);
+        } else {
+            useStashStore.getState().setWorkingChanges(null);
+            postMessage('getWorkingChanges');
+            setSelection(new Map());
+        }
+    };
+
     const handleSubmit = () => {
-        postMessage('createStashInline', { message: message.trim(), mode });
+        if (selection) {
+            if (selection.size === 0) {return;}
+            const paths: string[] = [];
+            const hunks: { filePath: string; id: string }[] = [];
+            for (const [filePath, sel] of selection) {
+                if (sel === 'all') {
+                    paths.push(filePath);
+                } else {
+                    sel.forEach((id) => hunks.push({ filePath, id }));
+                }
+            }
+            // Untracked files only match a pathspec when untracked files are included
+            const hasUntracked = workingChanges?.some(
+                (f) => f.status === '?' && selection.has(f.path),
+            );
+            postMessage('createStashInline', {
+                message: message.trim(),
+                mode: hasUntracked ? 'untracked' : 'all',
+                paths,
+                hunks,
+            });
+        } else {
+            postMessage('createStashInline', { message: message.trim(), mode });
+        }
         setMessage('');
         onClose();
     };
@@ -59,24 +99,35 @@ const CreateStashForm: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                 onKeyDown={handleKeyDown}
                 className="text-[12px]"
             />
-            <div className="flex items-center gap-1.5 text-[11px]">
-                {(['all', 'staged', 'untracked'] as const).map((m) => (
-                    <Button
-                        key={m}
-                        variant={mode === m ? 'default' : 'outline'}
-                        size="sm"
-                        className="h-auto px-2 py-0.5 text-[11px]"
-                        onClick={() => setMode(m)}
-                    >
-                        {m === 'all'
-                            ? 'All Changes'
-                            : m === 'staged'
-                              ? 'Staged Only'
-                              : 'Include Untracked'}
-                    </Button>
-                ))}
-            </div>
+            {!selection && (
+                <div className="flex items-center gap-1.5 text-[11px]">
+                    {(['all', 'staged', 'untracked'] as const).map((m) => (
+                        <Button
+                            key={m}
+                            variant={mode === m ? 'default' : 'outline'}
+                            size="sm"
+                            className="h-auto px-2 py-0.5 text-[11px]"
+                            onClick={() => setMode(m)}
+                        >
+                            {m === 'all'
+                                ? 'All Changes'
+                                : m === 'staged'
+                                  ? 'Staged Only'
+                                  : 'Include Untracked'}
+                        </Button>
+                    ))}
+                </div>
+            )}
+            {selection && <WorkingChangesPicker selection={selection} onChange={setSelection} />}
             <div className="flex items-center gap-1.5 justify-end">
+                <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-[11px] mr-auto"
+                    onClick={togglePicker}
+                >
+                    {selection ? 'Stash All Changes' : 'Select Files…'}
+                </Button>
                 <Button
                     variant="ghost"
                     size="sm"
@@ -89,6 +140,7 @@ const CreateStashForm: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                     size="sm"
                     className="h-auto text-[11px] px-3 py-0.5"
                     onClick={handleSubmit}
+                    disabled={selection !== null && selection.size === 0}
                 >
                     Stash
                 </Button>
@@ -105,6 +157,11 @@ export const StashList: React.FC = () => {
     const filteredStashesFn = useStashStore((s) => s.filteredStashes);
     const showCreateForm = useStashStore((s) => s.showCreateForm);
     const setShowCreateForm = useStashStore((s) => s.setShowCreateForm);
+    const conflict = useStashStore((s) => s.conflict);
+    const searchContents = useStashStore((s) => s.searchContents);
+    const setSearchContents = useStashStore((s) => s.setSearchContents);
+    // Content search needs a couple of characters to be worth reading every stash diff
+    const contentQuery = searchContents && searchQuery.trim().length >= 2 ? searchQuery.trim() : '';
 
     // eslint-disable-next-line react-hooks/exhaustive-deps -- extra deps trigger recompute of Zustand derived selector
     const stashes = useMemo(() => filteredStashesFn(), [filteredStashesFn, allStashes, searchQuery]);
@@ -145,7 +202,9 @@ export const StashList: React.FC = () => {
                     <Input
                         ref={searchRef}
                         type="text"
-                        placeholder="Search stashes…"
+                        placeholder={
+                            searchContents ? 'Search inside stashed changes…' : 'Search stashes…'
+                        }
                         value={searchQuery}
                         onChange={(e) => setSearchQuery(e.target.value)}
                         onKeyDown={(e) => {
@@ -156,6 +215,15 @@ export const StashList: React.FC = () => {
                         }}
                         className="flex-1 text-[12px]"
                     />
+                    <Button
+                        size="icon-sm"
+                        variant={searchContents ? 'default' : 'outline'}
+                        onClick={() => setSearchContents(!searchContents)}
+                        title="Search inside stashed changes"
+                        aria-pressed={searchContents}
+                    >
+                        <SearchCode size={14} />
+                    </Button>
                     <Button
                         size="icon-sm"
                         onClick={() => setShowCreateForm(!showCreateForm)}
@@ -163,6 +231,13 @@ export const StashList: React.FC = () => {
                     >
                         <Plus size={14} />
                     </Button>
+                    <Button
+                        size="icon-sm"
+                        onClick={() => postMessage('importStashBundle')}
+                        title="Import Stash Bundle"
+                    >
+                        <Upload size={14} />
+                    </Button>
                     <Button
                         size="icon-sm"
                         onClick={() => postMessage('refresh')}
@@ -173,6 +248,13 @@ export const StashList: React.FC = () => {
                 </div>
             </div>
 
+            {/* Conflict assistant after a conflicting apply/pop */}
+            {conflict && (
+                <div className="px-2 pt-2">
+                    <ConflictPanel />
+                </div>
+            )}
+
             {/* Inline create form */}
             {showCreateForm && (
                 <div className="px-2 pt-2">
@@ -181,52 +263,60 @@ export const StashList: React.FC = () => {
             )}
 
             {/* List */}
-            <div
-                ref={listRef}
-                className="flex-1 overflow-y-auto px-2 py-2 flex flex-col gap-1.5"
-                aria-label="Stash list"
-                {...containerProps}
-            >
-                {loading && stashes.length === 0 && (
-                    <div className="flex flex-col gap-1.5">
-                        <SkeletonCard />
-                        <SkeletonCard />
-                        <SkeletonCard />
-                    </div>
-                )}
-
-                {!loading && stashes.length === 0 && (
-                    <div className="flex flex-col items-center justify-center h-32 gap-2 opacity-50 text-[12px]">
-                        <Archive size={24} className="opacity-60" />
-                        {searchQuery ? (
-                            <span>No stashes match &quot;{searchQuery}&quot;</span>
-                        ) : (
-                            <>
-                                <span>No stashes yet</span>
-                                <Button
-                                    size="sm"
-                                    className="h-auto px-3 py-1 text-[11px] mt-1"
-                                    onClick={() => setShowCreateForm(true)}
-                                >
-                                    Create Stash
-                                </Button>
-                            </>
-                        )}
-                    </div>
-                )}
-
-                {stashes.map((stash, i) => (
-                    <StashCard
-                        key={stash.index}
-                        stash={stash}
-                        tabIndex={i === focusedIndex ? 0 : -1}
-                        isFocused={i === focusedIndex}
-                    />
-                ))}
-            </div>
+            {contentQuery ? (
+                <div className="flex-1 overflow-y-auto px-2 py-2">
+                    <StashContentResults query={contentQuery} />
+                </div>
+            ) : (
+                <div
+                    ref={listRef}
+                    className="flex-1 overflow-y-auto px-2 py-2 flex flex-col gap-1.5"
+                    aria-label="Stash list"
+                    {...containerProps}
+                >
+                    {loading && stashes.length === 0 && (
+                        <div className="flex flex-col gap-1.5">
+                            <SkeletonCard />
+                            <SkeletonCard />
+                            <SkeletonCard />
+                        </div>
+                    )}
+
+                    {!loading && stashes.length === 0 && (
+                        <div className="flex flex-col items-center justify-center h-32 gap-2 opacity-50 text-[12px]">
+                            <Archive size={24} className="opacity-60" />
+                            {searchQuery ? (
+                                <span>No stashes match &quot;{searchQuery}&quot;</span>
+                            ) : (
+                                <>
+                                    <span>No stashes yet</span>
+                                    <Button
+                                        size="sm"
+                                        className="h-auto px-3 py-1 text-[11px] mt-1"
+                                        onClick={() => setShowCreateForm(true)}
+                                    >
+                                        Create Stash
+                                    </Button>
+                                </>
+                            )}
+                        </div>
+                    )}
+
+                    {stashes.map((stash, i) => (
+                        <StashCard
+                            key={stash.index}
+                            stash={stash}
+                            tabIndex={i === focusedIndex ? 0 : -1}
+                            isFocused={i === focusedIndex}
+                        />
+                    ))}
+
+                    {!loading && !searchQuery && <DroppedStashes />}
+                </div>
+            )}
 
             {/* Footer */}
-            {stashes.length > 0 && (
+            {!contentQuery && stashes.length > 0 && (
                 <div className="px-3 py-1.5 border-t border-border flex items-center justify-between text-[11px] opacity-50">
                     <span>
                         {stashes.length} stash{stashes.length !== 1 ? 'es' : ''}
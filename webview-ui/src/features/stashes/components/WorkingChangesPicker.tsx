@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { useStashStore, type WorkingFileData } from '../store';
+import { postMessage } from '@/vscode';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+
+/**
+ * Per-file selection: `'all'` stashes the whole file, a Set stashes only
+ * the hunks with those ids. Files absent from the map are left alone.
+ */
+export type WorkingSelection = Map<string, 'all' | Set<string>>;
+
+const statusColor: Record<WorkingFileData['status'], string> = {
+    M: 'text-modified',
+    A: 'text-added',
+    D: 'text-deleted',
+    R: 'text-accent',
+    C: 'text-added',
+    '?': 'text-added',
+};
+
+/** Only plain modifications can be split into hunks */
+const canPickHunks = (file: WorkingFileData) => file.status === 'M';
+
+/** Partial stash picker — choose whole files or individual hunks to stash */
+export const WorkingChangesPicker: React.FC<{
+    selection: WorkingSelection;
+    onChange: (selection: WorkingSelection) => void;
+}> = ({ selection, onChange }) => {
+    const files = useStashStore((s) => s.workingChanges);
+    const workingHunks = useStashStore((s) => s.workingHunks);
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+    if (files === null) {
+        return <div className="text-[11px] opacity-50 px-1 py-1">Loading changes…</div>;
+    }
+    if (files.length === 0) {
+        return <div className="text-[11px] opacity-50 px-1 py-1">No uncommitted changes</div>;
+    }
+
+    const update = (path: string, value: 'all' | Set<string> | undefined) => {
+        const next = new Map(selection);
+        if (value === undefined || (value instanceof Set && value.size === 0)) {
+            next.delete(path);
+        } else {
+            next.set(path, value);
+        }
+        onChange(next);
+    };
+
+    const toggleExpanded = (path: string) => {
+        const next = new Set(expanded);
+        if (next.has(path)) {
+            next.delete(path);
+        } else {
+            next.add(path);
+            if (!workingHunks.has(path)) {
+                postMessage('getWorkingFileHunks', { filePath: path });
+            }
+        }
+        setExpanded(next);
+    };
+
+    const toggleHunk = (path: string, hunkId: string, checked: boolean) => {
+        const hunks = workingHunks.get(path) ?? [];
+        const current = selection.get(path);
+        const ids = current === 'all' ? new Set(hunks.map((h) => h.id)) : new Set(current ?? []);
+        if (checked) {
+            ids.add(hunkId);
+        } else {
+            ids.delete(hunkId);
+        }
+        update(path, hunks.length > 0 && ids.size === hunks.length ? 'all' : ids);
+    };
+
+    const allSelected = files.every((f) => selection.get(f.path) === 'all');
+
+    return (
+        <div className="flex flex-col gap-0.5 max-h-60 overflow-y-auto">
+            <div className="flex items-center justify-between px-1 text-[11px] opacity-70">
+                <span>
+                    {selection.size} of {files.length} file{files.length !== 1 ? 's' : ''}
+                </span>
+                <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-[11px]"
+                    onClick={() =>
+                        onChange(
+                            allSelected
+                                ? new Map()
+                                : new Map(files.map((f) => [f.path, 'all' as const])),
+                        )
+                    }
+                >
+                    {allSelected ? 'Select None' : 'Select All'}
+                </Button>
+            </div>
+            {files.map((file) => {
+                const sel = selection.get(file.path);
+                const hunks = workingHunks.get(file.path);
+                const isExpanded = expanded.has(file.path);
+                return (
+                    <div key={file.path}>
+                        <div className="flex items-center gap-1.5 px-1 py-0.5 rounded hover:bg-hover text-[12px] font-mono">
+                            {canPickHunks(file) ? (
+                                <Button
+                                    variant="ghost"
+                                    size="icon-xs"
+                                    onClick={() => toggleExpanded(file.path)}
+                                    title={isExpanded ? 'Hide hunks' : 'Pick hunks'}
+                                >
+                                    {isExpanded ? (
+                                        <ChevronDown size={12} />
+                                    ) : (
+                                        <ChevronRight size={12} />
+                                    )}
+                                </Button>
+                            ) : (
+                                <span className="w-6 shrink-0" />
+                            )}
+                            <Checkbox
+                                checked={sel === 'all'}
+                                indeterminate={sel instanceof Set}
+                                onCheckedChange={(checked) =>
+                                    update(file.path, checked ? 'all' : undefined)
+                                }
+                            />
+                            <span
+                                className={`w-3 text-center text-[10px] font-bold shrink-0 ${statusColor[file.status]}`}
+                            >
+                                {file.status === '?' ? 'U' : file.status}
+                            </span>
+                            <span className="truncate">{file.path}</span>
+                        </div>
+                        {isExpanded && (
+                            <div className="pl-12 flex flex-col gap-0.5">
+                                {!hunks && (
+                                    <div className="text-[11px] opacity-50 py-0.5">
+                                        Loading hunks…
+                                    </div>
+                                )}
+                                {hunks?.map((hunk) => {
+                                    const firstChange =
+                                        hunk.lines.find(
+                                            (l) => l.startsWith('+') || l.startsWith('-'),
+                                        ) ?? '';
+                                    return (
+                                        <div
+                                            key={hunk.id}
+                                            className="flex items-start gap-1.5 py-0.5 text-[11px] font-mono"
+                                        >
+                                            <Checkbox
+                                                checked={
+                                                    sel === 'all' ||
+                                                    (sel instanceof Set && sel.has(hunk.id))
+                                                }
+                                                onCheckedChange={(checked) =>
+                                                    toggleHunk(file.path, hunk.id, checked)
+                                                }
+                                            />
+                                            <div className="min-w-0">
+                                                <div className="opacity-60">{hunk.header}</div>
+                                                <div className="truncate opacity-80">
+                                                    {firstChange}
+                                                </div>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
@@ -3,7 +3,18 @@
  *
  * Returns a handler function to be called from the central App message dispatcher.
  */
-import { useStashStore, type StashData } from './store';
+import {
+    useStashStore,
+    type DroppedStashData,
+    type StashApplyRiskData,
+    type StashConflictData,
+    type StashContentMatchData,
+    type StashData,
+    type WorkingFileData,
+    type WorkingHunkData,
+} from './store';
+import { useAppStore } from '@/appStore';
+import { postMessage } from '@/vscode';
 
 type Msg = { type: string; [key: string]: unknown };
 
@@ -19,7 +30,36 @@ export function handleStashMessage(msg: Msg): boolean {
             s.setLoading(true);
             return true;
         case 'fileDiff':
-            s.setFileDiff(msg.key as string, msg.diff as string);
+            // A diff for a base the user has since switched away from is stale
+            if ((msg.base ?? 'parent') === s.diffBase) {
+                s.setFileDiff(msg.key as string, msg.diff as string);
+            }
+            return true;
+        case 'stashApplyRisks':
+            s.setApplyRisks(msg.sha as string, msg.risks as StashApplyRiskData[]);
+            return true;
+        case 'stashContentResults':
+            // Results for a query the user has since edited are stale
+            if (s.searchContents && msg.query === s.searchQuery.trim()) {
+                s.setContentResults(msg.results as StashContentMatchData[]);
+            }
+            return true;
+        case 'workingChanges':
+            s.setWorkingChanges(msg.files as WorkingFileData[]);
+            return true;
+        case 'workingFileHunks':
+            s.setWorkingHunks(msg.filePath as string, msg.hunks as WorkingHunkData[]);
+            return true;
+        case 'stashConflicts':
+            s.setConflict((msg.conflict as StashConflictData | null) ?? null);
+            return true;
+        case 'droppedStashes':
+            s.setDroppedStashes(msg.stashes as DroppedStashData[]);
+            return true;
+        // ─── Deep-link: show the conflict panel ───
+        case 'openStashConflicts':
+            useAppStore.getState().setActiveTab('stashes');
+            postMessage('getConflicts');
             return true;
         default:
             return false;
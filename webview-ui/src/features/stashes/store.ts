@@ -15,10 +15,15 @@ export interface StashFileNumstat {
 export interface StashData {
     index: number;
     name: string;
+    sha: string;
     branch: string;
     message: string;
     date: string;
     relativeDate: string;
+    /** Metadata sidecar (git notes) — empty/false when none is set */
+    tags: string[];
+    description: string;
+    pinned: boolean;
     stats?: {
         filesChanged: number;
         insertions: number;
@@ -28,6 +33,71 @@ export interface StashData {
     numstat?: StashFileNumstat[];
 }
 
+/** A file with uncommitted changes, offered by the partial-stash picker */
+export interface WorkingFileData {
+    path: string;
+    status: 'M' | 'A' | 'D' | 'R' | 'C' | '?';
+}
+
+/** A single diff hunk of a working file (id is stable for an unchanged tree) */
+export interface WorkingHunkData {
+    id: string;
+    filePath: string;
+    header: string;
+    lines: string[];
+}
+
+/** Conflicts left by a stash apply/pop, tracked by the extension */
+export interface StashConflictData {
+    stashIndex: number;
+    stashName: string;
+    stashSha: string;
+    operation: 'apply' | 'pop';
+    files: string[];
+}
+
+/** What file diffs in the detail pane compare the stash against */
+export type StashDiffBase = 'parent' | 'head' | 'working';
+
+/** A file of the selected stash that would not apply cleanly onto today's code */
+export interface StashApplyRiskData {
+    path: string;
+    reason: 'conflict' | 'localChanges';
+}
+
+/** A changed line inside a stash diff that matched a content search */
+export interface StashContentMatchData {
+    stashIndex: number;
+    stashName: string;
+    sha: string;
+    message: string;
+    filePath: string;
+    hunkHeader: string;
+    text: string;
+    kind: 'added' | 'removed';
+    /** Line number on the side of the diff the line belongs to */
+    line: number;
+    stashLine: number;
+}
+
+/** The line of an expanded file diff to scroll to and highlight */
+export interface DiffHighlight {
+    /** `<stash index>:<path>`, as for `fileDiffs` */
+    key: string;
+    kind: StashContentMatchData['kind'];
+    line: number;
+}
+
+/** A dropped stash commit git has not garbage-collected yet */
+export interface DroppedStashData {
+    sha: string;
+    subject: string;
+    branch: string;
+    message: string;
+    date: string;
+    relativeDate: string;
+}
+
 interface StashStore {
     stashes: StashData[];
     /**
@@ -39,6 +109,10 @@ interface StashStore {
     expandedIndices: Set<number>;
     loading: boolean;
     searchQuery: string;
+    /** Search the text of stashed changes instead of filtering the list */
+    searchContents: boolean;
+    /** Content search results (null = searching) */
+    contentResults: StashContentMatchData[] | null;
     showCreateForm: boolean;
 
     // Detail pane state
@@ -46,10 +120,27 @@ interface StashStore {
     fileDiffs: Map<string, string>;
     fileDiffLoading: Set<string>;
     expandedDetailFiles: Set<string>;
+    diffBase: StashDiffBase;
+    /** Apply risks of the selected stash, keyed by path (null = not checked) */
+    applyRisks: Map<string, StashApplyRiskData['reason']> | null;
+    diffHighlight: DiffHighlight | null;
+
+    // Partial stash picker state (null = not loaded yet)
+    workingChanges: WorkingFileData[] | null;
+    workingHunks: Map<string, WorkingHunkData[]>;
+
+    // Conflict assistant state (null = nothing to resolve)
+    conflict: StashConflictData | null;
+
+    // Recently dropped stashes (null = not scanned yet)
+    droppedStashes: DroppedStashData[] | null;
 
     setStashes: (stashes: StashData[]) => void;
     setLoading: (loading: boolean) => void;
     setSearchQuery: (query: string) => void;
+    setSearchContents: (on: boolean) => void;
+    setContentResults: (results: StashContentMatchData[] | null) => void;
+    openContentMatch: (match: StashContentMatchData) => void;
     toggleExpanded: (index: number) => void;
     setShowCreateForm: (show: boolean) => void;
     filteredStashes: () => StashData[];
@@ -60,7 +151,16 @@ interface StashStore {
     setFileDiff: (key: string, diff: string) => void;
     setFileDiffLoading: (key: string, loading: boolean) => void;
     toggleDetailFile: (key: string) => void;
+    setDiffBase: (base: StashDiffBase) => void;
+    setApplyRisks: (sha: string, risks: StashApplyRiskData[]) => void;
     selectedStash: () => StashData | undefined;
+
+    // Partial stash picker actions
+    setWorkingChanges: (files: WorkingFileData[] | null) => void;
+    setWorkingHunks: (filePath: string, hunks: WorkingHunkData[]) => void;
+
+    setConflict: (conflict: StashConflictData | null) => void;
+    setDroppedStashes: (dropped: DroppedStashData[] | null) => void;
 }
 
 export const useStashStore = create<StashStore>((set, get) => ({
@@ -68,6 +168,8 @@ export const useStashStore = create<StashStore>((set, get) => ({
     expandedIndices: new Set(),
     loading: true,
     searchQuery: '',
+    searchContents: false,
+    contentResults: null,
     showCreateForm: false,
 
     // Detail pane state
@@ -75,6 +177,16 @@ export const useStashStore = create<StashStore>((set, get) => ({
     fileDiffs: new Map(),
     fileDiffLoading: new Set(),
     expandedDetailFiles: new Set(),
+    diffBase: 'parent',
+    applyRisks: null,
+    diffHighlight: null,
+
+    workingChanges: null,
+    workingHunks: new Map(),
+
+    conflict: null,
+
+    droppedStashes: null,
 
     setStashes: (stashes) => {
         const { selectedStashIndex } = get();
@@ -91,11 +203,30 @@ export const useStashStore = create<StashStore>((set, get) => ({
                       fileDiffs: new Map(),
                       fileDiffLoading: new Set(),
                       expandedDetailFiles: new Set(),
+                      applyRisks: null,
+                      diffHighlight: null,
                   }),
         });
     },
     setLoading: (loading) => set({ loading }),
     setSearchQuery: (searchQuery) => set({ searchQuery }),
+    setSearchContents: (searchContents) => set({ searchContents, contentResults: null }),
+    setContentResults: (contentResults) => set({ contentResults }),
+
+    // Matches come from the stash's own diff, so show it against its parent
+    openContentMatch: (match) => {
+        const stash = get().stashes.find((s) => s.sha === match.sha);
+        if (!stash) {
+            return;
+        }
+        const key = `${stash.index}:${match.filePath}`;
+        get().selectStash(stash.index);
+        get().setDiffBase('parent');
+        set((state) => ({
+            expandedDetailFiles: new Set(state.expandedDetailFiles).add(key),
+            diffHighlight: { key, kind: match.kind, line: match.line },
+        }));
+    },
     setShowCreateForm: (show) => set({ showCreateForm: show }),
 
     toggleExpanded: (index) =>
@@ -112,12 +243,19 @@ export const useStashStore = create<StashStore>((set, get) => ({
     filteredStashes: () => {
         const { stashes, searchQuery } = get();
         if (!searchQuery.trim()) {return stashes;}
-        const q = searchQuery.toLowerCase();
+        const q = searchQuery.trim().toLowerCase();
+        // "#tag" matches tags only
+        if (q.startsWith('#') && q.length > 1) {
+            const tag = q.slice(1);
+            return stashes.filter((s) => s.tags.some((t) => t.toLowerCase() === tag));
+        }
         return stashes.filter(
             (s) =>
                 s.message.toLowerCase().includes(q) ||
                 s.branch.toLowerCase().includes(q) ||
                 s.name.toLowerCase().includes(q) ||
+                s.description.toLowerCase().includes(q) ||
+                s.tags.some((t) => t.toLowerCase().includes(q)) ||
                 s.files.some((f) => f.path.toLowerCase().includes(q)),
         );
     },
@@ -134,6 +272,8 @@ export const useStashStore = create<StashStore>((set, get) => ({
                 fileDiffs: new Map(),
                 fileDiffLoading: new Set(),
                 expandedDetailFiles: new Set(),
+                applyRisks: null,
+                diffHighlight: null,
             };
         }),
 
@@ -143,6 +283,8 @@ export const useStashStore = create<StashStore>((set, get) => ({
             fileDiffs: new Map(),
             fileDiffLoading: new Set(),
             expandedDetailFiles: new Set(),
+            applyRisks: null,
+            diffHighlight: null,
         }),
 
     setFileDiff: (key, diff) =>
@@ -176,9 +318,44 @@ export const useStashStore = create<StashStore>((set, get) => ({
             return { expandedDetailFiles: next };
         }),
 
+    // Cached diffs belong to the old base; expanded files are re-fetched by the detail pane
+    setDiffBase: (base) =>
+        set((state) =>
+            state.diffBase === base
+                ? {}
+                : {
+                      diffBase: base,
+                      fileDiffs: new Map(),
+                      fileDiffLoading: new Set(),
+                      applyRisks: null,
+                  },
+        ),
+
+    // Ignore late answers for a stash that is no longer selected
+    setApplyRisks: (sha, risks) => {
+        if (get().selectedStash()?.sha !== sha) {
+            return;
+        }
+        set({ applyRisks: new Map(risks.map((r) => [r.path, r.reason])) });
+    },
+
     selectedStash: () => {
         const { stashes, selectedStashIndex } = get();
         if (selectedStashIndex === null) {return undefined;}
         return stashes.find((s) => s.index === selectedStashIndex);
     },
+
+    setWorkingChanges: (files) =>
+        // A fresh file list invalidates any hunks fetched for the previous one
+        set({ workingChanges: files, workingHunks: new Map() }),
+
+    setWorkingHunks: (filePath, hunks) =>
+        set((state) => {
+            const next = new Map(state.workingHunks);
+            next.set(filePath, hunks);
+            return { workingHunks: next };
+        }),
+
+    setConflict: (conflict) => set({ conflict }),
+    setDroppedStashes: (droppedStashes) => set({ droppedStashes }),
 }));
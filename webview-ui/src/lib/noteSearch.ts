@@ -0,0 +1,319 @@
+/**
+ * Tags, virtual folders and ranked full-text search for Gist Notes — the
+ * webview's copy of the extension's `noteSearch`, over notes as the webview
+ * receives them (dates as ISO strings).
+ *
+ * A search is free text plus optional filters:
+ *
+ * - `#tag` or `tag:tag` — notes with that tag
+ * - `is:public` / `is:secret` — by visibility
+ * - `in:Work/Incidents` — notes in that folder or below it
+ * - `after:2026-01-31` / `before:2w` — by last update, as a date or an age
+ *   in days (`d`), weeks (`w`) or months (`m`)
+ * - `"exact phrase"` — must appear as written
+ *
+ * Every word must match the start of a word in the title, tags, folder or
+ * content. Matches in the title count most, then tags and folder, then the
+ * content; rarer words count more than common ones.
+ */
+
+export interface SearchableNote {
+    id: string;
+    title: string;
+    content: string;
+    tags: string[];
+    folder: string | null;
+    isPublic: boolean;
+    /** ISO date */
+    updatedAt: string;
+}
+
+/** A search query split into its words and filters. */
+export interface NoteQuery {
+    /** Lowercased words, matched as word prefixes */
+    terms: string[];
+    /** Lowercased quoted phrases, matched as substrings */
+    phrases: string[];
+    tags: string[];
+    visibility?: 'public' | 'secret';
+    folder?: string;
+    after?: Date;
+    before?: Date;
+}
+
+export interface NoteSearchResult<T extends SearchableNote> {
+    note: T;
+    score: number;
+    /** The content line of the first match, if the content matched */
+    excerpt?: string;
+}
+
+/** Weight of a word by the field it appears in */
+const FIELD_WEIGHTS = { title: 3, tags: 2, folder: 2, content: 1 } as const;
+
+/** A word matching only the start of an indexed word counts this much of a full match */
+const PREFIX_WEIGHT = 0.5;
+
+/** Longest excerpt returned with a result */
+const MAX_EXCERPT = 120;
+
+const WORD = /[\p{L}\p{N}_]+/gu;
+const QUERY_TOKEN = /(?:(\w+):)?(?:"([^"]*)"?|(\S+))/g;
+
+function words(text: string): string[] {
+    return text.toLowerCase().match(WORD) ?? [];
+}
+
+/**
+ * Tags as stored: without "#", lowercase, spaces as "-", each once, sorted.
+ * Tags may nest with "/" (`project/alpha`).
+ */
+export function normalizeTags(tags: readonly string[]): string[] {
+    const normalized = tags
+        .map((t) =>
+            t
+                .trim()
+                .replace(/^#+/, '')
+                .toLowerCase()
+                .replace(/\s+/g, '-'),
+        )
+        .filter((t) => t.length > 0);
+    return [...new Set(normalized)].sort();
+}
+
+/** A folder path as stored: segments trimmed, no empty segments; null for the top level. */
+export function normalizeFolder(folder: string): string | null {
+    const segments = folder
+        .split('/')
+        .map((s) => s.trim())
+        .filter((s) => s.length > 0);
+    return segments.length > 0 ? segments.join('/') : null;
+}
+
+/** Whether `folder` is `ancestor` or lies below it (case-insensitively). */
+export function inFolder(folder: string | null, ancestor: string): boolean {
+    if (!folder) {
+        return false;
+    }
+    const a = ancestor.toLowerCase();
+    const f = folder.toLowerCase();
+    return f === a || f.startsWith(`${a}/`);
+}
+
+/** `value` as a date: `YYYY-MM-DD`, or an age like `7d`, `2w`, `3m` before `now`. */
+function parseDate(value: string, now: Date): Date | undefined {
+    const age = value.match(/^(\d+)([dwm])$/i);
+    if (age) {
+        const date = new Date(now);
+        const n = Number(age[1]);
+        const unit = age[2].toLowerCase();
+        if (unit === 'm') {
+            date.setMonth(date.getMonth() - n);
+        } else {
+            date.setDate(date.getDate() - (unit === 'w' ? n * 7 : n));
+        }
+        return date;
+    }
+    const date = new Date(value);
+    return /^\d{4}-\d{2}(-\d{2})?/.test(value) && !isNaN(date.getTime()) ? date : undefined;
+}
+
+/** Split a search into words and filters. Unknown `key:value` tokens are searched as text. */
+export function parseNoteQuery(query: string, now = new Date()): NoteQuery {
+    const parsed: NoteQuery = { terms: [], phrases: [], tags: [] };
+    for (const [token, key, phrase, word] of query.matchAll(QUERY_TOKEN)) {
+        const value = phrase ?? word ?? '';
+        const filter = key?.toLowerCase();
+        if (filter === 'tag' || (!key && word?.startsWith('#') && word.length > 1)) {
+            parsed.tags.push(...normalizeTags([value]));
+        } else if (filter === 'is' && (value === 'public' || value === 'secret')) {
+            parsed.visibility = value;
+        } else if (filter === 'in' && value) {
+            parsed.folder = normalizeFolder(value) ?? undefined;
+        } else if ((filter === 'after' || filter === 'before') && parseDate(value, now)) {
+            parsed[filter] = parseDate(value, now);
+        } else if (phrase !== undefined && !key) {
+            if (phrase.trim()) {
+                parsed.phrases.push(phrase.toLowerCase());
+                parsed.terms.push(...words(phrase));
+            }
+        } else {
+            parsed.terms.push(...words(token));
+        }
+    }
+    parsed.terms = [...new Set(parsed.terms)];
+    return parsed;
+}
+
+/** Whether a query has anything to search or filter by. */
+export function isEmptyQuery(query: NoteQuery): boolean {
+    return (
+        query.terms.length === 0 &&
+        query.phrases.length === 0 &&
+        query.tags.length === 0 &&
+        !query.visibility &&
+        !query.folder &&
+        !query.after &&
+        !query.before
+    );
+}
+
+/** Whether a note passes the filters of `query` (its words are not checked). */
+function passesFilters(note: SearchableNote, query: NoteQuery): boolean {
+    if (query.tags.some((t) => !note.tags.includes(t))) {
+        return false;
+    }
+    if (query.visibility && note.isPublic !== (query.visibility === 'public')) {
+        return false;
+    }
+    if (query.folder && !inFolder(note.folder, query.folder)) {
+        return false;
+    }
+    const updated = Date.parse(note.updatedAt);
+    if (query.after && updated < query.after.getTime()) {
+        return false;
+    }
+    return !(query.before && updated > query.before.getTime());
+}
+
+/** The indexed text of one note, kept to tell when it needs re-indexing. */
+interface IndexedNote<T> {
+    note: T;
+    key: string;
+    /** Weighted occurrences of each word */
+    weights: Map<string, number>;
+    /** Lowercased title and content, for phrases */
+    text: string;
+}
+
+function indexKey(note: SearchableNote): string {
+    return [note.title, note.tags.join(','), note.folder ?? '', note.content].join('\0');
+}
+
+function indexNote<T extends SearchableNote>(note: T): IndexedNote<T> {
+    const weights = new Map<string, number>();
+    const add = (text: string, weight: number) => {
+        for (const word of words(text)) {
+            weights.set(word, (weights.get(word) ?? 0) + weight);
+        }
+    };
+    add(note.title, FIELD_WEIGHTS.title);
+    add(note.tags.join(' '), FIELD_WEIGHTS.tags);
+    add(note.folder ?? '', FIELD_WEIGHTS.folder);
+    add(note.content, FIELD_WEIGHTS.content);
+    return {
+        note,
+        key: indexKey(note),
+        weights,
+        text: `${note.title}\n${note.content}`.toLowerCase(),
+    };
+}
+
+/** The first content line containing one of `terms`. */
+function findExcerpt(content: string, terms: readonly string[]): string | undefined {
+    for (const line of content.split('\n')) {
+        const lineWords = words(line);
+        if (terms.some((t) => lineWords.some((w) => w.startsWith(t)))) {
+            const trimmed = line.trim();
+            return trimmed.length > MAX_EXCERPT ? `${trimmed.slice(0, MAX_EXCERPT - 1)}…` : trimmed;
+        }
+    }
+    return undefined;
+}
+
+/** Weighted occurrences of `term` in a note — whole words fully, word prefixes in part. */
+function termWeight(indexed: IndexedNote<SearchableNote>, term: string): number {
+    let weight = 0;
+    for (const [word, w] of indexed.weights) {
+        if (word === term) {
+            weight += w;
+        } else if (word.startsWith(term)) {
+            weight += w * PREFIX_WEIGHT;
+        }
+    }
+    return weight;
+}
+
+export class NoteSearchIndex<T extends SearchableNote> {
+    private readonly _notes = new Map<string, IndexedNote<T>>();
+
+    /** Number of notes indexed. */
+    get size(): number {
+        return this._notes.size;
+    }
+
+    /**
+     * Make the index hold exactly `notes`. Only notes whose title, tags,
+     * folder or content changed are re-indexed.
+     */
+    update(notes: readonly T[]): void {
+        const ids = new Set(notes.map((n) => n.id));
+        for (const id of this._notes.keys()) {
+            if (!ids.has(id)) {
+                this._notes.delete(id);
+            }
+        }
+        for (const note of notes) {
+            const indexed = this._notes.get(note.id);
+            if (indexed && indexed.key === indexKey(note)) {
+                indexed.note = note;
+            } else {
+                this._notes.set(note.id, indexNote(note));
+            }
+        }
+    }
+
+    /**
+     * Notes matching `query`, best first. Without words to rank by, the
+     * matching notes come most recently updated first.
+     */
+    search(query: string | NoteQuery, limit = Infinity): NoteSearchResult<T>[] {
+        const parsed = typeof query === 'string' ? parseNoteQuery(query) : query;
+        const candidates = [...this._notes.values()].filter(
+            (i) =>
+                passesFilters(i.note, parsed) && parsed.phrases.every((p) => i.text.includes(p)),
+        );
+
+        const rarity = new Map(parsed.terms.map((t) => [t, this._rarity(t)]));
+        const results: NoteSearchResult<T>[] = [];
+        for (const indexed of candidates) {
+            let score = 0;
+            for (const term of parsed.terms) {
+                const weight = termWeight(indexed, term);
+                if (weight === 0) {
+                    score = -1;
+                    break;
+                }
+                score += Math.log(1 + weight) * (rarity.get(term) ?? 0);
+            }
+            if (score >= 0) {
+                results.push({
+                    note: indexed.note,
+                    score,
+                    excerpt:
+                        parsed.terms.length > 0
+                            ? findExcerpt(indexed.note.content, parsed.terms)
+                            : undefined,
+                });
+            }
+        }
+
+        return results
+            .sort(
+                (a, b) =>
+                    b.score - a.score || Date.parse(b.note.updatedAt) - Date.parse(a.note.updatedAt),
+            )
+            .slice(0, limit);
+    }
+
+    /** How much a match of `term` counts: more the fewer notes contain it. */
+    private _rarity(term: string): number {
+        let containing = 0;
+        for (const indexed of this._notes.values()) {
+            if (termWeight(indexed, term) > 0) {
+                containing++;
+            }
+        }
+        return containing > 0 ? Math.log(1 + this._notes.size / containing) : 0;
+    }
+}
@@ -0,0 +1,110 @@
+/**
+ * Stacked pull requests in the webview — PRs based on the head branch of
+ * another open PR. Mirrors `src/prStacks.ts` (covered by its tests there).
+ */
+
+/** The fields of a pull request stacks are built from. */
+export interface StackPR {
+    number: number;
+    state: string;
+    /** Head branch */
+    branch: string;
+    baseBranch: string;
+    /** `owner/name` of the head repository */
+    headRepo: string | null;
+}
+
+/**
+ * The parent of every stacked PR: the open PR whose head branch it is based
+ * on. Only heads in the repository itself count — a fork's branch of the
+ * same name is not what the base branch refers to.
+ */
+export function stackParents<T extends StackPR>(prs: readonly T[], repoFullName: string): Map<number, T> {
+    const open = prs.filter((pr) => pr.state === 'open');
+    const byHead = new Map<string, T>();
+    for (const pr of open) {
+        if (pr.headRepo?.toLowerCase() === repoFullName.toLowerCase()) {
+            byHead.set(pr.branch, pr);
+        }
+    }
+    const parents = new Map<number, T>();
+    for (const pr of open) {
+        const parent = byHead.get(pr.baseBranch);
+        if (parent && parent.number !== pr.number) {
+            parents.set(pr.number, parent);
+        }
+    }
+    return parents;
+}
+
+/**
+ * The whole stack a PR belongs to, parents before children, starting from
+ * the PR based on a non-PR branch. Empty if the PR is not stacked.
+ */
+export function findStack<T extends StackPR>(prs: readonly T[], prNumber: number, repoFullName: string): T[] {
+    const parents = stackParents(prs, repoFullName);
+    let root = prs.find((pr) => pr.number === prNumber && pr.state === 'open');
+    if (!root) {
+        return [];
+    }
+    const seen = new Set([root.number]);
+    for (let parent = parents.get(root.number); parent && !seen.has(parent.number); parent = parents.get(parent.number)) {
+        seen.add(parent.number);
+        root = parent;
+    }
+    // The root is followed by its descendants, up to the next PR of depth 0
+    const rows = orderByStack(prs, prs, parents);
+    const rootNumber = root.number;
+    const start = rows.findIndex(({ pr }) => pr.number === rootNumber);
+    let end = start + 1;
+    while (end < rows.length && rows[end].depth > 0) {
+        end++;
+    }
+    return end - start > 1 ? rows.slice(start, end).map(({ pr }) => pr) : [];
+}
+
+/**
+ * `prs` with every stacked PR moved right after its parent, with its depth
+ * in the stack — a list that shows stacks as chains. PRs whose parent is
+ * not in `all` stay where they are.
+ */
+export function orderByStack<T extends StackPR>(
+    prs: readonly T[],
+    all: readonly T[],
+    parents: Map<number, T>,
+): { pr: T; depth: number }[] {
+    const children = new Map<number, T[]>();
+    for (const pr of all) {
+        const parent = parents.get(pr.number);
+        if (parent) {
+            children.set(parent.number, [...(children.get(parent.number) ?? []), pr]);
+        }
+    }
+    const listed = new Set(prs.map((pr) => pr.number));
+    const result: { pr: T; depth: number }[] = [];
+    const placed = new Set<number>();
+    const place = (pr: T, depth: number) => {
+        if (placed.has(pr.number)) {
+            return;
+        }
+        placed.add(pr.number);
+        result.push({ pr, depth });
+        for (const child of children.get(pr.number) ?? []) {
+            if (listed.has(child.number)) {
+                place(child, depth + 1);
+            }
+        }
+    };
+    for (const pr of prs) {
+        // Children of a listed parent are placed with it
+        const parent = parents.get(pr.number);
+        if (!parent || !listed.has(parent.number) || placed.has(parent.number)) {
+            place(pr, 0);
+        }
+    }
+    // PRs based on each other's heads in a cycle have no root to hang from
+    for (const pr of prs) {
+        place(pr, 0);
+    }
+    return result;
+}
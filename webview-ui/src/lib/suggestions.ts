@@ -0,0 +1,119 @@
+import type MarkdownIt from 'markdown-it';
+
+/**
+ * GitHub suggested changes in the webview. Parsing mirrors
+ * `src/prSuggestions.ts` (covered by its tests there).
+ */
+
+/** Opening fence of a suggestion block: three or more backticks or tildes */
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})\s*suggestion\s*$/;
+
+/** The content of every ```suggestion block in a comment body, in order. */
+export function parseSuggestions(body: string): string[] {
+    const lines = body.split(/\r?\n/);
+    const suggestions: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const open = FENCE_OPEN.exec(lines[i]);
+        if (!open) {
+            continue;
+        }
+        const fence = open[1];
+        const isClose = (l: string) => {
+            const t = l.trim();
+            return t.length >= fence.length && t === fence.charAt(0).repeat(t.length);
+        };
+        const content: string[] = [];
+        let j = i + 1;
+        while (j < lines.length && !isClose(lines[j])) {
+            content.push(lines[j]);
+            j++;
+        }
+        suggestions.push(content.join('\n'));
+        i = j;
+    }
+    return suggestions;
+}
+
+/** The lines a suggestion replaces: the last new-side lines of the comment's diff hunk. */
+export function suggestionOriginalLines(
+    diffHunk: string,
+    startLine: number | null | undefined,
+    line: number,
+): string[] {
+    const count = line - (startLine ?? line) + 1;
+    const newSide = diffHunk
+        .split('\n')
+        .filter((l) => !l.startsWith('@@') && !l.startsWith('-') && !l.startsWith('\\'))
+        .map((l) => l.slice(1));
+    return newSide.slice(Math.max(0, newSide.length - count));
+}
+
+/** A suggestion block pre-filled with the lines to change, ready to edit. */
+export function suggestionFence(lines: string[]): string {
+    // A longer fence keeps backticks in the code from closing the block
+    const longest = Math.max(2, ...lines.map((l) => /`{3,}/.exec(l)?.[0].length ?? 0));
+    const fence = '`'.repeat(longest + 1);
+    return [`${fence}suggestion`, ...lines, fence].join('\n');
+}
+
+/** Render environment of `suggestionBlocks` */
+export interface SuggestionEnv {
+    /** Lines the comment's suggestions replace; shown as the removed side of the diff */
+    suggestionOriginal?: string[];
+    /** Show "Apply suggestion" and "Add to batch" buttons */
+    suggestionActions?: boolean;
+    /** Indices of the comment's suggestions already in the batch */
+    suggestionBatched?: number[];
+}
+
+/**
+ * markdown-it plugin rendering ```suggestion blocks as a mini diff of the
+ * lines they replace. Action buttons carry `data-suggestion-action` and
+ * `data-suggestion-index` — the component showing the Markdown handles
+ * clicks. Indices count top-level suggestion blocks, as `parseSuggestions`
+ * does.
+ */
+export function suggestionBlocks(md: MarkdownIt): void {
+    const fallback = md.renderer.rules.fence;
+
+    md.renderer.rules.fence = (tokens, idx, options, env: SuggestionEnv, self) => {
+        const token = tokens[idx];
+        if (token.info.trim() !== 'suggestion' || token.level !== 0) {
+            return fallback ? fallback(tokens, idx, options, env, self) : self.renderToken(tokens, idx, options);
+        }
+        const index = tokens
+            .slice(0, idx)
+            .filter((t) => t.type === 'fence' && t.level === 0 && t.info.trim() === 'suggestion').length;
+
+        const escape = md.utils.escapeHtml;
+        const content = token.content.replace(/\n$/, '');
+        const added = content === '' ? [] : content.split('\n');
+        const removed = env?.suggestionOriginal ?? [];
+        const row = (cls: string, sign: string, text: string) =>
+            `<div class="${cls}"><span class="suggestion-sign">${sign}</span>${escape(text) || ' '}</div>`;
+        const diff = [
+            ...removed.map((l) => row('suggestion-del', '-', l)),
+            ...added.map((l) => row('suggestion-add', '+', l)),
+        ].join('');
+
+        let actions = '';
+        if (env?.suggestionActions) {
+            const batched = env.suggestionBatched?.includes(index);
+            actions =
+                '<div class="suggestion-actions">' +
+                `<button type="button" data-suggestion-action="apply" data-suggestion-index="${index}">Apply suggestion</button>` +
+                `<button type="button" data-suggestion-action="batch" data-suggestion-index="${index}">${batched ? 'Remove from batch' : 'Add to batch'}</button>` +
+                '</div>';
+        }
+
+        return (
+            '<div class="suggestion-block">' +
+            '<div class="suggestion-header">Suggested change</div>' +
+            (diff
+                ? `<pre class="suggestion-diff"><code>${diff}</code></pre>`
+                : '<div class="suggestion-empty">Deletes the commented lines</div>') +
+            actions +
+            '</div>\n'
+        );
+    };
+}
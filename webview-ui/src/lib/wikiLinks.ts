@@ -0,0 +1,45 @@
+import type MarkdownIt from 'markdown-it';
+
+/** Render environment of `wikiLinks`: the note titles that exist, lowercased */
+export interface WikiLinkEnv {
+    wikiTitles?: Set<string>;
+}
+
+/**
+ * markdown-it plugin for links between Gist Notes: `[[Note Title]]`, or
+ * `[[Note Title|label]]` to show other text. They render as
+ * `<a class="wiki-link" data-wiki-link="Note Title">` — the component showing
+ * the Markdown handles clicks, since only it knows how to open a note. When
+ * the render env lists the existing titles, links to missing notes also get
+ * the `wiki-link-missing` class.
+ */
+export function wikiLinks(md: MarkdownIt): void {
+    md.inline.ruler.before('link', 'wiki_link', (state, silent) => {
+        const start = state.pos;
+        if (!state.src.startsWith('[[', start)) {
+            return false;
+        }
+        const end = state.src.indexOf(']]', start + 2);
+        const match =
+            end > start &&
+            state.src.slice(start + 2, end).match(/^([^[\]|\n]+)(?:\|([^[\]\n]+))?$/);
+        if (!match || !match[1].trim()) {
+            return false;
+        }
+        if (!silent) {
+            const token = state.push('wiki_link', '', 0);
+            token.meta = { target: match[1].trim(), label: (match[2] ?? match[1]).trim() };
+        }
+        state.pos = end + 2;
+        return true;
+    });
+
+    md.renderer.rules.wiki_link = (tokens, idx, _options, env: WikiLinkEnv) => {
+        const { target, label } = tokens[idx].meta as { target: string; label: string };
+        const missing = env?.wikiTitles && !env.wikiTitles.has(target.toLowerCase());
+        const cls = missing ? 'wiki-link wiki-link-missing' : 'wiki-link';
+        const title = missing ? `Create "${target}"` : `Open "${target}"`;
+        const escape = md.utils.escapeHtml;
+        return `<a href="#" class="${cls}" data-wiki-link="${escape(target)}" title="${escape(title)}">${escape(label)}</a>`;
+    };
+}